@@ -1,6 +1,8 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { Connection, PublicKey } from '@solana/web3.js';
 import { PositionMonitor, Position, PositionChange } from '../monitor/positionMonitor';
+import { ApiClient, RiskPolicy } from '../lib/api';
+import { healthThresholdsFor } from '../lib/riskPolicy';
 
 export interface AlertSeverity {
   level: 'warning' | 'critical';
@@ -28,24 +30,27 @@ interface AlertFeedProps {
   connection: Connection;
   heliusApiKey: string;
   watchedAddresses?: string[];
+  // Source of the server's risk policy; without it the server defaults apply
+  apiClient?: ApiClient;
+  policyRefreshMs?: number;
 }
 
-const ALERT_THRESHOLDS = {
-  warning: 1.2,
-  critical: 1.05
-};
-
-const generateAlertFromChange = (change: PositionChange): Alert | null => {
+const generateAlertFromChange = (change: PositionChange, policy: RiskPolicy | null): Alert | null => {
   const { position, changeType, timestamp } = change;
   const { healthFactor, liquidationThreshold, collateral, debt } = position;
+  const thresholds = healthThresholdsFor(policy, {
+    protocol: position.protocol,
+    owner: position.owner.toBase58(),
+    mints: [...collateral, ...debt].map(b => b.mint.toBase58())
+  });
 
   let severity: 'warning' | 'critical' | null = null;
   let message = '';
 
-  if (healthFactor <= ALERT_THRESHOLDS.critical) {
+  if (healthFactor < thresholds.critical) {
     severity = 'critical';
     message = `Critical: Health factor at ${healthFactor.toFixed(3)} - Risk of liquidation`;
-  } else if (healthFactor <= ALERT_THRESHOLDS.warning) {
+  } else if (healthFactor < thresholds.warning) {
     severity = 'warning';
     message = `Warning: Health factor at ${healthFactor.toFixed(3)} - Monitor closely`;
   }
@@ -135,14 +140,38 @@ const AlertItem: React.FC<{ alert: Alert }> = ({ alert }) => {
   );
 };
 
-export default function AlertFeed({ connection, heliusApiKey, watchedAddresses = [] }: AlertFeedProps) {
+export default function AlertFeed({
+  connection,
+  heliusApiKey,
+  watchedAddresses = [],
+  apiClient,
+  policyRefreshMs = 60000
+}: AlertFeedProps) {
   const [alerts, setAlerts] = useState<Alert[]>([]);
   const [monitor, setMonitor] = useState<PositionMonitor | null>(null);
   const [isConnected, setIsConnected] = useState(false);
   const [filterSeverity, setFilterSeverity] = useState<'all' | 'warning' | 'critical'>('all');
+  // A ref so a policy reload doesn't restart the position monitor
+  const policyRef = useRef<RiskPolicy | null>(null);
+
+  useEffect(() => {
+    if (!apiClient) return;
+
+    const loadPolicy = async () => {
+      try {
+        policyRef.current = await apiClient.fetchRiskPolicy();
+      } catch (error) {
+        console.error('Failed to load risk policy:', error);
+      }
+    };
+
+    loadPolicy();
+    const interval = setInterval(loadPolicy, policyRefreshMs);
+    return () => clearInterval(interval);
+  }, [apiClient, policyRefreshMs]);
 
   const handlePositionChange = useCallback((change: PositionChange) => {
-    const alert = generateAlertFromChange(change);
+    const alert = generateAlertFromChange(change, policyRef.current);
     if (alert) {
       setAlerts(prevAlerts => {
         const newAlerts = [alert, ...prevAlerts];
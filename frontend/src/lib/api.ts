@@ -27,6 +27,28 @@ export interface PositionChange {
   timestamp: number;
 }
 
+export type HistoryKind = "position" | "riskScore" | "prediction";
+
+export interface PositionHistoryRecord {
+  kind: HistoryKind;
+  positionId: string;
+  owner: string;
+  protocol: string;
+  timestamp: number;
+  // ApiPosition for position records; the risk score or prediction otherwise
+  data: any;
+}
+
+export interface PositionHistoryPage {
+  positionId: string;
+  from: string;
+  to: string;
+  records: PositionHistoryRecord[];
+  count: number;
+  nextCursor: string | null;
+  timestamp: string;
+}
+
 export interface ApiPosition {
   id: string;
   protocol: "marginfi" | "kamino" | "drift";
@@ -59,15 +81,71 @@ export interface HealthStatus {
   version: string;
 }
 
+export type AlertType = "warning" | "critical" | "prediction" | "info";
+
+export interface AlertAcknowledgement {
+  alertId: string;
+  key: string;
+  acknowledgedBy: string;
+  acknowledgedAt: number;
+  note?: string;
+}
+
 export interface Alert {
   id: string;
-  type: "liquidation_risk" | "health_factor" | "price_alert" | "system";
-  severity: "low" | "medium" | "high" | "critical";
-  title: string;
+  type: AlertType;
+  positionId: string;
+  protocol: string;
   message: string;
-  positionId?: string;
+  data: any;
   timestamp: number;
-  acknowledged: boolean;
+  severity?: number;
+  key?: string;
+  // Wallet targeted by portfolio alerts, which have no single position
+  owner?: string;
+  acknowledged?: boolean;
+  acknowledgement?: AlertAcknowledgement;
+}
+
+export interface AlertsResponse {
+  alerts: Alert[];
+  totalCount: number;
+  timestamp: string;
+}
+
+export interface HealthThresholds {
+  critical: number;
+  warning: number;
+  elevated: number;
+}
+
+export interface RiskThresholds {
+  healthFactor: HealthThresholds;
+  liquidationProbability: number;
+  distanceToLiquidationPercent: { critical: number; warning: number };
+  collateralRatio: { critical: number; warning: number };
+}
+
+export type RiskThresholdOverrides = {
+  [K in keyof RiskThresholds]?: RiskThresholds[K] extends object
+    ? Partial<RiskThresholds[K]>
+    : RiskThresholds[K];
+};
+
+export interface RiskPolicy {
+  revision: number;
+  source: string | null;
+  loadedAt: string;
+  // Env thresholds with the policy file's defaults applied
+  defaults: RiskThresholds;
+  document: {
+    version: 1;
+    defaults: RiskThresholdOverrides;
+    protocols: Record<string, RiskThresholdOverrides>;
+    // Keyed by mint
+    assets: Record<string, RiskThresholdOverrides>;
+    owners: Record<string, RiskThresholdOverrides>;
+  };
 }
 
 export interface ApiResponse<T> {
@@ -232,10 +310,15 @@ export class ApiClient {
     }
   }
 
+  // Served as-is rather than in an ApiResponse envelope; from and to are unix
+  // milliseconds
   async fetchAlerts(filters?: {
-    type?: string;
-    severity?: string;
+    types?: AlertType[];
+    protocol?: string;
     positionId?: string;
+    owner?: string;
+    from?: number;
+    to?: number;
     acknowledged?: boolean;
     limit?: number;
   }): Promise<Alert[]> {
@@ -244,9 +327,12 @@ export class ApiClient {
       const params = new URLSearchParams();
 
       if (filters) {
-        if (filters.type) params.append("type", filters.type);
-        if (filters.severity) params.append("severity", filters.severity);
+        if (filters.types?.length) params.append("type", filters.types.join(","));
+        if (filters.protocol) params.append("protocol", filters.protocol);
         if (filters.positionId) params.append("positionId", filters.positionId);
+        if (filters.owner) params.append("owner", filters.owner);
+        if (filters.from !== undefined) params.append("from", String(filters.from));
+        if (filters.to !== undefined) params.append("to", String(filters.to));
         if (filters.acknowledged !== undefined) params.append("acknowledged", String(filters.acknowledged));
         if (filters.limit) params.append("limit", String(filters.limit));
       }
@@ -255,74 +341,74 @@ export class ApiClient {
         endpoint += `?${params.toString()}`;
       }
 
-      const response = await this.fetchWithRetry<ApiResponse<Alert[]>>(endpoint);
-      
-      if (!response.success || !response.data) {
+      const response = await this.fetchWithRetry<AlertsResponse>(endpoint);
+
+      if (!Array.isArray(response.alerts)) {
         throw new Error("Invalid alerts response");
       }
 
-      return response.data;
+      return response.alerts;
     } catch (error) {
       console.error("[API_CLIENT] Error fetching alerts:", error);
       throw error;
     }
   }
 
-  async acknowledgeAlert(alertId: string): Promise<void> {
+  // Served as-is rather than in an ApiResponse envelope
+  async acknowledgeAlert(
+    alertId: string,
+    acknowledgement: { acknowledgedBy: string; note?: string }
+  ): Promise<Alert> {
     try {
-      const response = await this.fetchWithRetry<ApiResponse<void>>(`/alerts/${alertId}/acknowledge`, {
-        method: "POST",
-      });
-      
-      if (!response.success) {
+      const response = await this.fetchWithRetry<{ alert: Alert; timestamp: string }>(
+        `/alerts/${encodeURIComponent(alertId)}/acknowledge`,
+        {
+          method: "POST",
+          body: JSON.stringify(acknowledgement),
+        }
+      );
+
+      if (!response.alert) {
         throw new Error("Failed to acknowledge alert");
       }
+
+      return response.alert;
     } catch (error) {
       console.error("[API_CLIENT] Error acknowledging alert:", error);
       throw error;
     }
   }
 
-  async createAlert(alert: Omit<Alert, "id" | "timestamp" | "acknowledged">): Promise<Alert> {
+  // Served as-is rather than in an ApiResponse envelope; pass nextCursor back
+  // as cursor for the next page
+  async fetchPositionHistory(
+    positionId: string,
+    options: { limit?: number; cursor?: string; from?: number; to?: number; kinds?: HistoryKind[] } = {}
+  ): Promise<PositionHistoryPage> {
     try {
-      const response = await this.fetchWithRetry<ApiResponse<Alert>>("/alerts", {
-        method: "POST",
-        body: JSON.stringify(alert),
-      });
-      
-      if (!response.success || !response.data) {
-        throw new Error("Invalid create alert response");
-      }
-
-      return response.data;
+      const params = new URLSearchParams();
+      if (options.limit) params.append("limit", options.limit.toString());
+      if (options.cursor) params.append("cursor", options.cursor);
+      if (options.from !== undefined) params.append("from", options.from.toString());
+      if (options.to !== undefined) params.append("to", options.to.toString());
+      if (options.kinds?.length) params.append("kinds", options.kinds.join(","));
+
+      const query = params.toString();
+      return await this.fetchWithRetry<PositionHistoryPage>(
+        `/positions/${encodeURIComponent(positionId)}/history${query ? `?${query}` : ""}`
+      );
     } catch (error) {
-      console.error("[API_CLIENT] Error creating alert:", error);
+      console.error("[API_CLIENT] Error fetching position history:", error);
       throw error;
     }
   }
 
-  async fetchPositionHistory(positionId: string, limit?: number): Promise<PositionChange[]> {
+  // Served as-is rather than in an ApiResponse envelope
+  async fetchRiskPolicy(): Promise<RiskPolicy> {
     try {
-      let endpoint = `/positions/${positionId}/history`;
-      if (limit) {
-        endpoint += `?limit=${limit}`;
-      }
-
-      const response = await this.fetchWithRetry<ApiResponse<PositionChange[]>>(endpoint);
-      
-      if (!response.success || !response.data) {
-        throw new Error("Invalid position history response");
-      }
-
-      return response.data.map(change => ({
-        ...change,
-        position: this.convertApiPositionToPosition(change.position as any),
-        previousPosition: change.previousPosition 
-          ? this.convertApiPositionToPosition(change.previousPosition as any)
-          : undefined,
-      }));
+      return await this.fetchWithRetry<RiskPolicy>("/policy");
     } catch (error) {
-      console.error("[API_CLIENT] Error fetching position history:", error);
+      console.error("[API_CLIENT] Error fetching risk policy:", error);
       throw error;
     }
   }
@@ -0,0 +1,39 @@
+import { HealthThresholds, RiskPolicy, RiskThresholdOverrides } from "./api";
+
+// Server defaults, used until the policy has been fetched
+export const DEFAULT_HEALTH_THRESHOLDS: HealthThresholds = {
+  critical: 1.1,
+  warning: 1.3,
+  elevated: 1.5,
+};
+
+/**
+ * Health factor thresholds for a position, resolved the way the server does:
+ * defaults, then protocol, then each held asset on its own with the highest
+ * value winning, then the owner.
+ */
+export function healthThresholdsFor(
+  policy: RiskPolicy | null,
+  position: { protocol: string; owner: string; mints: string[] }
+): HealthThresholds {
+  if (!policy) return DEFAULT_HEALTH_THRESHOLDS;
+
+  const { protocols, assets, owners } = policy.document;
+  const merge = (...layers: (RiskThresholdOverrides | undefined)[]) =>
+    layers.reduce<HealthThresholds>(
+      (merged, layer) => ({ ...merged, ...layer?.healthFactor }),
+      policy.defaults.healthFactor
+    );
+
+  const mints = position.mints.length > 0 ? position.mints : [undefined];
+  const perAsset = mints.map((mint) =>
+    merge(protocols[position.protocol], mint ? assets[mint] : undefined)
+  );
+  const strictest = perAsset.reduce((a, b) => ({
+    critical: Math.max(a.critical, b.critical),
+    warning: Math.max(a.warning, b.warning),
+    elevated: Math.max(a.elevated, b.elevated),
+  }));
+
+  return { ...strictest, ...owners[position.owner]?.healthFactor };
+}
@@ -0,0 +1,57 @@
+#!/usr/bin/env ts-node
+/**
+ * SENTINEL Backtest
+ *
+ * Scores liquidation predictions against realized outcomes from the recorded
+ * history in SENTINEL_DATA_DIR and prints the calibration report as JSON:
+ * Brier score, calibration curve and precision/recall per protocol and horizon.
+ *
+ * Usage: npx ts-node scripts/backtest.ts [--from 2026-01-01] [--to 2026-01-15]
+ *        [--mode recorded|replay] [--threshold 0.5]
+ */
+
+import path from 'path';
+import dotenv from 'dotenv';
+import { HistoryStore } from '../src/storage/historyStore';
+import { PriceHistoryStore } from '../src/storage/priceHistoryStore';
+import { BACKTEST_MODES, Backtester, BacktestMode } from '../src/risk/backtester';
+
+dotenv.config();
+
+function arg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+async function main() {
+  const dataDir = process.env.SENTINEL_DATA_DIR || './data';
+  const from = arg('from') ? Date.parse(arg('from')!) : undefined;
+  const to = arg('to') ? Date.parse(arg('to')!) : undefined;
+  const mode = arg('mode') as BacktestMode | undefined;
+  const threshold = arg('threshold') ? parseFloat(arg('threshold')!) : undefined;
+
+  if ((from !== undefined && isNaN(from)) || (to !== undefined && isNaN(to))) {
+    throw new Error('--from and --to must be dates');
+  }
+  if (mode && !BACKTEST_MODES.includes(mode)) {
+    throw new Error(`--mode must be one of ${BACKTEST_MODES.join(', ')}`);
+  }
+
+  const backtester = new Backtester(
+    new HistoryStore(path.join(dataDir, 'history')),
+    new PriceHistoryStore(path.join(dataDir, 'prices')),
+    {
+      predictionHorizonMinutes: parseInt(process.env.PREDICTION_HORIZON_MINUTES || '30'),
+      liquidationWarningThreshold: parseFloat(process.env.LIQUIDATION_WARNING_THRESHOLD || '1.3'),
+      criticalHealthThreshold: parseFloat(process.env.CRITICAL_HEALTH_THRESHOLD || '1.1'),
+    }
+  );
+
+  const { report, outcomes } = await backtester.run({ from, to, mode, threshold });
+  console.log(JSON.stringify({ ...report, labeledPredictions: outcomes.length }, null, 2));
+}
+
+main().catch(error => {
+  console.error('[BACKTEST] Failed:', error);
+  process.exit(1);
+});
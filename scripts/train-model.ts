@@ -0,0 +1,83 @@
+#!/usr/bin/env ts-node
+/**
+ * SENTINEL Model Training
+ *
+ * Fits liquidation models on the recorded history in SENTINEL_DATA_DIR: one
+ * per protocol with enough labeled snapshots, plus a 'default' model for the
+ * rest. Each is saved as the next version under SENTINEL_DATA_DIR/models and
+ * served from the next startup. Validation metrics are printed as JSON.
+ *
+ * Usage: npx ts-node scripts/train-model.ts [--from 2026-01-01] [--to 2026-01-31]
+ *        [--horizon 30] [--protocols marginfi,kamino] [--dry-run]
+ */
+
+import path from 'path';
+import dotenv from 'dotenv';
+import { HistoryStore } from '../src/storage/historyStore';
+import { PriceHistoryStore } from '../src/storage/priceHistoryStore';
+import { ModelStore } from '../src/storage/modelStore';
+import { Backtester } from '../src/risk/backtester';
+import { ModelTrainer } from '../src/risk/modelTrainer';
+
+dotenv.config();
+
+function arg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+async function main() {
+  const dataDir = process.env.SENTINEL_DATA_DIR || './data';
+  const from = arg('from') ? Date.parse(arg('from')!) : undefined;
+  const to = arg('to') ? Date.parse(arg('to')!) : undefined;
+  const horizonMinutes = arg('horizon') ? parseInt(arg('horizon')!) : undefined;
+  const protocols = arg('protocols')?.split(',').map(p => p.trim()).filter(Boolean);
+  const dryRun = process.argv.includes('--dry-run');
+
+  if ((from !== undefined && isNaN(from)) || (to !== undefined && isNaN(to))) {
+    throw new Error('--from and --to must be dates');
+  }
+  if (horizonMinutes !== undefined && !(horizonMinutes > 0)) {
+    throw new Error('--horizon must be a positive number of minutes');
+  }
+
+  const riskEngineConfig = {
+    predictionHorizonMinutes: parseInt(process.env.PREDICTION_HORIZON_MINUTES || '30'),
+    liquidationWarningThreshold: parseFloat(process.env.LIQUIDATION_WARNING_THRESHOLD || '1.3'),
+    criticalHealthThreshold: parseFloat(process.env.CRITICAL_HEALTH_THRESHOLD || '1.1'),
+  };
+  const trainer = new ModelTrainer(
+    new Backtester(
+      new HistoryStore(path.join(dataDir, 'history')),
+      new PriceHistoryStore(path.join(dataDir, 'prices')),
+      riskEngineConfig
+    ),
+    riskEngineConfig
+  );
+
+  const { models, skipped, samples } = await trainer.train({ from, to, horizonMinutes, protocols });
+  for (const { protocol, reason } of skipped) {
+    console.warn(`[TRAIN] Skipped ${protocol}: ${reason}`);
+  }
+
+  const store = new ModelStore(path.join(dataDir, 'models'));
+  const summaries = [];
+  for (const model of models) {
+    const saved = dryRun ? model : await store.save(model);
+    summaries.push({
+      protocol: saved.protocol,
+      version: 'version' in saved ? saved.version : null,
+      horizonMinutes: saved.horizonMinutes,
+      samples: saved.samples,
+      positives: saved.positives,
+      validation: saved.validation,
+    });
+  }
+
+  console.log(JSON.stringify({ samples, models: summaries, skipped }, null, 2));
+}
+
+main().catch(error => {
+  console.error('[TRAIN] Failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,50 @@
+import { PublicKey } from '@solana/web3.js';
+import { Position } from '../monitor/positionMonitor';
+import { RiskScore } from '../risk/riskEngine';
+import { AlertSystem } from './alertSystem';
+
+const OWNER = new PublicKey('So11111111111111111111111111111111111111112');
+
+function position(id: string): Position {
+  return { id, protocol: 'marginfi', owner: OWNER, collateral: [], debt: [], healthFactor: 1.2, timestamp: Date.now() };
+}
+
+// Only the fields the warning alert reports
+function riskScore(positionId: string): RiskScore {
+  return {
+    positionId,
+    healthFactor: 1.2,
+    riskLevel: 'medium',
+    collateralRatio: 120,
+    distanceToLiquidation: 10,
+    currentPrice: 150,
+    liquidationPrice: 135,
+  } as RiskScore;
+}
+
+describe('AlertSystem', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('acknowledges an alert until its condition resolves', async () => {
+    const alerts = new AlertSystem();
+    await alerts.sendWarningAlert(position('a'), riskScore('a'));
+    await alerts.sendWarningAlert(position('b'), riskScore('b'));
+    const [warning] = alerts.getAlerts({ positionId: 'a' });
+
+    const acknowledged = alerts.acknowledgeAlert(warning.id, 'ops', 'topping up');
+
+    expect(acknowledged?.acknowledgement).toMatchObject({ key: 'warning-a', acknowledgedBy: 'ops', note: 'topping up' });
+    expect(alerts.getAlerts({ acknowledged: false }).map(alert => alert.positionId)).toEqual(['b']);
+    expect(alerts.getAcknowledgements().map(ack => ack.key)).toEqual(['warning-a']);
+
+    alerts.resolveAlerts('a', ['warning']);
+    expect(alerts.getAcknowledgements()).toEqual([]);
+    expect(alerts.acknowledgeAlert('missing', 'ops')).toBeUndefined();
+  });
+});
@@ -1,16 +1,51 @@
 import axios from 'axios';
 import { Position } from '../monitor/positionMonitor';
 import { RiskScore, LiquidationPrediction } from '../risk/riskEngine';
+import { RemediationPlan } from '../risk/remediationPlanner';
+import { PortfolioRisk } from '../risk/portfolioAggregator';
+import { DepegEvent } from '../risk/correlationEstimator';
+import { RiskPolicy, RiskThresholds } from '../risk/riskPolicy';
+import { symbolForMint } from '../utils/jupiter';
+import { redactError, redactUrl } from '../utils/redact';
+
+export type AlertType = 'warning' | 'critical' | 'prediction' | 'info';
+
+export const ALERT_TYPES: AlertType[] = ['warning', 'critical', 'prediction', 'info'];
 
 export interface Alert {
   id: string;
-  type: 'warning' | 'critical' | 'prediction' | 'info';
+  type: AlertType;
   positionId: string;
   protocol: string;
   message: string;
   data: any;
   timestamp: number;
   severity?: number;
+  // Dedup key shared by repeat alerts for the same condition, e.g. `warning-<positionId>`
+  key?: string;
+  // Wallet targeted by portfolio alerts, which have no single position
+  owner?: string;
+  acknowledged?: boolean;
+  acknowledgement?: AlertAcknowledgement;
+}
+
+export interface AlertAcknowledgement {
+  alertId: string;
+  key: string;
+  acknowledgedBy: string;
+  acknowledgedAt: number;
+  note?: string;
+}
+
+export interface AlertQuery {
+  types?: AlertType[];
+  protocol?: string;
+  positionId?: string;
+  owner?: string;
+  from?: number;
+  to?: number;
+  acknowledged?: boolean;
+  limit?: number;
 }
 
 export interface AlertThresholds {
@@ -18,6 +53,7 @@ export interface AlertThresholds {
   healthFactorCritical: number;
   liquidationProbability: number;
   distanceToLiquidationPercent: number;
+  distanceToLiquidationCriticalPercent: number;
   collateralRatioWarning: number;
   collateralRatioCritical: number;
   priceChangePercent: number;
@@ -109,10 +145,14 @@ export class AlertSystem {
   private webhooks: WebhookConfig[] = [];
   private alertHistory: Alert[] = [];
   private cooldownMap: Map<string, number> = new Map();
+  private acknowledgements: Map<string, AlertAcknowledgement> = new Map();
+  private alertSequence = 0;
+  private alertListeners: ((alert: Alert) => void)[] = [];
   private rateLimitMap: Map<string, number[]> = new Map();
   private webhookStats: Map<string, WebhookStats> = new Map();
   private cooldownMs: number = 60000;
   private thresholds: AlertThresholds;
+  private policy: RiskPolicy | null = null;
   private maxRetries: number = 3;
   private defaultTimeout: number = 10000;
 
@@ -131,6 +171,7 @@ export class AlertSystem {
       healthFactorCritical: 1.1,
       liquidationProbability: 0.7,
       distanceToLiquidationPercent: 10,
+      distanceToLiquidationCriticalPercent: 5,
       collateralRatioWarning: 1.5,
       collateralRatioCritical: 1.2,
       priceChangePercent: 5,
@@ -203,15 +244,29 @@ export class AlertSystem {
     this.thresholds = { ...this.thresholds, ...newThresholds };
   }
 
+  /**
+   * Takes risk thresholds from the policy instead of the fixed defaults. Each
+   * position alert records the thresholds resolved for it under
+   * data.thresholds, and webhook filtering starts from those.
+   */
+  setRiskPolicy(policy: RiskPolicy): void {
+    this.policy = policy;
+  }
+
   getThresholds(): AlertThresholds {
-    return { ...this.thresholds };
+    return { ...this.thresholds, ...(this.policy ? toAlertThresholds(this.policy.resolve()) : {}) };
   }
 
-  private getEffectiveThresholds(webhook?: WebhookConfig): AlertThresholds {
-    if (webhook?.customThresholds) {
-      return { ...this.thresholds, ...webhook.customThresholds };
-    }
-    return this.thresholds;
+  private thresholdsFor(position: Position): Partial<AlertThresholds> | undefined {
+    return this.policy ? toAlertThresholds(this.policy.forPosition(position)) : undefined;
+  }
+
+  private getEffectiveThresholds(webhook?: WebhookConfig, alert?: Alert): AlertThresholds {
+    return {
+      ...this.getThresholds(),
+      ...alert?.data?.thresholds,
+      ...webhook?.customThresholds,
+    };
   }
 
   shouldSendWarning(riskScore: RiskScore, webhook?: WebhookConfig): boolean {
@@ -225,7 +280,7 @@ export class AlertSystem {
     const thresholds = this.getEffectiveThresholds(webhook);
     return riskScore.healthFactor <= thresholds.healthFactorCritical ||
            riskScore.collateralRatio <= thresholds.collateralRatioCritical ||
-           riskScore.distanceToLiquidation <= 5;
+           riskScore.distanceToLiquidation <= thresholds.distanceToLiquidationCriticalPercent;
   }
 
   shouldSendPrediction(prediction: LiquidationPrediction, webhook?: WebhookConfig): boolean {
@@ -237,7 +292,7 @@ export class AlertSystem {
     if (!webhook.enabled) return false;
     if (webhook.alertTypes && !webhook.alertTypes.includes(alert.type)) return false;
     
-    const thresholds = this.getEffectiveThresholds(webhook);
+    const thresholds = this.getEffectiveThresholds(webhook, alert);
     if (alert.type === 'warning' && alert.data.healthFactor > thresholds.healthFactorWarning) return false;
     if (alert.type === 'critical' && alert.data.healthFactor > thresholds.healthFactorCritical) return false;
     if (alert.type === 'prediction' && alert.data.probability < thresholds.liquidationProbability) return false;
@@ -268,13 +323,18 @@ export class AlertSystem {
   async sendWarningAlert(position: Position, riskScore: RiskScore): Promise<void> {
     const alertKey = `warning-${position.id}`;
 
+    if (this.isAcknowledged(alertKey)) {
+      return;
+    }
+
     if (this.isOnCooldown(alertKey)) {
       return;
     }
 
     const alert: Alert = {
-      id: `alert-${Date.now()}`,
+      id: this.nextAlertId(),
       type: 'warning',
+      key: alertKey,
       positionId: position.id,
       protocol: position.protocol,
       message: `⚠️ WARNING: Position health factor dropped to ${riskScore.healthFactor.toFixed(2)}`,
@@ -285,6 +345,7 @@ export class AlertSystem {
         distanceToLiquidation: riskScore.distanceToLiquidation,
         currentPrice: riskScore.currentPrice,
         liquidationPrice: riskScore.liquidationPrice,
+        thresholds: this.thresholdsFor(position),
       },
       timestamp: Date.now(),
       severity: 2,
@@ -294,16 +355,21 @@ export class AlertSystem {
     this.setCooldown(alertKey);
   }
 
-  async sendCriticalAlert(position: Position, riskScore: RiskScore): Promise<void> {
+  async sendCriticalAlert(position: Position, riskScore: RiskScore, remediation?: RemediationPlan | null): Promise<void> {
     const alertKey = `critical-${position.id}`;
 
+    if (this.isAcknowledged(alertKey)) {
+      return;
+    }
+
     if (this.isOnCooldown(alertKey, 30000)) {
       return;
     }
 
     const alert: Alert = {
-      id: `alert-${Date.now()}`,
+      id: this.nextAlertId(),
       type: 'critical',
+      key: alertKey,
       positionId: position.id,
       protocol: position.protocol,
       message: `🚨 CRITICAL: Position at immediate liquidation risk! Health: ${riskScore.healthFactor.toFixed(2)}`,
@@ -314,7 +380,19 @@ export class AlertSystem {
         distanceToLiquidation: riskScore.distanceToLiquidation,
         liquidationPrice: riskScore.liquidationPrice,
         currentPrice: riskScore.currentPrice,
-        estimatedLoss: riskScore.estimatedLoss,
+        thresholds: this.thresholdsFor(position),
+        remediation: remediation?.recommendation
+          ? {
+              targetHealthFactor: remediation.targetHealthFactor,
+              strategy: remediation.recommendation.strategy,
+              description: remediation.recommendation.description,
+              actions: remediation.recommendation.actions,
+              capitalRequiredUsd: remediation.recommendation.capitalRequiredUsd,
+              costUsd: remediation.recommendation.costUsd,
+              projectedHealthFactor: remediation.recommendation.projectedHealthFactor,
+              reachesTarget: remediation.recommendation.reachesTarget,
+            }
+          : undefined,
       },
       timestamp: Date.now(),
       severity: 4,
@@ -327,13 +405,18 @@ export class AlertSystem {
   async sendPredictionAlert(position: Position, prediction: LiquidationPrediction): Promise<void> {
     const alertKey = `prediction-${position.id}`;
 
+    if (this.isAcknowledged(alertKey)) {
+      return;
+    }
+
     if (this.isOnCooldown(alertKey)) {
       return;
     }
 
     const alert: Alert = {
-      id: `alert-${Date.now()}`,
+      id: this.nextAlertId(),
       type: 'prediction',
+      key: alertKey,
       positionId: position.id,
       protocol: position.protocol,
       message: `🔮 PREDICTION: ${(prediction.probability * 100).toFixed(0)}% chance of liquidation in ${prediction.minutesToLiquidation.toFixed(0)} minutes`,
@@ -342,7 +425,7 @@ export class AlertSystem {
         minutesToLiquidation: prediction.minutesToLiquidation,
         confidence: prediction.confidence,
         factors: prediction.factors,
-        priceTarget: prediction.priceTarget,
+        thresholds: this.thresholdsFor(position),
       },
       timestamp: Date.now(),
       severity: 3,
@@ -352,9 +435,86 @@ export class AlertSystem {
     this.setCooldown(alertKey);
   }
 
+  async sendPortfolioAlert(portfolio: PortfolioRisk, breaches: string[]): Promise<void> {
+    const alertKey = `portfolio-${portfolio.owner}`;
+
+    if (this.isAcknowledged(alertKey)) {
+      return;
+    }
+
+    if (this.isOnCooldown(alertKey)) {
+      return;
+    }
+
+    const alert: Alert = {
+      id: this.nextAlertId(),
+      type: 'warning',
+      key: alertKey,
+      positionId: '',
+      protocol: 'portfolio',
+      owner: portfolio.owner,
+      message: `⚠️ PORTFOLIO: ${breaches.join('; ')}`,
+      data: {
+        owner: portfolio.owner,
+        protocols: portfolio.protocols,
+        positionCount: portfolio.positionCount,
+        collateralUsd: portfolio.totals.collateralUsd,
+        debtUsd: portfolio.totals.debtUsd,
+        equityUsd: portfolio.totals.equityUsd,
+        minHealthFactor: portfolio.minHealthFactor,
+        weakestPositionId: portfolio.weakestPositionId,
+        largestAsset: portfolio.concentration.largestAsset,
+        worstCase: portfolio.worstCase,
+        breaches,
+      },
+      timestamp: Date.now(),
+      severity: 2,
+    };
+
+    await this.dispatchAlert(alert);
+    this.setCooldown(alertKey);
+  }
+
+  // positionIds are the watched positions holding or owing the depegged asset
+  async sendDepegAlert(event: DepegEvent, positionIds: string[]): Promise<void> {
+    const alertKey = `depeg-${event.asset}-${event.reference}`;
+
+    if (this.isAcknowledged(alertKey)) {
+      return;
+    }
+
+    if (this.isOnCooldown(alertKey)) {
+      return;
+    }
+
+    const asset = symbolForMint(event.asset) || event.asset;
+    const reference = event.reference === 'USD' ? 'USD' : symbolForMint(event.reference) || event.reference;
+    const direction = event.deviationPercent < 0 ? 'below' : 'above';
+
+    const alert: Alert = {
+      id: this.nextAlertId(),
+      type: event.severity === 'major' ? 'critical' : 'warning',
+      key: alertKey,
+      positionId: '',
+      protocol: 'depeg',
+      message: `${event.severity === 'major' ? '🚨' : '⚠️'} DEPEG: ${asset} ${Math.abs(event.deviationPercent).toFixed(2)}% ${direction} its ${reference} peg`,
+      data: {
+        ...event,
+        assetSymbol: asset,
+        referenceSymbol: reference,
+        exposedPositions: positionIds,
+      },
+      timestamp: Date.now(),
+      severity: event.severity === 'major' ? 4 : 2,
+    };
+
+    await this.dispatchAlert(alert);
+    this.setCooldown(alertKey);
+  }
+
   async sendInfoAlert(message: string, data?: any): Promise<void> {
     const alert: Alert = {
-      id: `alert-${Date.now()}`,
+      id: this.nextAlertId(),
       type: 'info',
       positionId: '',
       protocol: '',
@@ -367,9 +527,9 @@ export class AlertSystem {
     await this.dispatchAlert(alert);
   }
 
-  async sendCustomAlert(type: 'warning' | 'critical' | 'prediction' | 'info', message: string, data: any, positionId?: string, protocol?: string): Promise<void> {
+  async sendCustomAlert(type: AlertType, message: string, data: any, positionId?: string, protocol?: string): Promise<void> {
     const alert: Alert = {
-      id: `alert-${Date.now()}`,
+      id: this.nextAlertId(),
       type: type,
       positionId: positionId || '',
       protocol: protocol || '',
@@ -410,7 +570,7 @@ export class AlertSystem {
       }
     };
 
-    if (alert.severity >= 3) {
+    if ((alert.severity ?? 0) >= 3) {
       embed.thumbnail = {
         url: 'https://raw.githubusercontent.com/mrrobot1999/assets/main/warning-icon.png'
       };
@@ -434,6 +594,14 @@ export class AlertSystem {
       });
     }
 
+    if (alert.owner) {
+      embed.fields.push({
+        name: '👛 Wallet',
+        value: `\`${alert.owner}\``,
+        inline: false
+      });
+    }
+
     if (alert.data.healthFactor !== undefined) {
       const healthStatus = alert.data.healthFactor < 1.1 ? '🔴' : alert.data.healthFactor < 1.3 ? '🟡' : '🟢';
       embed.fields.push({
@@ -503,6 +671,14 @@ export class AlertSystem {
       });
     }
 
+    if (alert.data.remediation) {
+      embed.fields.push({
+        name: '🛠️ Recommended Action',
+        value: `${alert.data.remediation.description} → health ${alert.data.remediation.projectedHealthFactor.toFixed(2)}`,
+        inline: false
+      });
+    }
+
     return { 
       username: 'SENTINEL Bot',
       avatar_url: 'https://raw.githubusercontent.com/mrrobot1999/assets/main/robot-avatar.png',
@@ -522,6 +698,10 @@ export class AlertSystem {
       message += `🏛️ *Protocol:* ${alert.protocol}\n\n`;
     }
 
+    if (alert.owner) {
+      message += `👛 *Wallet:* \`${alert.owner}\`\n\n`;
+    }
+
     if (alert.data.healthFactor !== undefined) {
       const healthStatus = alert.data.healthFactor < 1.1 ? '🔴' : alert.data.healthFactor < 1.3 ? '🟡' : '🟢';
       message += `${healthStatus} *Health Factor:* \`${alert.data.healthFactor.toFixed(4)}\`\n`;
@@ -558,6 +738,10 @@ export class AlertSystem {
       message += `💸 *Estimated Loss:* \`$${alert.data.estimatedLoss.toFixed(2)}\`\n`;
     }
 
+    if (alert.data.remediation) {
+      message += `🛠️ *Recommended Action:* ${alert.data.remediation.description} (health → \`${alert.data.remediation.projectedHealthFactor.toFixed(2)}\`)\n`;
+    }
+
     message += `\n⏱️ *Time:* \`${new Date(alert.timestamp).toISOString()}\``;
     message += `\n\n_SENTINEL • DeFi Position Monitor_`;
     message += `\n_Powered by mrrobot_`;
@@ -566,7 +750,7 @@ export class AlertSystem {
       text: message,
       parse_mode: 'Markdown',
       disable_web_page_preview: true,
-      disable_notification: alert.severity < 3
+      disable_notification: (alert.severity ?? 0) < 3
     };
   }
 
@@ -613,7 +797,7 @@ export class AlertSystem {
       });
       return { success: true, responseTime: Date.now() - startTime };
     } catch (error) {
-      console.error(`Discord webhook error:`, error);
+      console.error(`Discord webhook error:`, redactError(error));
       return { success: false, responseTime: Date.now() - startTime };
     }
   }
@@ -631,7 +815,7 @@ export class AlertSystem {
       });
       return { success: true, responseTime: Date.now() - startTime };
     } catch (error) {
-      console.error(`Telegram webhook error:`, error);
+      console.error(`Telegram webhook error:`, redactError(error));
       return { success: false, responseTime: Date.now() - startTime };
     }
   }
@@ -654,7 +838,7 @@ export class AlertSystem {
       });
       return { success: true, responseTime: Date.now() - startTime };
     } catch (error) {
-      console.error(`Generic webhook error:`, error);
+      console.error(`Generic webhook error:`, redactError(error));
       return { success: false, responseTime: Date.now() - startTime };
     }
   }
@@ -711,6 +895,7 @@ export class AlertSystem {
     if (this.alertHistory.length > 1000) {
       this.alertHistory.shift();
     }
+    this.notifyAlertListeners(alert);
 
     console.log(`\n${'='.repeat(60)}`);
     console.log(`[ALERT] ${alert.type.toUpperCase()} - ${new Date(alert.timestamp).toISOString()}`);
@@ -725,7 +910,7 @@ export class AlertSystem {
     const eligibleWebhooks = this.webhooks.filter(webhook => this.shouldSendToWebhook(alert, webhook));
     
     const sendPromises = eligibleWebhooks.map(async webhook => {
-      const webhookName = webhook.name || webhook.url;
+      const webhookName = webhook.name || redactUrl(webhook.url);
       
       if (this.isRateLimited(webhookName, webhook.rateLimitPerMinute || 10)) {
         console.log(`[ALERT] Rate limit exceeded for webhook: ${webhookName}`);
@@ -758,7 +943,7 @@ export class AlertSystem {
           lastFailure: Date.now(),
           lastSent: Date.now()
         });
-        console.error(`[ALERT] ❌ Failed to send ${webhook.type} webhook (${webhookName}):`, error);
+        console.error(`[ALERT] ❌ Failed to send ${webhook.type} webhook (${webhookName}):`, redactError(error));
       }
     });
 
@@ -768,6 +953,113 @@ export class AlertSystem {
     console.log(`[ALERT] Alert processing completed in ${processingTime}ms`);
   }
 
+  onAlert(listener: (alert: Alert) => void): void {
+    this.alertListeners.push(listener);
+  }
+
+  private notifyAlertListeners(alert: Alert): void {
+    for (const listener of this.alertListeners) {
+      try {
+        listener(alert);
+      } catch (error) {
+        console.error('[ALERT] Error in alert listener:', error);
+      }
+    }
+  }
+
+  getAlerts(query: AlertQuery = {}): Alert[] {
+    const alerts = this.alertHistory.filter(alert => {
+      if (query.types && query.types.length > 0 && !query.types.includes(alert.type)) return false;
+      if (query.protocol && alert.protocol !== query.protocol) return false;
+      if (query.positionId && alert.positionId !== query.positionId) return false;
+      if (query.owner && alert.owner !== query.owner) return false;
+      if (query.from !== undefined && alert.timestamp < query.from) return false;
+      if (query.to !== undefined && alert.timestamp > query.to) return false;
+      if (query.acknowledged !== undefined && !!alert.acknowledged !== query.acknowledged) return false;
+      return true;
+    });
+
+    // Newest first
+    alerts.reverse();
+    return query.limit && query.limit > 0 ? alerts.slice(0, query.limit) : alerts;
+  }
+
+  getAlert(id: string): Alert | undefined {
+    return this.alertHistory.find(alert => alert.id === id);
+  }
+
+  /**
+   * Acknowledges an alert and silences its key until the condition clears
+   * (see resolveAlerts). Returns undefined if the alert is no longer in history.
+   */
+  acknowledgeAlert(id: string, acknowledgedBy: string, note?: string): Alert | undefined {
+    const alert = this.getAlert(id);
+    if (!alert) return undefined;
+
+    const acknowledgement: AlertAcknowledgement = {
+      alertId: alert.id,
+      key: alert.key || alert.id,
+      acknowledgedBy,
+      acknowledgedAt: Date.now(),
+      note,
+    };
+
+    // Mark every alert sharing the key so the history reflects what was silenced
+    for (const other of this.alertHistory) {
+      if (other === alert || (alert.key && other.key === alert.key && !other.acknowledged)) {
+        other.acknowledged = true;
+        other.acknowledgement = acknowledgement;
+      }
+    }
+
+    if (alert.key) {
+      this.acknowledgements.set(alert.key, acknowledgement);
+    }
+
+    console.log(`[ALERT] ${alert.key || alert.id} acknowledged by ${acknowledgedBy}`);
+    return alert;
+  }
+
+  getAcknowledgements(): AlertAcknowledgement[] {
+    return Array.from(this.acknowledgements.values());
+  }
+
+  /**
+   * Called when a position no longer meets an alert condition; the next breach
+   * notifies again even if the previous one was acknowledged.
+   */
+  resolveAlerts(positionId: string, types: AlertType[]): void {
+    for (const type of types) {
+      const key = `${type}-${positionId}`;
+      if (this.acknowledgements.delete(key)) {
+        console.log(`[ALERT] ${key} resolved, acknowledgement cleared`);
+      }
+    }
+  }
+
+  resolvePortfolioAlerts(owner: string): void {
+    const key = `portfolio-${owner}`;
+    if (this.acknowledgements.delete(key)) {
+      console.log(`[ALERT] ${key} resolved, acknowledgement cleared`);
+    }
+  }
+
+  resolveDepegAlert(asset: string, reference: string): void {
+    const key = `depeg-${asset}-${reference}`;
+    if (this.acknowledgements.delete(key)) {
+      console.log(`[ALERT] ${key} resolved, acknowledgement cleared`);
+    }
+  }
+
+  private isAcknowledged(key: string): boolean {
+    return this.acknowledgements.has(key);
+  }
+
+  private nextAlertId(): string {
+    this.alertSequence = (this.alertSequence + 1) % 1000000;
+    return `alert-${Date.now()}-${this.alertSequence}`;
+  }
+
   private isOnCooldown(key: string, customCooldown?: number): boolean {
     const lastAlert = this.cooldownMap.get(key);
     if (!lastAlert) return false;
@@ -784,4 +1076,16 @@ export class AlertSystem {
 
   private setCooldown(key: string, customCooldown?: number): void {
     this.cooldownMap.set(key, Date.now());
-}}
\ No newline at end of file
+}}
+
+function toAlertThresholds(thresholds: RiskThresholds): Partial<AlertThresholds> {
+  return {
+    healthFactorWarning: thresholds.healthFactor.warning,
+    healthFactorCritical: thresholds.healthFactor.critical,
+    liquidationProbability: thresholds.liquidationProbability,
+    distanceToLiquidationPercent: thresholds.distanceToLiquidationPercent.warning,
+    distanceToLiquidationCriticalPercent: thresholds.distanceToLiquidationPercent.critical,
+    collateralRatioWarning: thresholds.collateralRatio.warning,
+    collateralRatioCritical: thresholds.collateralRatio.critical,
+  };
+}
@@ -0,0 +1,74 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { ConfigValidationError, loadConfig } from "./sentinelConfig";
+
+const SECRET_URL = "https://rpc.example.com/?api-key=secret-key";
+
+describe("loadConfig", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "sentinel-config-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  async function writeConfig(contents: string): Promise<string> {
+    const file = path.join(dir, "sentinel.yaml");
+    await fs.writeFile(file, contents);
+    return file;
+  }
+
+  it("lets environment variables override the file, and the file the defaults", async () => {
+    const file = await writeConfig(
+      ["rpcUrl: https://file.example.com", "port: 4000", "predictionHorizonMinutes: 45"].join("\n")
+    );
+
+    const config = await loadConfig({
+      SENTINEL_CONFIG_FILE: file,
+      PORT: "5000",
+      // Empty variables fall through to the file
+      PREDICTION_HORIZON_MINUTES: " ",
+    });
+
+    expect(config.rpcUrl).toBe("https://file.example.com");
+    expect(config.port).toBe(5000);
+    expect(config.predictionHorizonMinutes).toBe(45);
+    expect(config.liquidationWarningThreshold).toBe(1.3);
+  });
+
+  it("reports every problem at once", async () => {
+    const file = await writeConfig(["rpcUrll: https://typo.example.com", "port: 70000"].join("\n"));
+
+    const error = await loadConfig({
+      SENTINEL_CONFIG_FILE: file,
+      CRITICAL_HEALTH_THRESHOLD: "1.5",
+      EXECUTOR_DRY_RUN: "maybe",
+    }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ConfigValidationError);
+    expect(error.issues).toEqual([
+      `${file}: rpcUrll: unknown setting`,
+      `${file}: port: must be at least 1 and at most 65535, got 70000`,
+      "EXECUTOR_DRY_RUN: must be true or false",
+      "criticalHealthThreshold (1.5) must be below liquidationWarningThreshold (1.3)",
+    ]);
+  });
+
+  it("never echoes URLs, which may carry API keys, in its messages", async () => {
+    const error = await loadConfig({
+      SOLANA_RPC_URL: SECRET_URL.replace("https:", "ftp:"),
+      SOLANA_RPC_FALLBACK_URLS: `${SECRET_URL},not a url`,
+    }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ConfigValidationError);
+    expect(error.issues).toEqual([
+      "SOLANA_RPC_URL: must be an http(s) URL",
+      "SOLANA_RPC_FALLBACK_URLS[1]: is not a valid URL",
+    ]);
+    expect(error.message).not.toContain("secret-key");
+  });
+});
@@ -0,0 +1,494 @@
+import { promises as fs } from "fs";
+import path from "path";
+import YAML from "yaml";
+import { ALERT_TYPES, WebhookConfig } from "../alerts/alertSystem";
+import { ModelPins } from "../storage/modelStore";
+
+export interface SentinelConfig {
+  rpcUrl: string;
+  // Tried in order when rpcUrl fails or rate limits
+  rpcFallbackUrls: string[];
+  heliusApiKey?: string;
+  webhooks: WebhookConfig[];
+  liquidationWarningThreshold: number;
+  criticalHealthThreshold: number;
+  predictionHorizonMinutes: number;
+  port?: number;
+  dataDir?: string;
+  historyRetentionDays?: number;
+  priceCandleIntervalMs?: number;
+  pricePollIntervalMs?: number;
+  priceHistoryRetentionDays?: number;
+  priceBackfillFile?: string;
+  priceMaxStalenessMs?: number;
+  priceMaxDeviation?: number;
+  priceMinSources?: number;
+  pollIntervalMs?: number;
+  reconciliationIntervalMs?: number;
+  dependencyRefreshIntervalMs?: number;
+  executorEnabled?: boolean;
+  executorDryRun?: boolean;
+  executorPoliciesFile?: string;
+  executorMaxNotionalPerRunUsd?: number;
+  executorKeypairPath?: string;
+  executorApprovalTimeoutMs?: number;
+  // Bearer token for deciding approvals; without one only localhost may decide
+  executorApprovalToken?: string;
+  portfolioShockPercent?: number;
+  portfolioShortfallAlertPercent?: number;
+  portfolioConcentrationAlertPercent?: number;
+  correlationLookback?: number;
+  correlationDecay?: number;
+  monteCarloPaths?: number;
+  monteCarloSeed?: number;
+  calibrationIntervalMs?: number;
+  calibrationLookbackDays?: number;
+  // Model versions to serve instead of the latest, keyed by mlModels key
+  mlModelVersions?: ModelPins;
+  // YAML or JSON risk policy, reloaded when it changes on disk
+  riskPolicyFile?: string;
+  riskPolicyReloadMs?: number;
+}
+
+export class ConfigValidationError extends Error {
+  issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid configuration:\n  - ${issues.join("\n  - ")}`);
+    this.name = "ConfigValidationError";
+    this.issues = issues;
+  }
+}
+
+type FieldType = "string" | "url" | "number" | "integer" | "boolean";
+
+interface FieldSpec {
+  env: string;
+  type: FieldType;
+  min?: number;
+  max?: number;
+  // Lower bound the value must exceed
+  above?: number;
+}
+
+type ListKey = "rpcFallbackUrls" | "webhooks" | "mlModelVersions";
+type FieldKey = Exclude<keyof SentinelConfig, ListKey>;
+
+const FIELDS: Record<FieldKey, FieldSpec> = {
+  rpcUrl: { env: "SOLANA_RPC_URL", type: "url" },
+  heliusApiKey: { env: "HELIUS_API_KEY", type: "string" },
+  liquidationWarningThreshold: { env: "LIQUIDATION_WARNING_THRESHOLD", type: "number", above: 1 },
+  criticalHealthThreshold: { env: "CRITICAL_HEALTH_THRESHOLD", type: "number", above: 1 },
+  predictionHorizonMinutes: { env: "PREDICTION_HORIZON_MINUTES", type: "integer", min: 1 },
+  port: { env: "PORT", type: "integer", min: 1, max: 65535 },
+  dataDir: { env: "SENTINEL_DATA_DIR", type: "string" },
+  historyRetentionDays: { env: "HISTORY_RETENTION_DAYS", type: "integer", min: 1 },
+  priceCandleIntervalMs: { env: "PRICE_CANDLE_INTERVAL_MS", type: "integer", min: 1000 },
+  pricePollIntervalMs: { env: "PRICE_POLL_INTERVAL_MS", type: "integer", min: 1000 },
+  priceHistoryRetentionDays: { env: "PRICE_HISTORY_RETENTION_DAYS", type: "integer", min: 1 },
+  priceBackfillFile: { env: "PRICE_BACKFILL_FILE", type: "string" },
+  priceMaxStalenessMs: { env: "PRICE_MAX_STALENESS_MS", type: "integer", min: 1 },
+  priceMaxDeviation: { env: "PRICE_MAX_DEVIATION", type: "number", above: 0, max: 1 },
+  priceMinSources: { env: "PRICE_MIN_SOURCES", type: "integer", min: 1 },
+  pollIntervalMs: { env: "POLL_INTERVAL_MS", type: "integer", min: 1000 },
+  reconciliationIntervalMs: { env: "RECONCILIATION_INTERVAL_MS", type: "integer", min: 1000 },
+  dependencyRefreshIntervalMs: { env: "DEPENDENCY_REFRESH_INTERVAL_MS", type: "integer", min: 0 },
+  executorEnabled: { env: "EXECUTOR_ENABLED", type: "boolean" },
+  executorDryRun: { env: "EXECUTOR_DRY_RUN", type: "boolean" },
+  executorPoliciesFile: { env: "EXECUTOR_POLICIES_FILE", type: "string" },
+  executorMaxNotionalPerRunUsd: { env: "EXECUTOR_MAX_NOTIONAL_PER_RUN_USD", type: "number", above: 0 },
+  executorKeypairPath: { env: "EXECUTOR_KEYPAIR_PATH", type: "string" },
+  executorApprovalTimeoutMs: { env: "EXECUTOR_APPROVAL_TIMEOUT_MS", type: "integer", min: 1 },
+  executorApprovalToken: { env: "EXECUTOR_APPROVAL_TOKEN", type: "string" },
+  portfolioShockPercent: { env: "PORTFOLIO_SHOCK_PERCENT", type: "number", above: 0, max: 100 },
+  portfolioShortfallAlertPercent: { env: "PORTFOLIO_SHORTFALL_ALERT_PERCENT", type: "number", above: 0, max: 100 },
+  portfolioConcentrationAlertPercent: {
+    env: "PORTFOLIO_CONCENTRATION_ALERT_PERCENT",
+    type: "number",
+    above: 0,
+    max: 100,
+  },
+  correlationLookback: { env: "CORRELATION_LOOKBACK", type: "integer", min: 2 },
+  correlationDecay: { env: "CORRELATION_DECAY", type: "number", above: 0, max: 1 },
+  monteCarloPaths: { env: "MONTE_CARLO_PATHS", type: "integer", min: 1 },
+  monteCarloSeed: { env: "MONTE_CARLO_SEED", type: "integer" },
+  calibrationIntervalMs: { env: "CALIBRATION_INTERVAL_MS", type: "integer", min: 1000 },
+  calibrationLookbackDays: { env: "CALIBRATION_LOOKBACK_DAYS", type: "integer", min: 1 },
+  riskPolicyFile: { env: "RISK_POLICY_FILE", type: "string" },
+  riskPolicyReloadMs: { env: "RISK_POLICY_RELOAD_MS", type: "integer", min: 100 },
+};
+
+const LIST_ENV: Record<ListKey, string> = {
+  rpcFallbackUrls: "SOLANA_RPC_FALLBACK_URLS",
+  webhooks: "WEBHOOK_URL",
+  mlModelVersions: "ML_MODEL_VERSIONS",
+};
+
+const DEFAULTS: SentinelConfig = {
+  rpcUrl: "https://api.mainnet-beta.solana.com",
+  rpcFallbackUrls: [],
+  webhooks: [],
+  liquidationWarningThreshold: 1.3,
+  criticalHealthThreshold: 1.1,
+  predictionHorizonMinutes: 30,
+  port: 3000,
+  dataDir: "./data",
+  executorEnabled: false,
+  // Live execution has to be asked for explicitly
+  executorDryRun: true,
+};
+
+// Required by SentinelConfig; DEFAULTS fills them all unless a default is removed
+const REQUIRED_KEYS = [
+  "rpcUrl",
+  "rpcFallbackUrls",
+  "webhooks",
+  "liquidationWarningThreshold",
+  "criticalHealthThreshold",
+  "predictionHorizonMinutes",
+] as const;
+
+const WEBHOOK_TYPES: WebhookConfig["type"][] = ["discord", "telegram", "generic"];
+const WEBHOOK_PRIORITIES: NonNullable<WebhookConfig["priority"]>[] = ["low", "medium", "high", "critical"];
+const WEBHOOK_KEYS = [
+  "type",
+  "url",
+  "enabled",
+  "name",
+  "rateLimitPerMinute",
+  "retryAttempts",
+  "timeout",
+  "priority",
+  "alertTypes",
+  "customThresholds",
+];
+
+/**
+ * Builds the configuration from defaults, then the YAML or JSON file named by
+ * SENTINEL_CONFIG_FILE, then environment variables, which win. File keys are
+ * the SentinelConfig field names. Every value is checked and all problems are
+ * reported together in one ConfigValidationError.
+ */
+export async function loadConfig(env: NodeJS.ProcessEnv = process.env): Promise<SentinelConfig> {
+  const file = present(env.SENTINEL_CONFIG_FILE);
+  const fromFile = file ? await readConfigFile(file) : {};
+  const issues: string[] = [];
+  const config: Partial<SentinelConfig> = { ...DEFAULTS };
+  const fileLabel = (key: string) => `${file}: ${key}`;
+
+  const allowed = [...Object.keys(FIELDS), ...Object.keys(LIST_ENV)];
+  for (const key of Object.keys(fromFile)) {
+    if (!allowed.includes(key)) issues.push(`${fileLabel(key)}: unknown setting`);
+  }
+
+  for (const [key, spec] of Object.entries(FIELDS) as [FieldKey, FieldSpec][]) {
+    const envValue = present(env[spec.env]);
+    const value =
+      envValue !== undefined
+        ? checkValue(parseEnvValue(envValue, spec.type), spec, spec.env, issues)
+        : fromFile[key] !== undefined
+          ? checkValue(fromFile[key], spec, fileLabel(key), issues)
+          : undefined;
+    // checkValue has matched the value to the field's spec
+    if (value !== undefined) Object.assign(config, { [key]: value });
+  }
+
+  const fallbacks = present(env[LIST_ENV.rpcFallbackUrls]);
+  config.rpcFallbackUrls =
+    fallbacks !== undefined
+      ? checkUrls(splitList(fallbacks), LIST_ENV.rpcFallbackUrls, issues)
+      : fromFile.rpcFallbackUrls !== undefined
+        ? checkUrls(fromFile.rpcFallbackUrls, fileLabel("rpcFallbackUrls"), issues)
+        : [];
+  if (config.rpcUrl && config.rpcFallbackUrls.includes(config.rpcUrl)) {
+    issues.push("rpcFallbackUrls: repeats rpcUrl");
+  }
+
+  const webhookUrls = present(env[LIST_ENV.webhooks]);
+  config.webhooks =
+    webhookUrls !== undefined
+      ? webhooksFromUrls(checkUrls(splitList(webhookUrls), LIST_ENV.webhooks, issues))
+      : fromFile.webhooks !== undefined
+        ? checkWebhooks(fromFile.webhooks, fileLabel("webhooks"), issues)
+        : [];
+
+  const pins = present(env[LIST_ENV.mlModelVersions]);
+  const pinsValue =
+    pins !== undefined
+      ? checkModelPins(parseModelPins(pins), LIST_ENV.mlModelVersions, issues)
+      : fromFile.mlModelVersions !== undefined
+        ? checkModelPins(fromFile.mlModelVersions, fileLabel("mlModelVersions"), issues)
+        : undefined;
+  if (pinsValue) config.mlModelVersions = pinsValue;
+
+  if (
+    config.criticalHealthThreshold !== undefined &&
+    config.liquidationWarningThreshold !== undefined &&
+    config.criticalHealthThreshold >= config.liquidationWarningThreshold
+  ) {
+    issues.push(
+      `criticalHealthThreshold (${config.criticalHealthThreshold}) must be below ` +
+        `liquidationWarningThreshold (${config.liquidationWarningThreshold})`
+    );
+  }
+
+  for (const key of REQUIRED_KEYS) {
+    if (config[key] === undefined) issues.push(`${key}: is required`);
+  }
+
+  if (issues.length > 0 || !isComplete(config)) {
+    throw new ConfigValidationError(issues);
+  }
+  return config;
+}
+
+function isComplete(config: Partial<SentinelConfig>): config is SentinelConfig {
+  return REQUIRED_KEYS.every((key) => config[key] !== undefined);
+}
+
+async function readConfigFile(file: string): Promise<{ [key: string]: unknown }> {
+  let parsed: unknown;
+  try {
+    const raw = await fs.readFile(file, "utf8");
+    const ext = path.extname(file).toLowerCase();
+    parsed = ext === ".yaml" || ext === ".yml" ? YAML.parse(raw) : JSON.parse(raw);
+  } catch (error) {
+    throw new ConfigValidationError([
+      `could not read ${file}: ${error instanceof Error ? error.message : error}`,
+    ]);
+  }
+
+  if (parsed === null || parsed === undefined) return {};
+  if (typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new ConfigValidationError([`${file} must contain a map of settings`]);
+  }
+  return parsed as { [key: string]: unknown };
+}
+
+// Unset and empty variables both fall through to the file and defaults
+function present(value: string | undefined): string | undefined {
+  return value === undefined || value.trim() === "" ? undefined : value.trim();
+}
+
+function splitList(value: string): string[] {
+  return value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+// Strings from the environment, converted so checkValue sees real types
+function parseEnvValue(value: string, type: FieldType): unknown {
+  switch (type) {
+    case "number":
+    case "integer":
+      return Number(value);
+    case "boolean":
+      return value === "true" || value === "1"
+        ? true
+        : value === "false" || value === "0"
+          ? false
+          : value;
+    default:
+      return value;
+  }
+}
+
+function checkValue(value: unknown, spec: FieldSpec, name: string, issues: string[]): unknown {
+  switch (spec.type) {
+    case "string":
+      if (typeof value !== "string" || value === "") {
+        issues.push(`${name}: must be a non-empty string`);
+        return undefined;
+      }
+      return value;
+    case "url":
+      return checkUrls([value], name, issues)[0];
+    case "boolean":
+      if (typeof value !== "boolean") {
+        issues.push(`${name}: must be true or false`);
+        return undefined;
+      }
+      return value;
+  }
+
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    issues.push(`${name}: must be a number, got ${JSON.stringify(value)}`);
+    return undefined;
+  }
+  if (spec.type === "integer" && !Number.isInteger(value)) {
+    issues.push(`${name}: must be a whole number, got ${value}`);
+    return undefined;
+  }
+  if (
+    (spec.min !== undefined && value < spec.min) ||
+    (spec.above !== undefined && value <= spec.above) ||
+    (spec.max !== undefined && value > spec.max)
+  ) {
+    issues.push(`${name}: must be ${describeRange(spec)}, got ${value}`);
+    return undefined;
+  }
+  return value;
+}
+
+function describeRange(spec: FieldSpec): string {
+  const lower =
+    spec.above !== undefined
+      ? `above ${spec.above}`
+      : spec.min !== undefined
+        ? `at least ${spec.min}`
+        : null;
+  const upper = spec.max !== undefined ? `at most ${spec.max}` : null;
+  return [lower, upper].filter(Boolean).join(" and ");
+}
+
+// Messages never echo the URL itself, which may carry an API key
+function checkUrls(value: unknown, name: string, issues: string[]): string[] {
+  if (!Array.isArray(value)) {
+    issues.push(`${name}: must be a list of URLs`);
+    return [];
+  }
+
+  const urls: string[] = [];
+  value.forEach((entry, index) => {
+    const label = value.length > 1 ? `${name}[${index}]` : name;
+    if (typeof entry !== "string") {
+      issues.push(`${label}: must be a URL`);
+      return;
+    }
+    try {
+      const url = new URL(entry);
+      if (url.protocol !== "https:" && url.protocol !== "http:") {
+        issues.push(`${label}: must be an http(s) URL`);
+        return;
+      }
+      urls.push(entry);
+    } catch {
+      issues.push(`${label}: is not a valid URL`);
+    }
+  });
+  return urls;
+}
+
+function webhooksFromUrls(urls: string[]): WebhookConfig[] {
+  return urls.map((url, index) => ({
+    type: webhookTypeFor(url),
+    url,
+    enabled: true,
+    name: index === 0 ? "default" : `webhook-${index + 1}`,
+    rateLimitPerMinute: 30,
+    retryAttempts: 3,
+    timeout: 10000,
+    priority: "medium",
+    alertTypes: [...ALERT_TYPES],
+  }));
+}
+
+function webhookTypeFor(url: string): WebhookConfig["type"] {
+  const host = new URL(url).hostname;
+  if (host === "api.telegram.org") return "telegram";
+  if (host.endsWith("discord.com") || host.endsWith("discordapp.com")) return "discord";
+  return "generic";
+}
+
+function checkWebhooks(value: unknown, name: string, issues: string[]): WebhookConfig[] {
+  if (!Array.isArray(value)) {
+    issues.push(`${name}: must be a list of webhooks`);
+    return [];
+  }
+
+  const webhooks: WebhookConfig[] = [];
+  const names = new Set<string>();
+  value.forEach((raw: unknown, index) => {
+    const label = `${name}[${index}]`;
+    const before = issues.length;
+    if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+      issues.push(`${label}: must be a map`);
+      return;
+    }
+    const entry = raw as { [key: string]: unknown };
+
+    for (const key of Object.keys(entry)) {
+      if (!WEBHOOK_KEYS.includes(key)) issues.push(`${label}.${key}: unknown setting`);
+    }
+    if (!isOneOf(WEBHOOK_TYPES, entry.type)) {
+      issues.push(`${label}.type: must be one of ${WEBHOOK_TYPES.join(", ")}`);
+    }
+    const [url] = checkUrls([entry.url], `${label}.url`, issues);
+    const webhookName = entry.name ?? `webhook-${index + 1}`;
+    if (typeof webhookName !== "string" || webhookName === "") {
+      issues.push(`${label}.name: must be a non-empty string`);
+    } else if (names.has(webhookName)) {
+      issues.push(`${label}.name: "${webhookName}" is used by another webhook`);
+    } else {
+      names.add(webhookName);
+    }
+
+    if (entry.enabled !== undefined && typeof entry.enabled !== "boolean") {
+      issues.push(`${label}.enabled: must be true or false`);
+    }
+    checkOptional(entry.rateLimitPerMinute, { env: "", type: "integer", min: 1 }, `${label}.rateLimitPerMinute`, issues);
+    checkOptional(entry.retryAttempts, { env: "", type: "integer", min: 0 }, `${label}.retryAttempts`, issues);
+    checkOptional(entry.timeout, { env: "", type: "integer", min: 1 }, `${label}.timeout`, issues);
+    if (entry.priority !== undefined && !isOneOf(WEBHOOK_PRIORITIES, entry.priority)) {
+      issues.push(`${label}.priority: must be one of ${WEBHOOK_PRIORITIES.join(", ")}`);
+    }
+    if (
+      entry.alertTypes !== undefined &&
+      (!Array.isArray(entry.alertTypes) ||
+        entry.alertTypes.some((type: unknown) => !isOneOf(ALERT_TYPES, type)))
+    ) {
+      issues.push(`${label}.alertTypes: must be a list of ${ALERT_TYPES.join(", ")}`);
+    }
+    if (entry.customThresholds !== undefined) {
+      if (!entry.customThresholds || typeof entry.customThresholds !== "object") {
+        issues.push(`${label}.customThresholds: must be a map of thresholds`);
+      } else {
+        for (const [key, threshold] of Object.entries(entry.customThresholds)) {
+          checkOptional(threshold, { env: "", type: "number", min: 0 }, `${label}.customThresholds.${key}`, issues);
+        }
+      }
+    }
+
+    if (issues.length === before && typeof webhookName === "string") {
+      webhooks.push({ enabled: true, ...(entry as Omit<WebhookConfig, "enabled">), url, name: webhookName });
+    }
+  });
+  return webhooks;
+}
+
+function isOneOf<T>(values: readonly T[], value: unknown): value is T {
+  return (values as readonly unknown[]).includes(value);
+}
+
+function checkOptional(value: unknown, spec: FieldSpec, name: string, issues: string[]): void {
+  if (value !== undefined) checkValue(value, spec, name, issues);
+}
+
+// "marginfi=3,default=2" -> { marginfi: 3, default: 2 }; malformed entries
+// are kept as NaN so checkModelPins reports them
+function parseModelPins(value: string): { [key: string]: number } {
+  const pins: { [key: string]: number } = {};
+  for (const entry of splitList(value)) {
+    const [key, version] = entry.split("=").map((part) => part.trim());
+    pins[key || entry] = version ? Number(version) : NaN;
+  }
+  return pins;
+}
+
+function checkModelPins(value: unknown, name: string, issues: string[]): ModelPins | undefined {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    issues.push(`${name}: must map protocols to model versions`);
+    return undefined;
+  }
+
+  const pins: ModelPins = {};
+  for (const [key, version] of Object.entries(value)) {
+    if (typeof version === "number" && Number.isInteger(version) && version > 0) {
+      pins[key] = version;
+    } else {
+      issues.push(`${name}: version for ${key} must be a positive whole number`);
+    }
+  }
+  return pins;
+}
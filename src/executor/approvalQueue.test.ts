@@ -0,0 +1,31 @@
+import { DeleveragePlan } from './deleveragingExecutor';
+import { PlanApprovalQueue, isApprovalAuthorized } from './approvalQueue';
+
+describe('PlanApprovalQueue', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('resolves the approval hook with the operator decision', async () => {
+    const queue = new PlanApprovalQueue(60000);
+    const approved = queue.hook({ id: 'plan-1' } as DeleveragePlan);
+
+    expect(queue.list().map(approval => approval.plan.id)).toEqual(['plan-1']);
+    expect(queue.approve('plan-1', 'ops')).toBe(true);
+    await expect(approved).resolves.toBe(true);
+    expect(queue.reject('plan-1', 'ops')).toBe(false);
+  });
+
+  it('only lets token holders, or localhost without a token, decide', () => {
+    expect(isApprovalAuthorized('secret', 'Bearer secret', '203.0.113.7')).toBe(true);
+    expect(isApprovalAuthorized('secret', 'Bearer wrong!', '127.0.0.1')).toBe(false);
+    expect(isApprovalAuthorized('secret', undefined, '127.0.0.1')).toBe(false);
+
+    expect(isApprovalAuthorized(undefined, undefined, '::ffff:127.0.0.1')).toBe(true);
+    expect(isApprovalAuthorized(undefined, 'Bearer anything', '203.0.113.7')).toBe(false);
+  });
+});
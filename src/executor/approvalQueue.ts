@@ -0,0 +1,108 @@
+import { timingSafeEqual } from 'crypto';
+import { ApprovalHook, DeleveragePlan } from './deleveragingExecutor';
+
+export interface PendingApproval {
+  plan: DeleveragePlan;
+  requestedAt: number;
+  expiresAt: number;
+}
+
+/**
+ * Approval hook that parks each live plan until an operator approves or
+ * rejects it (e.g. through the API). Plans left undecided past the timeout
+ * are rejected.
+ */
+export class PlanApprovalQueue {
+  private pending: Map<
+    string,
+    { approval: PendingApproval; resolve: (approved: boolean) => void; timer: NodeJS.Timeout }
+  > = new Map();
+  private requestListeners: ((approval: PendingApproval) => void)[] = [];
+  private timeoutMs: number;
+
+  constructor(timeoutMs: number = 120000) {
+    this.timeoutMs = timeoutMs;
+  }
+
+  readonly hook: ApprovalHook = plan => this.request(plan);
+
+  request(plan: DeleveragePlan): Promise<boolean> {
+    return new Promise(resolve => {
+      const requestedAt = Date.now();
+      const approval: PendingApproval = { plan, requestedAt, expiresAt: requestedAt + this.timeoutMs };
+
+      const timer = setTimeout(() => {
+        console.log(`[EXECUTOR] Approval for plan ${plan.id} timed out`);
+        this.decide(plan.id, false);
+      }, this.timeoutMs);
+
+      this.pending.set(plan.id, { approval, resolve, timer });
+      console.log(`[EXECUTOR] Plan ${plan.id} awaiting approval for ${this.timeoutMs / 1000}s`);
+
+      for (const listener of this.requestListeners) {
+        try {
+          listener(approval);
+        } catch (error) {
+          console.error('[EXECUTOR] Error in approval listener:', error);
+        }
+      }
+    });
+  }
+
+  approve(planId: string, approvedBy: string): boolean {
+    const decided = this.decide(planId, true);
+    if (decided) console.log(`[EXECUTOR] Plan ${planId} approved by ${approvedBy}`);
+    return decided;
+  }
+
+  reject(planId: string, rejectedBy: string): boolean {
+    const decided = this.decide(planId, false);
+    if (decided) console.log(`[EXECUTOR] Plan ${planId} rejected by ${rejectedBy}`);
+    return decided;
+  }
+
+  list(): PendingApproval[] {
+    return Array.from(this.pending.values()).map(entry => entry.approval);
+  }
+
+  onRequest(listener: (approval: PendingApproval) => void): void {
+    this.requestListeners.push(listener);
+  }
+
+  // Rejects everything still waiting, e.g. on shutdown
+  clear(): void {
+    for (const planId of Array.from(this.pending.keys())) {
+      this.decide(planId, false);
+    }
+  }
+
+  private decide(planId: string, approved: boolean): boolean {
+    const entry = this.pending.get(planId);
+    if (!entry) return false;
+
+    clearTimeout(entry.timer);
+    this.pending.delete(planId);
+    entry.resolve(approved);
+    return true;
+  }
+}
+
+const LOOPBACK_ADDRESSES = ['127.0.0.1', '::1', '::ffff:127.0.0.1'];
+
+/**
+ * Whether a request may decide approvals: it must carry `Bearer <token>` when
+ * an approval token is configured, and come from this machine otherwise.
+ */
+export function isApprovalAuthorized(
+  token: string | undefined,
+  authorization: string | undefined,
+  remoteAddress: string | undefined
+): boolean {
+  if (!token) {
+    return !!remoteAddress && LOOPBACK_ADDRESSES.includes(remoteAddress);
+  }
+
+  const expected = Buffer.from(`Bearer ${token}`);
+  const given = Buffer.from(authorization || '');
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
@@ -0,0 +1,223 @@
+import { Connection, Keypair, PublicKey } from '@solana/web3.js';
+import { Position, PositionMonitor } from '../monitor/positionMonitor';
+import { HealthModel } from '../protocols/adapter';
+import { JupiterPriceFeed, TOKENS } from '../utils/jupiter';
+import {
+  DeleverageStep,
+  DeleveragingExecutor,
+  DeleveragingExecutorOptions,
+  DeleveragingPolicy,
+  TransactionSigner,
+  groupSteps,
+} from './deleveragingExecutor';
+
+const OWNER = Keypair.generate().publicKey;
+
+function step(kind: DeleverageStep['kind'], mint?: string): DeleverageStep {
+  return { kind, mint, amount: 1, valueUsd: 1 };
+}
+
+// 10 SOL at $150 (80% weight) against $1000 of USDC: health 1.2
+function lendingPosition(id = 'marginfi-1'): Position {
+  return {
+    id,
+    protocol: 'marginfi',
+    owner: OWNER,
+    collateral: [{ mint: new PublicKey(TOKENS.SOL), amount: 10, valueUsd: 1500, priceUsd: 150, liquidationWeight: 0.8 }],
+    debt: [{ mint: new PublicKey(TOKENS.USDC), amount: 1000, valueUsd: 1000, priceUsd: 1, liquidationWeight: 1 }],
+    healthFactor: 1.2,
+    timestamp: Date.now(),
+  };
+}
+
+// $600 of collateral against a 100 SOL long at 5% maintenance margin: health 1.2
+function perpPosition(): Position {
+  return {
+    id: 'drift-1',
+    protocol: 'drift',
+    owner: OWNER,
+    collateral: [{ mint: new PublicKey(TOKENS.USDC), amount: 600, valueUsd: 600, priceUsd: 1 }],
+    debt: [],
+    healthFactor: 1.2,
+    timestamp: Date.now(),
+    perpExposure: [{
+      marketIndex: 0,
+      symbol: 'SOL-PERP',
+      side: 'long',
+      size: 100,
+      notionalUsd: 10000,
+      markPrice: 100,
+      entryPrice: 100,
+      liquidationPrice: 95,
+      unrealizedPnl: 0,
+      unsettledFundingPnl: 0,
+      maintenanceMarginRatio: 0.05,
+    }],
+  };
+}
+
+const policy: DeleveragingPolicy = {
+  name: 'default',
+  triggerHealthFactor: 1.25,
+  targetHealthFactor: 1.5,
+  maxSlippageBps: 100,
+};
+
+function setup(options: Partial<DeleveragingExecutorOptions> = {}, canBuild = true) {
+  const adapters: { [protocol: string]: { healthModel: HealthModel; buildActionInstructions?: () => void } } = {
+    marginfi: { healthModel: 'weighted-collateral' },
+    drift: { healthModel: 'maintenance-margin' },
+  };
+  if (canBuild) {
+    for (const adapter of Object.values(adapters)) adapter.buildActionInstructions = () => undefined;
+  }
+
+  const monitor = {
+    getRegistry: () => ({ get: (protocol: string) => adapters[protocol] }),
+    buildActionInstructions: jest.fn(async () => []),
+  } as unknown as PositionMonitor;
+  const connection = {
+    getLatestBlockhash: jest.fn(async () => ({ blockhash: PublicKey.default.toBase58(), lastValidBlockHeight: 1 })),
+    simulateTransaction: jest.fn(async () => ({ value: { err: null, logs: [] } })),
+    sendTransaction: jest.fn(),
+  };
+
+  const executor = new DeleveragingExecutor(
+    connection as unknown as Connection,
+    monitor,
+    new JupiterPriceFeed(),
+    { policies: [policy], ...options }
+  );
+  return { executor, connection };
+}
+
+function signer(publicKey = OWNER): TransactionSigner & { signTransaction: jest.Mock } {
+  return { publicKey, signTransaction: jest.fn() };
+}
+
+describe('DeleveragingExecutor', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('sends each withdraw together with the swap and repay it funds', () => {
+    const steps = [
+      step('withdraw', 'SOL'),
+      step('swap', 'SOL'),
+      step('repay', 'USDC'),
+      step('withdraw', 'USDC'),
+      step('repay', 'USDC'),
+      step('reduce-perp'),
+    ];
+
+    expect(groupSteps(steps).map(group => group.map(s => s.kind))).toEqual([
+      ['withdraw', 'swap', 'repay'],
+      ['withdraw', 'repay'],
+      ['reduce-perp'],
+    ]);
+  });
+
+  it('sizes a collateral swap and repay to reach the target health', () => {
+    const { executor } = setup();
+    const plan = executor.buildPlan(lendingPosition(), policy)!;
+
+    // (1200 - 0.8x) / (1000 - 0.99x) = 1.5
+    const withdrawUsd = 300 / (1.5 * 0.99 - 0.8);
+    expect(plan.steps.map(s => [s.kind, s.mint])).toEqual([
+      ['withdraw', TOKENS.SOL],
+      ['swap', TOKENS.SOL],
+      ['repay', TOKENS.USDC],
+    ]);
+    expect(plan.steps[0].valueUsd).toBeCloseTo(withdrawUsd, 6);
+    expect(plan.steps[0].amount).toBeCloseTo(withdrawUsd / 150, 6);
+    expect(plan.steps[2].amount).toBeCloseTo(withdrawUsd * 0.99, 6);
+    expect(plan.notionalUsd).toBeCloseTo(withdrawUsd, 6);
+    expect(plan.projectedHealthFactor).toBeCloseTo(1.5, 6);
+    expect(plan.capped).toBe(false);
+  });
+
+  it('sizes a perp reduction to reach the target health', () => {
+    const { executor } = setup();
+    const plan = executor.buildPlan(perpPosition(), policy)!;
+
+    // (600 - 0.01n) / (500 - 0.05n) = 1.5
+    const reduceUsd = 150 / (1.5 * 0.05 - 0.01);
+    expect(plan.healthModel).toBe('maintenance-margin');
+    expect(plan.steps).toHaveLength(1);
+    expect(plan.steps[0]).toMatchObject({ kind: 'reduce-perp', marketIndex: 0, side: 'long', slippageBps: 100 });
+    expect(plan.steps[0].valueUsd).toBeCloseTo(reduceUsd, 6);
+    expect(plan.steps[0].amount).toBeCloseTo(100 * reduceUsd / 10000, 6);
+    expect(plan.projectedHealthFactor).toBeCloseTo(1.5, 6);
+  });
+
+  it('stops a plan at the policy notional cap', () => {
+    const { executor } = setup();
+    const plan = executor.buildPlan(lendingPosition(), { ...policy, maxNotionalPerPlanUsd: 100 })!;
+
+    expect(plan.notionalUsd).toBeCloseTo(100, 6);
+    expect(plan.capped).toBe(true);
+    expect(plan.projectedHealthFactor).toBeCloseTo((1200 - 80) / (1000 - 99), 6);
+  });
+
+  it('shares the run notional cap across positions, worst health first', async () => {
+    const { executor } = setup({ maxNotionalPerRunUsd: 600 }, false);
+    const worse = { ...lendingPosition('marginfi-2'), healthFactor: 1.1 };
+    const run = (await executor.run([lendingPosition(), worse]))!;
+
+    expect(run.executions.map(e => e.plan.positionId)).toEqual(['marginfi-2', 'marginfi-1']);
+    expect(run.executions.map(e => e.plan.capped)).toEqual([false, true]);
+    expect(run.notionalUsd).toBeCloseTo(600, 6);
+  });
+
+  it('only simulates in dry-run mode, without approval or signing', async () => {
+    const approvalHook = jest.fn(async () => true);
+    const dryRunSigner = signer();
+    const { executor, connection } = setup({ dryRun: true, signer: dryRunSigner, approvalHook });
+    const run = (await executor.run([perpPosition()]))!;
+
+    expect(run.executions.map(e => e.status)).toEqual(['simulated']);
+    expect(run.executions[0].steps.map(s => s.status)).toEqual(['simulated']);
+    expect(connection.simulateTransaction).toHaveBeenCalledTimes(1);
+    expect(approvalHook).not.toHaveBeenCalled();
+    expect(dryRunSigner.signTransaction).not.toHaveBeenCalled();
+    expect(connection.sendTransaction).not.toHaveBeenCalled();
+  });
+
+  describe('rejects live plans', () => {
+    const approvalHook = async () => true;
+
+    async function reason(options: Partial<DeleveragingExecutorOptions>, canBuild = true) {
+      const { executor, connection } = setup({ dryRun: false, ...options }, canBuild);
+      const run = (await executor.run([perpPosition()]))!;
+
+      expect(run.executions.map(e => e.status)).toEqual(['rejected']);
+      expect(run.notionalUsd).toBe(0);
+      expect(connection.sendTransaction).not.toHaveBeenCalled();
+      return run.executions[0].reason;
+    }
+
+    it('without an instruction builder', async () => {
+      expect(await reason({ signer: signer(), approvalHook }, false)).toBe('no instruction builder for drift');
+    });
+
+    it('without a signer', async () => {
+      expect(await reason({ approvalHook })).toBe('no signer configured');
+    });
+
+    it('when the signer does not own the position', async () => {
+      const other = signer(Keypair.generate().publicKey);
+      expect(await reason({ signer: other, approvalHook })).toMatch(/does not own the position/);
+      expect(other.signTransaction).not.toHaveBeenCalled();
+    });
+
+    it('without an approval hook', async () => {
+      const owner = signer();
+      expect(await reason({ signer: owner })).toBe('no approval hook configured');
+      expect(owner.signTransaction).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,765 @@
+import { promises as fs } from 'fs';
+import {
+  Connection,
+  Keypair,
+  PublicKey,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import { Position, PositionMonitor } from '../monitor/positionMonitor';
+import { HealthModel, ProtocolActionKind } from '../protocols/adapter';
+import { JupiterPriceFeed, SwapInstructions } from '../utils/jupiter';
+import { getMintDecimals, toNativeAmount } from '../utils/spl';
+
+export type DeleverageStepKind = ProtocolActionKind | 'swap';
+
+export interface DeleveragingPolicy {
+  name: string;
+  enabled?: boolean;
+  // Restrict the policy to these protocols / owner addresses; omitted matches all
+  protocols?: string[];
+  owners?: string[];
+  // Act once health drops below the trigger, sizing actions to reach the target
+  triggerHealthFactor: number;
+  targetHealthFactor: number;
+  maxSlippageBps?: number;
+  maxNotionalPerPlanUsd?: number;
+  // Sell collateral into a different debt mint through Jupiter
+  allowSwaps?: boolean;
+  allowPerpReduction?: boolean;
+}
+
+export interface DeleverageStep {
+  kind: DeleverageStepKind;
+  // Token withdrawn or repaid, or the swap input
+  mint?: string;
+  outputMint?: string;
+  // UI units of mint, or base asset size for perp reductions
+  amount: number;
+  valueUsd: number;
+  marketIndex?: number;
+  symbol?: string;
+  side?: 'long' | 'short';
+  slippageBps?: number;
+}
+
+export interface DeleveragePlan {
+  id: string;
+  positionId: string;
+  protocol: string;
+  owner: string;
+  policy: string;
+  healthModel: HealthModel;
+  currentHealthFactor: number;
+  targetHealthFactor: number;
+  projectedHealthFactor: number;
+  // Collateral withdrawn or perp notional closed, the figure caps apply to
+  notionalUsd: number;
+  // True when a plan or run cap stopped the plan short of the target
+  capped: boolean;
+  steps: DeleverageStep[];
+  createdAt: number;
+}
+
+export interface StepResult {
+  kind: DeleverageStepKind;
+  status: 'simulated' | 'confirmed' | 'failed' | 'skipped';
+  signature?: string;
+  logs?: string[];
+  error?: string;
+}
+
+export interface PlanExecution {
+  plan: DeleveragePlan;
+  dryRun: boolean;
+  status: 'simulated' | 'executed' | 'rejected' | 'failed';
+  reason?: string;
+  steps: StepResult[];
+  approvedAt?: number;
+  completedAt: number;
+}
+
+export interface ExecutorRun {
+  id: string;
+  dryRun: boolean;
+  startedAt: number;
+  completedAt: number;
+  notionalCapUsd: number | null;
+  notionalUsd: number;
+  executions: PlanExecution[];
+}
+
+// Called with every live plan before anything is signed; resolve true to proceed
+export type ApprovalHook = (plan: DeleveragePlan) => Promise<boolean>;
+
+export interface TransactionSigner {
+  publicKey: PublicKey;
+  signTransaction(transaction: VersionedTransaction): Promise<VersionedTransaction>;
+}
+
+export interface DeleveragingExecutorOptions {
+  policies: DeleveragingPolicy[];
+  // Defaults to true: plans are simulated and logged, never signed
+  dryRun?: boolean;
+  maxNotionalPerRunUsd?: number;
+  // Gap before re-planning the same position, so chain state can catch up
+  cooldownMs?: number;
+  approvalHook?: ApprovalHook;
+  signer?: TransactionSigner;
+  maxRunHistory?: number;
+}
+
+export class ExecutorConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExecutorConfigError';
+  }
+}
+
+const DEFAULT_SLIPPAGE_BPS = 100;
+const DEFAULT_COLLATERAL_WEIGHT = 0.85;
+const DEFAULT_MAINTENANCE_MARGIN_RATIO = 0.05;
+// Below this a step is dust and not worth a transaction
+const MIN_STEP_USD = 1;
+
+export function validatePolicy(policy: DeleveragingPolicy): void {
+  if (!policy || typeof policy.name !== 'string' || policy.name.trim() === '') {
+    throw new ExecutorConfigError('each policy needs a name');
+  }
+
+  const { name, triggerHealthFactor, targetHealthFactor } = policy;
+  if (typeof triggerHealthFactor !== 'number' || !(triggerHealthFactor > 0)) {
+    throw new ExecutorConfigError(`${name}: triggerHealthFactor must be a positive number`);
+  }
+  if (typeof targetHealthFactor !== 'number' || !(targetHealthFactor > triggerHealthFactor)) {
+    throw new ExecutorConfigError(`${name}: targetHealthFactor must be greater than triggerHealthFactor`);
+  }
+  if (
+    policy.maxSlippageBps !== undefined &&
+    (typeof policy.maxSlippageBps !== 'number' || policy.maxSlippageBps < 0 || policy.maxSlippageBps >= 10000)
+  ) {
+    throw new ExecutorConfigError(`${name}: maxSlippageBps must be between 0 and 10000`);
+  }
+  if (
+    policy.maxNotionalPerPlanUsd !== undefined &&
+    (typeof policy.maxNotionalPerPlanUsd !== 'number' || !(policy.maxNotionalPerPlanUsd > 0))
+  ) {
+    throw new ExecutorConfigError(`${name}: maxNotionalPerPlanUsd must be a positive number`);
+  }
+  for (const field of ['protocols', 'owners'] as const) {
+    if (policy[field] !== undefined && !Array.isArray(policy[field])) {
+      throw new ExecutorConfigError(`${name}: ${field} must be an array`);
+    }
+  }
+}
+
+export async function loadPoliciesFile(filePath: string): Promise<DeleveragingPolicy[]> {
+  const raw = JSON.parse(await fs.readFile(filePath, 'utf8'));
+  const policies: DeleveragingPolicy[] = Array.isArray(raw) ? raw : raw.policies;
+  if (!Array.isArray(policies)) {
+    throw new ExecutorConfigError(`${filePath} must contain an array of policies or { "policies": [...] }`);
+  }
+  policies.forEach(validatePolicy);
+  return policies;
+}
+
+/**
+ * Splits a plan into the steps sent together: each withdraw with the swap and
+ * repay it funds, and every other step on its own.
+ */
+export function groupSteps(steps: DeleverageStep[]): DeleverageStep[][] {
+  const groups: DeleverageStep[][] = [];
+  let open: DeleverageStep[] | null = null;
+
+  for (const step of steps) {
+    if (step.kind === 'withdraw') {
+      open = [step];
+      groups.push(open);
+    } else if (open && (step.kind === 'swap' || step.kind === 'repay')) {
+      open.push(step);
+      if (step.kind === 'repay') open = null;
+    } else {
+      groups.push([step]);
+      open = null;
+    }
+  }
+
+  return groups;
+}
+
+export function keypairSigner(keypair: Keypair): TransactionSigner {
+  return {
+    publicKey: keypair.publicKey,
+    signTransaction: async transaction => {
+      transaction.sign([keypair]);
+      return transaction;
+    },
+  };
+}
+
+/**
+ * Turns positions that breach a policy's trigger into repay/withdraw/swap or
+ * perp-reduction plans sized to reach the policy's target health, then
+ * simulates them (dry run) or signs and sends them step by step.
+ */
+export class DeleveragingExecutor {
+  private connection: Connection;
+  private monitor: PositionMonitor;
+  private jupiter: JupiterPriceFeed;
+  private policies: DeleveragingPolicy[] = [];
+  private dryRun: boolean;
+  private maxNotionalPerRunUsd: number | null;
+  private cooldownMs: number;
+  private approvalHook: ApprovalHook | null;
+  private signer: TransactionSigner | null;
+  private maxRunHistory: number;
+  private runs: ExecutorRun[] = [];
+  private lastPlannedAt: Map<string, number> = new Map();
+  private executionListeners: ((execution: PlanExecution) => void)[] = [];
+  private isRunning = false;
+  private sequence = 0;
+
+  constructor(
+    connection: Connection,
+    monitor: PositionMonitor,
+    jupiter: JupiterPriceFeed,
+    options: DeleveragingExecutorOptions
+  ) {
+    this.connection = connection;
+    this.monitor = monitor;
+    this.jupiter = jupiter;
+    this.dryRun = options.dryRun ?? true;
+    this.maxNotionalPerRunUsd = options.maxNotionalPerRunUsd || null;
+    this.cooldownMs = options.cooldownMs ?? 5 * 60 * 1000;
+    this.approvalHook = options.approvalHook || null;
+    this.signer = options.signer || null;
+    this.maxRunHistory = options.maxRunHistory || 100;
+    this.setPolicies(options.policies);
+  }
+
+  setPolicies(policies: DeleveragingPolicy[]): void {
+    policies.forEach(validatePolicy);
+    this.policies = policies;
+    console.log(`[EXECUTOR] Loaded ${policies.length} deleveraging policies`);
+  }
+
+  getPolicies(): DeleveragingPolicy[] {
+    return [...this.policies];
+  }
+
+  setSigner(signer: TransactionSigner | null): void {
+    this.signer = signer;
+  }
+
+  isDryRun(): boolean {
+    return this.dryRun;
+  }
+
+  getRuns(limit?: number): ExecutorRun[] {
+    const runs = [...this.runs].reverse();
+    return limit && limit > 0 ? runs.slice(0, limit) : runs;
+  }
+
+  onExecution(listener: (execution: PlanExecution) => void): void {
+    this.executionListeners.push(listener);
+  }
+
+  matchPolicy(position: Position): DeleveragingPolicy | null {
+    const owner = position.owner.toBase58();
+    return (
+      this.policies.find(
+        policy =>
+          policy.enabled !== false &&
+          (!policy.protocols || policy.protocols.includes(position.protocol)) &&
+          (!policy.owners || policy.owners.includes(owner))
+      ) || null
+    );
+  }
+
+  /**
+   * Plans and executes every position below its policy trigger, worst health
+   * first, stopping once the run's notional cap is used up. Returns null if a
+   * run is already in flight (e.g. waiting on approval).
+   */
+  async run(positions: Position[]): Promise<ExecutorRun | null> {
+    if (this.isRunning) {
+      console.log('[EXECUTOR] Previous run still in progress, skipping');
+      return null;
+    }
+    this.isRunning = true;
+
+    const run: ExecutorRun = {
+      id: `run-${Date.now()}-${++this.sequence}`,
+      dryRun: this.dryRun,
+      startedAt: Date.now(),
+      completedAt: 0,
+      notionalCapUsd: this.maxNotionalPerRunUsd,
+      notionalUsd: 0,
+      executions: [],
+    };
+
+    try {
+      const candidates = positions
+        .filter(p => Number.isFinite(p.healthFactor))
+        .sort((a, b) => a.healthFactor - b.healthFactor);
+
+      for (const position of candidates) {
+        const policy = this.matchPolicy(position);
+        if (!policy || position.healthFactor >= policy.triggerHealthFactor) continue;
+
+        const lastPlanned = this.lastPlannedAt.get(position.id);
+        if (lastPlanned && Date.now() - lastPlanned < this.cooldownMs) continue;
+
+        const remaining = (this.maxNotionalPerRunUsd ?? Infinity) - run.notionalUsd;
+        if (remaining < MIN_STEP_USD) {
+          console.log(`[EXECUTOR] Run notional cap of $${this.maxNotionalPerRunUsd} reached`);
+          break;
+        }
+
+        const plan = this.buildPlan(position, policy, remaining);
+        if (!plan) continue;
+
+        this.lastPlannedAt.set(position.id, Date.now());
+        const execution = await this.executePlan(plan);
+        if (execution.status !== 'rejected') {
+          run.notionalUsd += plan.notionalUsd;
+        }
+        run.executions.push(execution);
+        this.notifyExecutionListeners(execution);
+      }
+    } catch (error) {
+      console.error('[EXECUTOR] Error during run:', error);
+    } finally {
+      run.completedAt = Date.now();
+      this.runs.push(run);
+      if (this.runs.length > this.maxRunHistory) this.runs.shift();
+      this.isRunning = false;
+    }
+
+    return run;
+  }
+
+  /**
+   * Sizes the actions needed to lift a position to the policy target without
+   * exceeding budgetUsd. Returns null if nothing useful can be done.
+   */
+  buildPlan(position: Position, policy: DeleveragingPolicy, budgetUsd: number = Infinity): DeleveragePlan | null {
+    const healthModel = this.monitor.getRegistry().get(position.protocol)?.healthModel
+      ?? (position.perpExposure?.length ? 'maintenance-margin' : 'weighted-collateral');
+    const cap = Math.min(budgetUsd, policy.maxNotionalPerPlanUsd ?? Infinity);
+
+    const sizing = healthModel === 'maintenance-margin'
+      ? this.planPerpReduction(position, policy, cap)
+      : this.planCollateralRepay(position, policy, healthModel, cap);
+
+    if (!sizing || sizing.steps.length === 0) return null;
+
+    return {
+      id: `plan-${Date.now()}-${++this.sequence}`,
+      positionId: position.id,
+      protocol: position.protocol,
+      owner: position.owner.toBase58(),
+      policy: policy.name,
+      healthModel,
+      currentHealthFactor: position.healthFactor,
+      targetHealthFactor: policy.targetHealthFactor,
+      projectedHealthFactor: sizing.projectedHealthFactor,
+      notionalUsd: sizing.notionalUsd,
+      capped: sizing.projectedHealthFactor < policy.targetHealthFactor && sizing.notionalUsd >= cap - MIN_STEP_USD,
+      steps: sizing.steps,
+      createdAt: Date.now(),
+    };
+  }
+
+  // Marginfi / Kamino: withdraw collateral, swap it into the debt mint, repay
+  private planCollateralRepay(
+    position: Position,
+    policy: DeleveragingPolicy,
+    healthModel: HealthModel,
+    cap: number
+  ) {
+    const slippageBps = policy.maxSlippageBps ?? DEFAULT_SLIPPAGE_BPS;
+    const defaultWeight = position.liquidationThreshold || DEFAULT_COLLATERAL_WEIGHT;
+
+    const collateral = position.collateral
+      .filter(c => c.valueUsd > 0)
+      .map(c => ({
+        mint: c.mint.toBase58(),
+        valueUsd: c.valueUsd,
+        priceUsd: c.priceUsd || c.valueUsd / c.amount,
+        weight: c.liquidationWeight ?? defaultWeight,
+      }))
+      .sort((a, b) => b.valueUsd - a.valueUsd);
+    const debt = position.debt
+      .filter(d => d.valueUsd > 0)
+      .map(d => ({
+        mint: d.mint.toBase58(),
+        valueUsd: d.valueUsd,
+        priceUsd: d.priceUsd || d.valueUsd / d.amount,
+        // Kamino borrow factors are not decoded; treat borrows at face value
+        weight: healthModel === 'liquidation-threshold' ? 1 : d.liquidationWeight ?? 1,
+      }))
+      .sort((a, b) => b.valueUsd * b.weight - a.valueUsd * a.weight);
+
+    let weightedCollateral = collateral.reduce((sum, c) => sum + c.valueUsd * c.weight, 0);
+    let weightedDebt = debt.reduce((sum, d) => sum + d.valueUsd * d.weight, 0);
+    if (weightedDebt <= 0) return null;
+
+    // Solve in model terms, anchored on the protocol-reported health like ScenarioEngine
+    const modelHealth = weightedCollateral / weightedDebt;
+    const scale = position.healthFactor > 0 && modelHealth > 0 ? position.healthFactor / modelHealth : 1;
+    const target = policy.targetHealthFactor / scale;
+
+    const steps: DeleverageStep[] = [];
+    let notionalUsd = 0;
+
+    for (const d of debt) {
+      for (const c of collateral) {
+        if (weightedCollateral / weightedDebt >= target) break;
+
+        const sameMint = c.mint === d.mint;
+        if (!sameMint && policy.allowSwaps === false) continue;
+
+        // Withdrawing x of c and repaying x * (1 - s) of d reaches the target when
+        // (WC - wc x) / (WD - wd x (1 - s)) = target
+        const retained = sameMint ? 1 : 1 - slippageBps / 10000;
+        const denominator = target * d.weight * retained - c.weight;
+        if (denominator <= 0) continue;
+
+        const withdrawUsd = Math.min(
+          (target * weightedDebt - weightedCollateral) / denominator,
+          c.valueUsd,
+          d.valueUsd / retained,
+          cap - notionalUsd
+        );
+        if (withdrawUsd < MIN_STEP_USD) continue;
+
+        const repayUsd = withdrawUsd * retained;
+        steps.push({ kind: 'withdraw', mint: c.mint, amount: withdrawUsd / c.priceUsd, valueUsd: withdrawUsd });
+        if (!sameMint) {
+          steps.push({
+            kind: 'swap',
+            mint: c.mint,
+            outputMint: d.mint,
+            amount: withdrawUsd / c.priceUsd,
+            valueUsd: withdrawUsd,
+            slippageBps,
+          });
+        }
+        steps.push({ kind: 'repay', mint: d.mint, amount: repayUsd / d.priceUsd, valueUsd: repayUsd });
+
+        weightedCollateral -= withdrawUsd * c.weight;
+        weightedDebt -= repayUsd * d.weight;
+        c.valueUsd -= withdrawUsd;
+        d.valueUsd -= repayUsd;
+        notionalUsd += withdrawUsd;
+      }
+    }
+
+    return {
+      steps,
+      notionalUsd,
+      projectedHealthFactor: weightedDebt > 0 ? (weightedCollateral / weightedDebt) * scale : Infinity,
+    };
+  }
+
+  // Drift: close part of the perps that carry the most maintenance margin
+  private planPerpReduction(position: Position, policy: DeleveragingPolicy, cap: number) {
+    if (policy.allowPerpReduction === false) return null;
+
+    const slippage = (policy.maxSlippageBps ?? DEFAULT_SLIPPAGE_BPS) / 10000;
+    const perps = (position.perpExposure || [])
+      .filter(p => p.notionalUsd > 0)
+      .map(p => ({ ...p, ratio: p.maintenanceMarginRatio ?? DEFAULT_MAINTENANCE_MARGIN_RATIO }))
+      .sort((a, b) => b.notionalUsd * b.ratio - a.notionalUsd * a.ratio);
+
+    let collateral = position.drift?.totalCollateral
+      ?? position.collateral.reduce((sum, c) => sum + c.valueUsd, 0);
+    let requirement = perps.reduce((sum, p) => sum + p.notionalUsd * p.ratio, 0);
+    if (requirement <= 0) return null;
+
+    const modelHealth = collateral / requirement;
+    const scale = position.healthFactor > 0 && modelHealth > 0 ? position.healthFactor / modelHealth : 1;
+    const target = policy.targetHealthFactor / scale;
+
+    const steps: DeleverageStep[] = [];
+    let notionalUsd = 0;
+
+    for (const perp of perps) {
+      if (collateral / requirement >= target) break;
+
+      // Closing n of notional frees n * ratio of margin and costs n * slippage:
+      // (C - s n) / (R - ratio n) = target
+      const denominator = target * perp.ratio - slippage;
+      if (denominator <= 0) continue;
+
+      const reduceUsd = Math.min(
+        (target * requirement - collateral) / denominator,
+        perp.notionalUsd,
+        cap - notionalUsd
+      );
+      if (reduceUsd < MIN_STEP_USD) continue;
+
+      steps.push({
+        kind: 'reduce-perp',
+        amount: perp.size * (reduceUsd / perp.notionalUsd),
+        valueUsd: reduceUsd,
+        marketIndex: perp.marketIndex,
+        symbol: perp.symbol,
+        side: perp.side,
+        slippageBps: policy.maxSlippageBps ?? DEFAULT_SLIPPAGE_BPS,
+      });
+
+      collateral -= reduceUsd * slippage;
+      requirement -= reduceUsd * perp.ratio;
+      notionalUsd += reduceUsd;
+    }
+
+    return {
+      steps,
+      notionalUsd,
+      projectedHealthFactor: requirement > 0 ? (collateral / requirement) * scale : Infinity,
+    };
+  }
+
+  private async executePlan(plan: DeleveragePlan): Promise<PlanExecution> {
+    const summary = plan.steps
+      .map(s => `${s.kind} $${s.valueUsd.toFixed(2)}${s.symbol ? ` ${s.symbol}` : ''}`)
+      .join(' -> ');
+    console.log(
+      `[EXECUTOR] ${this.dryRun ? 'Dry run' : 'Executing'} plan ${plan.id} (${plan.policy}) for ${plan.positionId}: ` +
+      `${summary}; health ${plan.currentHealthFactor.toFixed(3)} -> ${plan.projectedHealthFactor.toFixed(3)}` +
+      `${plan.capped ? ' (capped)' : ''}`
+    );
+
+    if (this.dryRun) {
+      return this.simulatePlan(plan);
+    }
+
+    const reject = (reason: string): PlanExecution => {
+      console.log(`[EXECUTOR] Plan ${plan.id} rejected: ${reason}`);
+      return { plan, dryRun: false, status: 'rejected', reason, steps: [], completedAt: Date.now() };
+    };
+
+    if (!this.canBuildProtocolSteps(plan.protocol)) {
+      return reject(`no instruction builder for ${plan.protocol}`);
+    }
+    if (!this.signer) {
+      return reject('no signer configured');
+    }
+    if (this.signer.publicKey.toBase58() !== plan.owner) {
+      return reject(`signer ${this.signer.publicKey.toBase58()} does not own the position`);
+    }
+    if (!this.approvalHook) {
+      return reject('no approval hook configured');
+    }
+
+    try {
+      if (!(await this.approvalHook(plan))) {
+        return reject('not approved');
+      }
+    } catch (error) {
+      return reject(`approval hook failed: ${error instanceof Error ? error.message : error}`);
+    }
+    const approvedAt = Date.now();
+
+    const steps: StepResult[] = [];
+    let failed = false;
+
+    for (const group of groupSteps(plan.steps)) {
+      const kinds = group.map(step => step.kind).join('+');
+      if (failed) {
+        steps.push(...group.map(step => ({ kind: step.kind, status: 'skipped' as const })));
+        continue;
+      }
+
+      try {
+        const built = await this.buildGroupTransaction(plan, group);
+
+        const signed = await this.signer.signTransaction(built.transaction);
+        const signature = await this.connection.sendTransaction(signed, { maxRetries: 3 });
+        const confirmation = await this.connection.confirmTransaction(
+          {
+            signature,
+            blockhash: signed.message.recentBlockhash,
+            lastValidBlockHeight: built.lastValidBlockHeight,
+          },
+          'confirmed'
+        );
+        if (confirmation.value.err) {
+          throw new Error(`Transaction ${signature} failed: ${JSON.stringify(confirmation.value.err)}`);
+        }
+
+        console.log(`[EXECUTOR] Plan ${plan.id} ${kinds} confirmed: ${signature}`);
+        steps.push(...group.map(step => ({ kind: step.kind, status: 'confirmed' as const, signature })));
+      } catch (error) {
+        failed = true;
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`[EXECUTOR] Plan ${plan.id} ${kinds} failed:`, message);
+        steps.push(...group.map(step => ({ kind: step.kind, status: 'failed' as const, error: message })));
+      }
+    }
+
+    return {
+      plan,
+      dryRun: false,
+      status: failed ? 'failed' : 'executed',
+      steps,
+      approvedAt,
+      completedAt: Date.now(),
+    };
+  }
+
+  /**
+   * Builds and simulates each transaction of the plan against current chain
+   * state, the same transactions a live run would send.
+   */
+  private async simulatePlan(plan: DeleveragePlan): Promise<PlanExecution> {
+    const steps: StepResult[] = [];
+    const canBuild = this.canBuildProtocolSteps(plan.protocol);
+
+    for (const group of groupSteps(plan.steps)) {
+      if (!canBuild) {
+        const error = `no instruction builder for ${plan.protocol}`;
+        steps.push(...group.map(step => ({ kind: step.kind, status: 'skipped' as const, error })));
+        continue;
+      }
+
+      try {
+        const built = await this.buildGroupTransaction(plan, group);
+
+        const simulation = await this.connection.simulateTransaction(built.transaction, {
+          sigVerify: false,
+          replaceRecentBlockhash: true,
+        });
+        steps.push(...group.map(step => ({
+          kind: step.kind,
+          status: simulation.value.err ? 'failed' as const : 'simulated' as const,
+          logs: simulation.value.logs || undefined,
+          error: simulation.value.err ? JSON.stringify(simulation.value.err) : undefined,
+        })));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        steps.push(...group.map(step => ({ kind: step.kind, status: 'failed' as const, error: message })));
+      }
+    }
+
+    return { plan, dryRun: true, status: 'simulated', steps, completedAt: Date.now() };
+  }
+
+  private canBuildProtocolSteps(protocol: string): boolean {
+    return !!this.monitor.getRegistry().get(protocol)?.buildActionInstructions;
+  }
+
+  /**
+   * Puts a group's steps in one transaction, so a withdraw never lands without
+   * the swap and repay that follow it: if any instruction fails the whole
+   * group reverts and the position is left as it was.
+   */
+  private async buildGroupTransaction(
+    plan: DeleveragePlan,
+    group: DeleverageStep[]
+  ): Promise<{ transaction: VersionedTransaction; lastValidBlockHeight: number }> {
+    const computeBudget: TransactionInstruction[] = [];
+    const instructions: TransactionInstruction[] = [];
+    const lookupTableAddresses: PublicKey[] = [];
+    let swapOutput: number | undefined;
+
+    for (const step of group) {
+      if (step.kind === 'swap') {
+        const swap = await this.buildSwap(plan, step);
+        computeBudget.push(...swap.instructions.computeBudgetInstructions);
+        instructions.push(
+          ...swap.instructions.setupInstructions,
+          swap.instructions.swapInstruction,
+          ...swap.instructions.cleanupInstructions
+        );
+        lookupTableAddresses.push(...swap.instructions.addressLookupTableAddresses);
+        swapOutput = swap.outputAmount;
+        continue;
+      }
+
+      // The repay after a swap spends at most the swap's minimum output
+      const amount = step.kind === 'repay' && swapOutput !== undefined
+        ? Math.min(step.amount, swapOutput)
+        : step.amount;
+
+      const built = await this.monitor.buildActionInstructions(plan.positionId, {
+        kind: step.kind,
+        mint: step.mint ? new PublicKey(step.mint) : undefined,
+        amount,
+        marketIndex: step.marketIndex,
+        side: step.side,
+      });
+      if (!built) {
+        throw new Error(`Position ${plan.positionId} is no longer tracked or ${plan.protocol} cannot build transactions`);
+      }
+      instructions.push(...built);
+    }
+
+    const lookupTables = await Promise.all(
+      lookupTableAddresses.map(async address => {
+        const table = (await this.connection.getAddressLookupTable(address)).value;
+        if (!table) throw new Error(`Address lookup table ${address.toBase58()} not found`);
+        return table;
+      })
+    );
+
+    const { blockhash, lastValidBlockHeight } = await this.connection.getLatestBlockhash('confirmed');
+    const message = new TransactionMessage({
+      payerKey: new PublicKey(plan.owner),
+      recentBlockhash: blockhash,
+      instructions: [...computeBudget, ...instructions],
+    }).compileToV0Message(lookupTables);
+
+    return { transaction: new VersionedTransaction(message), lastValidBlockHeight };
+  }
+
+  private async buildSwap(
+    plan: DeleveragePlan,
+    step: DeleverageStep
+  ): Promise<{ instructions: SwapInstructions; outputAmount: number }> {
+    const [inputDecimals, outputDecimals] = await Promise.all([
+      getMintDecimals(this.connection, step.mint!),
+      getMintDecimals(this.connection, step.outputMint!),
+    ]);
+    const slippageBps = step.slippageBps ?? DEFAULT_SLIPPAGE_BPS;
+
+    const quote = await this.jupiter.getSwapQuote(
+      step.mint!,
+      step.outputMint!,
+      toNativeAmount(step.amount, inputDecimals).toString(),
+      slippageBps
+    );
+    if (!quote) {
+      throw new Error(`No Jupiter route from ${step.mint} to ${step.outputMint}`);
+    }
+
+    const impact = this.jupiter.calculatePriceImpact(quote);
+    if (impact.percentage * 100 > slippageBps) {
+      throw new Error(`Price impact ${impact.percentage}% exceeds ${slippageBps} bps`);
+    }
+
+    const instructions = await this.jupiter.getSwapInstructions(quote, plan.owner);
+    if (!instructions) {
+      throw new Error('Jupiter did not return swap instructions');
+    }
+
+    return {
+      instructions,
+      // Minimum output after slippage
+      outputAmount: Number(quote.otherAmountThreshold) / Math.pow(10, outputDecimals),
+    };
+  }
+
+  private notifyExecutionListeners(execution: PlanExecution): void {
+    for (const listener of this.executionListeners) {
+      try {
+        listener(execution);
+      } catch (error) {
+        console.error('[EXECUTOR] Error in execution listener:', error);
+      }
+    }
+  }
+}
@@ -1,10 +1,80 @@
-import { Connection, PublicKey } from "@solana/web3.js";
-import { PositionMonitor } from "./monitor/positionMonitor";
+import { Connection, Keypair, PublicKey } from "@solana/web3.js";
+import {
+  Position,
+  PositionChange,
+  PositionMonitor,
+} from "./monitor/positionMonitor";
+import { ProtocolAdapter } from "./protocols/adapter";
 import { RiskEngine } from "./risk/riskEngine";
-import { AlertSystem, WebhookConfig } from "./alerts/alertSystem";
+import { ScenarioEngine, ScenarioValidationError } from "./risk/scenarioEngine";
+import {
+  SimulationService,
+  SimulationValidationError,
+} from "./risk/simulationService";
+import {
+  RemediationPlan,
+  RemediationPlanner,
+} from "./risk/remediationPlanner";
+import {
+  PortfolioAggregator,
+  PortfolioRisk,
+} from "./risk/portfolioAggregator";
+import {
+  DEFAULT_RISK_THRESHOLDS,
+  RiskPolicy,
+  RiskPolicyWatcher,
+} from "./risk/riskPolicy";
+import {
+  BACKTEST_MODES,
+  Backtester,
+  BacktestMode,
+  CalibrationReport,
+} from "./risk/backtester";
+import {
+  ALERT_TYPES,
+  AlertSystem,
+  AlertType,
+} from "./alerts/alertSystem";
 import { HeartbeatService } from "./heartbeat";
+import {
+  ConfigValidationError,
+  loadConfig,
+  SentinelConfig,
+} from "./config/sentinelConfig";
+import {
+  isValidPublicKey,
+  WatchlistStore,
+  WatchlistValidationError,
+} from "./watchlist/watchlistStore";
+import {
+  HistoryStore,
+  HistoryCycleEntry,
+  HistoryKind,
+  HISTORY_KINDS,
+} from "./storage/historyStore";
+import { PriceHistoryStore } from "./storage/priceHistoryStore";
+import { ModelStore } from "./storage/modelStore";
+import { EventStream } from "./stream/eventStream";
+import {
+  DeleveragingExecutor,
+  ExecutorConfigError,
+  keypairSigner,
+  loadPoliciesFile,
+} from "./executor/deleveragingExecutor";
+import {
+  PlanApprovalQueue,
+  isApprovalAuthorized,
+} from "./executor/approvalQueue";
+import { PriceHistory } from "./prices/priceHistory";
+import { PriceIngestor } from "./prices/priceIngestor";
+import { createPriceOracle } from "./prices/oracleSources";
+import { jupiterPriceFeed, mintForSymbol } from "./utils/jupiter";
+import { redactError, redactUrl } from "./utils/redact";
+import { createFailoverFetch } from "./utils/rpcFailover";
 import express, { Express, Request, Response } from "express";
+import { promises as fs } from "fs";
 import http from "http";
+import path from "path";
 import dotenv from "dotenv";
 
 dotenv.config();
@@ -23,16 +93,6 @@ console.log(`
 ╚═══════════════════════════════════════════════════════════════╝
 `);
 
-interface SentinelConfig {
-  rpcUrl: string;
-  heliusApiKey?: string;
-  webhookUrl?: string;
-  liquidationWarningThreshold: number;
-  criticalHealthThreshold: number;
-  predictionHorizonMinutes: number;
-  port?: number;
-}
-
 interface HealthStatus {
   status: "healthy" | "degraded" | "unhealthy";
   timestamp: string;
@@ -66,17 +126,52 @@ interface PositionStatus {
   topRiskyPositions: any[];
 }
 
+// Query and body timestamps: epoch milliseconds or anything Date.parse reads.
+// NaN when the value is neither, undefined when it is absent
+function parseTime(value: unknown): number | undefined {
+  if (value === undefined || value === "") return undefined;
+  const numeric = Number(value);
+  return Number.isFinite(numeric) ? numeric : Date.parse(String(value));
+}
+
+// ?limit= as a positive integer; NaN when it is anything else, undefined when absent
+function parseLimit(value: unknown): number | undefined {
+  if (value === undefined || value === "") return undefined;
+  const limit = Number(value);
+  return Number.isInteger(limit) && limit > 0 ? limit : NaN;
+}
+
 class Sentinel {
   private connection: Connection;
   private positionMonitor: PositionMonitor;
   private riskEngine: RiskEngine;
+  private scenarioEngine: ScenarioEngine;
+  private simulationService: SimulationService;
+  private remediationPlanner: RemediationPlanner;
+  private portfolioAggregator: PortfolioAggregator;
+  private activeDepegs: Set<string> = new Set();
+  private backtester: Backtester;
+  private calibration: CalibrationReport | null = null;
+  private modelStore: ModelStore;
+  private riskPolicy: RiskPolicy;
+  private riskPolicyWatcher: RiskPolicyWatcher | null = null;
   private alertSystem: AlertSystem;
   private heartbeat: HeartbeatService;
+  private watchlist: WatchlistStore;
+  private historyStore: HistoryStore;
+  private priceHistoryStore: PriceHistoryStore;
+  private priceHistory: PriceHistory;
+  private priceIngestor: PriceIngestor;
+  private eventStream: EventStream;
+  private executor: DeleveragingExecutor | null = null;
+  private approvalQueue: PlanApprovalQueue;
   private config: SentinelConfig;
   private app: Express;
   private server: http.Server | null = null;
   private isShuttingDown = false;
   private positions: any[] = [];
+  private pendingRecompute: Map<string, Position> = new Map();
+  private isRecomputing = false;
   private lastPositionsUpdate = 0;
   private lastMonitoringCycle = 0;
   private serviceStatus = {
@@ -88,32 +183,159 @@ class Sentinel {
 
   constructor(config: SentinelConfig) {
     this.config = config;
-    this.connection = new Connection(config.rpcUrl, "confirmed");
+    this.connection = new Connection(config.rpcUrl, {
+      commitment: "confirmed",
+      fetch:
+        config.rpcFallbackUrls.length > 0
+          ? createFailoverFetch([config.rpcUrl, ...config.rpcFallbackUrls])
+          : undefined,
+    });
     this.positionMonitor = new PositionMonitor(
       this.connection,
       config.heliusApiKey || ""
     );
     this.riskEngine = new RiskEngine(config);
+    this.riskEngine.setPriceOracle(
+      createPriceOracle(this.connection, this.positionMonitor.getRegistry(), {
+        maxStalenessMs: config.priceMaxStalenessMs,
+        maxDeviation: config.priceMaxDeviation,
+        minSources: config.priceMinSources,
+      })
+    );
+    if (config.dependencyRefreshIntervalMs) {
+      this.positionMonitor.setDependencyRefreshInterval(
+        config.dependencyRefreshIntervalMs
+      );
+    }
+    this.scenarioEngine = new ScenarioEngine(
+      this.positionMonitor.getRegistry()
+    );
+    this.simulationService = new SimulationService(
+      this.connection,
+      this.positionMonitor.getRegistry(),
+      this.riskEngine,
+      jupiterPriceFeed
+    );
+    this.remediationPlanner = new RemediationPlanner(
+      this.connection,
+      this.positionMonitor.getRegistry(),
+      this.simulationService,
+      jupiterPriceFeed
+    );
+    this.portfolioAggregator = new PortfolioAggregator(this.scenarioEngine);
 
-    // Convert webhookUrl to WebhookConfig array
-    const webhooks: WebhookConfig[] = config.webhookUrl
-      ? [
-          {
-            type: "discord",
-            url: config.webhookUrl,
-            enabled: true,
-            name: "default",
-            rateLimitPerMinute: 30,
-            retryAttempts: 3,
-            timeout: 10000,
-            priority: "medium",
-            alertTypes: ["warning", "critical", "prediction", "info"]
-          },
-        ]
-      : [];
-    this.alertSystem = new AlertSystem(webhooks);
+    this.alertSystem = new AlertSystem(config.webhooks);
+
+    // The configured thresholds are the policy defaults; a policy file overrides them
+    this.riskPolicy = new RiskPolicy({
+      ...DEFAULT_RISK_THRESHOLDS,
+      healthFactor: {
+        critical: config.criticalHealthThreshold,
+        warning: config.liquidationWarningThreshold,
+        elevated: Math.max(
+          DEFAULT_RISK_THRESHOLDS.healthFactor.elevated,
+          config.liquidationWarningThreshold + 0.2
+        ),
+      },
+    });
+    this.riskEngine.setRiskPolicy(this.riskPolicy);
+    this.alertSystem.setRiskPolicy(this.riskPolicy);
+    for (const adapter of this.positionMonitor.getRegistry().list()) {
+      adapter.setRiskPolicy?.(this.riskPolicy);
+    }
 
     this.heartbeat = new HeartbeatService();
+    this.watchlist = new WatchlistStore(
+      path.join(config.dataDir || "./data", "watchlist.json"),
+      () => this.positionMonitor.getRegistry().names()
+    );
+    const retentionDays = config.historyRetentionDays;
+    this.historyStore = new HistoryStore(
+      path.join(config.dataDir || "./data", "history"),
+      retentionDays
+        ? {
+            position: retentionDays,
+            riskScore: retentionDays,
+            prediction: retentionDays,
+          }
+        : undefined
+    );
+    this.priceHistoryStore = new PriceHistoryStore(
+      path.join(config.dataDir || "./data", "prices"),
+      config.priceHistoryRetentionDays
+    );
+    this.priceHistory = new PriceHistory({
+      intervalMs: config.priceCandleIntervalMs,
+    });
+    this.priceIngestor = new PriceIngestor(
+      this.priceHistory,
+      this.priceHistoryStore,
+      this.positionMonitor.getRegistry(),
+      jupiterPriceFeed,
+      {
+        pollIntervalMs: config.pricePollIntervalMs,
+        backfillFile: config.priceBackfillFile,
+      }
+    );
+    this.backtester = new Backtester(
+      this.historyStore,
+      this.priceHistoryStore,
+      config
+    );
+    this.modelStore = new ModelStore(
+      path.join(config.dataDir || "./data", "models")
+    );
+    this.eventStream = new EventStream();
+    this.positionMonitor.onPositionChange((change) => {
+      this.eventStream.publishPositionChange(change);
+      this.handlePositionChange(change);
+    });
+    this.alertSystem.onAlert((alert) => this.eventStream.publishAlert(alert));
+
+    this.approvalQueue = new PlanApprovalQueue(
+      config.executorApprovalTimeoutMs
+    );
+    if (config.executorEnabled) {
+      this.executor = new DeleveragingExecutor(
+        this.connection,
+        this.positionMonitor,
+        jupiterPriceFeed,
+        {
+          // Until a policies file is loaded: act below critical, restore to warning
+          policies: [
+            {
+              name: "default",
+              triggerHealthFactor: config.criticalHealthThreshold,
+              targetHealthFactor: config.liquidationWarningThreshold,
+            },
+          ],
+          dryRun: config.executorDryRun,
+          maxNotionalPerRunUsd: config.executorMaxNotionalPerRunUsd,
+          approvalHook: this.approvalQueue.hook,
+        }
+      );
+      this.approvalQueue.onRequest((approval) => {
+        this.alertSystem.sendCustomAlert(
+          "info",
+          `Deleveraging plan ${approval.plan.id} awaiting approval`,
+          approval,
+          approval.plan.positionId,
+          approval.plan.protocol
+        );
+      });
+      this.executor.onExecution((execution) => {
+        if (execution.dryRun) return;
+        this.alertSystem.sendCustomAlert(
+          execution.status === "failed" ? "critical" : "info",
+          `Deleveraging plan ${execution.plan.id} ${execution.status}${
+            execution.reason ? `: ${execution.reason}` : ""
+          }`,
+          execution,
+          execution.plan.positionId,
+          execution.plan.protocol
+        );
+      });
+    }
     this.app = express();
     this.setupExpressApp();
     this.setupGracefulShutdown();
@@ -137,7 +359,7 @@ class Sentinel {
           uptime: process.uptime(),
           version: process.env.npm_package_version || "1.0.0",
           environment: process.env.NODE_ENV || "development",
-          rpcUrl: this.config.rpcUrl,
+          rpcUrl: redactUrl(this.config.rpcUrl),
           totalPositions: this.positions.length,
           lastUpdate: this.lastPositionsUpdate
             ? new Date(this.lastPositionsUpdate).toISOString()
@@ -191,22 +413,23 @@ class Sentinel {
           })
         );
 
+        // Each position is bucketed against its own policy thresholds
+        const levels = positionsWithRisk.map((p) =>
+          p.riskScore ? this.riskPolicy.forPosition(p).healthFactor : null
+        );
         const healthyPositions = positionsWithRisk.filter(
-          (p) =>
-            p.riskScore &&
-            p.riskScore.healthFactor >= this.config.liquidationWarningThreshold
+          (p, i) =>
+            p.riskScore && p.riskScore.healthFactor >= levels[i]!.warning
         );
         const warningPositions = positionsWithRisk.filter(
-          (p) =>
+          (p, i) =>
             p.riskScore &&
-            p.riskScore.healthFactor <
-              this.config.liquidationWarningThreshold &&
-            p.riskScore.healthFactor >= this.config.criticalHealthThreshold
+            p.riskScore.healthFactor < levels[i]!.warning &&
+            p.riskScore.healthFactor >= levels[i]!.critical
         );
         const criticalPositions = positionsWithRisk.filter(
-          (p) =>
-            p.riskScore &&
-            p.riskScore.healthFactor < this.config.criticalHealthThreshold
+          (p, i) =>
+            p.riskScore && p.riskScore.healthFactor < levels[i]!.critical
         );
 
         const validHealthFactors = positionsWithRisk
@@ -269,11 +492,16 @@ class Sentinel {
 
         const riskScore = await this.riskEngine.calculateRisk(position);
         const prediction = await this.riskEngine.predictLiquidation(position);
+        const jointRisk = this.riskEngine.calculateJointRisk(position);
+        const liquidationSimulation =
+          this.riskEngine.simulateLiquidation(position);
 
         res.json({
           ...position,
           riskScore,
           prediction,
+          jointRisk,
+          liquidationSimulation,
           lastUpdated: new Date(this.lastPositionsUpdate).toISOString(),
         });
       } catch (error) {
@@ -285,6 +513,805 @@ class Sentinel {
       }
     });
 
+    this.app.get(
+      "/positions/:id/explain",
+      async (req: Request, res: Response) => {
+        try {
+          const position = this.positions.find(
+            (p) => p.id === req.params.id || p.publicKey === req.params.id
+          );
+          if (!position) {
+            return res.status(404).json({
+              error: "Position not found",
+              timestamp: new Date().toISOString(),
+            });
+          }
+
+          const riskScore = await this.riskEngine.calculateRisk(position);
+          const prediction = await this.riskEngine.predictLiquidation(position);
+          const thresholds = this.riskPolicy.forPosition(position);
+
+          // Same rules evaluatePosition applies when alerting
+          const alert =
+            riskScore.healthFactor < thresholds.healthFactor.critical
+              ? "critical"
+              : riskScore.healthFactor < thresholds.healthFactor.warning
+                ? "warning"
+                : null;
+
+          // Largest share first; superseded signals after those that count
+          const factors = [...prediction.factors].sort(
+            (a, b) =>
+              Number(!!a.superseded) - Number(!!b.superseded) ||
+              Math.abs(b.contribution) - Math.abs(a.contribution)
+          );
+
+          res.json({
+            positionId: position.id,
+            protocol: position.protocol,
+            owner: position.owner.toBase58(),
+            healthFactor: riskScore.healthFactor,
+            riskLevel: riskScore.riskLevel,
+            alert,
+            thresholds: {
+              ...thresholds,
+              predictionHorizonMinutes: this.config.predictionHorizonMinutes,
+            },
+            probability: prediction.probability,
+            thirtyMinuteProbability: prediction.thirtyMinuteProbability,
+            hourlyProbability: prediction.hourlyProbability,
+            minutesToLiquidation: prediction.minutesToLiquidation,
+            predictionAlert:
+              prediction.minutesToLiquidation <
+              this.config.predictionHorizonMinutes,
+            confidence: prediction.confidence,
+            factors,
+            timestamp: new Date().toISOString(),
+          });
+        } catch (error) {
+          console.error("[API] Error explaining position:", error);
+          res.status(500).json({
+            error: "Failed to explain position",
+            message: error instanceof Error ? error.message : "Unknown error",
+            timestamp: new Date().toISOString(),
+          });
+        }
+      }
+    );
+
+    this.app.get(
+      "/positions/:id/history",
+      async (req: Request, res: Response) => {
+        try {
+          const from = parseTime(req.query.from);
+          const to = parseTime(req.query.to);
+          if (
+            (from !== undefined && isNaN(from)) ||
+            (to !== undefined && isNaN(to)) ||
+            (from !== undefined && to !== undefined && from > to)
+          ) {
+            return res.status(400).json({
+              error: "Invalid time range",
+              message:
+                "from/to must be epoch milliseconds or ISO dates with from <= to",
+              timestamp: new Date().toISOString(),
+            });
+          }
+
+          const limit = parseLimit(req.query.limit);
+          if (limit !== undefined && isNaN(limit)) {
+            return res.status(400).json({
+              error: "Invalid limit",
+              message: "limit must be a positive integer",
+              timestamp: new Date().toISOString(),
+            });
+          }
+
+          const kinds =
+            typeof req.query.kinds === "string"
+              ? (req.query.kinds
+                  .split(",")
+                  .filter((k) =>
+                    HISTORY_KINDS.includes(k as HistoryKind)
+                  ) as HistoryKind[])
+              : undefined;
+
+          const page = await this.historyStore.query(req.params.id, {
+            from,
+            to,
+            kinds,
+            limit,
+            cursor:
+              typeof req.query.cursor === "string"
+                ? req.query.cursor
+                : undefined,
+          });
+
+          res.json({
+            positionId: req.params.id,
+            from: new Date(page.from).toISOString(),
+            to: new Date(page.to).toISOString(),
+            records: page.records,
+            count: page.records.length,
+            nextCursor: page.nextCursor,
+            timestamp: new Date().toISOString(),
+          });
+        } catch (error) {
+          console.error("[API] Error fetching position history:", error);
+          res.status(500).json({
+            error: "Failed to fetch position history",
+            message: error instanceof Error ? error.message : "Unknown error",
+            timestamp: new Date().toISOString(),
+          });
+        }
+      }
+    );
+
+    this.app.post(
+      "/positions/:id/simulate",
+      async (req: Request, res: Response) => {
+        try {
+          const position = this.positions.find((p) => p.id === req.params.id);
+          if (!position) {
+            return res.status(404).json({
+              error: "Position not found",
+              timestamp: new Date().toISOString(),
+            });
+          }
+
+          const result = await this.simulationService.simulate(
+            position,
+            {
+              ...req.body,
+              targetHealthFactor:
+                req.body?.targetHealthFactor ??
+                this.riskPolicy.forPosition(position).healthFactor.warning,
+            },
+            await this.positionMonitor.getLiquidationParameters(position.id)
+          );
+
+          res.json({
+            ...result,
+            timestamp: new Date(result.timestamp).toISOString(),
+          });
+        } catch (error) {
+          if (error instanceof SimulationValidationError) {
+            return res.status(400).json({
+              error: "Invalid simulation",
+              message: error.message,
+              timestamp: new Date().toISOString(),
+            });
+          }
+
+          console.error("[API] Error running simulation:", error);
+          res.status(500).json({
+            error: "Failed to run simulation",
+            message: error instanceof Error ? error.message : "Unknown error",
+            timestamp: new Date().toISOString(),
+          });
+        }
+      }
+    );
+
+    this.app.get(
+      "/positions/:id/remediation",
+      async (req: Request, res: Response) => {
+        try {
+          const position = this.positions.find((p) => p.id === req.params.id);
+          if (!position) {
+            return res.status(404).json({
+              error: "Position not found",
+              timestamp: new Date().toISOString(),
+            });
+          }
+
+          const targetHealthFactor =
+            req.query.targetHealth !== undefined
+              ? Number(req.query.targetHealth)
+              : this.riskPolicy.forPosition(position).healthFactor.warning;
+          const maxCapitalUsd =
+            req.query.maxCapital !== undefined
+              ? Number(req.query.maxCapital)
+              : undefined;
+          if (
+            !(targetHealthFactor > 0) ||
+            !Number.isFinite(targetHealthFactor) ||
+            (maxCapitalUsd !== undefined &&
+              !(Number.isFinite(maxCapitalUsd) && maxCapitalUsd >= 0))
+          ) {
+            return res.status(400).json({
+              error: "Invalid remediation request",
+              message:
+                "targetHealth must be a positive number and maxCapital a non-negative USD amount",
+              timestamp: new Date().toISOString(),
+            });
+          }
+
+          const plan = await this.remediationPlanner.plan(
+            position,
+            { targetHealthFactor, maxCapitalUsd },
+            await this.positionMonitor.getLiquidationParameters(position.id)
+          );
+
+          res.json({
+            ...plan,
+            timestamp: new Date(plan.timestamp).toISOString(),
+          });
+        } catch (error) {
+          console.error("[API] Error planning remediation:", error);
+          res.status(500).json({
+            error: "Failed to plan remediation",
+            message: error instanceof Error ? error.message : "Unknown error",
+            timestamp: new Date().toISOString(),
+          });
+        }
+      }
+    );
+
+    this.app.get("/watchlist", (req: Request, res: Response) => {
+      const entries = this.watchlist.list();
+      res.json({
+        entries,
+        totalCount: entries.length,
+        timestamp: new Date().toISOString(),
+      });
+    });
+
+    this.app.post("/watchlist", async (req: Request, res: Response) => {
+      try {
+        const { entry, created } = await this.watchlist.upsert(req.body || {});
+        this.positionMonitor.addWatchAddress(entry.address, entry.protocols);
+
+        res.status(created ? 201 : 200).json({
+          entry,
+          created,
+          timestamp: new Date().toISOString(),
+        });
+      } catch (error) {
+        if (error instanceof WatchlistValidationError) {
+          return res.status(400).json({
+            error: "Invalid watchlist entry",
+            message: error.message,
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        console.error("[API] Error updating watchlist:", error);
+        res.status(500).json({
+          error: "Failed to update watchlist",
+          message: error instanceof Error ? error.message : "Unknown error",
+          timestamp: new Date().toISOString(),
+        });
+      }
+    });
+
+    this.app.delete(
+      "/watchlist/:address",
+      async (req: Request, res: Response) => {
+        try {
+          const address = req.params.address;
+          const removed = await this.watchlist.remove(address);
+
+          if (!removed) {
+            return res.status(404).json({
+              error: "Address not on watchlist",
+              timestamp: new Date().toISOString(),
+            });
+          }
+
+          this.positionMonitor.removeWatchAddress(address);
+          this.positions = this.positions.filter(
+            (p) => p.owner?.toBase58?.() !== address
+          );
+
+          res.json({
+            address,
+            removed: true,
+            timestamp: new Date().toISOString(),
+          });
+        } catch (error) {
+          console.error("[API] Error removing watchlist entry:", error);
+          res.status(500).json({
+            error: "Failed to remove watchlist entry",
+            message: error instanceof Error ? error.message : "Unknown error",
+            timestamp: new Date().toISOString(),
+          });
+        }
+      }
+    );
+
+    this.app.get("/alerts", (req: Request, res: Response) => {
+      const from = parseTime(req.query.from);
+      const to = parseTime(req.query.to);
+      if (
+        (from !== undefined && isNaN(from)) ||
+        (to !== undefined && isNaN(to)) ||
+        (from !== undefined && to !== undefined && from > to)
+      ) {
+        return res.status(400).json({
+          error: "Invalid time range",
+          message:
+            "from and to must be unix milliseconds or ISO dates with from <= to",
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const limit = parseLimit(req.query.limit);
+      if (limit !== undefined && isNaN(limit)) {
+        return res.status(400).json({
+          error: "Invalid limit",
+          message: "limit must be a positive integer",
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const types =
+        typeof req.query.type === "string"
+          ? (req.query.type
+              .split(",")
+              .filter((t) => ALERT_TYPES.includes(t as AlertType)) as AlertType[])
+          : undefined;
+
+      const alerts = this.alertSystem.getAlerts({
+        types,
+        protocol:
+          typeof req.query.protocol === "string"
+            ? req.query.protocol
+            : undefined,
+        positionId:
+          typeof req.query.positionId === "string"
+            ? req.query.positionId
+            : undefined,
+        owner:
+          typeof req.query.owner === "string" ? req.query.owner : undefined,
+        from,
+        to,
+        acknowledged:
+          req.query.acknowledged === "true"
+            ? true
+            : req.query.acknowledged === "false"
+            ? false
+            : undefined,
+        limit,
+      });
+
+      res.json({
+        alerts,
+        totalCount: alerts.length,
+        timestamp: new Date().toISOString(),
+      });
+    });
+
+    this.app.post(
+      "/alerts/:id/acknowledge",
+      (req: Request, res: Response) => {
+        const { acknowledgedBy, note } = req.body || {};
+        if (typeof acknowledgedBy !== "string" || acknowledgedBy.trim() === "") {
+          return res.status(400).json({
+            error: "Invalid acknowledgement",
+            message: "acknowledgedBy must be a non-empty string",
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        const alert = this.alertSystem.acknowledgeAlert(
+          req.params.id,
+          acknowledgedBy.trim(),
+          typeof note === "string" ? note : undefined
+        );
+
+        if (!alert) {
+          return res.status(404).json({
+            error: "Alert not found",
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        res.json({
+          alert,
+          timestamp: new Date().toISOString(),
+        });
+      }
+    );
+
+    this.app.post("/scenarios/run", (req: Request, res: Response) => {
+      try {
+        const { positionIds, ...request } = req.body || {};
+        const positions = Array.isArray(positionIds)
+          ? this.positions.filter((p) => positionIds.includes(p.id))
+          : this.positions;
+
+        const result = this.scenarioEngine.run(positions, request);
+        res.json({
+          ...result,
+          timestamp: new Date(result.timestamp).toISOString(),
+        });
+      } catch (error) {
+        if (error instanceof ScenarioValidationError) {
+          return res.status(400).json({
+            error: "Invalid scenario",
+            message: error.message,
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        console.error("[API] Error running scenario:", error);
+        res.status(500).json({
+          error: "Failed to run scenario",
+          message: error instanceof Error ? error.message : "Unknown error",
+          timestamp: new Date().toISOString(),
+        });
+      }
+    });
+
+    this.app.get("/calibration", (req: Request, res: Response) => {
+      if (!this.calibration) {
+        return res.status(404).json({
+          error: "No calibration yet",
+          message: "The first backtest runs at startup; try again shortly",
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      res.json({
+        ...this.calibration,
+        from: new Date(this.calibration.from).toISOString(),
+        to: new Date(this.calibration.to).toISOString(),
+        timestamp: new Date(this.calibration.timestamp).toISOString(),
+      });
+    });
+
+    this.app.post("/calibration/run", async (req: Request, res: Response) => {
+      try {
+        const { from, to, mode, threshold } = req.body || {};
+        const fromMs = parseTime(from);
+        const toMs = parseTime(to);
+        if (
+          (fromMs !== undefined && isNaN(fromMs)) ||
+          (toMs !== undefined && isNaN(toMs)) ||
+          (fromMs !== undefined && toMs !== undefined && fromMs > toMs)
+        ) {
+          return res.status(400).json({
+            error: "Invalid time range",
+            message:
+              "from/to must be epoch milliseconds or ISO dates with from <= to",
+            timestamp: new Date().toISOString(),
+          });
+        }
+        if (mode !== undefined && !BACKTEST_MODES.includes(mode)) {
+          return res.status(400).json({
+            error: "Invalid mode",
+            message: `mode must be one of ${BACKTEST_MODES.join(", ")}`,
+            timestamp: new Date().toISOString(),
+          });
+        }
+        if (
+          threshold !== undefined &&
+          !(typeof threshold === "number" && threshold > 0 && threshold <= 1)
+        ) {
+          return res.status(400).json({
+            error: "Invalid threshold",
+            message: "threshold must be a probability in (0, 1]",
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        const { report } = await this.backtester.run({
+          from: fromMs,
+          to: toMs,
+          mode: mode as BacktestMode | undefined,
+          threshold,
+        });
+        res.json({
+          ...report,
+          from: new Date(report.from).toISOString(),
+          to: new Date(report.to).toISOString(),
+          timestamp: new Date(report.timestamp).toISOString(),
+        });
+      } catch (error) {
+        console.error("[API] Error running backtest:", error);
+        res.status(500).json({
+          error: "Failed to run backtest",
+          message: error instanceof Error ? error.message : "Unknown error",
+          timestamp: new Date().toISOString(),
+        });
+      }
+    });
+
+    this.app.get("/models", async (req: Request, res: Response) => {
+      try {
+        const serving = this.riskEngine.getTrainedModels();
+        const stored = await this.modelStore.list();
+
+        res.json({
+          serving: serving.map((model) => ({
+            ...model,
+            trainedAt: new Date(model.trainedAt).toISOString(),
+            window: {
+              from: new Date(model.window.from).toISOString(),
+              to: new Date(model.window.to).toISOString(),
+            },
+            // Served only when trained for the prediction horizon in use
+            active:
+              model.horizonMinutes === this.config.predictionHorizonMinutes,
+          })),
+          stored: stored.map(({ protocol, version }) => ({ protocol, version })),
+          timestamp: new Date().toISOString(),
+        });
+      } catch (error) {
+        console.error("[API] Error listing models:", error);
+        res.status(500).json({
+          error: "Failed to list models",
+          message: error instanceof Error ? error.message : "Unknown error",
+          timestamp: new Date().toISOString(),
+        });
+      }
+    });
+
+    this.app.get("/policy", (req: Request, res: Response) => {
+      try {
+        const owner =
+          typeof req.query.owner === "string" ? req.query.owner : undefined;
+        if (owner !== undefined && !isValidPublicKey(owner)) {
+          return res.status(400).json({
+            error: "Invalid owner",
+            message: "owner must be a valid Solana address",
+            timestamp: new Date().toISOString(),
+          });
+        }
+        const protocol =
+          typeof req.query.protocol === "string"
+            ? req.query.protocol
+            : undefined;
+        const mints =
+          typeof req.query.mints === "string"
+            ? req.query.mints
+                .split(",")
+                .map((m) => m.trim())
+                .filter(Boolean)
+                .map((m) => mintForSymbol(m) ?? m)
+            : undefined;
+
+        const info = this.riskPolicy.getInfo();
+        res.json({
+          ...info,
+          loadedAt: new Date(info.loadedAt).toISOString(),
+          // Thresholds that apply to the given protocol, owner and assets
+          resolved:
+            protocol || owner || mints
+              ? this.riskPolicy.resolve({ protocol, owner, mints })
+              : undefined,
+          timestamp: new Date().toISOString(),
+        });
+      } catch (error) {
+        console.error("[API] Error reading risk policy:", error);
+        res.status(500).json({
+          error: "Failed to read risk policy",
+          message: error instanceof Error ? error.message : "Unknown error",
+          timestamp: new Date().toISOString(),
+        });
+      }
+    });
+
+    this.app.get("/portfolios", (req: Request, res: Response) => {
+      try {
+        const portfolios = this.portfolioAggregator.aggregateAll(
+          this.positions,
+          { shockPercent: this.config.portfolioShockPercent }
+        );
+
+        res.json({
+          portfolios: portfolios.map((portfolio) => ({
+            owner: portfolio.owner,
+            positionCount: portfolio.positionCount,
+            protocols: portfolio.protocols,
+            totals: portfolio.totals,
+            minHealthFactor: portfolio.minHealthFactor,
+            largestAsset: portfolio.concentration.largestAsset,
+            worstCase: portfolio.worstCase,
+          })),
+          totalCount: portfolios.length,
+          timestamp: new Date().toISOString(),
+        });
+      } catch (error) {
+        console.error("[API] Error aggregating portfolios:", error);
+        res.status(500).json({
+          error: "Failed to aggregate portfolios",
+          message: error instanceof Error ? error.message : "Unknown error",
+          timestamp: new Date().toISOString(),
+        });
+      }
+    });
+
+    this.app.get("/portfolios/:owner", (req: Request, res: Response) => {
+      try {
+        const { owner } = req.params;
+        if (!isValidPublicKey(owner)) {
+          return res.status(400).json({
+            error: "Invalid owner",
+            message: `${owner} is not a base58 public key`,
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        const shockPercent =
+          req.query.shock !== undefined
+            ? Number(req.query.shock)
+            : this.config.portfolioShockPercent;
+        if (
+          shockPercent !== undefined &&
+          !(shockPercent > 0 && shockPercent < 100)
+        ) {
+          return res.status(400).json({
+            error: "Invalid shock",
+            message: "shock must be a percent between 0 and 100",
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        const positions = this.positions.filter(
+          (p) => p.owner.toBase58() === owner
+        );
+        if (positions.length === 0) {
+          return res.status(404).json({
+            error: "No positions for owner",
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        const portfolio = this.portfolioAggregator.aggregate(
+          owner,
+          positions,
+          { shockPercent }
+        );
+        res.json({
+          ...portfolio,
+          timestamp: new Date(portfolio.timestamp).toISOString(),
+        });
+      } catch (error) {
+        console.error("[API] Error aggregating portfolio:", error);
+        res.status(500).json({
+          error: "Failed to aggregate portfolio",
+          message: error instanceof Error ? error.message : "Unknown error",
+          timestamp: new Date().toISOString(),
+        });
+      }
+    });
+
+    this.app.get("/correlations", (req: Request, res: Response) => {
+      try {
+        const estimator = this.riskEngine.getCorrelationEstimator();
+        const mints =
+          typeof req.query.mints === "string"
+            ? req.query.mints
+                .split(",")
+                .filter((m) => m !== "")
+                .map((m) => mintForSymbol(m) ?? m)
+            : this.heldMints().filter((m) => estimator.hasHistory(m));
+
+        const unknown = mints.filter((m) => !estimator.hasHistory(m));
+        if (unknown.length > 0) {
+          return res.status(400).json({
+            error: "Insufficient price history",
+            message: `Not enough recorded candles for ${unknown.join(", ")}`,
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        res.json({
+          ...estimator.getMatrix(mints),
+          timestamp: new Date().toISOString(),
+        });
+      } catch (error) {
+        console.error("[API] Error estimating correlations:", error);
+        res.status(500).json({
+          error: "Failed to estimate correlations",
+          message: error instanceof Error ? error.message : "Unknown error",
+          timestamp: new Date().toISOString(),
+        });
+      }
+    });
+
+    this.app.get("/depegs", (req: Request, res: Response) => {
+      const depegs = this.riskEngine.getCorrelationEstimator().detectDepegs();
+      res.json({
+        depegs: depegs.map((event) => ({
+          ...event,
+          since: new Date(event.since).toISOString(),
+          detectedAt: new Date(event.detectedAt).toISOString(),
+          exposedPositions: this.positionsExposedTo(event.asset),
+        })),
+        totalCount: depegs.length,
+        timestamp: new Date().toISOString(),
+      });
+    });
+
+    this.app.get("/executor", (req: Request, res: Response) => {
+      if (!this.executor) {
+        return res.status(404).json({
+          error: "Executor disabled",
+          message: "Set EXECUTOR_ENABLED=true to enable automated deleveraging",
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const limit = parseLimit(req.query.limit);
+      if (limit !== undefined && isNaN(limit)) {
+        return res.status(400).json({
+          error: "Invalid limit",
+          message: "limit must be a positive integer",
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      res.json({
+        dryRun: this.executor.isDryRun(),
+        maxNotionalPerRunUsd: this.config.executorMaxNotionalPerRunUsd ?? null,
+        policies: this.executor.getPolicies(),
+        pendingApprovals: this.approvalQueue.list(),
+        runs: this.executor.getRuns(limit ?? 20),
+        timestamp: new Date().toISOString(),
+      });
+    });
+
+    this.app.post(
+      "/executor/approvals/:planId/:decision",
+      (req: Request, res: Response) => {
+        if (
+          !isApprovalAuthorized(
+            this.config.executorApprovalToken,
+            req.headers.authorization,
+            req.socket.remoteAddress
+          )
+        ) {
+          return res.status(401).json({
+            error: "Unauthorized",
+            message: this.config.executorApprovalToken
+              ? "Send the executor approval token as a Bearer token"
+              : "Set EXECUTOR_APPROVAL_TOKEN to decide approvals from other hosts",
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        const { planId, decision } = req.params;
+        if (decision !== "approve" && decision !== "reject") {
+          return res.status(400).json({
+            error: "Invalid decision",
+            message: "decision must be approve or reject",
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        const decidedBy = req.body?.decidedBy;
+        if (typeof decidedBy !== "string" || decidedBy.trim() === "") {
+          return res.status(400).json({
+            error: "Invalid decision",
+            message: "decidedBy must be a non-empty string",
+            timestamp: new Date().toISOString(),
+          });
+        }
+        const decided =
+          decision === "approve"
+            ? this.approvalQueue.approve(planId, decidedBy.trim())
+            : this.approvalQueue.reject(planId, decidedBy.trim());
+
+        if (!decided) {
+          return res.status(404).json({
+            error: "Approval not found",
+            message: `No plan ${planId} is awaiting approval`,
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        res.json({
+          planId,
+          decision,
+          decidedBy: decidedBy.trim(),
+          timestamp: new Date().toISOString(),
+        });
+      }
+    );
+
     this.app.get("/status", (req: Request, res: Response) => {
       res.json({
         isRunning: !this.isShuttingDown,
@@ -340,7 +1367,10 @@ class Sentinel {
       await this.connection.getSlot();
       return "connected";
     } catch (error) {
-      console.error("[HEALTH] RPC connection check failed:", error);
+      console.error(
+        "[HEALTH] RPC connection check failed:",
+        redactError(error)
+      );
       return "disconnected";
     }
   }
@@ -378,6 +1408,7 @@ class Sentinel {
       }, 30000);
 
       try {
+        await this.eventStream.close();
         if (this.server) {
           await new Promise<void>((resolve) => {
             this.server!.close(() => {
@@ -387,7 +1418,16 @@ class Sentinel {
           });
         }
 
+        this.approvalQueue.clear();
+        await this.positionMonitor.stopWebSocketMonitoring();
         await this.heartbeat.stop();
+        this.historyStore.stopRetention();
+        await this.historyStore.flush();
+        this.priceIngestor.stop();
+        this.backtester.stop();
+        this.riskPolicyWatcher?.stop();
+        this.priceHistoryStore.stopRetention();
+        await this.priceHistoryStore.flush();
         console.log("[SENTINEL] Services stopped successfully");
 
         clearTimeout(shutdownTimeout);
@@ -416,9 +1456,28 @@ class Sentinel {
     });
   }
 
+  registerProtocol(adapter: ProtocolAdapter<any>): void {
+    adapter.setRiskPolicy?.(this.riskPolicy);
+    this.positionMonitor.getRegistry().register(adapter);
+  }
+
   async start(): Promise<void> {
     console.log("[SENTINEL] Starting autonomous risk monitoring...");
-    console.log(`[SENTINEL] RPC: ${this.config.rpcUrl}`);
+    console.log(`[SENTINEL] RPC: ${redactUrl(this.config.rpcUrl)}`);
+    if (this.config.rpcFallbackUrls.length > 0) {
+      console.log(
+        `[SENTINEL] RPC fallbacks: ${this.config.rpcFallbackUrls
+          .map(redactUrl)
+          .join(", ")}`
+      );
+    }
+    console.log(
+      `[SENTINEL] Webhooks: ${
+        this.config.webhooks
+          .map((webhook) => `${webhook.name} (${webhook.type})`)
+          .join(", ") || "none"
+      }`
+    );
     console.log(
       `[SENTINEL] Warning threshold: ${this.config.liquidationWarningThreshold}`
     );
@@ -430,6 +1489,27 @@ class Sentinel {
     );
 
     try {
+      // An invalid policy file fails startup; later invalid edits are logged
+      // and the last good policy stays in force
+      if (this.config.riskPolicyFile) {
+        this.riskPolicyWatcher = new RiskPolicyWatcher(
+          this.config.riskPolicyFile,
+          this.riskPolicy
+        );
+        await this.riskPolicyWatcher.load();
+        this.riskPolicyWatcher.start(this.config.riskPolicyReloadMs);
+      }
+
+      const watched = await this.watchlist.load();
+      for (const entry of watched) {
+        this.positionMonitor.addWatchAddress(entry.address, entry.protocols);
+      }
+      console.log(`[SENTINEL] Watching ${watched.length} addresses`);
+
+      if (this.executor) {
+        await this.configureExecutor(this.executor);
+      }
+
       const port = this.config.port || 3000;
       this.server = this.app.listen(port, () => {
         console.log(`[SENTINEL] API server started on port ${port}`);
@@ -437,7 +1517,11 @@ class Sentinel {
         console.log(
           `[SENTINEL] Positions API: http://localhost:${port}/positions`
         );
+        console.log(
+          `[SENTINEL] Watchlist API: http://localhost:${port}/watchlist`
+        );
         console.log(`[SENTINEL] Status: http://localhost:${port}/status`);
+        console.log(`[SENTINEL] Event stream: ws://localhost:${port}/stream`);
         console.log(
           `[SENTINEL] Shutdown: POST http://localhost:${port}/shutdown`
         );
@@ -447,7 +1531,39 @@ class Sentinel {
         console.error("[SENTINEL] Server error:", error);
         this.serviceStatus.alertSystem = false;
       });
+      this.eventStream.attach(this.server);
+
+      if (this.config.heliusApiKey) {
+        await this.positionMonitor.startWebSocketMonitoring();
+      } else {
+        console.log(
+          "[SENTINEL] HELIUS_API_KEY not set, falling back to polling only"
+        );
+      }
 
+      for (const model of await this.modelStore.loadLatest(
+        this.config.mlModelVersions
+      )) {
+        this.riskEngine.loadModel(model);
+      }
+      this.historyStore.startRetention();
+      await this.priceIngestor.start();
+      this.priceHistoryStore.startRetention();
+      this.backtester.start(
+        this.config.calibrationIntervalMs || 6 * 60 * 60 * 1000,
+        (this.config.calibrationLookbackDays || 14) * 24 * 60 * 60 * 1000,
+        (result) => {
+          this.riskEngine.applyCalibration(result);
+          this.calibration = result.report;
+          const accuracy = result.report.overall.accuracy;
+          console.log(
+            `[SENTINEL] Calibrated on ${result.outcomes.length} labeled predictions` +
+              (accuracy !== null
+                ? `, accuracy ${(accuracy * 100).toFixed(1)}%`
+                : ", too few for an accuracy estimate")
+          );
+        }
+      );
       await this.heartbeat.start();
       this.monitorLoop();
     } catch (error) {
@@ -469,42 +1585,30 @@ class Sentinel {
         this.lastPositionsUpdate = Date.now();
         console.log(`[MONITOR] Found ${positions.length} active positions`);
 
+        this.priceIngestor.trackPositions(positions);
+        this.feedPriceHistory(positions);
+
         this.serviceStatus.riskEngine = true;
+        const cycleHistory: HistoryCycleEntry[] = [];
         for (const position of positions) {
           if (this.isShuttingDown) break;
-
-          try {
-            const riskScore = await this.riskEngine.calculateRisk(position);
-
-            this.serviceStatus.alertSystem = true;
-            if (riskScore.healthFactor < this.config.criticalHealthThreshold) {
-              await this.alertSystem.sendCriticalAlert(position, riskScore);
-            } else if (
-              riskScore.healthFactor < this.config.liquidationWarningThreshold
-            ) {
-              await this.alertSystem.sendWarningAlert(position, riskScore);
-            }
-
-            const prediction = await this.riskEngine.predictLiquidation(
-              position
-            );
-            if (
-              prediction.minutesToLiquidation <
-              this.config.predictionHorizonMinutes
-            ) {
-              await this.alertSystem.sendPredictionAlert(position, prediction);
-            }
-          } catch (error) {
-            console.error("[MONITOR] Error processing position:", error);
-            this.serviceStatus.riskEngine = false;
-          }
+          cycleHistory.push(await this.evaluatePosition(position));
         }
 
+        await this.historyStore.recordCycle(cycleHistory);
+        await this.evaluatePortfolios(positions);
+        await this.evaluateDepegs();
+        this.runExecutor(positions);
+
         this.lastMonitoringCycle = Date.now();
         const cycleDuration = this.lastMonitoringCycle - cycleStart;
         console.log(`[MONITOR] Cycle completed in ${cycleDuration}ms`);
 
-        await this.sleep(Math.max(1000, 10000 - cycleDuration));
+        // With live account/oracle subscriptions the loop is only a reconciliation sweep
+        const interval = this.positionMonitor.isRealtime()
+          ? this.config.reconciliationIntervalMs || 60000
+          : this.config.pollIntervalMs || 10000;
+        await this.sleep(Math.max(1000, interval - cycleDuration));
       } catch (error) {
         console.error("[SENTINEL] Error in monitoring loop:", error);
         this.serviceStatus.positionMonitor = false;
@@ -515,27 +1619,302 @@ class Sentinel {
     console.log("[SENTINEL] Monitoring loop stopped");
   }
 
+  private async evaluatePosition(
+    position: Position
+  ): Promise<HistoryCycleEntry> {
+    try {
+      const riskScore = await this.riskEngine.calculateRisk(position);
+      this.eventStream.publishRiskScore(position, riskScore);
+
+      this.serviceStatus.alertSystem = true;
+      const thresholds = this.riskPolicy.forPosition(position).healthFactor;
+      if (Number.isNaN(riskScore.healthFactor)) {
+        // Leave open alerts alone until every balance has a price again
+        console.warn(
+          `[MONITOR] Health unknown for ${position.id}: no price for ${(position.unpriced || []).map((mint) => mint.toBase58()).join(", ")}`
+        );
+      } else if (riskScore.healthFactor < thresholds.critical) {
+        await this.alertSystem.sendCriticalAlert(
+          position,
+          riskScore,
+          await this.planRemediation(position, thresholds.warning)
+        );
+      } else if (riskScore.healthFactor < thresholds.warning) {
+        await this.alertSystem.sendWarningAlert(position, riskScore);
+        this.alertSystem.resolveAlerts(position.id, ["critical"]);
+      } else {
+        this.alertSystem.resolveAlerts(position.id, ["warning", "critical"]);
+      }
+
+      const prediction = await this.riskEngine.predictLiquidation(position);
+      this.eventStream.publishPrediction(position, prediction);
+      if (
+        prediction.minutesToLiquidation < this.config.predictionHorizonMinutes
+      ) {
+        await this.alertSystem.sendPredictionAlert(position, prediction);
+      } else {
+        this.alertSystem.resolveAlerts(position.id, ["prediction"]);
+      }
+
+      return { position, riskScore, prediction };
+    } catch (error) {
+      console.error("[MONITOR] Error processing position:", error);
+      this.serviceStatus.riskEngine = false;
+      return { position };
+    }
+  }
+
+  // A failed plan must never hold back the critical alert itself
+  private async planRemediation(
+    position: Position,
+    targetHealthFactor: number
+  ): Promise<RemediationPlan | null> {
+    try {
+      return await this.remediationPlanner.plan(
+        position,
+        { targetHealthFactor },
+        await this.positionMonitor.getLiquidationParameters(position.id)
+      );
+    } catch (error) {
+      console.error(
+        `[MONITOR] Error planning remediation for ${position.id}:`,
+        error
+      );
+      return null;
+    }
+  }
+
+  // Alerts once per depegged asset that tracked positions hold or owe, and
+  // clears the acknowledgement when the peg recovers
+  private async evaluateDepegs(): Promise<void> {
+    try {
+      const events = this.riskEngine.getCorrelationEstimator().detectDepegs();
+      const active = new Set<string>();
+
+      for (const event of events) {
+        const exposed = this.positionsExposedTo(event.asset);
+        if (exposed.length === 0) continue;
+
+        active.add(`${event.asset}:${event.reference}`);
+        await this.alertSystem.sendDepegAlert(event, exposed);
+      }
+
+      for (const key of this.activeDepegs) {
+        if (!active.has(key)) {
+          const [asset, reference] = key.split(":");
+          this.alertSystem.resolveDepegAlert(asset, reference);
+        }
+      }
+      this.activeDepegs = active;
+    } catch (error) {
+      console.error("[MONITOR] Error evaluating depegs:", error);
+    }
+  }
+
+  private positionsExposedTo(mint: string): string[] {
+    return this.positions
+      .filter((p) =>
+        [...p.collateral, ...p.debt].some(
+          (entry: any) => entry.mint.toBase58() === mint
+        )
+      )
+      .map((p) => p.id);
+  }
+
+  private heldMints(): string[] {
+    const mints = new Set<string>();
+    for (const position of this.positions) {
+      for (const entry of [...position.collateral, ...position.debt]) {
+        mints.add(entry.mint.toBase58());
+      }
+    }
+    return Array.from(mints);
+  }
+
+  // Wallets spread over several positions get their own alert when the
+  // combined worst-case loss or a single asset dominates the book
+  private async evaluatePortfolios(positions: Position[]): Promise<void> {
+    try {
+      const portfolios = this.portfolioAggregator.aggregateAll(positions, {
+        shockPercent: this.config.portfolioShockPercent,
+      });
+
+      for (const portfolio of portfolios) {
+        if (portfolio.positionCount < 2) continue;
+
+        const breaches = this.portfolioBreaches(portfolio);
+        if (breaches.length > 0) {
+          await this.alertSystem.sendPortfolioAlert(portfolio, breaches);
+        } else {
+          this.alertSystem.resolvePortfolioAlerts(portfolio.owner);
+        }
+      }
+    } catch (error) {
+      console.error("[MONITOR] Error evaluating portfolios:", error);
+    }
+  }
+
+  private portfolioBreaches(portfolio: PortfolioRisk): string[] {
+    const breaches: string[] = [];
+    const shortfallPercent = this.config.portfolioShortfallAlertPercent ?? 25;
+    const { equityUsd, debtUsd } = portfolio.totals;
+
+    if (equityUsd <= 0 && debtUsd > 0) {
+      breaches.push(`debt exceeds collateral by $${(-equityUsd).toFixed(2)}`);
+    } else if (portfolio.worstCase && equityUsd > 0) {
+      const lossPercent = (portfolio.worstCase.shortfallUsd / equityUsd) * 100;
+      if (lossPercent >= shortfallPercent) {
+        breaches.push(
+          `${portfolio.worstCase.name} would cost ${lossPercent.toFixed(
+            1
+          )}% of equity ($${portfolio.worstCase.shortfallUsd.toFixed(2)})`
+        );
+      }
+    }
+
+    const largest = portfolio.concentration.largestAsset;
+    if (
+      this.config.portfolioConcentrationAlertPercent !== undefined &&
+      largest &&
+      largest.share * 100 >= this.config.portfolioConcentrationAlertPercent
+    ) {
+      breaches.push(
+        `${largest.symbol || largest.mint} is ${(largest.share * 100).toFixed(
+          1
+        )}% of exposure`
+      );
+    }
+
+    return breaches;
+  }
+
+  private handlePositionChange(change: PositionChange): void {
+    const { position } = change;
+    this.positions = this.positions.filter((p) => p.id !== position.id);
+    this.lastPositionsUpdate = Date.now();
+
+    if (change.changeType === "deleted") {
+      this.pendingRecompute.delete(position.id);
+      this.alertSystem.resolveAlerts(position.id, [
+        "warning",
+        "critical",
+        "prediction",
+      ]);
+      return;
+    }
+
+    this.positions.push(position);
+    this.pendingRecompute.set(position.id, position);
+    this.processRecomputeQueue();
+  }
+
+  // Recomputes changed positions one at a time; repeated changes to the same
+  // position while it waits collapse into a single recompute of the latest state
+  private async processRecomputeQueue(): Promise<void> {
+    if (this.isRecomputing) return;
+    this.isRecomputing = true;
+
+    try {
+      while (this.pendingRecompute.size > 0 && !this.isShuttingDown) {
+        const [positionId, position] = this.pendingRecompute
+          .entries()
+          .next().value as [string, Position];
+        this.pendingRecompute.delete(positionId);
+
+        const entry = await this.evaluatePosition(position);
+        await this.historyStore.recordCycle([entry]);
+        const owner = position.owner.toBase58();
+        await this.evaluatePortfolios(
+          this.positions.filter((p) => p.owner.toBase58() === owner)
+        );
+        this.runExecutor([position]);
+      }
+    } catch (error) {
+      console.error("[SENTINEL] Error recomputing changed positions:", error);
+    } finally {
+      this.isRecomputing = false;
+    }
+  }
+
+  private async configureExecutor(
+    executor: DeleveragingExecutor
+  ): Promise<void> {
+    if (this.config.executorPoliciesFile) {
+      try {
+        executor.setPolicies(
+          await loadPoliciesFile(this.config.executorPoliciesFile)
+        );
+      } catch (error) {
+        if (error instanceof ExecutorConfigError) throw error;
+        throw new ExecutorConfigError(
+          `Could not load ${this.config.executorPoliciesFile}: ${
+            error instanceof Error ? error.message : error
+          }`
+        );
+      }
+    }
+
+    if (this.config.executorKeypairPath) {
+      const secretKey = JSON.parse(
+        await fs.readFile(this.config.executorKeypairPath, "utf8")
+      );
+      const keypair = Keypair.fromSecretKey(Uint8Array.from(secretKey));
+      executor.setSigner(keypairSigner(keypair));
+      console.log(
+        `[SENTINEL] Executor signer: ${keypair.publicKey.toBase58()}`
+      );
+    }
+
+    console.log(
+      `[SENTINEL] Deleveraging executor enabled (${
+        executor.isDryRun() ? "dry run" : "live"
+      })`
+    );
+  }
+
+  // Not awaited: a live run can sit waiting on approval for minutes
+  private runExecutor(positions: Position[]): void {
+    if (!this.executor || this.isShuttingDown) return;
+
+    this.executor.run(positions).catch((error) => {
+      console.error("[SENTINEL] Executor run failed:", error);
+    });
+  }
+
+  private feedPriceHistory(positions: any[]): void {
+    // Every recorded mint, not just held ones: perp markets and peg references
+    // feed the correlation estimator too
+    const mints = new Set<string>(this.priceHistory.getMints());
+    for (const position of positions) {
+      for (const entry of [...position.collateral, ...position.debt]) {
+        mints.add(entry.mint.toBase58());
+      }
+    }
+
+    for (const mint of mints) {
+      this.riskEngine.updatePriceHistory(
+        mint,
+        this.priceHistory.getCandles(mint)
+      );
+    }
+  }
+
   private sleep(ms: number): Promise<void> {
     return new Promise((resolve) => setTimeout(resolve, ms));
   }
 }
 
 async function main() {
-  const config: SentinelConfig = {
-    rpcUrl: process.env.SOLANA_RPC_URL || "https://api.mainnet-beta.solana.com",
-    heliusApiKey: process.env.HELIUS_API_KEY,
-    webhookUrl: process.env.WEBHOOK_URL,
-    liquidationWarningThreshold: parseFloat(
-      process.env.LIQUIDATION_WARNING_THRESHOLD || "1.3"
-    ),
-    criticalHealthThreshold: parseFloat(
-      process.env.CRITICAL_HEALTH_THRESHOLD || "1.1"
-    ),
-    predictionHorizonMinutes: parseInt(
-      process.env.PREDICTION_HORIZON_MINUTES || "30"
-    ),
-    port: parseInt(process.env.PORT || "3000"),
-  };
+  let config: SentinelConfig;
+  try {
+    config = await loadConfig();
+  } catch (error) {
+    if (error instanceof ConfigValidationError) {
+      console.error(`[SENTINEL] ${error.message}`);
+      process.exit(1);
+    }
+    throw error;
+  }
 
   const sentinel = new Sentinel(config);
   await sentinel.start();
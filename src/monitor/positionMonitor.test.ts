@@ -0,0 +1,183 @@
+import { Connection, PublicKey } from "@solana/web3.js";
+import { EventEmitter } from "events";
+import WebSocket from "ws";
+import { DecodedAccount, ProtocolAdapter, ProtocolRegistry } from "../protocols/adapter";
+import { PositionChange, PositionMonitor } from "./positionMonitor";
+
+jest.mock("ws", () => {
+  const { EventEmitter: Emitter } = jest.requireActual("events");
+  return class FakeWebSocket extends Emitter {
+    static CONNECTING = 0;
+    static OPEN = 1;
+    static CLOSING = 2;
+    static CLOSED = 3;
+    static instances: FakeWebSocket[] = [];
+    readyState = 0;
+    sent: any[] = [];
+
+    constructor() {
+      super();
+      FakeWebSocket.instances.push(this);
+    }
+
+    send(data: string): void {
+      this.sent.push(JSON.parse(data));
+    }
+
+    ping(): void {}
+
+    close(code: number, reason: string): void {
+      this.readyState = 3;
+      setImmediate(() => this.emit("close", code, Buffer.from(reason)));
+    }
+  };
+});
+
+type FakeSocket = EventEmitter & { readyState: number; sent: any[] };
+
+const OWNER = new PublicKey("So11111111111111111111111111111111111111112");
+const ACCOUNT = new PublicKey("11111111111111111111111111111112");
+const ORACLE = new PublicKey("11111111111111111111111111111113");
+const USDC = new PublicKey("EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v");
+
+function encodeHealth(health: number): Buffer {
+  const data = Buffer.alloc(2);
+  data.writeUInt16LE(Math.round(health * 100));
+  return data;
+}
+
+// A venue whose accounts store their health, scaled by the latest oracle push
+class TestAdapter implements ProtocolAdapter<{ health: number }> {
+  readonly name = "testlend";
+  readonly programId = new PublicKey("11111111111111111111111111111114");
+  readonly healthModel = "weighted-collateral" as const;
+  priceScale = 1;
+
+  async discoverAccounts(): Promise<DecodedAccount<{ health: number }>[]> {
+    return [{ address: ACCOUNT, account: { health: 1.5 } }];
+  }
+
+  async decodeAccount(address: PublicKey, data: Buffer): Promise<DecodedAccount<{ health: number }>> {
+    return { address, account: { health: data.readUInt16LE(0) / 100 } };
+  }
+
+  async decodePosition(account: DecodedAccount<{ health: number }>, owner: PublicKey) {
+    return {
+      id: `testlend-${account.address.toBase58()}`,
+      protocol: this.name,
+      owner,
+      collateral: [{ mint: USDC, amount: 1000, valueUsd: 1000 * this.priceScale }],
+      debt: [],
+      healthFactor: account.account.health * this.priceScale,
+      timestamp: Date.now(),
+    };
+  }
+
+  async computeHealth(account: DecodedAccount<{ health: number }>): Promise<number> {
+    return account.account.health;
+  }
+
+  async getLiquidationParameters(account: DecodedAccount<{ health: number }>) {
+    return {
+      protocol: this.name,
+      account: account.address,
+      healthModel: this.healthModel,
+      liquidationHealthFactor: 1,
+      assets: [],
+    };
+  }
+
+  async subscribe(): Promise<number> {
+    return 0;
+  }
+
+  unsubscribe(): void {}
+
+  async getDependencies(): Promise<PublicKey[]> {
+    return [ORACLE];
+  }
+
+  applyDependencyUpdate(address: PublicKey, data: Buffer): boolean {
+    if (!address.equals(ORACLE)) return false;
+    this.priceScale = data.readUInt16LE(0) / 100;
+    return true;
+  }
+}
+
+function socket(): FakeSocket {
+  const instances = (WebSocket as unknown as { instances: FakeSocket[] }).instances;
+  return instances[instances.length - 1];
+}
+
+async function push(ws: FakeSocket, message: object): Promise<void> {
+  ws.emit("message", JSON.stringify(message));
+  await new Promise((resolve) => setImmediate(resolve));
+}
+
+function notification(subscription: number, data: Buffer) {
+  return {
+    method: "accountNotification",
+    params: {
+      subscription,
+      result: { context: { slot: 1 }, value: { data: [data.toString("base64"), "base64"] } },
+    },
+  };
+}
+
+describe("PositionMonitor", () => {
+  let monitor: PositionMonitor;
+  let adapter: TestAdapter;
+  let changes: PositionChange[];
+
+  beforeEach(async () => {
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+    adapter = new TestAdapter();
+    const registry = new ProtocolRegistry();
+    registry.register(adapter);
+    monitor = new PositionMonitor({} as Connection, "test-key", registry);
+    changes = [];
+    monitor.onPositionChange((change) => changes.push(change));
+    monitor.setDependencyRefreshInterval(0);
+
+    monitor.addWatchAddress(OWNER.toBase58());
+    await monitor.fetchAllPositions();
+    await monitor.startWebSocketMonitoring();
+    socket().readyState = WebSocket.OPEN;
+    socket().emit("open");
+  });
+
+  afterEach(async () => {
+    await monitor.stopWebSocketMonitoring();
+    jest.restoreAllMocks();
+  });
+
+  it("subscribes to the owner, its protocol account and the accounts it is valued from", () => {
+    expect(socket().sent.map((m) => [m.params[0], m.params[1].dataSlice])).toEqual([
+      [OWNER.toBase58(), { offset: 0, length: 0 }],
+      [ACCOUNT.toBase58(), undefined],
+      [ORACLE.toBase58(), undefined],
+    ]);
+  });
+
+  it("recomputes a position from pushed account and dependency data", async () => {
+    const ws = socket();
+    for (const request of ws.sent) {
+      await push(ws, { jsonrpc: "2.0", id: request.id, result: 100 + request.id });
+    }
+    const [, account, oracle] = ws.sent.map((m) => 100 + m.id);
+
+    await push(ws, notification(account, encodeHealth(1.2)));
+    await push(ws, notification(oracle, encodeHealth(0.9)));
+    // The dependency refresh runs on a timer
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    await push(ws, notification(account, Buffer.alloc(0)));
+
+    expect(changes.map((c) => [c.changeType, c.position.healthFactor])).toEqual([
+      ["updated", 1.2],
+      ["updated", 1.08],
+      ["deleted", 1.08],
+    ]);
+    expect(changes[1].position.collateral[0].valueUsd).toBe(900);
+    expect(ws.sent[ws.sent.length - 1]).toMatchObject({ method: "accountUnsubscribe", params: [account] });
+  });
+});
@@ -1,24 +1,81 @@
-import { Connection, PublicKey } from "@solana/web3.js";
+import {
+  Connection,
+  PublicKey,
+  TransactionInstruction,
+} from "@solana/web3.js";
 import WebSocket from "ws";
+import {
+  DecodedAccount,
+  LiquidationParameters,
+  ProtocolAction,
+  ProtocolAdapter,
+  ProtocolRegistry,
+} from "../protocols/adapter";
+import { createDefaultRegistry } from "../protocols/adapters";
+import { redactError } from "../utils/redact";
 
 export interface Position {
   id: string;
-  protocol: "marginfi" | "kamino" | "drift";
+  // Name of the ProtocolAdapter that produced the position
+  protocol: string;
   owner: PublicKey;
   collateral: {
     mint: PublicKey;
     amount: number;
     valueUsd: number;
     priceUsd?: number;
+    // Maintenance asset weight / liquidation threshold applied by the protocol
+    liquidationWeight?: number;
   }[];
   debt: {
     mint: PublicKey;
     amount: number;
     valueUsd: number;
+    priceUsd?: number;
+    // Maintenance liability weight (borrow factor); 1 when the protocol has none
+    liquidationWeight?: number;
   }[];
   healthFactor: number;
   timestamp: number;
+  // Mints the protocol held a balance in but had no price for; those entries
+  // carry valueUsd 0, and healthFactor is NaN when one of them is a debt
+  unpriced?: PublicKey[];
   liquidationThreshold?: number;
+  perpExposure?: PerpExposure[];
+  drift?: DriftPositionDetails;
+}
+
+export interface PerpExposure {
+  marketIndex: number;
+  symbol?: string;
+  side: "long" | "short";
+  size: number;
+  notionalUsd: number;
+  markPrice: number;
+  entryPrice: number;
+  liquidationPrice: number;
+  maintenanceMarginRatio?: number;
+  unrealizedPnl: number;
+  unsettledFundingPnl: number;
+}
+
+export interface DriftPositionDetails {
+  subAccountId: number;
+  totalCollateral: number;
+  freeCollateral: number;
+  marginRatio: number;
+  marginRequirementInitial: number;
+  marginRequirementMaintenance: number;
+  maintenanceMarginExcess: number;
+  marginUtilization: number;
+  leverage: number;
+  riskLevel: "safe" | "moderate" | "high" | "critical";
+  funding: {
+    cumulativePerpFundingDelta: number;
+    dailyFundingRate: number;
+    projectedFundingDaily: number;
+    unsettledFundingPnl: number;
+  };
 }
 
 export interface PositionChange {
@@ -30,7 +87,13 @@ export interface PositionChange {
 
 export class PositionMonitor {
   private connection: Connection;
+  private registry: ProtocolRegistry;
+  private decodedAccounts: Map<
+    string,
+    { adapter: ProtocolAdapter<any>; account: DecodedAccount<any> }
+  > = new Map();
   private watchedAddresses: Set<string> = new Set();
+  private watchedProtocols: Map<string, Position["protocol"][]> = new Map();
   private heliusWs: WebSocket | null = null;
   private heliusApiKey: string;
   private previousPositions: Map<string, Position> = new Map();
@@ -40,19 +103,39 @@ export class PositionMonitor {
   private baseReconnectDelay = 1000;
   private maxReconnectDelay = 30000;
   private jitterFactor = 0.5;
+  // address -> server subscription id, set once the subscribe request is confirmed
   private subscriptionIds: Map<string, number> = new Map();
+  private pendingSubscriptions: Map<number, string> = new Map();
   private subscriptionCounter = 0;
+  // protocol account (obligation, marginfi account, drift user) -> position id
+  private accountPositions: Map<string, string> = new Map();
+  // bank/reserve/oracle/market address -> ids of positions valued from it
+  private dependencyPositions: Map<string, Set<string>> = new Map();
+  private dependencyRefreshTimers: Map<string, NodeJS.Timeout> = new Map();
+  private lastDependencyRefresh: Map<string, number> = new Map();
+  private minDependencyRefreshIntervalMs = 5000;
   private heartbeatInterval: NodeJS.Timeout | null = null;
   private reconnectTimeout: NodeJS.Timeout | null = null;
   private isReconnecting = false;
+  private isStopped = false;
 
-  constructor(connection: Connection, heliusApiKey: string) {
+  constructor(
+    connection: Connection,
+    heliusApiKey: string,
+    registry?: ProtocolRegistry
+  ) {
     this.connection = connection;
     this.heliusApiKey = heliusApiKey;
+    this.registry = registry ?? createDefaultRegistry(connection);
   }
 
-  addWatchAddress(address: string): void {
+  addWatchAddress(address: string, protocols?: Position["protocol"][]): void {
     this.watchedAddresses.add(address);
+    if (protocols && protocols.length > 0) {
+      this.watchedProtocols.set(address, protocols);
+    } else {
+      this.watchedProtocols.delete(address);
+    }
     console.log(`[MONITOR] Now watching: ${address}`);
 
     if (this.heliusWs && this.heliusWs.readyState === WebSocket.OPEN) {
@@ -62,6 +145,7 @@ export class PositionMonitor {
 
   removeWatchAddress(address: string): void {
     this.watchedAddresses.delete(address);
+    this.watchedProtocols.delete(address);
 
     if (this.heliusWs && this.heliusWs.readyState === WebSocket.OPEN) {
       this.unsubscribeFromAddress(address);
@@ -72,7 +156,20 @@ export class PositionMonitor {
     this.changeCallbacks.push(callback);
   }
 
+  /**
+   * Oracles and markets can update every slot; positions depending on them are
+   * re-decoded at most once per interval.
+   */
+  setDependencyRefreshInterval(intervalMs: number): void {
+    this.minDependencyRefreshIntervalMs = intervalMs;
+  }
+
+  isRealtime(): boolean {
+    return this.heliusWs !== null && this.heliusWs.readyState === WebSocket.OPEN;
+  }
+
   async startWebSocketMonitoring(): Promise<void> {
+    this.isStopped = false;
     const wsUrl = `wss://atlas-mainnet.helius-rpc.com/?api-key=${this.heliusApiKey}`;
 
     this.heliusWs = new WebSocket(wsUrl, {
@@ -92,9 +189,17 @@ export class PositionMonitor {
       
       this.startHeartbeat();
 
+      this.subscriptionIds.clear();
+      this.pendingSubscriptions.clear();
       for (const address of this.watchedAddresses) {
         this.subscribeToAddress(address);
       }
+      for (const account of this.accountPositions.keys()) {
+        this.subscribeToAddress(account, true);
+      }
+      for (const dependency of this.dependencyPositions.keys()) {
+        this.subscribeToAddress(dependency, true);
+      }
     });
 
     this.heliusWs.on("message", async (data: WebSocket.Data) => {
@@ -115,7 +220,8 @@ export class PositionMonitor {
     });
 
     this.heliusWs.on("error", (error: Error) => {
-      console.error("[WEBSOCKET] Error:", error);
+      // Handshake errors can quote the URL, which carries the API key
+      console.error("[WEBSOCKET] Error:", redactError(error));
       this.stopHeartbeat();
       this.attemptReconnect();
     });
@@ -144,6 +250,10 @@ export class PositionMonitor {
   }
 
   private attemptReconnect(): void {
+    if (this.isStopped) {
+      return;
+    }
+
     if (this.isReconnecting) {
       console.log("[WEBSOCKET] Reconnection already in progress, skipping");
       return;
@@ -175,34 +285,33 @@ export class PositionMonitor {
     }, delay);
   }
 
-  private subscribeToAddress(address: string): void {
+  // Owner wallets only need the change signal; protocol accounts and their
+  // dependencies are subscribed with full data so pushes decode without RPC
+  private subscribeToAddress(address: string, includeData = false): void {
     if (!this.heliusWs || this.heliusWs.readyState !== WebSocket.OPEN) {
       return;
     }
 
-    const subscriptionId = ++this.subscriptionCounter;
-    this.subscriptionIds.set(address, subscriptionId);
+    const requestId = ++this.subscriptionCounter;
+    this.pendingSubscriptions.set(requestId, address);
 
     const subscription = {
       jsonrpc: "2.0",
-      id: subscriptionId,
+      id: requestId,
       method: "accountSubscribe",
       params: [
         address,
         {
           encoding: "base64",
           commitment: "confirmed",
-          dataSlice: {
-            offset: 0,
-            length: 0,
-          },
+          ...(includeData ? {} : { dataSlice: { offset: 0, length: 0 } }),
         },
       ],
     };
 
     this.heliusWs.send(JSON.stringify(subscription));
     console.log(
-      `[WEBSOCKET] Subscribed to account: ${address} (ID: ${subscriptionId})`
+      `[WEBSOCKET] Subscribing to account: ${address} (request ${requestId})`
     );
   }
 
@@ -211,8 +320,12 @@ export class PositionMonitor {
       return;
     }
 
+    for (const [requestId, pending] of this.pendingSubscriptions.entries()) {
+      if (pending === address) this.pendingSubscriptions.delete(requestId);
+    }
+
     const subscriptionId = this.subscriptionIds.get(address);
-    if (!subscriptionId) {
+    if (subscriptionId === undefined) {
       return;
     }
 
@@ -238,12 +351,24 @@ export class PositionMonitor {
           ? this.findAddressBySubscriptionId(notification.subscription)
           : null;
 
-        if (pubkey) {
+        const [encoded] = notification.result.value.data || [];
+        const data = Buffer.from(encoded || "", "base64");
+
+        if (pubkey && this.accountPositions.has(pubkey)) {
+          await this.processProtocolAccountUpdate(pubkey, data);
+        } else if (pubkey && this.dependencyPositions.has(pubkey)) {
+          this.processDependencyUpdate(pubkey, data);
+        } else if (pubkey && this.watchedAddresses.has(pubkey)) {
           console.log(`[WEBSOCKET] Account update for: ${pubkey}`);
           await this.processAccountUpdate(pubkey);
         }
       }
-    } else if (message.result && typeof message.result === "number") {
+    } else if (typeof message.result === "number" && message.id) {
+      const address = this.pendingSubscriptions.get(message.id);
+      if (address) {
+        this.pendingSubscriptions.delete(message.id);
+        this.subscriptionIds.set(address, message.result);
+      }
       console.log(
         `[WEBSOCKET] Subscription confirmed with ID: ${message.result}`
       );
@@ -266,7 +391,10 @@ export class PositionMonitor {
       await new Promise((resolve) => setTimeout(resolve, 100));
 
       const pubkey = new PublicKey(address);
-      const currentPositions = await this.fetchPositionsForAddress(pubkey);
+      const currentPositions = await this.fetchPositionsForAddress(
+        pubkey,
+        this.watchedProtocols.get(address)
+      );
 
       const addressPositions = currentPositions.filter((p) =>
         p.owner.equals(pubkey)
@@ -309,7 +437,7 @@ export class PositionMonitor {
           };
 
           this.notifyPositionChange(change);
-          this.previousPositions.delete(previousPosition.id);
+          this.forgetPosition(previousPosition.id);
         }
       }
     } catch (error) {
@@ -320,6 +448,220 @@ export class PositionMonitor {
     }
   }
 
+  /**
+   * Re-decodes a single position from its cached protocol account, notifying
+   * listeners if it changed. Used for price-driven updates where the account
+   * itself did not move.
+   */
+  async refreshPosition(positionId: string): Promise<Position | null> {
+    const decoded = this.decodedAccounts.get(positionId);
+    const previousPosition = this.previousPositions.get(positionId);
+    if (!decoded || !previousPosition) return null;
+
+    try {
+      const position = await decoded.adapter.decodePosition(
+        decoded.account,
+        previousPosition.owner
+      );
+      if (!position) return null;
+
+      if (this.hasPositionChanged(previousPosition, position)) {
+        this.notifyPositionChange({
+          position,
+          changeType: "updated",
+          previousPosition,
+          timestamp: Date.now(),
+        });
+      }
+      this.previousPositions.set(position.id, position);
+      return position;
+    } catch (error) {
+      console.error(`[MONITOR] Error refreshing position ${positionId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Decodes a pushed protocol account in place and diffs the result against
+   * the last known position; no RPC round-trip beyond cache misses.
+   */
+  private async processProtocolAccountUpdate(
+    address: string,
+    data: Buffer
+  ): Promise<void> {
+    const positionId = this.accountPositions.get(address)!;
+    const decoded = this.decodedAccounts.get(positionId);
+    const previousPosition = this.previousPositions.get(positionId);
+    if (!decoded || !previousPosition) return;
+
+    try {
+      let position: Position | null = null;
+
+      // Closed accounts are pushed with empty data
+      if (data.length > 0) {
+        decoded.account = await decoded.adapter.decodeAccount(
+          new PublicKey(address),
+          data
+        );
+        position = await decoded.adapter.decodePosition(
+          decoded.account,
+          previousPosition.owner
+        );
+      }
+
+      if (!position) {
+        this.notifyPositionChange({
+          position: previousPosition,
+          changeType: "deleted",
+          timestamp: Date.now(),
+        });
+        this.forgetPosition(positionId);
+        return;
+      }
+
+      if (this.hasPositionChanged(previousPosition, position)) {
+        this.notifyPositionChange({
+          position,
+          changeType: "updated",
+          previousPosition,
+          timestamp: Date.now(),
+        });
+      }
+      this.previousPositions.set(position.id, position);
+    } catch (error) {
+      console.error(
+        `[WEBSOCKET] Error decoding pushed account ${address}:`,
+        error
+      );
+    }
+  }
+
+  private processDependencyUpdate(address: string, data: Buffer): void {
+    const pubkey = new PublicKey(address);
+    const adapters = new Set<ProtocolAdapter<any>>();
+    for (const positionId of this.dependencyPositions.get(address) || []) {
+      const decoded = this.decodedAccounts.get(positionId);
+      if (decoded) adapters.add(decoded.adapter);
+    }
+
+    let applied = false;
+    for (const adapter of adapters) {
+      try {
+        applied = adapter.applyDependencyUpdate?.(pubkey, data) || applied;
+      } catch (error) {
+        console.error(
+          `[${adapter.name.toUpperCase()}] Error applying update for ${address}:`,
+          error
+        );
+      }
+    }
+
+    if (applied) {
+      this.scheduleDependencyRefresh(address);
+    }
+  }
+
+  private scheduleDependencyRefresh(address: string): void {
+    if (this.dependencyRefreshTimers.has(address)) return;
+
+    const last = this.lastDependencyRefresh.get(address) || 0;
+    const wait = Math.max(
+      0,
+      last + this.minDependencyRefreshIntervalMs - Date.now()
+    );
+
+    this.dependencyRefreshTimers.set(
+      address,
+      setTimeout(async () => {
+        this.dependencyRefreshTimers.delete(address);
+        this.lastDependencyRefresh.set(address, Date.now());
+
+        const positionIds = Array.from(
+          this.dependencyPositions.get(address) || []
+        );
+        console.log(
+          `[WEBSOCKET] Dependency ${address} updated, refreshing ${positionIds.length} positions`
+        );
+        for (const positionId of positionIds) {
+          await this.refreshPosition(positionId);
+        }
+      }, wait)
+    );
+  }
+
+  private forgetPosition(positionId: string): void {
+    this.previousPositions.delete(positionId);
+    this.decodedAccounts.delete(positionId);
+
+    for (const [account, id] of this.accountPositions.entries()) {
+      if (id === positionId) {
+        this.accountPositions.delete(account);
+        this.unsubscribeFromAddress(account);
+      }
+    }
+    for (const ids of this.dependencyPositions.values()) {
+      ids.delete(positionId);
+    }
+  }
+
+  /**
+   * Reconciles live subscriptions with the latest sweep: one per protocol
+   * account plus one per bank/reserve/oracle/market the adapters report.
+   */
+  private async syncSubscriptions(positions: Position[]): Promise<void> {
+    const accounts: Map<string, string> = new Map();
+    const dependencies: Map<string, Set<string>> = new Map();
+
+    for (const position of positions) {
+      const decoded = this.decodedAccounts.get(position.id);
+      if (!decoded) continue;
+
+      accounts.set(decoded.account.address.toBase58(), position.id);
+
+      try {
+        const keys =
+          (await decoded.adapter.getDependencies?.(decoded.account)) || [];
+        for (const key of keys) {
+          const ids = dependencies.get(key.toBase58()) || new Set<string>();
+          ids.add(position.id);
+          dependencies.set(key.toBase58(), ids);
+        }
+      } catch (error) {
+        console.error(
+          `[MONITOR] Error resolving dependencies for ${position.id}:`,
+          error
+        );
+      }
+    }
+
+    for (const account of this.accountPositions.keys()) {
+      if (!accounts.has(account)) this.unsubscribeFromAddress(account);
+    }
+    for (const account of accounts.keys()) {
+      if (!this.accountPositions.has(account)) {
+        this.subscribeToAddress(account, true);
+      }
+    }
+
+    for (const dependency of this.dependencyPositions.keys()) {
+      if (!dependencies.has(dependency)) {
+        this.unsubscribeFromAddress(dependency);
+        const timer = this.dependencyRefreshTimers.get(dependency);
+        if (timer) clearTimeout(timer);
+        this.dependencyRefreshTimers.delete(dependency);
+        this.lastDependencyRefresh.delete(dependency);
+      }
+    }
+    for (const dependency of dependencies.keys()) {
+      if (!this.dependencyPositions.has(dependency)) {
+        this.subscribeToAddress(dependency, true);
+      }
+    }
+
+    this.accountPositions = accounts;
+    this.dependencyPositions = dependencies;
+  }
+
   private hasPositionChanged(previous: Position, current: Position): boolean {
     if (Math.abs(previous.healthFactor - current.healthFactor) > 0.001)
       return true;
@@ -371,43 +713,30 @@ export class PositionMonitor {
     }
   }
 
-  async fetchPositionsForAddress(owner: PublicKey): Promise<Position[]> {
+  async fetchPositionsForAddress(
+    owner: PublicKey,
+    protocols?: Position["protocol"][]
+  ): Promise<Position[]> {
     const positions: Position[] = [];
+    const adapters = this.registry
+      .list()
+      .filter((adapter) => !protocols || protocols.includes(adapter.name));
 
     try {
-      const [marginfiPositions, kaminoPositions, driftPositions] =
-        await Promise.allSettled([
-          this.fetchMarginfiPositions(owner),
-          this.fetchKaminoPositions(owner),
-          this.fetchDriftPositions(owner),
-        ]);
-
-      if (marginfiPositions.status === "fulfilled") {
-        positions.push(...marginfiPositions.value);
-      } else {
-        console.error(
-          "[MARGINFI] Error fetching positions:",
-          marginfiPositions.reason
-        );
-      }
-
-      if (kaminoPositions.status === "fulfilled") {
-        positions.push(...kaminoPositions.value);
-      } else {
-        console.error(
-          "[KAMINO] Error fetching positions:",
-          kaminoPositions.reason
-        );
-      }
+      const results = await Promise.allSettled(
+        adapters.map((adapter) => this.fetchAdapterPositions(adapter, owner))
+      );
 
-      if (driftPositions.status === "fulfilled") {
-        positions.push(...driftPositions.value);
-      } else {
-        console.error(
-          "[DRIFT] Error fetching positions:",
-          driftPositions.reason
-        );
-      }
+      results.forEach((result, i) => {
+        if (result.status === "fulfilled") {
+          positions.push(...result.value);
+        } else {
+          console.error(
+            `[${adapters[i].name.toUpperCase()}] Error fetching positions:`,
+            result.reason
+          );
+        }
+      });
     } catch (error) {
       console.error(
         `[MONITOR] Error fetching positions for ${owner.toBase58()}:`,
@@ -428,7 +757,8 @@ export class PositionMonitor {
           try {
             const pubkey = new PublicKey(address);
             const addressPositions = await this.fetchPositionsForAddress(
-              pubkey
+              pubkey,
+              this.watchedProtocols.get(address)
             );
             positions.push(...addressPositions);
 
@@ -450,121 +780,81 @@ export class PositionMonitor {
       `[MONITOR] Fetched ${positions.length} total positions across all addresses`
     );
 
+    await this.syncSubscriptions(positions);
+
     return positions;
   }
 
-  private async fetchMarginfiPositions(owner: PublicKey): Promise<Position[]> {
-    console.log(`[MARGINFI] Fetching positions for ${owner.toBase58()}`);
+  private async fetchAdapterPositions(
+    adapter: ProtocolAdapter<any>,
+    owner: PublicKey
+  ): Promise<Position[]> {
+    const tag = adapter.name.toUpperCase();
+    console.log(`[${tag}] Fetching positions for ${owner.toBase58()}`);
 
     const positions: Position[] = [];
+    const accounts = await adapter.discoverAccounts(owner);
 
-    try {
-      const MARGINFI_PROGRAM_ID = new PublicKey(
-        "MFv2hWf31Z9kbCa1snEPYctwafyhdvnV7FZnsebVacA"
-      );
-
-      const accounts = await this.connection.getProgramAccounts(
-        MARGINFI_PROGRAM_ID,
-        {
-          filters: [{ memcmp: { offset: 8, bytes: owner.toBase58() } }],
-          dataSlice: { offset: 0, length: 0 },
-        }
-      );
+    for (const account of accounts) {
+      try {
+        const position = await adapter.decodePosition(account, owner);
+        if (!position) continue;
 
-      for (const account of accounts) {
-        positions.push({
-          id: `marginfi-${account.pubkey.toBase58()}`,
-          protocol: "marginfi",
-          owner,
-          collateral: [],
-          debt: [],
-          healthFactor: 1.5,
-          timestamp: Date.now(),
-        });
+        positions.push(position);
+        this.decodedAccounts.set(position.id, { adapter, account });
+      } catch (error) {
+        console.error(
+          `[${tag}] Error decoding account ${account.address.toBase58()}:`,
+          error
+        );
       }
-
-      console.log(`[MARGINFI] Found ${positions.length} positions`);
-    } catch (error) {
-      console.error("[MARGINFI] Error:", error);
     }
 
+    console.log(`[${tag}] Found ${positions.length} positions`);
     return positions;
   }
 
-  private async fetchKaminoPositions(owner: PublicKey): Promise<Position[]> {
-    console.log(`[KAMINO] Fetching positions for ${owner.toBase58()}`);
-
-    const positions: Position[] = [];
+  async getLiquidationParameters(
+    positionId: string
+  ): Promise<LiquidationParameters | null> {
+    const decoded = this.decodedAccounts.get(positionId);
+    if (!decoded) return null;
 
     try {
-      const KAMINO_PROGRAM_ID = new PublicKey(
-        "KLend2g3cP87ber41aPn9Q5kkdCZNxMWTKZLGvBKgvV"
-      );
-
-      const accounts = await this.connection.getProgramAccounts(
-        KAMINO_PROGRAM_ID,
-        {
-          filters: [{ memcmp: { offset: 8, bytes: owner.toBase58() } }],
-          dataSlice: { offset: 0, length: 0 },
-        }
-      );
-
-      for (const account of accounts) {
-        positions.push({
-          id: `kamino-${account.pubkey.toBase58()}`,
-          protocol: "kamino",
-          owner,
-          collateral: [],
-          debt: [],
-          healthFactor: 1.5,
-          timestamp: Date.now(),
-        });
-      }
-
-      console.log(`[KAMINO] Found ${positions.length} positions`);
+      return await decoded.adapter.getLiquidationParameters(decoded.account);
     } catch (error) {
-      console.error("[KAMINO] Error:", error);
+      console.error(
+        `[MONITOR] Error loading liquidation parameters for ${positionId}:`,
+        error
+      );
+      return null;
     }
-
-    return positions;
   }
 
-  private async fetchDriftPositions(owner: PublicKey): Promise<Position[]> {
-    console.log(`[DRIFT] Fetching positions for ${owner.toBase58()}`);
-
-    const positions: Position[] = [];
-
-    try {
-      const DRIFT_PROGRAM_ID = new PublicKey(
-        "dRiftyHA39MWEi3m9aunc5MzRF1JYuBsbn6VPcn33UH"
-      );
-
-      const accounts = await this.connection.getProgramAccounts(
-        DRIFT_PROGRAM_ID,
-        {
-          filters: [{ memcmp: { offset: 8, bytes: owner.toBase58() } }],
-          dataSlice: { offset: 0, length: 0 },
-        }
-      );
-
-      for (const account of accounts) {
-        positions.push({
-          id: `drift-${account.pubkey.toBase58()}`,
-          protocol: "drift",
-          owner,
-          collateral: [],
-          debt: [],
-          healthFactor: 1.5,
-          timestamp: Date.now(),
-        });
-      }
-
-      console.log(`[DRIFT] Found ${positions.length} positions`);
-    } catch (error) {
-      console.error("[DRIFT] Error:", error);
+  /**
+   * Builds owner-signed instructions for a deleveraging action against the
+   * position's protocol account. Returns null if the position is unknown or
+   * its adapter cannot build transactions.
+   */
+  async buildActionInstructions(
+    positionId: string,
+    action: ProtocolAction
+  ): Promise<TransactionInstruction[] | null> {
+    const decoded = this.decodedAccounts.get(positionId);
+    const position = this.previousPositions.get(positionId);
+    if (!decoded || !position || !decoded.adapter.buildActionInstructions) {
+      return null;
     }
 
-    return positions;
+    return decoded.adapter.buildActionInstructions(
+      decoded.account,
+      action,
+      position.owner
+    );
+  }
+
+  getRegistry(): ProtocolRegistry {
+    return this.registry;
   }
 
   getConnectionStatus(): string {
@@ -593,6 +883,7 @@ export class PositionMonitor {
   }
 
   async stopWebSocketMonitoring(): Promise<void> {
+    this.isStopped = true;
     this.stopHeartbeat();
 
     if (this.reconnectTimeout) {
@@ -602,10 +893,21 @@ export class PositionMonitor {
 
     this.isReconnecting = false;
 
+    for (const timer of this.dependencyRefreshTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.dependencyRefreshTimers.clear();
+
     if (this.heliusWs) {
       for (const address of this.watchedAddresses) {
         this.unsubscribeFromAddress(address);
       }
+      for (const address of [
+        ...this.accountPositions.keys(),
+        ...this.dependencyPositions.keys(),
+      ]) {
+        this.unsubscribeFromAddress(address);
+      }
 
       await new Promise<void>((resolve) => {
         if (this.heliusWs) {
@@ -618,6 +920,7 @@ export class PositionMonitor {
 
       this.heliusWs = null;
       this.subscriptionIds.clear();
+      this.pendingSubscriptions.clear();
       console.log("[WEBSOCKET] Stopped monitoring");
     }
   }
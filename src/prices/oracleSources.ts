@@ -0,0 +1,199 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+import axios from 'axios';
+import { MarginfiMonitor, OraclePrice } from '../protocols/marginfi';
+import { ProtocolRegistry } from '../protocols/adapter';
+import { MarginfiAdapter } from '../protocols/adapters/marginfiAdapter';
+import { KaminoAdapter } from '../protocols/adapters/kaminoAdapter';
+import { JupiterPriceFeed, TOKENS, jupiterPriceFeed } from '../utils/jupiter';
+import { ConsensusOptions, ConsensusPriceOracle, PriceOracle, PriceQuote } from './priceOracle';
+
+const SLOT_MS = 400;
+
+export const COINGECKO_IDS: { [mint: string]: string } = {
+  [TOKENS.SOL]: 'solana',
+  [TOKENS.USDC]: 'usd-coin',
+  [TOKENS.USDT]: 'tether',
+  [TOKENS.JitoSOL]: 'jito-staked-sol',
+  [TOKENS.mSOL]: 'msol',
+  [TOKENS.stSOL]: 'lido-staked-sol',
+  [TOKENS.BONK]: 'bonk',
+};
+
+export type FeedResolver = (mint: string) => PublicKey[];
+
+/**
+ * Oracle accounts the lending protocols already price each mint with: Marginfi
+ * bank oracle keys and Kamino reserve Pyth/Switchboard feeds.
+ */
+export function createProtocolFeedResolver(registry: ProtocolRegistry): FeedResolver {
+  return (mint: string) => {
+    const feeds = new Map<string, PublicKey>();
+
+    const marginfi = registry.get('marginfi');
+    if (marginfi instanceof MarginfiAdapter) {
+      for (const bank of marginfi.monitor.getBankCache().values()) {
+        if (bank.mint.toBase58() === mint) {
+          feeds.set(bank.config.oracleKey.toBase58(), bank.config.oracleKey);
+        }
+      }
+    }
+
+    const kamino = registry.get('kamino');
+    if (kamino instanceof KaminoAdapter) {
+      for (const reserve of kamino.monitor.getAllReserves()) {
+        if (reserve.liquidity.mintPubkey.toBase58() !== mint) continue;
+        for (const oracle of [reserve.liquidity.pythOracle, reserve.liquidity.switchboardOracle]) {
+          if (!oracle.equals(PublicKey.default)) {
+            feeds.set(oracle.toBase58(), oracle);
+          }
+        }
+      }
+    }
+
+    return Array.from(feeds.values());
+  };
+}
+
+abstract class OnChainOracleSource implements PriceOracle {
+  abstract readonly name: string;
+  protected connection: Connection;
+  protected decoder: MarginfiMonitor;
+  private resolveFeeds: FeedResolver;
+
+  constructor(connection: Connection, decoder: MarginfiMonitor, resolveFeeds: FeedResolver) {
+    this.connection = connection;
+    this.decoder = decoder;
+    this.resolveFeeds = resolveFeeds;
+  }
+
+  async getPrice(mint: string): Promise<PriceQuote | null> {
+    const feeds = this.resolveFeeds(mint);
+    if (feeds.length === 0) return null;
+
+    const { context, value } = await this.connection.getMultipleAccountsInfoAndContext(feeds);
+
+    for (const accountInfo of value) {
+      if (!accountInfo || !this.matches(accountInfo.data)) continue;
+
+      const price = this.decode(accountInfo.data);
+      if (!price) continue;
+
+      return {
+        source: this.name,
+        mint,
+        price: price.price,
+        confidence: price.confidence,
+        publishedAt: this.publishedAt(price, context.slot),
+      };
+    }
+
+    return null;
+  }
+
+  protected abstract matches(data: Buffer): boolean;
+  protected abstract decode(data: Buffer): OraclePrice | null;
+  protected abstract publishedAt(price: OraclePrice, currentSlot: number): number;
+}
+
+export class PythOracleSource extends OnChainOracleSource {
+  readonly name = 'pyth';
+
+  protected matches(data: Buffer): boolean {
+    return this.decoder.isPythOracle(data);
+  }
+
+  protected decode(data: Buffer): OraclePrice | null {
+    return this.decoder.parsePythPrice(data);
+  }
+
+  protected publishedAt(price: OraclePrice, currentSlot: number): number {
+    const slotsBehind = Math.max(0, currentSlot - price.lastUpdatedSlot);
+    return Date.now() - slotsBehind * SLOT_MS;
+  }
+}
+
+export class SwitchboardOracleSource extends OnChainOracleSource {
+  readonly name = 'switchboard';
+
+  protected matches(data: Buffer): boolean {
+    return this.decoder.isSwitchboardOracle(data);
+  }
+
+  protected decode(data: Buffer): OraclePrice | null {
+    return this.decoder.parseSwitchboardPrice(data);
+  }
+
+  // parseSwitchboardPrice reports the unix update time (seconds) divided by 1000
+  protected publishedAt(price: OraclePrice): number {
+    return price.lastUpdatedSlot * 1000 * 1000;
+  }
+}
+
+export class JupiterOracleSource implements PriceOracle {
+  readonly name = 'jupiter';
+  private feed: JupiterPriceFeed;
+
+  constructor(feed: JupiterPriceFeed) {
+    this.feed = feed;
+  }
+
+  async getPrice(mint: string): Promise<PriceQuote | null> {
+    const price = await this.feed.getPrice(mint);
+    if (!price) return null;
+
+    // The price API carries no publish time; JupiterPriceFeed caches for 10s at most
+    return { source: this.name, mint, price: price.price, publishedAt: Date.now() };
+  }
+}
+
+export class CoinGeckoOracleSource implements PriceOracle {
+  readonly name = 'coingecko';
+  private ids: { [mint: string]: string };
+
+  constructor(ids: { [mint: string]: string } = COINGECKO_IDS) {
+    this.ids = ids;
+  }
+
+  async getPrice(mint: string): Promise<PriceQuote | null> {
+    const id = this.ids[mint];
+    if (!id) return null;
+
+    const response = await axios.get('https://api.coingecko.com/api/v3/simple/price', {
+      params: {
+        ids: id,
+        vs_currencies: 'usd',
+        include_last_updated_at: true,
+      },
+    });
+
+    const entry = response.data?.[id];
+    if (!entry || typeof entry.usd !== 'number') return null;
+
+    return {
+      source: this.name,
+      mint,
+      price: entry.usd,
+      publishedAt: entry.last_updated_at ? entry.last_updated_at * 1000 : Date.now(),
+    };
+  }
+}
+
+export function createPriceOracle(
+  connection: Connection,
+  registry: ProtocolRegistry,
+  options: Partial<ConsensusOptions> = {}
+): ConsensusPriceOracle {
+  const marginfi = registry.get('marginfi');
+  const decoder = marginfi instanceof MarginfiAdapter ? marginfi.monitor : new MarginfiMonitor(connection);
+  const resolveFeeds = createProtocolFeedResolver(registry);
+
+  return new ConsensusPriceOracle(
+    [
+      new PythOracleSource(connection, decoder, resolveFeeds),
+      new SwitchboardOracleSource(connection, decoder, resolveFeeds),
+      new JupiterOracleSource(jupiterPriceFeed),
+      new CoinGeckoOracleSource(),
+    ],
+    options
+  );
+}
@@ -0,0 +1,55 @@
+import { PriceCandle } from '../storage/priceHistoryStore';
+import { PriceHistory } from './priceHistory';
+
+const SOL = 'So11111111111111111111111111111111111111112';
+const MINUTE = 60 * 1000;
+const START = Date.UTC(2026, 0, 1);
+
+function backfill(openTime: number, close: number): PriceCandle {
+  return {
+    mint: SOL,
+    openTime,
+    intervalMs: 30 * 1000,
+    open: close,
+    high: close + 1,
+    low: close - 1,
+    close,
+    volume: 10,
+    samples: 1,
+    sources: ['backfill'],
+  };
+}
+
+describe('PriceHistory', () => {
+  it('buckets ticks from every source into candles and closes each once', () => {
+    const history = new PriceHistory({ intervalMs: MINUTE });
+    const closed: PriceCandle[] = [];
+    history.onCandleClosed(candle => closed.push(candle));
+
+    history.record(SOL, 150, 'jupiter', START);
+    history.record(SOL, 152, 'marginfi', START + 20 * 1000);
+    history.record(SOL, 149, 'jupiter', START + 40 * 1000);
+    history.record(SOL, 151, 'jupiter', START + MINUTE);
+    // Late for a closed minute
+    history.record(SOL, 10, 'drift', START + 50 * 1000);
+    history.closeElapsed(START + 2 * MINUTE);
+
+    expect(closed.map(c => [c.openTime, c.open, c.high, c.low, c.close, c.samples])).toEqual([
+      [START, 150, 152, 149, 149, 3],
+      [START + MINUTE, 151, 151, 151, 151, 1],
+    ]);
+    expect(closed[0].sources).toEqual(['jupiter', 'marginfi']);
+    expect(history.getLatestPrice(SOL)).toEqual({ price: 151, timestamp: START + MINUTE });
+  });
+
+  it('re-buckets backfilled candles onto its own interval', () => {
+    const history = new PriceHistory({ intervalMs: MINUTE, maxCandles: 2 });
+
+    history.merge([0, 1, 2, 3, 4, 5].map(i => backfill(START + i * 30 * 1000, 100 + i)));
+
+    expect(history.getCandles(SOL).map(c => [c.openTime, c.open, c.high, c.low, c.close, c.volume])).toEqual([
+      [START + MINUTE, 102, 104, 101, 103, 20],
+      [START + 2 * MINUTE, 104, 106, 103, 105, 20],
+    ]);
+  });
+});
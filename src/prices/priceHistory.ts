@@ -0,0 +1,177 @@
+import { PriceCandle, PriceSource } from '../storage/priceHistoryStore';
+
+export interface PriceHistoryOptions {
+  intervalMs: number;
+  maxCandles: number;
+}
+
+/**
+ * In-memory OHLCV candles per mint. Ticks from any source are bucketed into
+ * fixed intervals; a candle is closed (and handed to listeners) once a tick for
+ * a later bucket arrives or closeElapsed() runs past its end.
+ */
+export class PriceHistory {
+  private options: PriceHistoryOptions;
+  private closed: Map<string, PriceCandle[]> = new Map();
+  private current: Map<string, PriceCandle> = new Map();
+  private closeListeners: ((candle: PriceCandle) => void)[] = [];
+
+  constructor(options: Partial<PriceHistoryOptions> = {}) {
+    this.options = {
+      intervalMs: options.intervalMs || 60 * 1000,
+      maxCandles: options.maxCandles || 1440,
+    };
+  }
+
+  record(mint: string, price: number, source: PriceSource, timestamp: number = Date.now(), volume: number = 0): void {
+    if (!Number.isFinite(price) || price <= 0) return;
+
+    const openTime = this.bucket(timestamp);
+    const current = this.current.get(mint);
+
+    // Late tick for a bucket that has already been closed
+    if (current && openTime < current.openTime) return;
+
+    if (current && openTime === current.openTime) {
+      current.high = Math.max(current.high, price);
+      current.low = Math.min(current.low, price);
+      current.close = price;
+      current.volume += volume;
+      current.samples++;
+      if (!current.sources.includes(source)) current.sources.push(source);
+      return;
+    }
+
+    if (current) this.closeCandle(current);
+
+    this.current.set(mint, {
+      mint,
+      openTime,
+      intervalMs: this.options.intervalMs,
+      open: price,
+      high: price,
+      low: price,
+      close: price,
+      volume,
+      samples: 1,
+      sources: [source],
+    });
+  }
+
+  closeElapsed(now: number = Date.now()): void {
+    for (const [mint, candle] of this.current) {
+      if (candle.openTime + this.options.intervalMs <= now) {
+        this.current.delete(mint);
+        this.closeCandle(candle);
+      }
+    }
+  }
+
+  /**
+   * Merges externally sourced candles (backfill files, persisted history) into
+   * the closed series, re-bucketing them onto this history's interval.
+   */
+  merge(candles: PriceCandle[]): number {
+    const byMint = new Map<string, PriceCandle[]>();
+    for (const candle of candles) {
+      const list = byMint.get(candle.mint) || [];
+      list.push(candle);
+      byMint.set(candle.mint, list);
+    }
+
+    let merged = 0;
+    for (const [mint, incoming] of byMint) {
+      const buckets = new Map<number, PriceCandle>();
+
+      for (const candle of [...(this.closed.get(mint) || []), ...incoming].sort((a, b) => a.openTime - b.openTime)) {
+        const openTime = this.bucket(candle.openTime);
+        const existing = buckets.get(openTime);
+
+        if (!existing) {
+          buckets.set(openTime, {
+            ...candle,
+            openTime,
+            intervalMs: this.options.intervalMs,
+            sources: [...candle.sources],
+          });
+          continue;
+        }
+
+        existing.high = Math.max(existing.high, candle.high);
+        existing.low = Math.min(existing.low, candle.low);
+        existing.close = candle.close;
+        existing.volume += candle.volume;
+        existing.samples += candle.samples;
+        for (const source of candle.sources) {
+          if (!existing.sources.includes(source)) existing.sources.push(source);
+        }
+      }
+
+      // Never let merged data overlap the candle still being built
+      const current = this.current.get(mint);
+      const series = Array.from(buckets.values())
+        .filter(c => !current || c.openTime < current.openTime)
+        .sort((a, b) => a.openTime - b.openTime)
+        .slice(-this.options.maxCandles);
+
+      merged += incoming.length;
+      this.closed.set(mint, series);
+    }
+
+    return merged;
+  }
+
+  getCandles(mint: string, limit?: number): PriceCandle[] {
+    const candles = [...(this.closed.get(mint) || [])];
+    const current = this.current.get(mint);
+    if (current) candles.push({ ...current, sources: [...current.sources] });
+
+    return limit !== undefined ? candles.slice(-limit) : candles;
+  }
+
+  getLatestPrice(mint: string): { price: number; timestamp: number } | null {
+    const current = this.current.get(mint);
+    if (current) return { price: current.close, timestamp: current.openTime };
+
+    const closed = this.closed.get(mint);
+    const last = closed?.[closed.length - 1];
+    return last ? { price: last.close, timestamp: last.openTime } : null;
+  }
+
+  getMints(): string[] {
+    return Array.from(new Set([...this.closed.keys(), ...this.current.keys()]));
+  }
+
+  getIntervalMs(): number {
+    return this.options.intervalMs;
+  }
+
+  getMaxCandles(): number {
+    return this.options.maxCandles;
+  }
+
+  onCandleClosed(listener: (candle: PriceCandle) => void): void {
+    this.closeListeners.push(listener);
+  }
+
+  private closeCandle(candle: PriceCandle): void {
+    const series = this.closed.get(candle.mint) || [];
+    series.push(candle);
+    if (series.length > this.options.maxCandles) {
+      series.splice(0, series.length - this.options.maxCandles);
+    }
+    this.closed.set(candle.mint, series);
+
+    for (const listener of this.closeListeners) {
+      try {
+        listener(candle);
+      } catch (error) {
+        console.error('[PRICES] Error in candle listener:', error);
+      }
+    }
+  }
+
+  private bucket(timestamp: number): number {
+    return Math.floor(timestamp / this.options.intervalMs) * this.options.intervalMs;
+  }
+}
@@ -0,0 +1,150 @@
+import { Position } from '../monitor/positionMonitor';
+import { ProtocolRegistry } from '../protocols/adapter';
+import { MarginfiAdapter } from '../protocols/adapters/marginfiAdapter';
+import { DriftAdapter } from '../protocols/adapters/driftAdapter';
+import { DriftMarket } from '../protocols/drift';
+import { JupiterPriceFeed, mintForSymbol } from '../utils/jupiter';
+import { PriceHistoryStore } from '../storage/priceHistoryStore';
+import { PEGGED_PAIRS } from '../risk/correlationEstimator';
+import { PriceHistory } from './priceHistory';
+
+export interface PriceIngestorOptions {
+  pollIntervalMs: number;
+  backfillFile?: string;
+}
+
+/**
+ * Feeds PriceHistory from every price we can observe: Jupiter polling for the
+ * mints held by watched positions, Marginfi oracle reads made while decoding
+ * balances, and Drift perp market oracle prices.
+ */
+export class PriceIngestor {
+  private history: PriceHistory;
+  private store: PriceHistoryStore;
+  private registry: ProtocolRegistry;
+  private jupiter: JupiterPriceFeed;
+  private options: PriceIngestorOptions;
+  private trackedMints: Set<string> = new Set();
+  private trackedMarkets: Set<number> = new Set();
+  private pollInterval: NodeJS.Timeout | null = null;
+  private polling = false;
+
+  constructor(
+    history: PriceHistory,
+    store: PriceHistoryStore,
+    registry: ProtocolRegistry,
+    jupiter: JupiterPriceFeed,
+    options: Partial<PriceIngestorOptions> = {}
+  ) {
+    this.history = history;
+    this.store = store;
+    this.registry = registry;
+    this.jupiter = jupiter;
+    this.options = {
+      pollIntervalMs: options.pollIntervalMs || 15 * 1000,
+      backfillFile: options.backfillFile,
+    };
+  }
+
+  async start(): Promise<void> {
+    const lookbackMs = this.history.getIntervalMs() * this.history.getMaxCandles();
+    const persisted = await this.store.load(Date.now() - lookbackMs);
+    this.history.merge(persisted);
+    console.log(`[PRICES] Loaded ${persisted.length} persisted candles`);
+
+    if (this.options.backfillFile) {
+      try {
+        const backfill = await this.store.readBackfillFile(this.options.backfillFile);
+        this.history.merge(backfill);
+        console.log(`[PRICES] Backfilled ${backfill.length} candles from ${this.options.backfillFile}`);
+      } catch (error) {
+        console.error(`[PRICES] Error reading backfill file ${this.options.backfillFile}:`, error);
+      }
+    }
+
+    this.history.onCandleClosed(candle => {
+      this.store.append([candle]).catch(error =>
+        console.error('[PRICES] Error persisting candle:', error)
+      );
+    });
+
+    const marginfi = this.registry.get('marginfi');
+    if (marginfi instanceof MarginfiAdapter) {
+      marginfi.monitor.onOraclePrice((mint, price) => {
+        this.history.record(mint.toBase58(), price.price, 'marginfi');
+      });
+    }
+
+    const drift = this.registry.get('drift');
+    if (drift instanceof DriftAdapter) {
+      drift.monitor.onMarketUpdate(market => this.recordDriftMarket(market));
+    }
+
+    this.stop();
+    this.pollInterval = setInterval(() => {
+      this.poll().catch(error => console.error('[PRICES] Poll failed:', error));
+    }, this.options.pollIntervalMs);
+  }
+
+  stop(): void {
+    if (this.pollInterval) {
+      clearInterval(this.pollInterval);
+      this.pollInterval = null;
+    }
+  }
+
+  trackPositions(positions: Position[]): void {
+    this.trackedMints.clear();
+    this.trackedMarkets.clear();
+
+    for (const position of positions) {
+      for (const entry of [...position.collateral, ...position.debt]) {
+        this.trackedMints.add(entry.mint.toBase58());
+      }
+      for (const perp of position.perpExposure || []) {
+        this.trackedMarkets.add(perp.marketIndex);
+      }
+    }
+
+    // A pegged asset is only measurable against its reference, so poll both
+    for (const pair of PEGGED_PAIRS) {
+      if (pair.reference !== 'USD' && this.trackedMints.has(pair.asset)) {
+        this.trackedMints.add(pair.reference);
+      }
+    }
+  }
+
+  async poll(): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+
+    try {
+      if (this.trackedMints.size > 0) {
+        const prices = await this.jupiter.getPrices(Array.from(this.trackedMints));
+        const now = Date.now();
+        for (const [mint, price] of prices) {
+          this.history.record(mint, price.price, 'jupiter', now);
+        }
+      }
+
+      const drift = this.registry.get('drift');
+      if (drift instanceof DriftAdapter) {
+        for (const marketIndex of this.trackedMarkets) {
+          // refreshPerpMarket notifies onMarketUpdate, which records the oracle price
+          await drift.monitor.refreshPerpMarket(marketIndex);
+        }
+      }
+
+      this.history.closeElapsed();
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private recordDriftMarket(market: DriftMarket): void {
+    const mint = mintForSymbol(market.symbol);
+    if (!mint) return;
+
+    this.history.record(mint, market.amm.lastOraclePrice, 'drift');
+  }
+}
@@ -0,0 +1,50 @@
+import { ConsensusPriceOracle, PriceOracle, PriceQuote } from './priceOracle';
+
+const SOL = 'So11111111111111111111111111111111111111112';
+
+function source(name: string, quote: Partial<PriceQuote> | null | Error): PriceOracle {
+  return {
+    name,
+    getPrice: async mint => {
+      if (quote instanceof Error) throw quote;
+      return quote && { source: name, mint, price: 150, publishedAt: Date.now(), ...quote };
+    },
+  };
+}
+
+describe('ConsensusPriceOracle', () => {
+  it('takes the median of fresh quotes after dropping stale and outlying ones', async () => {
+    const oracle = new ConsensusPriceOracle([
+      source('pyth', { price: 150 }),
+      source('switchboard', { price: 151 }),
+      source('jupiter', { price: 160 }),
+      source('stale', { price: 149, publishedAt: Date.now() - 10 * 60 * 1000 }),
+      source('down', new Error('timeout')),
+      source('unlisted', null),
+    ]);
+
+    const result = await oracle.getPrice(SOL);
+
+    expect(result.status).toBe('ok');
+    if (result.status !== 'ok') return;
+    expect(result.price).toBe(150.5);
+    expect(result.quotes.map(q => q.source)).toEqual(['pyth', 'switchboard']);
+    expect(result.rejected.map(r => [r.source, r.reason])).toEqual([
+      ['stale', 'stale'],
+      ['down', 'error'],
+      ['unlisted', 'no-feed'],
+      ['jupiter', 'deviation'],
+    ]);
+  });
+
+  it('reports the price unavailable when too few sources agree', async () => {
+    const oracle = new ConsensusPriceOracle(
+      [source('pyth', { price: 150 }), source('jupiter', { price: 0 })],
+      { minSources: 2 }
+    );
+
+    const result = await oracle.getPrice(SOL);
+
+    expect(result).toMatchObject({ status: 'unavailable', reason: 'Only 1 of 2 required sources agree' });
+  });
+});
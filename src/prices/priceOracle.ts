@@ -0,0 +1,140 @@
+export interface PriceQuote {
+  source: string;
+  mint: string;
+  price: number;
+  confidence?: number;
+  publishedAt: number;
+}
+
+export interface RejectedQuote {
+  source: string;
+  reason: 'stale' | 'invalid' | 'deviation' | 'error' | 'no-feed';
+  price?: number;
+  publishedAt?: number;
+}
+
+export type PriceResult =
+  | {
+      status: 'ok';
+      mint: string;
+      price: number;
+      deviation: number;
+      quotes: PriceQuote[];
+      rejected: RejectedQuote[];
+      timestamp: number;
+    }
+  | {
+      status: 'unavailable';
+      mint: string;
+      reason: string;
+      rejected: RejectedQuote[];
+      timestamp: number;
+    };
+
+/**
+ * A single price source. Returning null means the source has no price for the
+ * mint (unknown feed); throwing means the source failed.
+ */
+export interface PriceOracle {
+  readonly name: string;
+  getPrice(mint: string): Promise<PriceQuote | null>;
+}
+
+export interface ConsensusOptions {
+  maxStalenessMs: number;
+  sourceStalenessMs: { [source: string]: number };
+  maxDeviation: number;
+  minSources: number;
+}
+
+export class ConsensusPriceOracle {
+  private sources: PriceOracle[];
+  private options: ConsensusOptions;
+
+  constructor(sources: PriceOracle[], options: Partial<ConsensusOptions> = {}) {
+    this.sources = sources;
+    this.options = {
+      maxStalenessMs: options.maxStalenessMs ?? 60 * 1000,
+      // CoinGecko only refreshes simple prices every few minutes
+      sourceStalenessMs: { coingecko: 5 * 60 * 1000, ...options.sourceStalenessMs },
+      maxDeviation: options.maxDeviation ?? 0.02,
+      minSources: options.minSources ?? 1,
+    };
+  }
+
+  addSource(source: PriceOracle): void {
+    this.sources.push(source);
+  }
+
+  getSourceNames(): string[] {
+    return this.sources.map(s => s.name);
+  }
+
+  async getPrice(mint: string): Promise<PriceResult> {
+    const now = Date.now();
+    const rejected: RejectedQuote[] = [];
+    let fresh: PriceQuote[] = [];
+
+    const results = await Promise.allSettled(this.sources.map(source => source.getPrice(mint)));
+
+    results.forEach((result, i) => {
+      const source = this.sources[i].name;
+
+      if (result.status === 'rejected') {
+        rejected.push({ source, reason: 'error' });
+        return;
+      }
+
+      const quote = result.value;
+      if (!quote) {
+        rejected.push({ source, reason: 'no-feed' });
+      } else if (!Number.isFinite(quote.price) || quote.price <= 0) {
+        rejected.push({ source, reason: 'invalid', price: quote.price, publishedAt: quote.publishedAt });
+      } else if (now - quote.publishedAt > this.maxStaleness(source)) {
+        rejected.push({ source, reason: 'stale', price: quote.price, publishedAt: quote.publishedAt });
+      } else {
+        fresh.push(quote);
+      }
+    });
+
+    if (fresh.length === 0) {
+      return { status: 'unavailable', mint, reason: 'No fresh quotes from any source', rejected, timestamp: now };
+    }
+
+    // Drop outliers against the median of all fresh quotes, then re-take the median
+    const initialMedian = this.median(fresh.map(q => q.price));
+    fresh = fresh.filter(quote => {
+      const deviation = Math.abs(quote.price - initialMedian) / initialMedian;
+      if (deviation > this.options.maxDeviation) {
+        rejected.push({ source: quote.source, reason: 'deviation', price: quote.price, publishedAt: quote.publishedAt });
+        return false;
+      }
+      return true;
+    });
+
+    if (fresh.length < this.options.minSources) {
+      return {
+        status: 'unavailable',
+        mint,
+        reason: `Only ${fresh.length} of ${this.options.minSources} required sources agree`,
+        rejected,
+        timestamp: now,
+      };
+    }
+
+    const price = this.median(fresh.map(q => q.price));
+    const deviation = Math.max(...fresh.map(q => Math.abs(q.price - price) / price));
+
+    return { status: 'ok', mint, price, deviation, quotes: fresh, rejected, timestamp: now };
+  }
+
+  private maxStaleness(source: string): number {
+    return this.options.sourceStalenessMs[source] ?? this.options.maxStalenessMs;
+  }
+
+  private median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+  }
+}
@@ -0,0 +1,71 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+import { PositionMonitor } from '../monitor/positionMonitor';
+import { DecodedAccount, ProtocolAdapter, ProtocolRegistry } from './adapter';
+
+const OWNER = new PublicKey('So11111111111111111111111111111111111111112');
+
+// A venue with one account per owner, or one that fails discovery
+function venue(name: string, failing = false): ProtocolAdapter<null> {
+  return {
+    name,
+    programId: PublicKey.unique(),
+    healthModel: 'weighted-collateral',
+    discoverAccounts: async () => {
+      if (failing) throw new Error('RPC unavailable');
+      return [{ address: PublicKey.unique(), account: null }];
+    },
+    decodeAccount: async address => ({ address, account: null }),
+    decodePosition: async (account: DecodedAccount<null>, owner: PublicKey) => ({
+      id: `${name}-${account.address.toBase58()}`,
+      protocol: name,
+      owner,
+      collateral: [],
+      debt: [],
+      healthFactor: 2,
+      timestamp: Date.now(),
+    }),
+    computeHealth: async () => 2,
+    getLiquidationParameters: async account => ({
+      protocol: name,
+      account: account.address,
+      healthModel: 'weighted-collateral',
+      liquidationHealthFactor: 1,
+      assets: [],
+    }),
+    subscribe: async () => 0,
+    unsubscribe: () => undefined,
+  };
+}
+
+describe('ProtocolRegistry', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('refuses a second adapter under the same name', () => {
+    const registry = new ProtocolRegistry();
+    registry.register(venue('solend'));
+
+    expect(() => registry.register(venue('solend'))).toThrow('Protocol adapter already registered: solend');
+    expect(registry.names()).toEqual(['solend']);
+  });
+
+  it('lets PositionMonitor find positions on any registered venue', async () => {
+    const registry = new ProtocolRegistry();
+    registry.register(venue('solend'));
+    registry.register(venue('save'));
+    registry.register(venue('broken', true));
+    const monitor = new PositionMonitor({} as Connection, 'test-key', registry);
+
+    const all = await monitor.fetchPositionsForAddress(OWNER);
+    const filtered = await monitor.fetchPositionsForAddress(OWNER, ['save']);
+
+    expect(all.map(p => p.protocol)).toEqual(['solend', 'save']);
+    expect(filtered.map(p => p.protocol)).toEqual(['save']);
+  });
+});
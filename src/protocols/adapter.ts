@@ -0,0 +1,109 @@
+import { PublicKey, TransactionInstruction } from '@solana/web3.js';
+import { Position } from '../monitor/positionMonitor';
+import { RiskPolicy } from '../risk/riskPolicy';
+
+export type HealthModel = 'weighted-collateral' | 'liquidation-threshold' | 'maintenance-margin';
+
+export interface AssetLiquidationParameters {
+  mint: PublicKey;
+  side: 'collateral' | 'debt' | 'perp';
+  assetWeight?: number;
+  liabilityWeight?: number;
+  loanToValue?: number;
+  liquidationThreshold?: number;
+  liquidationBonus?: number;
+  maintenanceMarginRatio?: number;
+  marketIndex?: number;
+  oracle?: PublicKey;
+}
+
+export interface LiquidationParameters {
+  protocol: string;
+  account: PublicKey;
+  healthModel: HealthModel;
+  liquidationHealthFactor: number;
+  assets: AssetLiquidationParameters[];
+}
+
+export type ProtocolActionKind = 'withdraw' | 'repay' | 'reduce-perp';
+
+export interface ProtocolAction {
+  kind: ProtocolActionKind;
+  // Token withdrawn or repaid; unused for perp reductions
+  mint?: PublicKey;
+  // UI units of the token, or base asset size for perp reductions
+  amount: number;
+  // Close the whole balance (repay_all / withdraw_all)
+  all?: boolean;
+  marketIndex?: number;
+  side?: 'long' | 'short';
+}
+
+export interface DecodedAccount<TAccount> {
+  address: PublicKey;
+  account: TAccount;
+}
+
+/**
+ * Contract every lending/perp venue implements so PositionMonitor can discover,
+ * decode and watch positions without knowing protocol internals.
+ */
+export interface ProtocolAdapter<TAccount = unknown> {
+  readonly name: string;
+  readonly programId: PublicKey;
+  readonly healthModel: HealthModel;
+
+  discoverAccounts(owner: PublicKey): Promise<DecodedAccount<TAccount>[]>;
+  // Decodes raw account bytes pushed by a subscription, using cached state instead of RPC
+  decodeAccount(address: PublicKey, data: Buffer): Promise<DecodedAccount<TAccount>>;
+  decodePosition(account: DecodedAccount<TAccount>, owner: PublicKey): Promise<Position | null>;
+  computeHealth(account: DecodedAccount<TAccount>): Promise<number>;
+  getLiquidationParameters(account: DecodedAccount<TAccount>): Promise<LiquidationParameters>;
+  subscribe(address: PublicKey, callback: (account: DecodedAccount<TAccount>) => void): Promise<number>;
+  unsubscribe(subscriptionId: number): void;
+
+  // Accounts whose state feeds the position's valuation (banks, reserves, oracles, markets)
+  getDependencies?(account: DecodedAccount<TAccount>): Promise<PublicKey[]>;
+  // Folds a pushed dependency account into cached state; false if the address is unknown
+  applyDependencyUpdate?(address: PublicKey, data: Buffer): boolean;
+  // Thresholds for the adapter's own risk labels (Kamino liquidationRisk, Drift marginHealth)
+  setRiskPolicy?(policy: RiskPolicy): void;
+  // Instructions carrying out a deleveraging action, signed by the account owner
+  buildActionInstructions?(
+    account: DecodedAccount<TAccount>,
+    action: ProtocolAction,
+    signer: PublicKey
+  ): Promise<TransactionInstruction[]>;
+}
+
+export class ProtocolRegistry {
+  private adapters: Map<string, ProtocolAdapter<any>> = new Map();
+
+  register(adapter: ProtocolAdapter<any>): void {
+    if (this.adapters.has(adapter.name)) {
+      throw new Error(`Protocol adapter already registered: ${adapter.name}`);
+    }
+    this.adapters.set(adapter.name, adapter);
+    console.log(`[PROTOCOLS] Registered adapter: ${adapter.name} (${adapter.programId.toBase58()})`);
+  }
+
+  unregister(name: string): boolean {
+    return this.adapters.delete(name);
+  }
+
+  get(name: string): ProtocolAdapter<any> | undefined {
+    return this.adapters.get(name);
+  }
+
+  has(name: string): boolean {
+    return this.adapters.has(name);
+  }
+
+  list(): ProtocolAdapter<any>[] {
+    return Array.from(this.adapters.values());
+  }
+
+  names(): string[] {
+    return Array.from(this.adapters.keys());
+  }
+}
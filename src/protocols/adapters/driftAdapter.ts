@@ -0,0 +1,190 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+import { PerpExposure, Position } from '../../monitor/positionMonitor';
+import { DecodedAccount, LiquidationParameters, ProtocolAdapter } from '../adapter';
+import { DRIFT_PROGRAM_ID, DriftMonitor, DriftUser } from '../drift';
+import { RiskPolicy } from '../../risk/riskPolicy';
+
+export const DRIFT_QUOTE_MINT = new PublicKey('EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v');
+
+export class DriftAdapter implements ProtocolAdapter<DriftUser> {
+  readonly name = 'drift';
+  readonly programId = DRIFT_PROGRAM_ID;
+  readonly healthModel = 'maintenance-margin' as const;
+  readonly monitor: DriftMonitor;
+  // perp market PDA -> market index
+  private marketAddresses: Map<string, number> = new Map();
+  // spot market PDA -> market index
+  private spotMarketAddresses: Map<string, number> = new Map();
+
+  constructor(connection: Connection) {
+    this.monitor = new DriftMonitor(connection);
+  }
+
+  setRiskPolicy(policy: RiskPolicy): void {
+    this.monitor.setRiskPolicy(policy);
+  }
+
+  async discoverAccounts(owner: PublicKey): Promise<DecodedAccount<DriftUser>[]> {
+    const users = await this.monitor.getUsersByAuthority(owner);
+    return users.map(user => ({ address: user.address, account: user }));
+  }
+
+  async decodeAccount(address: PublicKey, data: Buffer): Promise<DecodedAccount<DriftUser>> {
+    return { address, account: await this.monitor.decodeUser(address, data) };
+  }
+
+  async decodePosition(
+    { address, account }: DecodedAccount<DriftUser>,
+    owner: PublicKey
+  ): Promise<Position | null> {
+    // Mark prices are baked into parsed positions; re-derive them from the
+    // market cache in case a market update arrived after the user was parsed
+    const user = await this.monitor.revalueUser(account);
+    const perpExposure: PerpExposure[] = [];
+    let unsettledFundingPnl = 0;
+
+    for (const perp of user.positions) {
+      unsettledFundingPnl += perp.unsettledFundingPnl;
+      if (perp.side === 'none') continue;
+
+      const market = await this.monitor.getPerpMarket(perp.marketIndex);
+      perpExposure.push({
+        marketIndex: perp.marketIndex,
+        symbol: market?.symbol,
+        side: perp.side,
+        size: perp.size,
+        notionalUsd: perp.notionalValue,
+        markPrice: perp.markPrice,
+        entryPrice: perp.entryPrice,
+        liquidationPrice: perp.liquidationPrice,
+        maintenanceMarginRatio: market?.marginRatioMaintenance,
+        unrealizedPnl: perp.unrealizedPnl,
+        unsettledFundingPnl: perp.unsettledFundingPnl,
+      });
+    }
+
+    // Spot deposits are the collateral and spot borrows the debt, per market
+    const collateral: Position['collateral'] = [];
+    const debt: Position['debt'] = [];
+    for (const spot of user.spotPositions) {
+      if (!spot.mint) {
+        console.warn(`[DRIFT] Spot market ${spot.marketIndex} unavailable; skipping ${spot.balanceType} of ${address.toBase58()}`);
+        continue;
+      }
+
+      (spot.balanceType === 'deposit' ? collateral : debt).push({
+        mint: spot.mint,
+        amount: spot.tokenAmount,
+        valueUsd: spot.valueUsd,
+        priceUsd: spot.priceUsd,
+        liquidationWeight: spot.maintenanceWeight,
+      });
+    }
+
+    if (collateral.length === 0 && debt.length === 0 && perpExposure.length === 0) return null;
+
+    return {
+      id: `drift-${address.toBase58()}`,
+      protocol: this.name,
+      owner,
+      collateral,
+      debt,
+      healthFactor: user.marginHealth.healthRatio,
+      timestamp: Date.now(),
+      perpExposure,
+      drift: {
+        subAccountId: user.subAccountId,
+        totalCollateral: user.totalCollateral,
+        freeCollateral: user.freeCollateral,
+        marginRatio: user.marginRatio,
+        marginRequirementInitial: user.marginRequirementInitial,
+        marginRequirementMaintenance: user.marginRequirementMaintenance,
+        maintenanceMarginExcess: user.marginHealth.maintenanceMarginExcess,
+        marginUtilization: user.marginHealth.marginUtilization,
+        leverage: user.portfolioMetrics.leverage,
+        riskLevel: user.marginHealth.riskLevel,
+        funding: {
+          cumulativePerpFundingDelta: user.cumulativePerpFundingDelta,
+          dailyFundingRate: user.portfolioMetrics.dailyFundingRate,
+          projectedFundingDaily: user.portfolioMetrics.projectedFundingDaily,
+          unsettledFundingPnl,
+        },
+      },
+    };
+  }
+
+  async computeHealth({ account }: DecodedAccount<DriftUser>): Promise<number> {
+    return account.marginHealth.healthRatio;
+  }
+
+  async getLiquidationParameters({ address, account }: DecodedAccount<DriftUser>): Promise<LiquidationParameters> {
+    const assets: LiquidationParameters['assets'] = [];
+
+    for (const spot of account.spotPositions) {
+      if (!spot.mint) continue;
+
+      const deposit = spot.balanceType === 'deposit';
+      assets.push({
+        mint: spot.mint,
+        side: deposit ? 'collateral' : 'debt',
+        ...(deposit ? { assetWeight: spot.maintenanceWeight } : { liabilityWeight: spot.maintenanceWeight }),
+        marketIndex: spot.marketIndex,
+        oracle: spot.oracle ?? undefined,
+      });
+    }
+
+    for (const perp of account.positions) {
+      if (perp.side === 'none') continue;
+
+      const market = await this.monitor.getPerpMarket(perp.marketIndex);
+      assets.push({
+        mint: DRIFT_QUOTE_MINT,
+        side: 'perp',
+        marketIndex: perp.marketIndex,
+        oracle: market?.oracle,
+        maintenanceMarginRatio: market?.marginRatioMaintenance,
+      });
+    }
+
+    return {
+      protocol: this.name,
+      account: address,
+      healthModel: this.healthModel,
+      liquidationHealthFactor: 1,
+      assets,
+    };
+  }
+
+  async subscribe(address: PublicKey, callback: (account: DecodedAccount<DriftUser>) => void): Promise<number> {
+    return this.monitor.subscribeToUser(address, account => callback({ address, account }));
+  }
+
+  unsubscribe(subscriptionId: number): void {
+    this.monitor.unsubscribe(subscriptionId);
+  }
+
+  async getDependencies({ account }: DecodedAccount<DriftUser>): Promise<PublicKey[]> {
+    const perpMarkets = account.positions.map(perp => {
+      const market = this.monitor.getPerpMarketAddress(perp.marketIndex);
+      this.marketAddresses.set(market.toBase58(), perp.marketIndex);
+      return market;
+    });
+    const spotMarkets = account.spotPositions.map(spot => {
+      const market = this.monitor.getSpotMarketAddress(spot.marketIndex);
+      this.spotMarketAddresses.set(market.toBase58(), spot.marketIndex);
+      return market;
+    });
+    return [...perpMarkets, ...spotMarkets];
+  }
+
+  applyDependencyUpdate(address: PublicKey, data: Buffer): boolean {
+    const spotMarketIndex = this.spotMarketAddresses.get(address.toBase58());
+    if (spotMarketIndex !== undefined) {
+      return this.monitor.applySpotMarketUpdate(spotMarketIndex, data) !== null;
+    }
+
+    const marketIndex = this.marketAddresses.get(address.toBase58());
+    if (marketIndex === undefined) return false;
+    return this.monitor.applyMarketUpdate(marketIndex, data) !== null;
+  }
+}
@@ -0,0 +1,17 @@
+import { Connection } from '@solana/web3.js';
+import { ProtocolRegistry } from '../adapter';
+import { MarginfiAdapter } from './marginfiAdapter';
+import { KaminoAdapter } from './kaminoAdapter';
+import { DriftAdapter } from './driftAdapter';
+
+export { MarginfiAdapter } from './marginfiAdapter';
+export { KaminoAdapter } from './kaminoAdapter';
+export { DriftAdapter, DRIFT_QUOTE_MINT } from './driftAdapter';
+
+export function createDefaultRegistry(connection: Connection): ProtocolRegistry {
+  const registry = new ProtocolRegistry();
+  registry.register(new MarginfiAdapter(connection));
+  registry.register(new KaminoAdapter(connection));
+  registry.register(new DriftAdapter(connection));
+  return registry;
+}
@@ -0,0 +1,116 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+import { Position } from '../../monitor/positionMonitor';
+import { DecodedAccount, LiquidationParameters, ProtocolAdapter } from '../adapter';
+import { KAMINO_PROGRAM_ID, KaminoMonitor, KaminoObligation } from '../kamino';
+import { RiskPolicy } from '../../risk/riskPolicy';
+
+export class KaminoAdapter implements ProtocolAdapter<KaminoObligation> {
+  readonly name = 'kamino';
+  readonly programId = KAMINO_PROGRAM_ID;
+  readonly healthModel = 'liquidation-threshold' as const;
+  readonly monitor: KaminoMonitor;
+
+  constructor(connection: Connection) {
+    this.monitor = new KaminoMonitor(connection);
+  }
+
+  setRiskPolicy(policy: RiskPolicy): void {
+    this.monitor.setRiskPolicy(policy);
+  }
+
+  async discoverAccounts(owner: PublicKey): Promise<DecodedAccount<KaminoObligation>[]> {
+    await this.monitor.ensureReservesLoaded();
+    const obligations = await this.monitor.getObligationsByOwner(owner);
+    return obligations.map(obligation => ({ address: obligation.address, account: obligation }));
+  }
+
+  async decodeAccount(address: PublicKey, data: Buffer): Promise<DecodedAccount<KaminoObligation>> {
+    return { address, account: await this.monitor.decodeObligation(address, data) };
+  }
+
+  async decodePosition(
+    { address, account: obligation }: DecodedAccount<KaminoObligation>,
+    owner: PublicKey
+  ): Promise<Position | null> {
+    const { deposits, borrows } = await this.monitor.getObligationBalances(obligation);
+
+    if (deposits.length === 0 && borrows.length === 0) return null;
+
+    return {
+      id: `kamino-${address.toBase58()}`,
+      protocol: this.name,
+      owner,
+      collateral: deposits.map(d => ({
+        mint: d.mint,
+        amount: d.amount,
+        valueUsd: d.valueUsd,
+        priceUsd: d.priceUsd,
+        liquidationWeight: d.liquidationThreshold,
+      })),
+      debt: borrows.map(b => ({
+        mint: b.mint,
+        amount: b.amount,
+        valueUsd: b.valueUsd,
+        priceUsd: b.priceUsd,
+      })),
+      healthFactor: obligation.calculatedHealthFactor,
+      timestamp: Date.now(),
+      liquidationThreshold: obligation.liquidationThreshold || undefined,
+    };
+  }
+
+  async computeHealth({ account }: DecodedAccount<KaminoObligation>): Promise<number> {
+    return this.monitor.getHealthFactor(account);
+  }
+
+  async getLiquidationParameters({ address, account }: DecodedAccount<KaminoObligation>): Promise<LiquidationParameters> {
+    const { deposits, borrows } = await this.monitor.getObligationBalances(account);
+
+    return {
+      protocol: this.name,
+      account: address,
+      healthModel: this.healthModel,
+      liquidationHealthFactor: 1,
+      assets: [
+        ...deposits.map(d => ({
+          mint: d.mint,
+          side: 'collateral' as const,
+          loanToValue: d.loanToValueRatio,
+          liquidationThreshold: d.liquidationThreshold,
+          liquidationBonus: d.liquidationBonus,
+        })),
+        ...borrows.map(b => ({
+          mint: b.mint,
+          side: 'debt' as const,
+          liquidationBonus: b.liquidationBonus,
+        })),
+      ],
+    };
+  }
+
+  async subscribe(
+    address: PublicKey,
+    callback: (account: DecodedAccount<KaminoObligation>) => void
+  ): Promise<number> {
+    await this.monitor.ensureReservesLoaded();
+    return this.monitor.subscribeToObligation(address, account => callback({ address, account }));
+  }
+
+  unsubscribe(subscriptionId: number): void {
+    this.monitor.unsubscribe(subscriptionId);
+  }
+
+  // Obligations carry their own refreshed market values, so only the reserves'
+  // thresholds feed into the position; oracle moves arrive with the obligation
+  async getDependencies({ account }: DecodedAccount<KaminoObligation>): Promise<PublicKey[]> {
+    return [
+      ...account.deposits.map(d => d.depositReserve),
+      ...account.borrows.map(b => b.borrowReserve),
+    ];
+  }
+
+  applyDependencyUpdate(address: PublicKey, data: Buffer): boolean {
+    if (!this.monitor.getReserve(address)) return false;
+    return this.monitor.applyReserveUpdate(address, data) !== null;
+  }
+}
@@ -0,0 +1,157 @@
+import { Connection, PublicKey, TransactionInstruction } from '@solana/web3.js';
+import { Position } from '../../monitor/positionMonitor';
+import { DecodedAccount, LiquidationParameters, ProtocolAction, ProtocolAdapter } from '../adapter';
+import { MARGINFI_PROGRAM_ID, MarginfiAccount, MarginfiMonitor } from '../marginfi';
+
+export class MarginfiAdapter implements ProtocolAdapter<MarginfiAccount> {
+  readonly name = 'marginfi';
+  readonly programId = MARGINFI_PROGRAM_ID;
+  readonly healthModel = 'weighted-collateral' as const;
+  readonly monitor: MarginfiMonitor;
+  private bankAddresses: Set<string> = new Set();
+  private oracleAddresses: Set<string> = new Set();
+
+  constructor(connection: Connection) {
+    this.monitor = new MarginfiMonitor(connection);
+  }
+
+  async discoverAccounts(owner: PublicKey): Promise<DecodedAccount<MarginfiAccount>[]> {
+    const accounts = await this.monitor.getAccountsByOwner(owner);
+    return accounts.map(account => ({ address: account.address, account }));
+  }
+
+  async decodeAccount(address: PublicKey, data: Buffer): Promise<DecodedAccount<MarginfiAccount>> {
+    return { address, account: await this.monitor.decodeAccount(address, data) };
+  }
+
+  async decodePosition(
+    { address, account }: DecodedAccount<MarginfiAccount>,
+    owner: PublicKey
+  ): Promise<Position | null> {
+    const balances = await this.monitor.getBalanceDetails(account);
+    const { healthFactor, totalAssetValue } = this.monitor.summarizeBalances(balances);
+
+    const collateral = balances
+      .filter(b => b.assetAmount > 0)
+      .map(b => ({
+        mint: b.mint,
+        amount: b.assetAmount,
+        valueUsd: b.assetValue,
+        priceUsd: b.price ?? undefined,
+        liquidationWeight: b.assetWeightMaint,
+      }));
+    const debt = balances
+      .filter(b => b.liabilityAmount > 0)
+      .map(b => ({
+        mint: b.mint,
+        amount: b.liabilityAmount,
+        valueUsd: b.liabilityValue,
+        priceUsd: b.price ?? undefined,
+        liquidationWeight: b.liabilityWeightMaint,
+      }));
+
+    if (collateral.length === 0 && debt.length === 0) return null;
+
+    // Value-weighted maintenance asset weight across all deposits
+    const weightedAssets = balances.reduce((sum, b) => sum + b.assetValue * b.assetWeightMaint, 0);
+    const unpriced = balances
+      .filter(b => b.price === null && (b.assetAmount > 0 || b.liabilityAmount > 0))
+      .map(b => b.mint);
+
+    return {
+      id: `marginfi-${address.toBase58()}`,
+      protocol: this.name,
+      owner,
+      collateral,
+      debt,
+      healthFactor,
+      timestamp: Date.now(),
+      liquidationThreshold: totalAssetValue > 0 ? weightedAssets / totalAssetValue : undefined,
+      ...(unpriced.length > 0 && { unpriced }),
+    };
+  }
+
+  async computeHealth({ account }: DecodedAccount<MarginfiAccount>): Promise<number> {
+    return this.monitor.getHealthFactor(account);
+  }
+
+  async getLiquidationParameters({ address, account }: DecodedAccount<MarginfiAccount>): Promise<LiquidationParameters> {
+    const balances = await this.monitor.getBalanceDetails(account);
+
+    return {
+      protocol: this.name,
+      account: address,
+      healthModel: this.healthModel,
+      liquidationHealthFactor: 1,
+      assets: balances
+        .filter(b => b.assetAmount > 0 || b.liabilityAmount > 0)
+        .map(b => ({
+          mint: b.mint,
+          side: b.liabilityAmount > 0 ? 'debt' as const : 'collateral' as const,
+          assetWeight: b.assetWeightMaint,
+          liabilityWeight: b.liabilityWeightMaint,
+        })),
+    };
+  }
+
+  async subscribe(
+    address: PublicKey,
+    callback: (account: DecodedAccount<MarginfiAccount>) => void
+  ): Promise<number> {
+    return this.monitor.subscribeToAccount(address, account => callback({ address, account }));
+  }
+
+  unsubscribe(subscriptionId: number): void {
+    this.monitor.unsubscribe(subscriptionId);
+  }
+
+  async getDependencies({ account }: DecodedAccount<MarginfiAccount>): Promise<PublicKey[]> {
+    // getBalanceDetails loads any bank missing from the cache
+    await this.monitor.getBalanceDetails(account);
+    const banks = this.monitor.getBankCache();
+    const dependencies: PublicKey[] = [];
+
+    for (const balance of account.balances) {
+      const bank = banks.get(balance.bankPk.toBase58());
+      dependencies.push(balance.bankPk);
+      this.bankAddresses.add(balance.bankPk.toBase58());
+
+      if (bank) {
+        dependencies.push(bank.config.oracleKey);
+        this.oracleAddresses.add(bank.config.oracleKey.toBase58());
+      }
+    }
+
+    return dependencies;
+  }
+
+  applyDependencyUpdate(address: PublicKey, data: Buffer): boolean {
+    const key = address.toBase58();
+    if (this.bankAddresses.has(key)) {
+      return this.monitor.applyBankUpdate(address, data) !== null;
+    }
+    if (this.oracleAddresses.has(key)) {
+      return this.monitor.applyOracleUpdate(address, data) !== null;
+    }
+    return false;
+  }
+
+  async buildActionInstructions(
+    { account }: DecodedAccount<MarginfiAccount>,
+    action: ProtocolAction,
+    signer: PublicKey
+  ): Promise<TransactionInstruction[]> {
+    if (!action.mint) {
+      throw new Error(`Marginfi ${action.kind} needs a mint`);
+    }
+
+    switch (action.kind) {
+      case 'withdraw':
+        return this.monitor.buildWithdrawInstructions(account, action.mint, action.amount, signer, action.all);
+      case 'repay':
+        return this.monitor.buildRepayInstructions(account, action.mint, action.amount, signer, action.all);
+      default:
+        throw new Error(`Marginfi does not support ${action.kind}`);
+    }
+  }
+}
@@ -0,0 +1,80 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+import { DriftAdapter } from './adapters/driftAdapter';
+
+const AUTHORITY = new PublicKey('dRiftyHA39MWEi3m9aunc5MzRF1JYuBsbn6VPcn33UH');
+const USER = new PublicKey('11111111111111111111111111111112');
+const USDC = new PublicKey('EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v');
+const SOL = new PublicKey('So11111111111111111111111111111111111111112');
+
+const PERP_POSITIONS_OFFSET = 120;
+const SPOT_POSITIONS_OFFSET = PERP_POSITIONS_OFFSET + 8 * 128;
+
+function spotMarketData(mint: PublicKey, price: number, interest: number, assetWeight: number, liabilityWeight: number): Buffer {
+  const data = Buffer.alloc(800);
+  mint.toBuffer().copy(data, 72);
+  data.writeBigInt64LE(BigInt(price * 1e6), 168);
+  data.writeBigUInt64LE(BigInt(Math.round(interest * 1e10)), 464);
+  data.writeBigUInt64LE(BigInt(Math.round(interest * 1e10)), 480);
+  data.writeUInt32LE(assetWeight * 1e4, 644);
+  data.writeUInt32LE(liabilityWeight * 1e4, 652);
+  return data;
+}
+
+// A user with no perp positions, $1500 of USDC deposited and 2 SOL borrowed
+function userData(solBorrowed = 2n): Buffer {
+  const data = Buffer.alloc(SPOT_POSITIONS_OFFSET + 8 * 40);
+  AUTHORITY.toBuffer().copy(data, 8);
+  data.writeBigInt64LE(1500n * 1_000_000n, 48);
+  for (let i = 0; i < 8; i++) {
+    data.writeUInt16LE(65535, PERP_POSITIONS_OFFSET + i * 128);
+  }
+
+  data.writeBigUInt64LE(1500n * 1_000_000_000n, SPOT_POSITIONS_OFFSET);
+  data.writeUInt16LE(0, SPOT_POSITIONS_OFFSET + 32);
+
+  data.writeBigUInt64LE(solBorrowed * 1_000_000_000n, SPOT_POSITIONS_OFFSET + 40);
+  data.writeUInt16LE(1, SPOT_POSITIONS_OFFSET + 72);
+  data.writeUInt8(1, SPOT_POSITIONS_OFFSET + 74);
+  return data;
+}
+
+const offline = { getAccountInfo: async () => null } as unknown as Connection;
+
+describe('Drift', () => {
+  function adapter(): DriftAdapter {
+    const drift = new DriftAdapter(offline);
+    drift.monitor.applySpotMarketUpdate(0, spotMarketData(USDC, 1, 1, 0.95, 1));
+    // Borrow interest has grown each SOL borrowed by 5%
+    drift.monitor.applySpotMarketUpdate(1, spotMarketData(SOL, 150, 1.05, 0.9, 1.1));
+    return drift;
+  }
+
+  it('reports each spot deposit as collateral and each spot borrow as debt', async () => {
+    const drift = adapter();
+    const decoded = await drift.decodeAccount(USER, userData());
+    const position = await drift.decodePosition(decoded, AUTHORITY);
+
+    expect(position).not.toBeNull();
+    expect(position!.collateral.map(c => [c.mint.toBase58(), c.amount, c.valueUsd, c.liquidationWeight])).toEqual([
+      [USDC.toBase58(), 1500, 1500, 0.95],
+    ]);
+    expect(position!.debt).toHaveLength(1);
+    expect(position!.debt[0].mint.equals(SOL)).toBe(true);
+    expect(position!.debt[0].amount).toBeCloseTo(2.1, 10);
+    expect(position!.debt[0].valueUsd).toBeCloseTo(315, 10);
+    expect(position!.debt[0].liquidationWeight).toBe(1.1);
+  });
+
+  it('weighs spot deposits against spot borrows for margin health', async () => {
+    const drift = adapter();
+
+    const healthy = await drift.decodePosition(await drift.decodeAccount(USER, userData()), AUTHORITY);
+    // $1425 of weighted USDC against $315 of SOL debt at a 1.1 liability weight
+    expect(healthy!.healthFactor).toBeCloseTo(1425 / 346.5, 10);
+    expect(healthy!.drift!.riskLevel).toBe('safe');
+
+    const underwater = await drift.decodeAccount(USER, userData(10n));
+    expect(await drift.computeHealth(underwater)).toBeCloseTo(1425 / 1732.5, 10);
+    expect(underwater.account.marginHealth.riskLevel).toBe('critical');
+  });
+});
@@ -1,13 +1,24 @@
 import { Connection, PublicKey } from '@solana/web3.js';
 import { BN } from '@coral-xyz/anchor';
+import { RiskPolicy } from '../risk/riskPolicy';
 
 export const DRIFT_PROGRAM_ID = new PublicKey('dRiftyHA39MWEi3m9aunc5MzRF1JYuBsbn6VPcn33UH');
 
+const PERP_POSITIONS = 8;
+const PERP_POSITION_SIZE = 128;
+const SPOT_POSITIONS = 8;
+const SPOT_POSITION_SIZE = 40;
+const SPOT_BALANCE_PRECISION = 1e9;
+const SPOT_CUMULATIVE_INTEREST_PRECISION = 1e10;
+const SPOT_WEIGHT_PRECISION = 1e4;
+const PRICE_PRECISION = 1e6;
+
 export interface DriftUser {
   address: PublicKey;
   authority: PublicKey;
   subAccountId: number;
   positions: DriftPosition[];
+  spotPositions: DriftSpotPosition[];
   totalCollateral: number;
   freeCollateral: number;
   marginRatio: number;
@@ -47,6 +58,53 @@ export interface DriftPosition {
   pnlBreakdown: PnlBreakdown;
 }
 
+type RawDriftPosition = Pick<
+  DriftPosition,
+  | 'marketIndex'
+  | 'baseAssetAmount'
+  | 'quoteAssetAmount'
+  | 'lastCumulativeFundingRate'
+  | 'lastFundingRateTs'
+  | 'openOrders'
+  | 'settledPnl'
+  | 'openBids'
+  | 'openAsks'
+  | 'remainderBaseAssetAmount'
+  | 'lpShares'
+  | 'perLpBase'
+>;
+
+export interface DriftSpotPosition {
+  marketIndex: number;
+  balanceType: 'deposit' | 'borrow';
+  // Interest-scaled balance (SPOT_BALANCE_PRECISION, 1e9) as stored on the user
+  scaledBalance: number;
+  // Null while the spot market is unknown; the rest are then zero
+  mint: PublicKey | null;
+  tokenAmount: number;
+  priceUsd: number;
+  valueUsd: number;
+  // Maintenance asset weight for deposits, maintenance liability weight for borrows
+  maintenanceWeight: number;
+  oracle: PublicKey | null;
+}
+
+type RawDriftSpotPosition = Pick<DriftSpotPosition, 'marketIndex' | 'balanceType' | 'scaledBalance'>;
+
+export interface DriftSpotMarket {
+  marketIndex: number;
+  mint: PublicKey;
+  oracle: PublicKey;
+  decimals: number;
+  lastOraclePrice: number;
+  cumulativeDepositInterest: number;
+  cumulativeBorrowInterest: number;
+  initialAssetWeight: number;
+  maintenanceAssetWeight: number;
+  initialLiabilityWeight: number;
+  maintenanceLiabilityWeight: number;
+}
+
 export interface DriftMarket {
   marketIndex: number;
   symbol: string;
@@ -142,14 +200,21 @@ export interface AmmData {
 export class DriftMonitor {
   private connection: Connection;
   private markets: Map<number, DriftMarket> = new Map();
+  private spotMarkets: Map<number, DriftSpotMarket> = new Map();
+  private marketListeners: ((market: DriftMarket) => void)[] = [];
   private fundingHistory: Map<number, FundingRateSnapshot[]> = new Map();
   private priceCache: Map<number, { price: number, timestamp: number }> = new Map();
   private readonly CACHE_TTL = 5000;
+  private riskPolicy: RiskPolicy | null = null;
 
   constructor(connection: Connection) {
     this.connection = connection;
   }
 
+  setRiskPolicy(policy: RiskPolicy): void {
+    this.riskPolicy = policy;
+  }
+
   private readI128(buffer: Buffer, offset: number): number {
     const low = buffer.readBigUInt64LE(offset);
     const high = buffer.readBigInt64LE(offset + 8);
@@ -225,40 +290,101 @@ export class DriftMonitor {
     offset += 8;
     
     const positions = await this.parsePositions(data, offset);
-    
-    const marginRatio = await this.calculateMarginRatio(totalCollateral, positions);
-    const freeCollateral = await this.calculateFreeCollateral(totalCollateral, positions);
-    const marginHealth = await this.calculateMarginHealth(totalCollateral, positions, marginRatio);
-    const portfolioMetrics = await this.calculatePortfolioMetrics(positions, totalCollateral);
+    const spotPositions = await this.parseSpotPositions(data, offset + PERP_POSITIONS * PERP_POSITION_SIZE);
+
+    return this.summarizeUser(
+      {
+        address,
+        authority,
+        subAccountId,
+        totalCollateral,
+        cumulativePerpFundingDelta,
+        marginRequirementInitial: Number(marginRequirementInitial) / 1e6,
+        marginRequirementMaintenance: Number(marginRequirementMaintenance) / 1e6,
+        lastActiveSlot: Number(lastActiveSlot),
+        nextLiquidationId,
+      },
+      positions,
+      spotPositions
+    );
+  }
+
+  private async summarizeUser(
+    base: Omit<DriftUser, 'positions' | 'spotPositions' | 'freeCollateral' | 'marginRatio' | 'marginHealth' | 'portfolioMetrics'>,
+    positions: DriftPosition[],
+    spotPositions: DriftSpotPosition[]
+  ): Promise<DriftUser> {
+    const marginRatio = await this.calculateMarginRatio(base.totalCollateral, positions);
+    const freeCollateral = await this.calculateFreeCollateral(base.totalCollateral, positions);
+    const marginHealth = await this.calculateMarginHealth(
+      base.totalCollateral,
+      positions,
+      spotPositions,
+      marginRatio,
+      base.authority
+    );
+    const portfolioMetrics = await this.calculatePortfolioMetrics(positions, base.totalCollateral);
 
     return {
-      address,
-      authority,
-      subAccountId,
+      ...base,
       positions,
-      totalCollateral,
+      spotPositions,
       freeCollateral,
       marginRatio,
-      cumulativePerpFundingDelta,
-      marginRequirementInitial: Number(marginRequirementInitial) / 1e6,
-      marginRequirementMaintenance: Number(marginRequirementMaintenance) / 1e6,
-      lastActiveSlot: Number(lastActiveSlot),
-      nextLiquidationId,
       marginHealth,
       portfolioMetrics,
     };
   }
 
+  /**
+   * Parses a pushed user account without fetching it. Markets are read from
+   * the cache, so keep them fresh with applyMarketUpdate.
+   */
+  async decodeUser(address: PublicKey, data: Buffer): Promise<DriftUser> {
+    return this.parseUser(address, data);
+  }
+
+  /**
+   * Re-derives the mark-dependent position fields and margin metrics of an
+   * already parsed user from the current market cache.
+   */
+  async revalueUser(user: DriftUser): Promise<DriftUser> {
+    const positions: DriftPosition[] = [];
+    for (const position of user.positions) {
+      positions.push(await this.valuePosition(position));
+    }
+    const spotPositions: DriftSpotPosition[] = [];
+    for (const spot of user.spotPositions) {
+      spotPositions.push(await this.valueSpotPosition(spot));
+    }
+
+    return this.summarizeUser(
+      {
+        address: user.address,
+        authority: user.authority,
+        subAccountId: user.subAccountId,
+        totalCollateral: user.totalCollateral,
+        cumulativePerpFundingDelta: user.cumulativePerpFundingDelta,
+        marginRequirementInitial: user.marginRequirementInitial,
+        marginRequirementMaintenance: user.marginRequirementMaintenance,
+        lastActiveSlot: user.lastActiveSlot,
+        nextLiquidationId: user.nextLiquidationId,
+      },
+      positions,
+      spotPositions
+    );
+  }
+
   private async parsePositions(data: Buffer, startOffset: number): Promise<DriftPosition[]> {
     const positions: DriftPosition[] = [];
     let offset = startOffset;
     
-    for (let i = 0; i < 8; i++) {
+    for (let i = 0; i < PERP_POSITIONS; i++) {
       const marketIndex = data.readUInt16LE(offset);
       offset += 2;
       
       if (marketIndex === 65535) {
-        offset += 126;
+        offset += PERP_POSITION_SIZE - 2;
         continue;
       }
       
@@ -295,77 +421,168 @@ export class DriftMonitor {
       const perLpBase = data.readInt8(offset);
       offset += 1;
       
-      offset += 7;
-      
-      const market = await this.getMarket(marketIndex);
-      const markPrice = market ? market.markPrice : 0;
-      const entryPrice = baseAssetAmount !== 0 ? Math.abs(quoteAssetAmount / baseAssetAmount) : 0;
-      
-      const unrealizedPnl = this.calculateUnrealizedPnl(baseAssetAmount, entryPrice, markPrice);
-      const unsettledFundingPnl = await this.calculateUnsettledFundingPnl(
-        marketIndex, 
-        baseAssetAmount, 
-        lastCumulativeFundingRate
-      );
-      
-      const side = baseAssetAmount > 0 ? 'long' : baseAssetAmount < 0 ? 'short' : 'none';
-      const size = Math.abs(baseAssetAmount);
-      const notionalValue = size * markPrice;
-      const marginRequirement = market ? notionalValue * market.marginRatioInitial : 0;
-      const liquidationPrice = await this.calculateLiquidationPrice(baseAssetAmount, quoteAssetAmount, market);
-      const fundingPayments = await this.getFundingPayments(marketIndex, baseAssetAmount, lastCumulativeFundingRate, Number(lastFundingRateTs));
-      const pnlBreakdown = this.calculatePnlBreakdown(unrealizedPnl, unsettledFundingPnl, settledPnl, quoteAssetAmount);
+      offset += 8;
       
-      positions.push({
+      positions.push(await this.valuePosition({
         marketIndex,
         baseAssetAmount,
         quoteAssetAmount,
         lastCumulativeFundingRate,
         lastFundingRateTs: Number(lastFundingRateTs),
         openOrders,
-        unrealizedPnl,
-        realizedPnl: 0,
         settledPnl,
         openBids,
         openAsks,
         remainderBaseAssetAmount,
         lpShares: Number(lpShares),
         perLpBase,
-        markPrice,
-        entryPrice,
-        unsettledFundingPnl,
-        side,
-        size,
-        notionalValue,
-        marginRequirement,
-        liquidationPrice,
-        fundingPayments,
-        pnlBreakdown,
-      });
+      }));
     }
     
     return positions.filter(pos => pos.baseAssetAmount !== 0 || pos.quoteAssetAmount !== 0);
   }
 
+  private async valuePosition(raw: RawDriftPosition): Promise<DriftPosition> {
+    const { marketIndex, baseAssetAmount, quoteAssetAmount, lastCumulativeFundingRate, lastFundingRateTs, settledPnl } = raw;
+
+    const market = await this.getMarket(marketIndex);
+    const markPrice = market ? market.markPrice : 0;
+    const entryPrice = baseAssetAmount !== 0 ? Math.abs(quoteAssetAmount / baseAssetAmount) : 0;
+    
+    const unrealizedPnl = this.calculateUnrealizedPnl(baseAssetAmount, entryPrice, markPrice);
+    const unsettledFundingPnl = await this.calculateUnsettledFundingPnl(
+      marketIndex, 
+      baseAssetAmount, 
+      lastCumulativeFundingRate
+    );
+    
+    const side = baseAssetAmount > 0 ? 'long' : baseAssetAmount < 0 ? 'short' : 'none';
+    const size = Math.abs(baseAssetAmount);
+    const notionalValue = size * markPrice;
+    const marginRequirement = market ? notionalValue * market.marginRatioInitial : 0;
+    const liquidationPrice = await this.calculateLiquidationPrice(baseAssetAmount, quoteAssetAmount, market);
+    const fundingPayments = await this.getFundingPayments(marketIndex, baseAssetAmount, lastCumulativeFundingRate, lastFundingRateTs);
+    const pnlBreakdown = this.calculatePnlBreakdown(unrealizedPnl, unsettledFundingPnl, settledPnl, quoteAssetAmount);
+    
+    return {
+      marketIndex,
+      baseAssetAmount,
+      quoteAssetAmount,
+      lastCumulativeFundingRate,
+      lastFundingRateTs,
+      openOrders: raw.openOrders,
+      unrealizedPnl,
+      realizedPnl: 0,
+      settledPnl,
+      openBids: raw.openBids,
+      openAsks: raw.openAsks,
+      remainderBaseAssetAmount: raw.remainderBaseAssetAmount,
+      lpShares: raw.lpShares,
+      perLpBase: raw.perLpBase,
+      markPrice,
+      entryPrice,
+      unsettledFundingPnl,
+      side,
+      size,
+      notionalValue,
+      marginRequirement,
+      liquidationPrice,
+      fundingPayments,
+      pnlBreakdown,
+    };
+  }
+
+  // Drift's SpotPosition: scaled_balance u64, open_bids i64, open_asks i64,
+  // cumulative_deposits i64, market_index u16, balance_type u8, open_orders u8
+  private async parseSpotPositions(data: Buffer, startOffset: number): Promise<DriftSpotPosition[]> {
+    const spotPositions: DriftSpotPosition[] = [];
+
+    for (let i = 0; i < SPOT_POSITIONS; i++) {
+      const offset = startOffset + i * SPOT_POSITION_SIZE;
+      const scaledBalance = Number(data.readBigUInt64LE(offset)) / SPOT_BALANCE_PRECISION;
+      if (scaledBalance === 0) continue;
+
+      spotPositions.push(await this.valueSpotPosition({
+        marketIndex: data.readUInt16LE(offset + 32),
+        balanceType: data.readUInt8(offset + 34) === 1 ? 'borrow' : 'deposit',
+        scaledBalance,
+      }));
+    }
+
+    return spotPositions;
+  }
+
+  private async valueSpotPosition(raw: RawDriftSpotPosition): Promise<DriftSpotPosition> {
+    const market = await this.getSpotMarket(raw.marketIndex);
+    if (!market) {
+      return { ...raw, mint: null, tokenAmount: 0, priceUsd: 0, valueUsd: 0, maintenanceWeight: 0, oracle: null };
+    }
+
+    const deposit = raw.balanceType === 'deposit';
+    const interest = deposit ? market.cumulativeDepositInterest : market.cumulativeBorrowInterest;
+    const tokenAmount = raw.scaledBalance * interest;
+
+    return {
+      ...raw,
+      mint: market.mint,
+      tokenAmount,
+      priceUsd: market.lastOraclePrice,
+      valueUsd: tokenAmount * market.lastOraclePrice,
+      maintenanceWeight: deposit ? market.maintenanceAssetWeight : market.maintenanceLiabilityWeight,
+      oracle: market.oracle,
+    };
+  }
+
+  private async getSpotMarket(marketIndex: number): Promise<DriftSpotMarket | null> {
+    if (this.spotMarkets.has(marketIndex)) {
+      return this.spotMarkets.get(marketIndex)!;
+    }
+
+    try {
+      const accountInfo = await this.connection.getAccountInfo(this.getSpotMarketAddress(marketIndex));
+      if (!accountInfo) return null;
+
+      const market = this.parseSpotMarket(marketIndex, accountInfo.data);
+      this.spotMarkets.set(marketIndex, market);
+      return market;
+    } catch (error) {
+      console.error(`[DRIFT] Error fetching spot market ${marketIndex}:`, error);
+      return null;
+    }
+  }
+
+  // Offsets follow SpotMarket in programs/drift/src/state/spot_market.rs
+  // (github.com/drift-labs/protocol-v2), including the 8-byte discriminator
+  private parseSpotMarket(marketIndex: number, data: Buffer): DriftSpotMarket {
+    return {
+      marketIndex,
+      oracle: new PublicKey(data.subarray(40, 72)),
+      mint: new PublicKey(data.subarray(72, 104)),
+      lastOraclePrice: Number(data.readBigInt64LE(168)) / PRICE_PRECISION,
+      cumulativeDepositInterest: this.readI128(data, 464) / SPOT_CUMULATIVE_INTEREST_PRECISION,
+      cumulativeBorrowInterest: this.readI128(data, 480) / SPOT_CUMULATIVE_INTEREST_PRECISION,
+      initialAssetWeight: data.readUInt32LE(640) / SPOT_WEIGHT_PRECISION,
+      maintenanceAssetWeight: data.readUInt32LE(644) / SPOT_WEIGHT_PRECISION,
+      initialLiabilityWeight: data.readUInt32LE(648) / SPOT_WEIGHT_PRECISION,
+      maintenanceLiabilityWeight: data.readUInt32LE(652) / SPOT_WEIGHT_PRECISION,
+      decimals: data.readUInt32LE(680),
+    };
+  }
+
   private async getMarket(marketIndex: number): Promise<DriftMarket | null> {
     if (this.markets.has(marketIndex)) {
       return this.markets.get(marketIndex)!;
     }
 
     try {
-      const [marketPda] = PublicKey.findProgramAddressSync(
-        [
-          Buffer.from('perp_market'),
-          new BN(marketIndex).toArrayLike(Buffer, 'le', 2)
-        ],
-        DRIFT_PROGRAM_ID
-      );
+      const marketPda = this.getPerpMarketAddress(marketIndex);
 
       const accountInfo = await this.connection.getAccountInfo(marketPda);
       if (!accountInfo) return null;
 
       const market = this.parseMarket(marketIndex, accountInfo.data);
       this.markets.set(marketIndex, market);
+      this.notifyMarketListeners(market);
       return market;
     } catch (error) {
       console.error(`[DRIFT] Error fetching market ${marketIndex}:`, error);
@@ -632,14 +849,33 @@ export class DriftMonitor {
     };
   }
 
+  /**
+   * Maintenance health: spot deposits at their maintenance asset weight over
+   * perp maintenance margin plus spot borrows at their maintenance liability
+   * weight. Falls back to the account's total collateral while no spot market
+   * is known.
+   */
   private async calculateMarginHealth(
     totalCollateral: number,
     positions: DriftPosition[],
-    marginRatio: number
+    spotPositions: DriftSpotPosition[],
+    marginRatio: number,
+    authority: PublicKey
   ): Promise<MarginHealth> {
     let totalMarginUsed = 0;
     let totalMaintenanceMargin = 0;
-    
+    let weightedCollateral = 0;
+
+    const priced = spotPositions.filter(spot => spot.mint);
+    for (const spot of priced) {
+      if (spot.balanceType === 'deposit') {
+        weightedCollateral += spot.valueUsd * spot.maintenanceWeight;
+      } else {
+        totalMaintenanceMargin += spot.valueUsd * spot.maintenanceWeight;
+      }
+    }
+    const collateral = priced.length > 0 ? weightedCollateral : totalCollateral;
+
     for (const position of positions) {
       totalMarginUsed += position.marginRequirement;
       const market = await this.getMarket(position.marketIndex);
@@ -648,15 +884,17 @@ export class DriftMonitor {
       }
     }
     
-    const healthRatio = totalMaintenanceMargin > 0 ? totalCollateral / totalMaintenanceMargin : Infinity;
+    const healthRatio = totalMaintenanceMargin > 0 ? collateral / totalMaintenanceMargin : Infinity;
     const liquidationBuffer = Math.max(0, (healthRatio - 1.0) * 100);
-    const marginUtilization = totalCollateral > 0 ? (totalMarginUsed / totalCollateral) * 100 : 0;
-    const maintenanceMarginExcess = totalCollateral - totalMaintenanceMargin;
+    const marginUtilization = collateral > 0 ? (totalMarginUsed / collateral) * 100 : 0;
+    const maintenanceMarginExcess = collateral - totalMaintenanceMargin;
     
+    // Critical, high and moderate follow the risk policy's health thresholds when one is set
+    const thresholds = this.riskPolicy?.resolve({ protocol: 'drift', owner: authority.toBase58() }).healthFactor;
     let riskLevel: 'safe' | 'moderate' | 'high' | 'critical' = 'safe';
-    if (healthRatio < 1.05) riskLevel = 'critical';
-    else if (healthRatio < 1.25) riskLevel = 'high';
-    else if (healthRatio < 2.0) riskLevel = 'moderate';
+    if (healthRatio < (thresholds?.critical ?? 1.05)) riskLevel = 'critical';
+    else if (healthRatio < (thresholds?.warning ?? 1.25)) riskLevel = 'high';
+    else if (healthRatio < (thresholds?.elevated ?? 2.0)) riskLevel = 'moderate';
     
     const timeToLiquidation = this.estimateTimeToLiquidation(positions, maintenanceMarginExcess);
     
@@ -762,6 +1000,93 @@ export class DriftMonitor {
     return totalCollateral + totalUnrealizedPnl - totalMarginRequirement;
   }
 
+  async getPerpMarket(marketIndex: number): Promise<DriftMarket | null> {
+    return this.getMarket(marketIndex);
+  }
+
+  getPerpMarketAddress(marketIndex: number): PublicKey {
+    const [marketPda] = PublicKey.findProgramAddressSync(
+      [
+        Buffer.from('perp_market'),
+        new BN(marketIndex).toArrayLike(Buffer, 'le', 2)
+      ],
+      DRIFT_PROGRAM_ID
+    );
+    return marketPda;
+  }
+
+  getSpotMarketAddress(marketIndex: number): PublicKey {
+    const [marketPda] = PublicKey.findProgramAddressSync(
+      [
+        Buffer.from('spot_market'),
+        new BN(marketIndex).toArrayLike(Buffer, 'le', 2)
+      ],
+      DRIFT_PROGRAM_ID
+    );
+    return marketPda;
+  }
+
+  /**
+   * Replaces the cached spot market with pushed account data; the next
+   * revalueUser prices spot balances from it.
+   */
+  applySpotMarketUpdate(marketIndex: number, data: Buffer): DriftSpotMarket | null {
+    try {
+      const market = this.parseSpotMarket(marketIndex, data);
+      this.spotMarkets.set(marketIndex, market);
+      return market;
+    } catch (error) {
+      console.error(`[DRIFT] Error applying spot market ${marketIndex} update:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Replaces the cached perp market with pushed account data and notifies
+   * market listeners.
+   */
+  applyMarketUpdate(marketIndex: number, data: Buffer): DriftMarket | null {
+    try {
+      const market = this.parseMarket(marketIndex, data);
+      this.markets.set(marketIndex, market);
+      this.notifyMarketListeners(market);
+      return market;
+    } catch (error) {
+      console.error(`[DRIFT] Error applying market ${marketIndex} update:`, error);
+      return null;
+    }
+  }
+
+  async refreshPerpMarket(marketIndex: number): Promise<DriftMarket | null> {
+    this.markets.delete(marketIndex);
+    return this.getMarket(marketIndex);
+  }
+
+  onMarketUpdate(listener: (market: DriftMarket) => void): void {
+    this.marketListeners.push(listener);
+  }
+
+  private notifyMarketListeners(market: DriftMarket): void {
+    for (const listener of this.marketListeners) {
+      try {
+        listener(market);
+      } catch (error) {
+        console.error('[DRIFT] Error in market listener:', error);
+      }
+    }
+  }
+
+  async subscribeToUser(address: PublicKey, callback: (user: DriftUser) => void): Promise<number> {
+    return this.connection.onAccountChange(address, async (accountInfo) => {
+      const parsed = await this.parseUser(address, accountInfo.data);
+      callback(parsed);
+    });
+  }
+
+  unsubscribe(subscriptionId: number): void {
+    this.connection.removeAccountChangeListener(subscriptionId);
+  }
+
   async getMarginRatio(user: DriftUser): Promise<number> {
     return user.marginRatio;
   }
@@ -782,5 +1107,13 @@ export class DriftMonitor {
       marketIndex,
       fundingRate: (market.cumulativeFundingRateLong + market.cumulativeFundingRateShort) / 2,
       fundingRateHourly: hourlyFundingRate,
-      fundingRateAnnualized: annualizedF
-}}}
\ No newline at end of file
+      fundingRateAnnualized: annualizedFundingRate,
+      cumulativeFundingRateLong: market.cumulativeFundingRateLong,
+      cumulativeFundingRateShort: market.cumulativeFundingRateShort,
+      timestamp: Date.now(),
+      nextFundingTime: market.nextFundingRateTs,
+      fundingVelocity: market.fundingVelocity,
+      twapSpread,
+    };
+  }
+}
@@ -0,0 +1,102 @@
+import { BN } from '@coral-xyz/anchor';
+import { Connection, PublicKey } from '@solana/web3.js';
+import { KaminoMonitor, fractionToNumber } from './kamino';
+
+const SOL_RESERVE = new PublicKey('11111111111111111111111111111112');
+const USDC_RESERVE = new PublicKey('11111111111111111111111111111113');
+const SOL = new PublicKey('So11111111111111111111111111111111111111112');
+const USDC = new PublicKey('EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v');
+const OWNER = new PublicKey('KLend2g3cP87ber41aPn9Q5kkdCZNxMWTKZLGvBKgvV');
+
+// Whole units as a U68F60 Fraction
+function sf(value: number): BN {
+  return new BN(value).shln(60);
+}
+
+// An active reserve at the klend layout; collateral redeems for liquidity at
+// availableAmount / collateralSupply
+function reserveData(
+  mint: PublicKey,
+  decimals: number,
+  liquidationThresholdPct: number,
+  availableAmount = 0,
+  collateralSupply = 0
+): Buffer {
+  const data = Buffer.alloc(8624);
+  mint.toBuffer().copy(data, 128);
+  new BN(availableAmount).toArrayLike(Buffer, 'le', 8).copy(data, 224);
+  new BN(decimals).toArrayLike(Buffer, 'le', 8).copy(data, 272);
+  new BN(collateralSupply).toArrayLike(Buffer, 'le', 8).copy(data, 2592);
+  data.writeUInt8(liquidationThresholdPct, 4873);
+  return data;
+}
+
+// 10 SOL worth $1500 deposited against $1000 of USDC debt
+function obligationData(): Buffer {
+  const data = Buffer.alloc(3344);
+  OWNER.toBuffer().copy(data, 64);
+
+  SOL_RESERVE.toBuffer().copy(data, 96);
+  new BN(10_000_000_000).toArrayLike(Buffer, 'le', 8).copy(data, 128);
+  sf(1500).toArrayLike(Buffer, 'le', 16).copy(data, 136);
+  sf(1500).toArrayLike(Buffer, 'le', 16).copy(data, 1192);
+
+  USDC_RESERVE.toBuffer().copy(data, 1208);
+  sf(1_000_000_000).toArrayLike(Buffer, 'le', 16).copy(data, 1208 + 88);
+  sf(1000).toArrayLike(Buffer, 'le', 16).copy(data, 1208 + 104);
+  sf(1000).toArrayLike(Buffer, 'le', 16).copy(data, 1208 + 120);
+  return data;
+}
+
+const offline = { getAccountInfo: async () => null } as unknown as Connection;
+
+describe('Kamino', () => {
+  it('reads U68F60 fractions past 2^53', () => {
+    expect(fractionToNumber(sf(1500))).toBe(1500);
+    expect(fractionToNumber(new BN(3).shln(59))).toBe(1.5);
+  });
+
+  it('decodes obligation values and amounts from their fractions', async () => {
+    const monitor = new KaminoMonitor(offline);
+    monitor.applyReserveUpdate(SOL_RESERVE, reserveData(SOL, 9, 80));
+    monitor.applyReserveUpdate(USDC_RESERVE, reserveData(USDC, 6, 90));
+
+    const obligation = await monitor.decodeObligation(OWNER, obligationData());
+    const { deposits, borrows } = await monitor.getObligationBalances(obligation);
+
+    expect(obligation.owner.equals(OWNER)).toBe(true);
+    expect([obligation.depositsLen, obligation.borrowsLen]).toEqual([1, 1]);
+    expect(deposits.map(d => [d.amount, d.valueUsd])).toEqual([[10, 1500]]);
+    expect(borrows.map(b => [b.amount, b.valueUsd])).toEqual([[1000, 1000]]);
+    expect(obligation.calculatedHealthFactor).toBeCloseTo(1.2, 10);
+  });
+
+  it('converts deposited collateral to liquidity at the reserve exchange rate', async () => {
+    const monitor = new KaminoMonitor(offline);
+    // 110 SOL of liquidity backing 100 cSOL: each cSOL redeems for 1.1 SOL
+    monitor.applyReserveUpdate(SOL_RESERVE, reserveData(SOL, 9, 80, 110_000_000_000, 100_000_000_000));
+    monitor.applyReserveUpdate(USDC_RESERVE, reserveData(USDC, 6, 90));
+
+    const obligation = await monitor.decodeObligation(OWNER, obligationData());
+    const { deposits } = await monitor.getObligationBalances(obligation);
+
+    expect(obligation.deposits[0].depositedAmount.toString()).toBe('10000000000');
+    expect(deposits.map(d => [d.amount, d.valueUsd])).toEqual([[11, 1500]]);
+    expect(deposits[0].priceUsd).toBeCloseTo(1500 / 11, 10);
+  });
+
+  it('reads reserve config and status from the klend layout', () => {
+    const monitor = new KaminoMonitor(offline);
+    const data = reserveData(SOL, 9, 80);
+    data.writeUInt8(65, 4872);
+    data.writeUInt16LE(500, 4874);
+    const reserve = monitor.applyReserveUpdate(SOL_RESERVE, data);
+
+    expect(reserve?.mintAddress.equals(SOL)).toBe(true);
+    expect(reserve?.config).toMatchObject({ loanToValueRatio: 0.65, liquidationThreshold: 0.8, liquidationBonus: 0.05 });
+    expect(reserve?.isActive).toBe(true);
+
+    data.writeUInt8(1, 4856);
+    expect(monitor.applyReserveUpdate(SOL_RESERVE, data)?.isActive).toBe(false);
+  });
+});
@@ -1,26 +1,78 @@
 import { Connection, PublicKey } from '@solana/web3.js';
 import { BorshAccountsCoder, BN } from '@coral-xyz/anchor';
+import { RiskPolicy } from '../risk/riskPolicy';
 
 export const KAMINO_PROGRAM_ID = new PublicKey('KLend2g3cP87ber41aPn9Q5kkdCZNxMWTKZLGvBKgvV');
 export const KAMINO_LENDING_MARKET = new PublicKey('7u3HeHxYDLhnCoErrtycNokbQYbWGzLs6JSDqGAv5PfF');
 
-const WAD = new BN('1000000000000000000'); // 18 decimals
 const PERCENT_SCALE = 10000;
 const PRECISION_FACTOR = new BN('1000000000000000000'); // 18 decimals for precise calculations
 
+// Values and borrowed amounts ending in _sf are klend Fractions, fixed::types::U68F60:
+// the number times 2^60 in a u128 (programs/klend/src/utils/fraction.rs in
+// github.com/Kamino-Finance/klend)
+const FRACTION_BITS = 60;
+
+// Obligation layout from programs/klend/src/state/obligation.rs, including the
+// 8-byte account discriminator
+const OBLIGATION_SIZE = 3344;
+const OBLIGATION_OWNER_OFFSET = 64;
+const OBLIGATION_DEPOSITS_OFFSET = 96;
+const OBLIGATION_DEPOSITS = 8;
+const OBLIGATION_COLLATERAL_SIZE = 136;
+const OBLIGATION_DEPOSITED_VALUE_OFFSET = OBLIGATION_DEPOSITS_OFFSET + OBLIGATION_DEPOSITS * OBLIGATION_COLLATERAL_SIZE + 8;
+const OBLIGATION_BORROWS_OFFSET = OBLIGATION_DEPOSITED_VALUE_OFFSET + 16;
+const OBLIGATION_BORROWS = 5;
+const OBLIGATION_LIQUIDITY_SIZE = 200;
+
+// Reserve layout from programs/klend/src/state/reserve.rs, including the
+// 8-byte account discriminator
+const RESERVE_SIZE = 8624;
+const RESERVE_LENDING_MARKET_OFFSET = 32;
+const RESERVE_LIQUIDITY_OFFSET = 128;
+const RESERVE_COLLATERAL_OFFSET = 2560;
+const RESERVE_CONFIG_OFFSET = 4856;
+const RESERVE_TOKEN_INFO_OFFSET = 5032;
+const RESERVE_STATUS_ACTIVE = 0;
+
+export function fractionToNumber(value: BN): number {
+  const integer = value.shrn(FRACTION_BITS);
+  const fraction = value.maskn(FRACTION_BITS);
+  return Number(integer.toString()) + Number(fraction.toString()) / Math.pow(2, FRACTION_BITS);
+}
+
+// Converts reserve collateral (cToken) amounts to liquidity amounts at the
+// reserve's exchange rate: total liquidity over collateral mint supply, 1:1
+// while either is empty (ReserveCollateral::exchange_rate in klend)
+export function collateralToLiquidity(reserve: KaminoReserve, collateralAmount: BN): BN {
+  const { liquidity, collateral } = reserve;
+  const totalLiquiditySf = liquidity.availableAmount.shln(FRACTION_BITS)
+    .add(liquidity.borrowedAmountSf)
+    .sub(liquidity.accumulatedProtocolFeesSf)
+    .sub(liquidity.accumulatedReferrerFeesSf)
+    .sub(liquidity.pendingReferrerFeesSf);
+
+  if (collateral.mintTotalSupply.isZero() || totalLiquiditySf.lten(0)) {
+    return collateralAmount;
+  }
+  return collateralAmount.mul(totalLiquiditySf).div(collateral.mintTotalSupply.shln(FRACTION_BITS));
+}
+
+// a / b for BNs past 2^53, where toNumber() throws
+function ratio(numerator: BN, denominator: BN): number {
+  return Number(numerator.toString()) / Number(denominator.toString());
+}
+
 export interface KaminoReserve {
   address: PublicKey;
+  lendingMarket: PublicKey;
   mintAddress: PublicKey;
-  liquiditySupply: BN;
-  borrowedLiquidity: BN;
-  liquidityFeeReceiver: PublicKey;
   config: {
     loanToValueRatio: number;
     liquidationThreshold: number;
     liquidationBonus: number;
-    borrowFeeWad: BN;
-    flashLoanFeeWad: BN;
-    hostFeePercentage: number;
+    maxLiquidationBonus: number;
+    borrowFactor: number;
     depositLimit: BN;
     borrowLimit: BN;
   };
@@ -28,12 +80,20 @@ export interface KaminoReserve {
     mintPubkey: PublicKey;
     mintDecimals: number;
     supplyPubkey: PublicKey;
+    scopePriceFeed: PublicKey;
     pythOracle: PublicKey;
     switchboardOracle: PublicKey;
     availableAmount: BN;
-    borrowedAmountWads: BN;
-    cumulativeBorrowRateWads: BN;
-    marketPrice: BN;
+    borrowedAmountSf: BN;
+    marketPriceSf: BN;
+    accumulatedProtocolFeesSf: BN;
+    accumulatedReferrerFeesSf: BN;
+    pendingReferrerFeesSf: BN;
+  };
+  collateral: {
+    mintPubkey: PublicKey;
+    mintTotalSupply: BN;
+    supplyPubkey: PublicKey;
   };
   lastUpdatedSlot: BN;
   isActive: boolean;
@@ -70,7 +130,6 @@ export interface KaminoDeposit {
   depositedAmount: BN;
   marketValue: BN;
   attributedBorrowValue: BN;
-  cumulativeDepositRateWads: BN;
   actualDepositAmount: BN;
   reserveLtv: number;
   reserveLiquidationThreshold: number;
@@ -78,11 +137,11 @@ export interface KaminoDeposit {
 
 export interface KaminoBorrow {
   borrowReserve: PublicKey;
-  borrowedAmountWads: BN;
-  cumulativeBorrowRateWads: BN;
+  borrowedAmountSf: BN;
+  cumulativeBorrowRateBsf: BN;
   marketValue: BN;
+  borrowFactorAdjustedMarketValue: BN;
   borrowedAmount: BN;
-  interestAccrued: BN;
   borrowWeight: number;
 }
 
@@ -104,6 +163,18 @@ export interface ObligationCalculations {
   riskWeightedValue: BN;
 }
 
+export interface KaminoBalance {
+  reserve: PublicKey;
+  mint: PublicKey;
+  mintDecimals: number;
+  amount: number;
+  valueUsd: number;
+  priceUsd: number;
+  loanToValueRatio: number;
+  liquidationThreshold: number;
+  liquidationBonus: number;
+}
+
 export interface LiquidationThresholdBreakdown {
   perAsset: Array<{
     mint: PublicKey;
@@ -120,17 +191,30 @@ export class KaminoMonitor {
   private connection: Connection;
   private reserves: Map<string, KaminoReserve> = new Map();
   private priceCache: Map<string, { price: BN; timestamp: number }> = new Map();
+  private reservesLoadedAt = 0;
+  private riskPolicy: RiskPolicy | null = null;
 
   constructor(connection: Connection) {
     this.connection = connection;
   }
 
+  setRiskPolicy(policy: RiskPolicy): void {
+    this.riskPolicy = policy;
+  }
+
+  async ensureReservesLoaded(maxAgeMs: number = 5 * 60 * 1000): Promise<void> {
+    if (this.reserves.size > 0 && Date.now() - this.reservesLoadedAt < maxAgeMs) {
+      return;
+    }
+    await this.loadReserves();
+  }
+
   async loadReserves(): Promise<void> {
     try {
       const accounts = await this.connection.getProgramAccounts(KAMINO_PROGRAM_ID, {
         filters: [
-          { dataSize: 1304 },
-          { memcmp: { offset: 8, bytes: KAMINO_LENDING_MARKET.toBase58() } }
+          { dataSize: RESERVE_SIZE },
+          { memcmp: { offset: RESERVE_LENDING_MARKET_OFFSET, bytes: KAMINO_LENDING_MARKET.toBase58() } }
         ]
       });
 
@@ -143,6 +227,7 @@ export class KaminoMonitor {
         }
       }
 
+      this.reservesLoadedAt = Date.now();
       console.log(`[KAMINO] Loaded ${this.reserves.size} reserves`);
     } catch (error) {
       console.error('[KAMINO] Error loading reserves:', error);
@@ -151,50 +236,55 @@ export class KaminoMonitor {
 
   private parseReserve(address: PublicKey, data: Buffer): KaminoReserve {
     try {
-      const lendingMarket = new PublicKey(data.subarray(8, 40));
-      const mintAddress = new PublicKey(data.subarray(40, 72));
-      
-      const liquiditySupply = new BN(data.subarray(72, 80), 'le');
-      const borrowedLiquidity = new BN(data.subarray(80, 88), 'le');
-      const liquidityFeeReceiver = new PublicKey(data.subarray(88, 120));
-      
-      const borrowFeeWad = new BN(data.subarray(120, 136), 'le');
-      const flashLoanFeeWad = new BN(data.subarray(136, 152), 'le');
-      const hostFeePercentage = data.readUInt8(152);
-      const depositLimit = new BN(data.subarray(153, 161), 'le');
-      const borrowLimit = new BN(data.subarray(161, 169), 'le');
-      
-      const loanToValueRatio = data.readUInt16LE(264) / PERCENT_SCALE;
-      const liquidationThreshold = data.readUInt16LE(266) / PERCENT_SCALE;
-      const liquidationBonus = data.readUInt16LE(268) / PERCENT_SCALE;
-      
-      const liquidityMintPubkey = new PublicKey(data.subarray(296, 328));
-      const liquidityMintDecimals = data.readUInt8(328);
-      const liquiditySupplyPubkey = new PublicKey(data.subarray(329, 361));
-      const pythOracle = new PublicKey(data.subarray(361, 393));
-      const switchboardOracle = new PublicKey(data.subarray(393, 425));
-      
-      const availableAmount = new BN(data.subarray(425, 433), 'le');
-      const borrowedAmountWads = new BN(data.subarray(433, 449), 'le');
-      const cumulativeBorrowRateWads = new BN(data.subarray(449, 465), 'le');
-      const marketPrice = new BN(data.subarray(465, 481), 'le');
-      
-      const lastUpdatedSlot = new BN(data.subarray(481, 489), 'le');
-      const isActive = data.readUInt8(489) === 1;
+      const u64 = (offset: number) => new BN(data.subarray(offset, offset + 8), 'le');
+      const u128 = (offset: number) => new BN(data.subarray(offset, offset + 16), 'le');
+      const pubkey = (offset: number) => new PublicKey(data.subarray(offset, offset + 32));
+
+      const lastUpdatedSlot = u64(16);
+      const lendingMarket = pubkey(RESERVE_LENDING_MARKET_OFFSET);
+
+      const liquidity = RESERVE_LIQUIDITY_OFFSET;
+      const liquidityMintPubkey = pubkey(liquidity);
+      const liquiditySupplyPubkey = pubkey(liquidity + 32);
+      const availableAmount = u64(liquidity + 96);
+      const borrowedAmountSf = u128(liquidity + 104);
+      const marketPriceSf = u128(liquidity + 120);
+      const liquidityMintDecimals = u64(liquidity + 144).toNumber();
+      const accumulatedProtocolFeesSf = u128(liquidity + 216);
+      const accumulatedReferrerFeesSf = u128(liquidity + 232);
+      const pendingReferrerFeesSf = u128(liquidity + 248);
+
+      const collateral = RESERVE_COLLATERAL_OFFSET;
+      const collateralMintPubkey = pubkey(collateral);
+      const collateralMintTotalSupply = u64(collateral + 32);
+      const collateralSupplyPubkey = pubkey(collateral + 40);
+
+      // Percentages are whole percents, liquidation bonuses basis points
+      const config = RESERVE_CONFIG_OFFSET;
+      const status = data.readUInt8(config);
+      const loanToValueRatio = data.readUInt8(config + 16) / 100;
+      const liquidationThreshold = data.readUInt8(config + 17) / 100;
+      const liquidationBonus = data.readUInt16LE(config + 18) / PERCENT_SCALE;
+      const maxLiquidationBonus = data.readUInt16LE(config + 20) / PERCENT_SCALE;
+      const borrowFactor = u64(config + 152).toNumber() / 100;
+      const depositLimit = u64(config + 160);
+      const borrowLimit = u64(config + 168);
+
+      const tokenInfo = RESERVE_TOKEN_INFO_OFFSET;
+      const scopePriceFeed = pubkey(tokenInfo + 80);
+      const switchboardOracle = pubkey(tokenInfo + 128);
+      const pythOracle = pubkey(tokenInfo + 192);
 
       return {
         address,
-        mintAddress,
-        liquiditySupply,
-        borrowedLiquidity,
-        liquidityFeeReceiver,
+        lendingMarket,
+        mintAddress: liquidityMintPubkey,
         config: {
           loanToValueRatio,
           liquidationThreshold,
           liquidationBonus,
-          borrowFeeWad,
-          flashLoanFeeWad,
-          hostFeePercentage,
+          maxLiquidationBonus,
+          borrowFactor,
           depositLimit,
           borrowLimit,
         },
@@ -202,15 +292,23 @@ export class KaminoMonitor {
           mintPubkey: liquidityMintPubkey,
           mintDecimals: liquidityMintDecimals,
           supplyPubkey: liquiditySupplyPubkey,
+          scopePriceFeed,
           pythOracle,
           switchboardOracle,
           availableAmount,
-          borrowedAmountWads,
-          cumulativeBorrowRateWads,
-          marketPrice,
+          borrowedAmountSf,
+          marketPriceSf,
+          accumulatedProtocolFeesSf,
+          accumulatedReferrerFeesSf,
+          pendingReferrerFeesSf,
+        },
+        collateral: {
+          mintPubkey: collateralMintPubkey,
+          mintTotalSupply: collateralMintTotalSupply,
+          supplyPubkey: collateralSupplyPubkey,
         },
         lastUpdatedSlot,
-        isActive
+        isActive: status === RESERVE_STATUS_ACTIVE,
       };
     } catch (error) {
       throw new Error(`Failed to parse reserve data: ${error}`);
@@ -223,8 +321,8 @@ export class KaminoMonitor {
     try {
       const accounts = await this.connection.getProgramAccounts(KAMINO_PROGRAM_ID, {
         filters: [
-          { dataSize: 1300 },
-          { memcmp: { offset: 40, bytes: owner.toBase58() } }
+          { dataSize: OBLIGATION_SIZE },
+          { memcmp: { offset: OBLIGATION_OWNER_OFFSET, bytes: owner.toBase58() } }
         ]
       });
 
@@ -249,72 +347,64 @@ export class KaminoMonitor {
 
   private async parseObligation(address: PublicKey, data: Buffer): Promise<KaminoObligation> {
     try {
-      const lendingMarket = new PublicKey(data.subarray(8, 40));
-      const owner = new PublicKey(data.subarray(40, 72));
-      
-      const depositedValue = new BN(data.subarray(72, 88), 'le');
-      const borrowedValue = new BN(data.subarray(88, 104), 'le');
-      const allowedBorrowValue = new BN(data.subarray(104, 120), 'le');
-      const unhealthyBorrowValue = new BN(data.subarray(120, 136), 'le');
-      
-      const depositsLen = data.readUInt8(136);
-      const borrowsLen = data.readUInt8(137);
-      
-      const lastUpdateSlot = new BN(data.subarray(138, 146), 'le');
-      const lastUpdateStale = data.readUInt8(146) === 1;
+      const u128 = (offset: number) => new BN(data.subarray(offset, offset + 16), 'le');
+
+      const lastUpdateSlot = new BN(data.subarray(16, 24), 'le');
+      const lastUpdateStale = data.readUInt8(24) === 1;
+      const lendingMarket = new PublicKey(data.subarray(32, 64));
+      const owner = new PublicKey(data.subarray(64, OBLIGATION_OWNER_OFFSET + 32));
 
+      // Unused slots hold the default (all-zero) reserve
       const deposits: KaminoDeposit[] = [];
-      for (let i = 0; i < Math.min(depositsLen, 8); i++) {
-        const offset = 200 + i * 72;
+      for (let i = 0; i < OBLIGATION_DEPOSITS; i++) {
+        const offset = OBLIGATION_DEPOSITS_OFFSET + i * OBLIGATION_COLLATERAL_SIZE;
         const depositReserve = new PublicKey(data.subarray(offset, offset + 32));
-        const depositedAmount = new BN(data.subarray(offset + 32, offset + 40), 'le');
-        const marketValue = new BN(data.subarray(offset + 40, offset + 48), 'le');
-        const attributedBorrowValue = new BN(data.subarray(offset + 48, offset + 56), 'le');
-        const cumulativeDepositRateWads = new BN(data.subarray(offset + 56, offset + 72), 'le');
-        
-        const reserve = this.reserves.get(depositReserve.toBase58());
-        const actualDepositAmount = reserve && !cumulativeDepositRateWads.isZero() ? 
-          depositedAmount.mul(cumulativeDepositRateWads).div(PRECISION_FACTOR) : 
-          depositedAmount;
+        if (depositReserve.equals(PublicKey.default)) continue;
 
+        const reserve = this.reserves.get(depositReserve.toBase58());
+        // Collateral (cToken) units; actualDepositAmount is the liquidity they redeem for
+        const depositedAmount = new BN(data.subarray(offset + 32, offset + 40), 'le');
         deposits.push({
           depositReserve,
           depositedAmount,
-          marketValue,
-          attributedBorrowValue,
-          cumulativeDepositRateWads,
-          actualDepositAmount,
+          marketValue: u128(offset + 40),
+          attributedBorrowValue: new BN(data.subarray(offset + 56, offset + 64), 'le'),
+          actualDepositAmount: reserve ? collateralToLiquidity(reserve, depositedAmount) : depositedAmount,
           reserveLtv: reserve?.config.loanToValueRatio || 0,
           reserveLiquidationThreshold: reserve?.config.liquidationThreshold || 0,
         });
       }
 
+      const depositedValue = u128(OBLIGATION_DEPOSITED_VALUE_OFFSET);
+
       const borrows: KaminoBorrow[] = [];
-      for (let i = 0; i < Math.min(borrowsLen, 8); i++) {
-        const offset = 776 + i * 88;
+      for (let i = 0; i < OBLIGATION_BORROWS; i++) {
+        const offset = OBLIGATION_BORROWS_OFFSET + i * OBLIGATION_LIQUIDITY_SIZE;
         const borrowReserve = new PublicKey(data.subarray(offset, offset + 32));
-        const borrowedAmountWads = new BN(data.subarray(offset + 32, offset + 48), 'le');
-        const cumulativeBorrowRateWads = new BN(data.subarray(offset + 48, offset + 64), 'le');
-        const marketValue = new BN(data.subarray(offset + 64, offset + 72), 'le');
-        
-        const reserve = this.reserves.get(borrowReserve.toBase58());
-        const borrowedAmount = reserve && !reserve.liquidity.cumulativeBorrowRateWads.isZero() ? 
-          borrowedAmountWads.div(reserve.liquidity.cumulativeBorrowRateWads) : 
-          new BN(0);
-
-        const interestAccrued = borrowedAmountWads.sub(borrowedAmount);
+        if (borrowReserve.equals(PublicKey.default)) continue;
 
+        const borrowedAmountSf = u128(offset + 88);
+        const marketValue = u128(offset + 104);
+        const borrowFactorAdjustedMarketValue = u128(offset + 120);
         borrows.push({
           borrowReserve,
-          borrowedAmountWads,
-          cumulativeBorrowRateWads,
+          // BigFractionBytes: a 256-bit value, then padding
+          cumulativeBorrowRateBsf: new BN(data.subarray(offset + 32, offset + 64), 'le'),
+          borrowedAmountSf,
           marketValue,
-          borrowedAmount,
-          interestAccrued,
-          borrowWeight: 1.0,
+          borrowFactorAdjustedMarketValue,
+          borrowedAmount: borrowedAmountSf.shrn(FRACTION_BITS),
+          borrowWeight: marketValue.isZero() ? 1.0 : ratio(borrowFactorAdjustedMarketValue, marketValue),
         });
       }
 
+      const afterBorrows = OBLIGATION_BORROWS_OFFSET + OBLIGATION_BORROWS * OBLIGATION_LIQUIDITY_SIZE;
+      const borrowedValue = u128(afterBorrows + 16);
+      const allowedBorrowValue = u128(afterBorrows + 32);
+      const unhealthyBorrowValue = u128(afterBorrows + 48);
+      const depositsLen = deposits.length;
+      const borrowsLen = borrows.length;
+
       const calculations = await this.calculatePreciseObligationMetrics(deposits, borrows);
 
       return {
@@ -335,7 +425,10 @@ export class KaminoMonitor {
         },
         calculatedLtv: calculations.weightedLtv,
         calculatedHealthFactor: calculations.healthFactor,
-        liquidationRisk: this.assessLiquidationRisk(calculations.healthFactor),
+        liquidationRisk: this.assessLiquidationRisk(calculations.healthFactor, owner, [
+          ...deposits.map(d => d.depositReserve),
+          ...borrows.map(b => b.borrowReserve),
+        ]),
         preciseLtv: calculations.preciseLtv,
         preciseHealthFactor: calculations.preciseHealthFactor,
         liquidationThreshold: calculations.liquidationThreshold,
@@ -382,17 +475,9 @@ export class KaminoMonitor {
       riskWeightedValue = riskWeightedValue.add(riskWeightedContribution);
     }
 
+    // Debt counts at its borrow-factor-adjusted value, as klend's health check does
     for (const borrow of borrows) {
-      const reserve = this.reserves.get(borrow.borrowReserve.toBase58());
-      const borrowValue = borrow.marketValue;
-      
-      let adjustedBorrowValue = borrowValue;
-      if (reserve) {
-        const borrowWeight = 1.0 + (reserve.liquidity.borrowedAmountWads.toNumber() / Math.pow(10, 18)) * 0.05;
-        adjustedBorrowValue = borrowValue.muln(Math.floor(borrowWeight * 100)).divn(100);
-      }
-      
-      totalBorrowedValue = totalBorrowedValue.add(adjustedBorrowValue);
+      totalBorrowedValue = totalBorrowedValue.add(borrow.borrowFactorAdjustedMarketValue);
     }
 
     const preciseLtv = totalDepositedValue.isZero() ? 
@@ -417,11 +502,11 @@ export class KaminoMonitor {
 
     const healthFactor = totalBorrowedValue.isZero() ? 
       Infinity : 
-      (liquidationThreshold * totalDepositedValue.toNumber()) / totalBorrowedValue.toNumber();
+      liquidationThreshold * ratio(totalDepositedValue, totalBorrowedValue);
 
     const utilizationRatio = totalDepositedValue.isZero() ? 
       0 : 
-      totalBorrowedValue.toNumber() / totalDepositedValue.toNumber();
+      ratio(totalBorrowedValue, totalDepositedValue);
 
     const borrowCapacityRemaining = maxBorrowValue.sub(totalBorrowedValue);
     const liquidationBuffer = effectiveLiquidationThreshold.mul(totalDepositedValue)
@@ -462,7 +547,7 @@ export class KaminoMonitor {
     );
 
     const liquidationThreshold = reserve.config.liquidationThreshold;
-    const collateralAmount = largestDeposit.actualDepositAmount.toNumber() / 
+    const collateralAmount = Number(largestDeposit.actualDepositAmount.toString()) /
       Math.pow(10, reserve.liquidity.mintDecimals);
 
     if (collateralAmount === 0) return 0;
@@ -470,13 +555,26 @@ export class KaminoMonitor {
     const liquidationBonus = reserve.config.liquidationBonus;
     const effectiveThreshold = liquidationThreshold * (1 - liquidationBonus);
 
-    return totalBorrowValue.toNumber() / (collateralAmount * effectiveThreshold * Math.pow(10, 8));
+    return fractionToNumber(totalBorrowValue) / (collateralAmount * effectiveThreshold);
   }
 
-  private assessLiquidationRisk(healthFactor: number): 'safe' | 'warning' | 'danger' | 'liquidatable' {
+  // Danger and warning follow the risk policy's critical and warning health thresholds when one is set
+  private assessLiquidationRisk(
+    healthFactor: number,
+    owner: PublicKey,
+    reserves: PublicKey[]
+  ): 'safe' | 'warning' | 'danger' | 'liquidatable' {
+    const thresholds = this.riskPolicy?.resolve({
+      protocol: 'kamino',
+      owner: owner.toBase58(),
+      mints: reserves
+        .map(reserve => this.reserves.get(reserve.toBase58())?.liquidity.mintPubkey.toBase58())
+        .filter((mint): mint is string => !!mint),
+    }).healthFactor;
+
     if (healthFactor < 1.0) return 'liquidatable';
-    if (healthFactor < 1.05) return 'danger';
-    if (healthFactor < 1.15) return 'warning';
+    if (healthFactor < (thresholds?.critical ?? 1.05)) return 'danger';
+    if (healthFactor < (thresholds?.warning ?? 1.15)) return 'warning';
     return 'safe';
   }
 
@@ -499,7 +597,7 @@ export class KaminoMonitor {
       totalValue = totalValue.add(value);
 
       const threshold = reserve.config.liquidationThreshold;
-      const contribution = value.toNumber() / obligation.depositedValue.toNumber();
+      const contribution = ratio(value, obligation.depositedValue);
 
       perAsset.push({
         mint: reserve.mintAddress,
@@ -522,6 +620,72 @@ export class KaminoMonitor {
     };
   }
 
+  async getObligationBalances(obligation: KaminoObligation): Promise<{
+    deposits: KaminoBalance[];
+    borrows: KaminoBalance[];
+  }> {
+    const deposits: KaminoBalance[] = [];
+    const borrows: KaminoBalance[] = [];
+
+    // Obligations can reference reserves outside the preloaded market; fetch them
+    // and re-derive the obligation metrics so health reflects every asset
+    const missing = [
+      ...obligation.deposits.map(d => d.depositReserve),
+      ...obligation.borrows.map(b => b.borrowReserve),
+    ].filter(address => !this.reserves.has(address.toBase58()));
+
+    if (missing.length > 0) {
+      for (const address of missing) {
+        await this.refreshReserve(address);
+      }
+      await this.refreshObligation(obligation);
+    }
+
+    for (const deposit of obligation.deposits) {
+      const reserve = this.reserves.get(deposit.depositReserve.toBase58());
+      if (!reserve) continue;
+
+      const amount = Number(deposit.actualDepositAmount.toString()) /
+        Math.pow(10, reserve.liquidity.mintDecimals);
+      const valueUsd = fractionToNumber(deposit.marketValue);
+
+      deposits.push({
+        reserve: reserve.address,
+        mint: reserve.liquidity.mintPubkey,
+        mintDecimals: reserve.liquidity.mintDecimals,
+        amount,
+        valueUsd,
+        priceUsd: amount > 0 ? valueUsd / amount : 0,
+        loanToValueRatio: reserve.config.loanToValueRatio,
+        liquidationThreshold: reserve.config.liquidationThreshold,
+        liquidationBonus: reserve.config.liquidationBonus,
+      });
+    }
+
+    for (const borrow of obligation.borrows) {
+      const reserve = this.reserves.get(borrow.borrowReserve.toBase58());
+      if (!reserve) continue;
+
+      const amount = fractionToNumber(borrow.borrowedAmountSf) /
+        Math.pow(10, reserve.liquidity.mintDecimals);
+      const valueUsd = fractionToNumber(borrow.marketValue);
+
+      borrows.push({
+        reserve: reserve.address,
+        mint: reserve.liquidity.mintPubkey,
+        mintDecimals: reserve.liquidity.mintDecimals,
+        amount,
+        valueUsd,
+        priceUsd: amount > 0 ? valueUsd / amount : 0,
+        loanToValueRatio: reserve.config.loanToValueRatio,
+        liquidationThreshold: reserve.config.liquidationThreshold,
+        liquidationBonus: reserve.config.liquidationBonus,
+      });
+    }
+
+    return { deposits, borrows };
+  }
+
   async getHealthFactor(obligation: KaminoObligation): Promise<number> {
     return obligation.calculatedHealthFactor;
   }
@@ -555,13 +719,13 @@ export class KaminoMonitor {
 
     const liquidationThreshold = reserve.config.liquidationThreshold;
     const liquidationBonus = reserve.config.liquidationBonus;
-    const collateralAmount = collateralDeposit.actualDepositAmount.toNumber() / 
+    const collateralAmount = Number(collateralDeposit.actualDepositAmount.toString()) /
       Math.pow(10, reserve.liquidity.mintDecimals);
 
     if (collateralAmount === 0) return 0;
 
     const effectiveThreshold = liquidationThreshold * (1 - liquidationBonus);
-    return totalBorrowValue.toNumber() / (collateralAmount * effectiveThreshold * Math.pow(10, 8));
+    return fractionToNumber(totalBorrowValue) / (collateralAmount * effectiveThreshold);
   }
 
   async isObligationLiquidatable(obligation: KaminoObligation): Promise<boolean> {
@@ -676,6 +840,32 @@ export class KaminoMonitor {
     }
   }
 
+  async decodeObligation(address: PublicKey, data: Buffer): Promise<KaminoObligation> {
+    return this.parseObligation(address, data);
+  }
+
+  applyReserveUpdate(reserveAddress: PublicKey, data: Buffer): KaminoReserve | null {
+    try {
+      const reserve = this.parseReserve(reserveAddress, data);
+      this.reserves.set(reserveAddress.toBase58(), reserve);
+      return reserve;
+    } catch (error) {
+      console.error(`[KAMINO] Error applying reserve ${reserveAddress.toBase58()} update:`, error);
+      return null;
+    }
+  }
+
+  async subscribeToObligation(address: PublicKey, callback: (obligation: KaminoObligation) => void): Promise<number> {
+    return this.connection.onAccountChange(address, async (accountInfo) => {
+      const parsed = await this.parseObligation(address, accountInfo.data);
+      callback(parsed);
+    });
+  }
+
+  unsubscribe(subscriptionId: number): void {
+    this.connection.removeAccountChangeListener(subscriptionId);
+  }
+
   getAllReserves(): KaminoReserve[] {
     return Array.from(this.reserves.values());
   }
@@ -689,7 +879,7 @@ export class KaminoMonitor {
     
     try {
       const accounts = await this.connection.getProgramAccounts(KAMINO_PROGRAM_ID, {
-        filters: [{ dataSize: 1300 }]
+        filters: [{ dataSize: OBLIGATION_SIZE }]
       });
 
       for (const acc of accounts) {
@@ -0,0 +1,70 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+import { MarginfiAdapter } from './adapters/marginfiAdapter';
+import { MarginfiAccount } from './marginfi';
+
+const BANK = new PublicKey('11111111111111111111111111111112');
+const MINT = new PublicKey('EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v');
+const OWNER = new PublicKey('So11111111111111111111111111111111111111112');
+
+// A bank account with every field past the share values left at zero
+function bankData(): Buffer {
+  const data = Buffer.alloc(1024);
+  MINT.toBuffer().copy(data, 8);
+  data.writeUInt8(6, 40);
+  data.writeDoubleLE(1, 73);
+  data.writeDoubleLE(1, 81);
+  return data;
+}
+
+// No oracle account resolves, so no balance can be priced
+const offline = { getAccountInfo: async () => null } as unknown as Connection;
+
+function account(liabilityShares: bigint): MarginfiAccount {
+  return {
+    address: BANK,
+    owner: OWNER,
+    group: BANK,
+    balances: [
+      {
+        active: true,
+        bankPk: BANK,
+        assetShares: 0n,
+        liabilityShares,
+        emissionsOutstanding: 0n,
+        lastUpdate: 0n,
+        padding: Buffer.alloc(0),
+      },
+    ],
+    healthFactor: 0,
+    totalAssetValue: 0,
+    totalLiabilityValue: 0,
+    accountType: 0,
+    padding: Buffer.alloc(0),
+  };
+}
+
+describe('Marginfi', () => {
+  it('parses bank accounts', () => {
+    const adapter = new MarginfiAdapter(offline);
+    const bank = adapter.monitor.applyBankUpdate(BANK, bankData());
+
+    expect(bank).not.toBeNull();
+    expect(bank!.mint.equals(MINT)).toBe(true);
+    expect(bank!.mintDecimals).toBe(6);
+    expect(bank!.emissionsFlags).toBe(0);
+  });
+
+  it('marks a position with an unpriced liability instead of dropping the debt', async () => {
+    const adapter = new MarginfiAdapter(offline);
+    adapter.monitor.applyBankUpdate(BANK, bankData());
+
+    const position = await adapter.decodePosition({ address: BANK, account: account(250_000_000n) }, OWNER);
+
+    expect(position).not.toBeNull();
+    expect(position!.debt).toHaveLength(1);
+    expect(position!.debt[0].amount).toBe(250);
+    expect(position!.debt[0].valueUsd).toBe(0);
+    expect(position!.unpriced?.map(mint => mint.toBase58())).toEqual([MINT.toBase58()]);
+    expect(position!.healthFactor).toBeNaN();
+  });
+});
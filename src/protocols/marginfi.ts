@@ -1,8 +1,32 @@
-import { Connection, PublicKey, AccountInfo } from '@solana/web3.js';
+import { Connection, PublicKey, AccountInfo, TransactionInstruction } from '@solana/web3.js';
 import { BorshCoder, utils } from '@coral-xyz/anchor';
+import { createHash } from 'crypto';
+import {
+  TOKEN_PROGRAM_ID,
+  createAssociatedTokenAccountIdempotentInstruction,
+  getAssociatedTokenAddress,
+  toNativeAmount,
+} from '../utils/spl';
 
 export const MARGINFI_PROGRAM_ID = new PublicKey('MFv2hWf31Z9kbCa1snEPYctwafyhdvnV7FZnsebVacA');
 
+const LIQUIDITY_VAULT_AUTHORITY_SEED = 'liquidity_vault_auth';
+
+// Anchor instruction discriminator: first 8 bytes of sha256("global:<name>")
+function instructionDiscriminator(name: string): Buffer {
+  return createHash('sha256').update(`global:${name}`).digest().subarray(0, 8);
+}
+
+// u64 amount followed by Option<bool> (repay_all / withdraw_all)
+function encodeAmountArgs(name: string, amount: bigint, all: boolean): Buffer {
+  const data = Buffer.alloc(8 + 8 + 2);
+  instructionDiscriminator(name).copy(data, 0);
+  data.writeBigUInt64LE(amount, 8);
+  data.writeUInt8(1, 16);
+  data.writeUInt8(all ? 1 : 0, 17);
+  return data;
+}
+
 export interface MarginfiAccount {
   address: PublicKey;
   owner: PublicKey;
@@ -79,6 +103,20 @@ export interface InterestRateConfig {
   protocolIrFee: number;
 }
 
+export interface MarginfiBalanceDetail {
+  bankPk: PublicKey;
+  mint: PublicKey;
+  mintDecimals: number;
+  // null when the bank's oracle gave no usable price; both values are then 0
+  price: number | null;
+  assetAmount: number;
+  liabilityAmount: number;
+  assetValue: number;
+  liabilityValue: number;
+  assetWeightMaint: number;
+  liabilityWeightMaint: number;
+}
+
 export interface OraclePrice {
   price: number;
   confidence: number;
@@ -89,6 +127,8 @@ export class MarginfiMonitor {
   private connection: Connection;
   private bankCache: Map<string, BankData> = new Map();
   private priceCache: Map<string, OraclePrice> = new Map();
+  private priceFetchedAt: Map<string, number> = new Map();
+  private priceListeners: ((mint: PublicKey, price: OraclePrice) => void)[] = [];
 
   constructor(connection: Connection) {
     this.connection = connection;
@@ -212,10 +252,12 @@ export class MarginfiMonitor {
     totalAssetValue: number;
     totalLiabilityValue: number;
   }> {
-    let totalWeightedAssets = 0;
-    let totalWeightedLiabilities = 0;
-    let totalAssetValue = 0;
-    let totalLiabilityValue = 0;
+    const details = await this.getBalanceDetails(account);
+    return this.summarizeBalances(details);
+  }
+
+  async getBalanceDetails(account: MarginfiAccount): Promise<MarginfiBalanceDetail[]> {
+    const details: MarginfiBalanceDetail[] = [];
 
     for (const balance of account.balances) {
       if (!balance.active) continue;
@@ -223,23 +265,61 @@ export class MarginfiMonitor {
       const bank = await this.getBankData(balance.bankPk);
       if (!bank) continue;
 
-      const price = await this.getOraclePrice(bank.config.oracleKey);
-      if (!price || price.price <= 0) continue;
+      const oraclePrice = await this.getOraclePrice(bank.config.oracleKey);
+      const price = oraclePrice && oraclePrice.price > 0 ? oraclePrice.price : null;
+      if (oraclePrice && price !== null) {
+        this.notifyPriceListeners(bank.mint, oraclePrice);
+      }
 
-      const assetAmount = Number(balance.assetShares) * bank.assetShareValue;
-      const liabilityAmount = Number(balance.liabilityShares) * bank.liabilityShareValue;
+      const scale = Math.pow(10, bank.mintDecimals);
+      const assetAmount = (Number(balance.assetShares) * bank.assetShareValue) / scale;
+      const liabilityAmount = (Number(balance.liabilityShares) * bank.liabilityShareValue) / scale;
 
-      const assetValue = (assetAmount * price.price) / Math.pow(10, bank.mintDecimals);
-      const liabilityValue = (liabilityAmount * price.price) / Math.pow(10, bank.mintDecimals);
+      // Kept even without a price: dropping a liability would overstate health
+      details.push({
+        bankPk: balance.bankPk,
+        mint: bank.mint,
+        mintDecimals: bank.mintDecimals,
+        price,
+        assetAmount,
+        liabilityAmount,
+        assetValue: price !== null ? assetAmount * price : 0,
+        liabilityValue: price !== null ? liabilityAmount * price : 0,
+        assetWeightMaint: bank.config.assetWeightMaint,
+        liabilityWeightMaint: bank.config.liabilityWeightMaint,
+      });
+    }
 
-      totalAssetValue += assetValue;
-      totalLiabilityValue += liabilityValue;
+    return details;
+  }
 
-      const weightedAssetValue = assetValue * bank.config.assetWeightMaint;
-      const weightedLiabilityValue = liabilityValue * bank.config.liabilityWeightMaint;
+  /**
+   * Health over the priced balances. An unpriced deposit only makes it more
+   * conservative, but an unpriced liability leaves it unknown: NaN.
+   */
+  summarizeBalances(details: MarginfiBalanceDetail[]): {
+    healthFactor: number;
+    totalAssetValue: number;
+    totalLiabilityValue: number;
+  } {
+    if (details.some(d => d.price === null && d.liabilityAmount > 0)) {
+      return {
+        healthFactor: NaN,
+        totalAssetValue: details.reduce((sum, d) => sum + d.assetValue, 0),
+        totalLiabilityValue: details.reduce((sum, d) => sum + d.liabilityValue, 0),
+      };
+    }
+
+    let totalWeightedAssets = 0;
+    let totalWeightedLiabilities = 0;
+    let totalAssetValue = 0;
+    let totalLiabilityValue = 0;
 
-      totalWeightedAssets += weightedAssetValue;
-      totalWeightedLiabilities += weightedLiabilityValue;
+    for (const detail of details) {
+      totalAssetValue += detail.assetValue;
+      totalLiabilityValue += detail.liabilityValue;
+      totalWeightedAssets += detail.assetValue * detail.assetWeightMaint;
+      totalWeightedLiabilities += detail.liabilityValue * detail.liabilityWeightMaint;
     }
 
     const healthFactor = totalWeightedLiabilities > 0 
@@ -397,7 +477,7 @@ export class MarginfiMonitor {
       const permissionlessFeatures = data.readUInt8(offset);
       offset += 1;
 
-      const emissionsFlags = data.readUInt64LE(offset);
+      const emissionsFlags = this.readBigUInt64LE(data, offset);
       offset += 8;
       
       const emissionsRate = data.readDoubleLE(offset);
@@ -468,7 +548,7 @@ export class MarginfiMonitor {
     
     if (this.priceCache.has(key)) {
       const cached = this.priceCache.get(key)!;
-      if (Date.now() - cached.lastUpdatedSlot * 400 < 30000) {
+      if (Date.now() - (this.priceFetchedAt.get(key) || 0) < 30000) {
         return cached;
       }
     }
@@ -487,6 +567,7 @@ export class MarginfiMonitor {
 
       if (price) {
         this.priceCache.set(key, price);
+        this.priceFetchedAt.set(key, Date.now());
       }
       
       return price;
@@ -496,7 +577,7 @@ export class MarginfiMonitor {
     }
   }
 
-  private isPythOracle(data: Buffer): boolean {
+  isPythOracle(data: Buffer): boolean {
     if (data.length < 16) return false;
     const magic = data.readUInt32LE(0);
     const version = data.readUInt32LE(4);
@@ -504,14 +585,14 @@ export class MarginfiMonitor {
     return magic === 0xa1b2c3d4 && version === 2 && type === 3;
   }
 
-  private isSwitchboardOracle(data: Buffer): boolean {
+  isSwitchboardOracle(data: Buffer): boolean {
     if (data.length < 8) return false;
     const discriminator = data.slice(0, 8);
     const sbDiscriminator = Buffer.from([41, 53, 204, 47, 119, 23, 151, 162]);
     return discriminator.equals(sbDiscriminator);
   }
 
-  private parsePythPrice(data: Buffer): OraclePrice | null {
+  parsePythPrice(data: Buffer): OraclePrice | null {
     try {
       const magic = data.readUInt32LE(0);
       if (magic !== 0xa1b2c3d4) return null;
@@ -560,7 +641,7 @@ export class MarginfiMonitor {
     }
   }
 
-  private parseSwitchboardPrice(data: Buffer): OraclePrice | null {
+  parseSwitchboardPrice(data: Buffer): OraclePrice | null {
     try {
       let offset = 8;
       
@@ -594,6 +675,38 @@ export class MarginfiMonitor {
     return healthData.healthFactor;
   }
 
+  /**
+   * Parses a pushed marginfi account. Banks and oracle prices come from the
+   * caches, which applyBankUpdate/applyOracleUpdate keep current.
+   */
+  async decodeAccount(address: PublicKey, data: Buffer): Promise<MarginfiAccount> {
+    return this.parseAccount(address, data);
+  }
+
+  applyBankUpdate(bankAddress: PublicKey, data: Buffer): BankData | null {
+    const bank = this.parseBankData(data);
+    if (bank) {
+      this.bankCache.set(bankAddress.toBase58(), bank);
+    }
+    return bank;
+  }
+
+  applyOracleUpdate(oracleKey: PublicKey, data: Buffer): OraclePrice | null {
+    let price: OraclePrice | null = null;
+    if (this.isPythOracle(data)) {
+      price = this.parsePythPrice(data);
+    } else if (this.isSwitchboardOracle(data)) {
+      price = this.parseSwitchboardPrice(data);
+    }
+
+    if (price) {
+      const key = oracleKey.toBase58();
+      this.priceCache.set(key, price);
+      this.priceFetchedAt.set(key, Date.now());
+    }
+    return price;
+  }
+
   async subscribeToAccount(address: PublicKey, callback: (account: MarginfiAccount) => void): Promise<number> {
     return this.connection.onAccountChange(address, async (accountInfo) => {
       const parsed = await this.parseAccount(address, accountInfo.data);
@@ -615,9 +728,24 @@ export class MarginfiMonitor {
     this.connection.removeAccountChangeListener(subscriptionId);
   }
 
+  onOraclePrice(listener: (mint: PublicKey, price: OraclePrice) => void): void {
+    this.priceListeners.push(listener);
+  }
+
+  private notifyPriceListeners(mint: PublicKey, price: OraclePrice): void {
+    for (const listener of this.priceListeners) {
+      try {
+        listener(mint, price);
+      } catch (error) {
+        console.error('[MARGINFI] Error in oracle price listener:', error);
+      }
+    }
+  }
+
   clearCache(): void {
     this.bankCache.clear();
     this.priceCache.clear();
+    this.priceFetchedAt.clear();
   }
 
   getBankCache(): Map<string, BankData> {
@@ -648,6 +776,101 @@ export class MarginfiMonitor {
   async refreshOraclePrice(oracleKey: PublicKey): Promise<OraclePrice | null> {
     const key = oracleKey.toBase58();
     this.priceCache.delete(key);
+    this.priceFetchedAt.delete(key);
     return await this.getOraclePrice(oracleKey);
   }
+
+  private async findBankForMint(account: MarginfiAccount, mint: PublicKey): Promise<{ bankPk: PublicKey; bank: BankData }> {
+    for (const balance of account.balances) {
+      if (!balance.active) continue;
+      const bank = await this.getBankData(balance.bankPk);
+      if (bank && bank.mint.equals(mint)) {
+        return { bankPk: balance.bankPk, bank };
+      }
+    }
+    throw new Error(`Marginfi account ${account.address.toBase58()} has no balance in ${mint.toBase58()}`);
+  }
+
+  /**
+   * Repays `amount` (UI units) of the borrowed mint from the signer's
+   * associated token account.
+   */
+  async buildRepayInstructions(
+    account: MarginfiAccount,
+    mint: PublicKey,
+    amount: number,
+    signer: PublicKey,
+    repayAll: boolean = false
+  ): Promise<TransactionInstruction[]> {
+    const { bankPk, bank } = await this.findBankForMint(account, mint);
+
+    return [
+      new TransactionInstruction({
+        programId: MARGINFI_PROGRAM_ID,
+        keys: [
+          { pubkey: account.group, isSigner: false, isWritable: false },
+          { pubkey: account.address, isSigner: false, isWritable: true },
+          { pubkey: signer, isSigner: true, isWritable: false },
+          { pubkey: bankPk, isSigner: false, isWritable: true },
+          { pubkey: getAssociatedTokenAddress(signer, mint), isSigner: false, isWritable: true },
+          { pubkey: bank.liquidityVault, isSigner: false, isWritable: true },
+          { pubkey: TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },
+        ],
+        data: encodeAmountArgs('lending_account_repay', toNativeAmount(amount, bank.mintDecimals), repayAll),
+      }),
+    ];
+  }
+
+  /**
+   * Withdraws `amount` (UI units) of a deposited mint into the signer's
+   * associated token account. The program re-checks health after the
+   * withdraw, so every remaining balance's bank and oracle are passed along.
+   */
+  async buildWithdrawInstructions(
+    account: MarginfiAccount,
+    mint: PublicKey,
+    amount: number,
+    signer: PublicKey,
+    withdrawAll: boolean = false
+  ): Promise<TransactionInstruction[]> {
+    const { bankPk, bank } = await this.findBankForMint(account, mint);
+    const [vaultAuthority] = PublicKey.findProgramAddressSync(
+      [Buffer.from(LIQUIDITY_VAULT_AUTHORITY_SEED), bankPk.toBuffer()],
+      MARGINFI_PROGRAM_ID
+    );
+
+    const healthAccounts = [];
+    for (const balance of account.balances) {
+      if (!balance.active) continue;
+      if (withdrawAll && balance.bankPk.equals(bankPk)) continue;
+
+      const balanceBank = await this.getBankData(balance.bankPk);
+      if (!balanceBank) {
+        throw new Error(`Marginfi bank ${balance.bankPk.toBase58()} could not be loaded`);
+      }
+      healthAccounts.push(
+        { pubkey: balance.bankPk, isSigner: false, isWritable: false },
+        { pubkey: balanceBank.config.oracleKey, isSigner: false, isWritable: false }
+      );
+    }
+
+    return [
+      createAssociatedTokenAccountIdempotentInstruction(signer, signer, mint),
+      new TransactionInstruction({
+        programId: MARGINFI_PROGRAM_ID,
+        keys: [
+          { pubkey: account.group, isSigner: false, isWritable: false },
+          { pubkey: account.address, isSigner: false, isWritable: true },
+          { pubkey: signer, isSigner: true, isWritable: false },
+          { pubkey: bankPk, isSigner: false, isWritable: true },
+          { pubkey: getAssociatedTokenAddress(signer, mint), isSigner: false, isWritable: true },
+          { pubkey: vaultAuthority, isSigner: false, isWritable: true },
+          { pubkey: bank.liquidityVault, isSigner: false, isWritable: true },
+          { pubkey: TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },
+          ...healthAccounts,
+        ],
+        data: encodeAmountArgs('lending_account_withdraw', toNativeAmount(amount, bank.mintDecimals), withdrawAll),
+      }),
+    ];
+  }
 }
\ No newline at end of file
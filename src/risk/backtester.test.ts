@@ -0,0 +1,84 @@
+import { PublicKey } from '@solana/web3.js';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { Position } from '../monitor/positionMonitor';
+import { ConsensusPriceOracle } from '../prices/priceOracle';
+import { HistoryRecord, HistoryStore, serializePosition } from '../storage/historyStore';
+import { PriceHistoryStore } from '../storage/priceHistoryStore';
+import { TOKENS } from '../utils/jupiter';
+import { Backtester } from './backtester';
+import { LiquidationPrediction, RiskEngine } from './riskEngine';
+
+const MINUTE = 60 * 1000;
+const START = Date.now() - 6 * 60 * MINUTE;
+const CONFIG = { liquidationWarningThreshold: 1.3, criticalHealthThreshold: 1.1, predictionHorizonMinutes: 30 };
+
+function snapshot(healthFactor: number, timestamp: number): Position {
+  return {
+    id: 'marginfi-test',
+    protocol: 'marginfi',
+    owner: new PublicKey(TOKENS.USDC),
+    collateral: [{ mint: new PublicKey(TOKENS.SOL), amount: 10, valueUsd: 1500, priceUsd: 150, liquidationWeight: 0.8 }],
+    debt: [{ mint: new PublicKey(TOKENS.USDC), amount: 1000, valueUsd: 1000, priceUsd: 1, liquidationWeight: 1 }],
+    healthFactor,
+    timestamp,
+  };
+}
+
+function record(kind: HistoryRecord['kind'], timestamp: number, data: HistoryRecord['data']): HistoryRecord {
+  return { kind, positionId: 'marginfi-test', owner: TOKENS.USDC, protocol: 'marginfi', timestamp, data };
+}
+
+describe('Backtester', () => {
+  let dir: string;
+  let history: HistoryStore;
+  let backtester: Backtester;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'sentinel-backtest-'));
+    history = new HistoryStore(path.join(dir, 'history'));
+    backtester = new Backtester(history, new PriceHistoryStore(path.join(dir, 'prices')), CONFIG);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('scores a recorded prediction against the snapshots that followed it', async () => {
+    const engine = new RiskEngine(CONFIG);
+    engine.setPriceOracle(new ConsensusPriceOracle([]));
+    const position = snapshot(1.08, START);
+    const prediction = await engine.predictLiquidation(position);
+
+    await history.append([
+      record('position', START, serializePosition(position)),
+      record('prediction', START, prediction),
+      // Liquidated ten minutes in, and still recorded past the longest horizon
+      record('position', START + 10 * MINUTE, serializePosition(snapshot(0.98, START + 10 * MINUTE))),
+      record('position', START + 5 * 60 * MINUTE, serializePosition(snapshot(1.2, START + 5 * 60 * MINUTE))),
+    ]);
+
+    const { report, outcomes } = await backtester.run({ from: START - MINUTE, to: START + MINUTE, minSamples: 1 });
+
+    expect(report.overall.predictions).toBe(1);
+    expect(outcomes.map(o => [o.horizon, o.actual])).toEqual([
+      ['5min', false],
+      ['15min', true],
+      ['30min', true],
+      ['1hour', true],
+      ['4hour', true],
+    ]);
+    for (const outcome of outcomes) {
+      expect(outcome.predicted).toBeCloseTo(prediction.riskHeatmap.timeframes[outcome.horizon], 10);
+    }
+  });
+
+  it('fails on a recorded prediction without a risk heatmap', async () => {
+    // Shape of predictions recorded before riskHeatmap was returned
+    const truncated = { positionId: 'marginfi-test', probability: 0.2 };
+    await history.append([record('prediction', START, truncated as unknown as LiquidationPrediction)]);
+
+    await expect(backtester.run({ from: START - MINUTE, to: START + MINUTE })).rejects.toThrow('has no riskHeatmap');
+  });
+});
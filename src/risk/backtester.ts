@@ -0,0 +1,490 @@
+import { Position } from '../monitor/positionMonitor';
+import { HistoryStore, StoredPosition, deserializePosition } from '../storage/historyStore';
+import { PriceCandle, PriceHistoryStore } from '../storage/priceHistoryStore';
+import { LiquidationPrediction, RiskEngine, RiskEngineConfig } from './riskEngine';
+import { SIMULATION_TIMEFRAMES, SimulationTimeframe } from './liquidationSimulator';
+
+export type BacktestMode = 'recorded' | 'replay';
+
+export const BACKTEST_MODES: BacktestMode[] = ['recorded', 'replay'];
+
+export interface BacktestOptions {
+  from: number;
+  to: number;
+  // recorded: score the predictions SENTINEL made at the time; replay: rerun
+  // the current simulator on recorded snapshots and candles
+  mode: BacktestMode;
+  // Predicted probability at or above which a position counts as flagged
+  threshold: number;
+  bins: number;
+  // Timeframe whose calibration becomes each protocol's accuracy
+  accuracyHorizon: SimulationTimeframe;
+  // Labeled predictions needed at that timeframe before accuracy is reported
+  minSamples: number;
+  // Replay only: spacing between replayed snapshots of a position, and paths per run
+  sampleIntervalMs: number;
+  replayPaths: number;
+}
+
+export interface CalibrationBin {
+  lower: number;
+  upper: number;
+  count: number;
+  meanPredicted: number | null;
+  observedFrequency: number | null;
+}
+
+export interface HorizonMetrics {
+  samples: number;
+  positives: number;
+  baseRate: number;
+  brierScore: number | null;
+  // 1 - Brier / Brier of always predicting the base rate; null without both outcomes
+  brierSkillScore: number | null;
+  // Count-weighted gap between predicted and observed frequency across bins
+  expectedCalibrationError: number | null;
+  precision: number | null;
+  recall: number | null;
+  calibration: CalibrationBin[];
+}
+
+export interface ProtocolCalibration {
+  predictions: number;
+  liquidations: number;
+  horizons: { [key in SimulationTimeframe]: HorizonMetrics };
+  // 1 - expected calibration error at the accuracy horizon; null below minSamples
+  accuracy: number | null;
+}
+
+export interface CalibrationReport {
+  mode: BacktestMode;
+  from: number;
+  to: number;
+  threshold: number;
+  accuracyHorizon: SimulationTimeframe;
+  overall: ProtocolCalibration;
+  protocols: { [protocol: string]: ProtocolCalibration };
+  timestamp: number;
+}
+
+export interface LabeledPrediction {
+  positionId: string;
+  protocol: string;
+  timestamp: number;
+  horizon: SimulationTimeframe;
+  predicted: number;
+  actual: boolean;
+}
+
+export interface BacktestResult {
+  report: CalibrationReport;
+  outcomes: LabeledPrediction[];
+}
+
+export interface PositionSeries {
+  protocol: string;
+  snapshots: StoredPosition[];
+  // Every snapshot that was liquidatable or showed balances seized
+  liquidations: number[];
+  // First of each run of consecutive liquidation snapshots
+  episodes: number[];
+}
+
+interface PredictionSample {
+  positionId: string;
+  protocol: string;
+  timestamp: number;
+  probabilities: { [key in SimulationTimeframe]: number };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Below this health a drop in both collateral and debt balances is read as a
+// partial liquidation, even if the next snapshot is back above 1.0
+const LIQUIDATION_SUSPECT_HEALTH = 1.05;
+// Candles loaded before the window so replayed volatility models have history
+const REPLAY_WARMUP_MS = DAY_MS;
+
+const TIMEFRAMES = Object.keys(SIMULATION_TIMEFRAMES) as SimulationTimeframe[];
+
+// Closest heatmap timeframe to a prediction horizon in minutes
+export function timeframeForHorizon(minutes: number): SimulationTimeframe {
+  return TIMEFRAMES.reduce((best, timeframe) =>
+    Math.abs(SIMULATION_TIMEFRAMES[timeframe] - minutes) < Math.abs(SIMULATION_TIMEFRAMES[best] - minutes)
+      ? timeframe
+      : best
+  );
+}
+
+/**
+ * Scores liquidation predictions against what happened. Outcomes come from
+ * recorded position snapshots: a position counts as liquidated within a
+ * horizon if a later snapshot in it shows health at or below 1.0, or shows
+ * collateral and debt balances both shrinking while health was near 1.0.
+ * Predictions whose horizon runs past the last snapshot are left out.
+ */
+export class Backtester {
+  private history: HistoryStore;
+  private prices: PriceHistoryStore;
+  private riskEngineConfig: RiskEngineConfig;
+  private interval: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(history: HistoryStore, prices: PriceHistoryStore, riskEngineConfig: RiskEngineConfig) {
+    this.history = history;
+    this.prices = prices;
+    this.riskEngineConfig = riskEngineConfig;
+  }
+
+  async run(options: Partial<BacktestOptions> = {}): Promise<BacktestResult> {
+    const to = options.to ?? Date.now();
+    const resolved: BacktestOptions = {
+      from: options.from ?? to - 14 * DAY_MS,
+      to,
+      mode: options.mode || 'recorded',
+      threshold: options.threshold ?? 0.5,
+      bins: options.bins || 10,
+      accuracyHorizon:
+        options.accuracyHorizon || timeframeForHorizon(this.riskEngineConfig.predictionHorizonMinutes || 30),
+      minSamples: options.minSamples ?? 50,
+      sampleIntervalMs: options.sampleIntervalMs || 15 * 60 * 1000,
+      replayPaths: options.replayPaths || 500,
+    };
+
+    // Outcomes for the last predictions come from snapshots after the window
+    const maxHorizonMs = Math.max(...Object.values(SIMULATION_TIMEFRAMES)) * 60000;
+    const series = await this.loadSeries(resolved.from, resolved.to + maxHorizonMs);
+
+    const samples = resolved.mode === 'replay'
+      ? await this.replay(series, resolved)
+      : await this.recorded(resolved);
+
+    const outcomes = this.label(samples, series);
+    const protocols: CalibrationReport['protocols'] = {};
+    for (const protocol of new Set(samples.map(s => s.protocol))) {
+      protocols[protocol] = this.calibrate(
+        samples.filter(s => s.protocol === protocol),
+        outcomes.filter(o => o.protocol === protocol),
+        series,
+        resolved
+      );
+    }
+
+    return {
+      report: {
+        mode: resolved.mode,
+        from: resolved.from,
+        to: resolved.to,
+        threshold: resolved.threshold,
+        accuracyHorizon: resolved.accuracyHorizon,
+        overall: this.calibrate(samples, outcomes, series, resolved),
+        protocols,
+        timestamp: Date.now(),
+      },
+      outcomes,
+    };
+  }
+
+  // Runs a recorded-mode backtest over the trailing lookback now and every intervalMs
+  start(intervalMs: number, lookbackMs: number, onResult: (result: BacktestResult) => void): void {
+    this.stop();
+
+    const runOnce = () => {
+      if (this.running) return;
+      this.running = true;
+
+      const to = Date.now();
+      this.run({ from: to - lookbackMs, to })
+        .then(onResult)
+        .catch(error => console.error('[BACKTEST] Calibration run failed:', error))
+        .finally(() => {
+          this.running = false;
+        });
+    };
+
+    runOnce();
+    this.interval = setInterval(runOnce, intervalMs);
+  }
+
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  // Recorded snapshots per position, oldest first, with their liquidation times
+  async loadSeries(from: number, to: number): Promise<Map<string, PositionSeries>> {
+    const series = new Map<string, PositionSeries>();
+    for (const record of await this.history.scan(['position'], from, to)) {
+      const entry = series.get(record.positionId) || {
+        protocol: record.protocol,
+        snapshots: [],
+        liquidations: [],
+        episodes: [],
+      };
+      entry.snapshots.push(record.data as StoredPosition);
+      series.set(record.positionId, entry);
+    }
+
+    for (const entry of series.values()) {
+      entry.snapshots.sort((a, b) => a.timestamp - b.timestamp);
+      const { times, episodes } = liquidationTimes(entry.snapshots);
+      entry.liquidations = times;
+      entry.episodes = episodes;
+    }
+    return series;
+  }
+
+  private async recorded(options: BacktestOptions): Promise<PredictionSample[]> {
+    const samples: PredictionSample[] = [];
+    for (const record of await this.history.scan(['prediction'], options.from, options.to)) {
+      const prediction = record.data as LiquidationPrediction;
+      if (!prediction.riskHeatmap) {
+        throw new Error(
+          `Recorded prediction for ${record.positionId} at ${new Date(record.timestamp).toISOString()} has no riskHeatmap`
+        );
+      }
+      const timeframes = prediction.riskHeatmap.timeframes;
+
+      samples.push({
+        positionId: record.positionId,
+        protocol: record.protocol,
+        timestamp: record.timestamp,
+        probabilities: { ...timeframes },
+      });
+    }
+    return samples;
+  }
+
+  /**
+   * Walks recorded snapshots in time order, at most one per position every
+   * sampleIntervalMs, after feeding the engine only the candles that had closed
+   * by then, so nothing visited sees later prices.
+   */
+  async replaySnapshots(
+    series: Map<string, PositionSeries>,
+    engine: RiskEngine,
+    options: Pick<BacktestOptions, 'from' | 'to' | 'sampleIntervalMs'>,
+    visit: (positionId: string, protocol: string, position: Position) => void
+  ): Promise<void> {
+    const candlesByMint = new Map<string, PriceCandle[]>();
+    for (const candle of await this.prices.load(options.from - REPLAY_WARMUP_MS, options.to)) {
+      const candles = candlesByMint.get(candle.mint) || [];
+      candles.push(candle);
+      candlesByMint.set(candle.mint, candles);
+    }
+    for (const candles of candlesByMint.values()) {
+      candles.sort((a, b) => a.openTime - b.openTime);
+    }
+
+    const buckets = new Map<number, { positionId: string; protocol: string; snapshot: StoredPosition }[]>();
+    for (const [positionId, entry] of series) {
+      let last = -Infinity;
+      for (const snapshot of entry.snapshots) {
+        if (snapshot.timestamp < options.from || snapshot.timestamp > options.to) continue;
+        if (snapshot.timestamp - last < options.sampleIntervalMs) continue;
+        last = snapshot.timestamp;
+
+        const bucket = Math.floor(snapshot.timestamp / options.sampleIntervalMs) * options.sampleIntervalMs;
+        buckets.set(bucket, [...(buckets.get(bucket) || []), { positionId, protocol: entry.protocol, snapshot }]);
+      }
+    }
+
+    for (const bucket of Array.from(buckets.keys()).sort((a, b) => a - b)) {
+      for (const [mint, candles] of candlesByMint) {
+        engine.updatePriceHistory(mint, candles.filter(c => c.openTime + c.intervalMs <= bucket));
+      }
+
+      for (const { positionId, protocol, snapshot } of buckets.get(bucket)!) {
+        visit(positionId, protocol, deserializePosition(snapshot));
+      }
+    }
+  }
+
+  /**
+   * Whether the position was liquidated within horizonMs after timestamp.
+   * Null when that cannot be known: the position was already liquidatable,
+   * or the recording stops before the horizon ends without a liquidation.
+   */
+  outcome(entry: PositionSeries, timestamp: number, horizonMs: number): boolean | null {
+    if (entry.snapshots.length === 0) return null;
+
+    const current = [...entry.snapshots].reverse().find(s => s.timestamp <= timestamp);
+    if (current && current.healthFactor <= 1) return null;
+
+    const end = timestamp + horizonMs;
+    if (entry.liquidations.some(t => t > timestamp && t <= end)) return true;
+    return entry.snapshots[entry.snapshots.length - 1].timestamp >= end ? false : null;
+  }
+
+  private async replay(series: Map<string, PositionSeries>, options: BacktestOptions): Promise<PredictionSample[]> {
+    const engine = new RiskEngine({ ...this.riskEngineConfig, monteCarloPaths: options.replayPaths });
+
+    const samples: PredictionSample[] = [];
+    await this.replaySnapshots(series, engine, options, (positionId, protocol, position) => {
+      const simulation = engine.simulateLiquidation(position);
+      if (!simulation || simulation.coverage === 0) return;
+
+      const probabilities = {} as PredictionSample['probabilities'];
+      for (const timeframe of TIMEFRAMES) {
+        probabilities[timeframe] = simulation.timeframes[timeframe].probability;
+      }
+      samples.push({ positionId, protocol, timestamp: position.timestamp, probabilities });
+    });
+    return samples;
+  }
+
+  private label(samples: PredictionSample[], series: Map<string, PositionSeries>): LabeledPrediction[] {
+    const outcomes: LabeledPrediction[] = [];
+
+    for (const sample of samples) {
+      const entry = series.get(sample.positionId);
+      if (!entry) continue;
+
+      for (const horizon of TIMEFRAMES) {
+        const actual = this.outcome(entry, sample.timestamp, SIMULATION_TIMEFRAMES[horizon] * 60000);
+        if (actual === null) continue;
+
+        const predicted = sample.probabilities[horizon];
+        if (!Number.isFinite(predicted)) continue;
+
+        outcomes.push({
+          positionId: sample.positionId,
+          protocol: sample.protocol,
+          timestamp: sample.timestamp,
+          horizon,
+          predicted: Math.min(1, Math.max(0, predicted)),
+          actual,
+        });
+      }
+    }
+    return outcomes;
+  }
+
+  private calibrate(
+    samples: PredictionSample[],
+    outcomes: LabeledPrediction[],
+    series: Map<string, PositionSeries>,
+    options: BacktestOptions
+  ): ProtocolCalibration {
+    const horizons = {} as ProtocolCalibration['horizons'];
+    for (const horizon of TIMEFRAMES) {
+      horizons[horizon] = horizonMetrics(
+        outcomes.filter(o => o.horizon === horizon),
+        options.threshold,
+        options.bins
+      );
+    }
+
+    const positionIds = new Set(samples.map(s => s.positionId));
+    const liquidations = Array.from(positionIds).reduce(
+      (sum, id) =>
+        sum + (series.get(id)?.episodes.filter(t => t >= options.from && t <= options.to).length ?? 0),
+      0
+    );
+
+    const target = horizons[options.accuracyHorizon];
+    return {
+      predictions: samples.length,
+      liquidations,
+      horizons,
+      accuracy: target.samples >= options.minSamples && target.expectedCalibrationError !== null
+        ? 1 - target.expectedCalibrationError
+        : null,
+    };
+  }
+}
+
+function liquidationTimes(snapshots: StoredPosition[]): { times: number[]; episodes: number[] } {
+  const times: number[] = [];
+  const episodes: number[] = [];
+  let inEpisode = false;
+
+  for (let i = 0; i < snapshots.length; i++) {
+    const snapshot = snapshots[i];
+    const previous = snapshots[i - 1];
+    const liquidated =
+      snapshot.healthFactor <= 1 ||
+      (!!previous && previous.healthFactor < LIQUIDATION_SUSPECT_HEALTH && balancesSeized(previous, snapshot));
+
+    if (liquidated) {
+      times.push(snapshot.timestamp);
+      if (!inEpisode) episodes.push(snapshot.timestamp);
+    }
+    inEpisode = liquidated;
+  }
+  return { times, episodes };
+}
+
+// Collateral taken and debt (or perp size) reduced in the same step, by amount
+// rather than value so price moves alone never count
+function balancesSeized(before: StoredPosition, after: StoredPosition): boolean {
+  const shrank = (
+    previous: { mint: string; amount: number }[],
+    next: { mint: string; amount: number }[]
+  ) =>
+    previous.some(entry => {
+      const remaining = next.filter(e => e.mint === entry.mint).reduce((sum, e) => sum + e.amount, 0);
+      return remaining < entry.amount * 0.999;
+    });
+
+  const perps = (position: StoredPosition) =>
+    (position.perpExposure || []).map(p => ({ mint: `perp:${p.marketIndex}`, amount: p.size }));
+
+  return (
+    shrank(before.collateral, after.collateral) &&
+    (shrank(before.debt, after.debt) || shrank(perps(before), perps(after)))
+  );
+}
+
+export function horizonMetrics(
+  outcomes: Pick<LabeledPrediction, 'predicted' | 'actual'>[],
+  threshold: number,
+  bins: number
+): HorizonMetrics {
+  const samples = outcomes.length;
+  const positives = outcomes.filter(o => o.actual).length;
+  const baseRate = samples > 0 ? positives / samples : 0;
+
+  const brierScore = samples > 0
+    ? outcomes.reduce((sum, o) => sum + Math.pow(o.predicted - (o.actual ? 1 : 0), 2), 0) / samples
+    : null;
+  const reference = baseRate * (1 - baseRate);
+
+  const calibration: CalibrationBin[] = [];
+  for (let b = 0; b < bins; b++) {
+    const lower = b / bins;
+    const upper = (b + 1) / bins;
+    const members = outcomes.filter(o => o.predicted >= lower && (o.predicted < upper || (b === bins - 1 && o.predicted <= upper)));
+    calibration.push({
+      lower,
+      upper,
+      count: members.length,
+      meanPredicted: members.length > 0 ? members.reduce((sum, o) => sum + o.predicted, 0) / members.length : null,
+      observedFrequency: members.length > 0 ? members.filter(o => o.actual).length / members.length : null,
+    });
+  }
+
+  const expectedCalibrationError = samples > 0
+    ? calibration.reduce(
+        (sum, bin) =>
+          bin.count > 0 ? sum + (bin.count / samples) * Math.abs(bin.meanPredicted! - bin.observedFrequency!) : sum,
+        0
+      )
+    : null;
+
+  const flagged = outcomes.filter(o => o.predicted >= threshold);
+  const truePositives = flagged.filter(o => o.actual).length;
+
+  return {
+    samples,
+    positives,
+    baseRate,
+    brierScore,
+    brierSkillScore: brierScore !== null && reference > 0 ? 1 - brierScore / reference : null,
+    expectedCalibrationError,
+    precision: flagged.length > 0 ? truePositives / flagged.length : null,
+    recall: positives > 0 ? truePositives / positives : null,
+    calibration,
+  };
+}
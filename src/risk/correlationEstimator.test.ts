@@ -0,0 +1,52 @@
+import { PriceCandle } from '../storage/priceHistoryStore';
+import { TOKENS } from '../utils/jupiter';
+import { CorrelationEstimator } from './correlationEstimator';
+
+const MINUTE = 60 * 1000;
+
+function candles(mint: string, closes: number[]): PriceCandle[] {
+  return closes.map((close, i) => ({
+    mint,
+    openTime: i * MINUTE,
+    intervalMs: MINUTE,
+    open: close,
+    high: close,
+    low: close,
+    close,
+    volume: 0,
+    samples: 1,
+    sources: [],
+  }));
+}
+
+// SOL wanders while JitoSOL holds its usual 1.1 ratio, until the last candle
+function prices(lastRatio: number): { sol: number[]; jito: number[] } {
+  const sol = Array.from({ length: 40 }, (_, i) => 150 + 5 * Math.sin(i / 3));
+  const jito = sol.map((price, i) => price * (i === sol.length - 1 ? lastRatio : 1.1));
+  return { sol, jito };
+}
+
+describe('CorrelationEstimator', () => {
+  it('flags an LST trading below its usual ratio to SOL', () => {
+    const estimator = new CorrelationEstimator();
+    const { sol, jito } = prices(1.1 * 0.95);
+    estimator.update(TOKENS.SOL, candles(TOKENS.SOL, sol));
+    estimator.update(TOKENS.JitoSOL, candles(TOKENS.JitoSOL, jito));
+
+    const [event, ...rest] = estimator.detectDepegs();
+
+    expect(rest).toEqual([]);
+    expect(event).toMatchObject({ asset: TOKENS.JitoSOL, reference: TOKENS.SOL, severity: 'minor', since: 39 * MINUTE });
+    expect(event.expectedRatio).toBeCloseTo(1.1, 10);
+    expect(event.deviationPercent).toBeCloseTo(-5, 10);
+  });
+
+  it('ignores an LST trading above its usual ratio', () => {
+    const estimator = new CorrelationEstimator();
+    const { sol, jito } = prices(1.1 * 1.05);
+    estimator.update(TOKENS.SOL, candles(TOKENS.SOL, sol));
+    estimator.update(TOKENS.JitoSOL, candles(TOKENS.JitoSOL, jito));
+
+    expect(estimator.detectDepegs()).toEqual([]);
+  });
+});
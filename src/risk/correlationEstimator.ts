@@ -0,0 +1,289 @@
+import { PriceCandle } from '../storage/priceHistoryStore';
+import { TOKENS } from '../utils/jupiter';
+
+export interface PeggedPair {
+  asset: string;
+  // Mint the asset should track, or 'USD' for a stablecoin's dollar peg
+  reference: string;
+  kind: 'lst' | 'stablecoin';
+  // Move away from the usual ratio that counts as a depeg
+  thresholdPercent: number;
+}
+
+// LSTs accrue staking yield against SOL, so their peg is the recent ratio
+// rather than 1; stablecoins are held to their dollar peg and to each other
+export const PEGGED_PAIRS: PeggedPair[] = [
+  { asset: TOKENS.JitoSOL, reference: TOKENS.SOL, kind: 'lst', thresholdPercent: 2 },
+  { asset: TOKENS.mSOL, reference: TOKENS.SOL, kind: 'lst', thresholdPercent: 2 },
+  { asset: TOKENS.stSOL, reference: TOKENS.SOL, kind: 'lst', thresholdPercent: 2 },
+  { asset: TOKENS.USDT, reference: TOKENS.USDC, kind: 'stablecoin', thresholdPercent: 0.5 },
+  { asset: TOKENS.USDC, reference: 'USD', kind: 'stablecoin', thresholdPercent: 0.5 },
+  { asset: TOKENS.USDT, reference: 'USD', kind: 'stablecoin', thresholdPercent: 0.5 },
+];
+
+export interface DepegEvent {
+  asset: string;
+  reference: string;
+  kind: PeggedPair['kind'];
+  ratio: number;
+  expectedRatio: number;
+  deviationPercent: number;
+  // Deviation in standard deviations of the ratio over the baseline window
+  zScore: number;
+  severity: 'minor' | 'major';
+  // Open time of the first candle of the current excursion
+  since: number;
+  detectedAt: number;
+}
+
+export interface CovarianceMatrix {
+  mints: string[];
+  intervalMs: number;
+  // Fewest overlapping returns behind any estimate in the matrix
+  observations: number;
+  // Per candle interval, in log-return terms
+  volatilities: number[];
+  covariance: number[][];
+  correlation: number[][];
+}
+
+export interface CorrelationOptions {
+  // Returns used for each estimate
+  lookback: number;
+  // EWMA decay per candle; 1 weights every return equally
+  decay: number;
+  minObservations: number;
+  // Candles kept per mint, which also bounds the depeg baseline
+  maxCandles: number;
+}
+
+interface Series {
+  intervalMs: number;
+  times: number[];
+  closes: number[];
+}
+
+/**
+ * Estimates covariance and correlation between mints from recorded candles,
+ * and watches pegged pairs (LSTs against SOL, stablecoins against the dollar
+ * and each other) for depegs. Returns are log returns per candle interval,
+ * weighted by an exponential decay so recent co-movement counts most.
+ */
+export class CorrelationEstimator {
+  private options: CorrelationOptions;
+  private series: Map<string, Series> = new Map();
+
+  constructor(options: Partial<CorrelationOptions> = {}) {
+    this.options = {
+      lookback: options.lookback || 120,
+      decay: options.decay ?? 0.97,
+      minObservations: options.minObservations || 20,
+      maxCandles: options.maxCandles || 1440,
+    };
+  }
+
+  update(mint: string, candles: PriceCandle[]): void {
+    const window = candles.filter(c => c.close > 0).slice(-this.options.maxCandles);
+    if (window.length === 0) return;
+
+    this.series.set(mint, {
+      intervalMs: window[window.length - 1].intervalMs,
+      times: window.map(c => c.openTime),
+      closes: window.map(c => c.close),
+    });
+  }
+
+  hasHistory(mint: string): boolean {
+    return (this.series.get(mint)?.closes.length ?? 0) > this.options.minObservations;
+  }
+
+  getIntervalMs(): number | null {
+    for (const series of this.series.values()) return series.intervalMs;
+    return null;
+  }
+
+  volatility(mint: string): number | null {
+    const estimate = this.estimate(mint, mint);
+    return estimate ? Math.sqrt(estimate.covariance) : null;
+  }
+
+  correlation(a: string, b: string): number | null {
+    const estimate = this.estimate(a, b);
+    if (!estimate) return null;
+    const denominator = Math.sqrt(estimate.varianceA * estimate.varianceB);
+    return denominator > 0 ? clamp(estimate.covariance / denominator, -1, 1) : 0;
+  }
+
+  /**
+   * Pairwise estimates over each pair's overlapping candles. Mints without
+   * enough history get zero variance and zero correlation, so callers should
+   * check hasHistory() before trusting their share of the result.
+   */
+  getMatrix(mints: string[]): CovarianceMatrix {
+    const n = mints.length;
+    const covariance = mints.map(() => new Array<number>(n).fill(0));
+    const correlation = mints.map((_, i) => mints.map((__, j): number => (i === j ? 1 : 0)));
+    let observations = Infinity;
+
+    for (let i = 0; i < n; i++) {
+      for (let j = i; j < n; j++) {
+        const estimate = this.estimate(mints[i], mints[j]);
+        if (!estimate) continue;
+
+        observations = Math.min(observations, estimate.observations);
+        covariance[i][j] = covariance[j][i] = estimate.covariance;
+        if (i !== j) {
+          const denominator = Math.sqrt(estimate.varianceA * estimate.varianceB);
+          correlation[i][j] = correlation[j][i] = denominator > 0 ? clamp(estimate.covariance / denominator, -1, 1) : 0;
+        }
+      }
+    }
+
+    return {
+      mints,
+      intervalMs: this.getIntervalMs() ?? 0,
+      observations: Number.isFinite(observations) ? observations : 0,
+      volatilities: covariance.map((row, i) => Math.sqrt(Math.max(0, row[i]))),
+      covariance,
+      correlation,
+    };
+  }
+
+  // Pegged pairs whose latest ratio has left its usual level, worst first
+  detectDepegs(pairs: PeggedPair[] = PEGGED_PAIRS): DepegEvent[] {
+    const events: DepegEvent[] = [];
+
+    for (const pair of pairs) {
+      const ratios = this.ratioSeries(pair);
+      if (ratios.values.length < this.options.minObservations) continue;
+
+      // Baseline excludes the latest candle so a depeg does not drag its own reference
+      const baseline = ratios.values.slice(0, -1);
+      const expectedRatio = pair.reference === 'USD' ? 1 : median(baseline);
+      const ratio = ratios.values[ratios.values.length - 1];
+      const deviationPercent = ((ratio - expectedRatio) / expectedRatio) * 100;
+
+      // An LST trading above its usual ratio is no risk to anyone holding it
+      const breached = pair.kind === 'lst'
+        ? deviationPercent <= -pair.thresholdPercent
+        : Math.abs(deviationPercent) >= pair.thresholdPercent;
+      if (!breached) continue;
+
+      const mean = baseline.reduce((sum, r) => sum + r, 0) / baseline.length;
+      const std = Math.sqrt(baseline.reduce((sum, r) => sum + Math.pow(r - mean, 2), 0) / Math.max(1, baseline.length - 1));
+
+      // Walk back to where the ratio first moved half the threshold away
+      let start = ratios.values.length - 1;
+      while (
+        start > 0 &&
+        Math.abs((ratios.values[start - 1] - expectedRatio) / expectedRatio) * 100 >= pair.thresholdPercent / 2
+      ) {
+        start--;
+      }
+
+      events.push({
+        asset: pair.asset,
+        reference: pair.reference,
+        kind: pair.kind,
+        ratio,
+        expectedRatio,
+        deviationPercent,
+        zScore: std > 0 ? (ratio - mean) / std : 0,
+        severity: Math.abs(deviationPercent) >= pair.thresholdPercent * 3 ? 'major' : 'minor',
+        since: ratios.times[start],
+        detectedAt: Date.now(),
+      });
+    }
+
+    return events.sort((a, b) => Math.abs(b.deviationPercent) - Math.abs(a.deviationPercent));
+  }
+
+  private ratioSeries(pair: PeggedPair): { times: number[]; values: number[] } {
+    const asset = this.series.get(pair.asset);
+    if (!asset) return { times: [], values: [] };
+
+    if (pair.reference === 'USD') {
+      return { times: asset.times, values: asset.closes };
+    }
+
+    const reference = this.series.get(pair.reference);
+    if (!reference) return { times: [], values: [] };
+
+    const referenceByTime = new Map<number, number>();
+    reference.times.forEach((time, i) => referenceByTime.set(time, reference.closes[i]));
+
+    const times: number[] = [];
+    const values: number[] = [];
+    asset.times.forEach((time, i) => {
+      const referencePrice = referenceByTime.get(time);
+      if (referencePrice) {
+        times.push(time);
+        values.push(asset.closes[i] / referencePrice);
+      }
+    });
+    return { times, values };
+  }
+
+  // EWMA covariance of log returns over candles both mints have, consecutive in time
+  private estimate(
+    a: string,
+    b: string
+  ): { covariance: number; varianceA: number; varianceB: number; observations: number } | null {
+    const seriesA = this.series.get(a);
+    const seriesB = this.series.get(b);
+    if (!seriesA || !seriesB) return null;
+
+    const closesB = new Map<number, number>();
+    seriesB.times.forEach((time, i) => closesB.set(time, seriesB.closes[i]));
+
+    const returnsA: number[] = [];
+    const returnsB: number[] = [];
+    for (let i = 1; i < seriesA.times.length; i++) {
+      const time = seriesA.times[i];
+      const previous = seriesA.times[i - 1];
+      if (time - previous !== seriesA.intervalMs) continue;
+
+      const closeB = closesB.get(time);
+      const previousB = closesB.get(previous);
+      if (!closeB || !previousB) continue;
+
+      returnsA.push(Math.log(seriesA.closes[i] / seriesA.closes[i - 1]));
+      returnsB.push(Math.log(closeB / previousB));
+    }
+
+    const ra = returnsA.slice(-this.options.lookback);
+    const rb = returnsB.slice(-this.options.lookback);
+    if (ra.length < this.options.minObservations) return null;
+
+    const weights = ra.map((_, i) => Math.pow(this.options.decay, ra.length - 1 - i));
+    const total = weights.reduce((sum, w) => sum + w, 0);
+    const meanA = ra.reduce((sum, r, i) => sum + r * weights[i], 0) / total;
+    const meanB = rb.reduce((sum, r, i) => sum + r * weights[i], 0) / total;
+
+    let covariance = 0;
+    let varianceA = 0;
+    let varianceB = 0;
+    for (let i = 0; i < ra.length; i++) {
+      covariance += weights[i] * (ra[i] - meanA) * (rb[i] - meanB);
+      varianceA += weights[i] * Math.pow(ra[i] - meanA, 2);
+      varianceB += weights[i] * Math.pow(rb[i] - meanB, 2);
+    }
+
+    return {
+      covariance: covariance / total,
+      varianceA: varianceA / total,
+      varianceB: varianceB / total,
+      observations: ra.length,
+    };
+  }
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
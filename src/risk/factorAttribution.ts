@@ -0,0 +1,79 @@
+export type RiskFactorId =
+  | 'health_factor'
+  | 'volatility'
+  | 'liquidation_distance'
+  | 'momentum'
+  | 'technical'
+  | 'bollinger'
+  | 'moving_average'
+  | 'volume'
+  | 'correlation'
+  | 'simulation'
+  | 'joint_risk'
+  | 'depeg'
+  | 'trained_model'
+  | 'probability_cap';
+
+export interface RiskFactor {
+  id: RiskFactorId;
+  label: string;
+  // Name of the raw input that triggered the factor, and its value
+  metric: string;
+  value: number;
+  // Level the value crossed to trigger the factor; null for estimates that
+  // apply whatever their value
+  threshold: number | null;
+  // Share of the final probability; contributions always sum to it
+  contribution: number;
+  // Set when a later estimate replaced the probability this factor built up;
+  // its contribution is then zero but it still explains the signal
+  superseded?: boolean;
+}
+
+type FactorInput = Omit<RiskFactor, 'contribution' | 'superseded'>;
+
+/**
+ * Builds a probability out of attributed steps so every prediction can say
+ * how much each factor moved it. Additive signals add their increment; an
+ * estimate that replaces the running total (simulation, trained model)
+ * supersedes what came before; a floor or cap credits only the difference.
+ */
+export class FactorAttribution {
+  private factors: RiskFactor[] = [];
+
+  total(): number {
+    return this.factors.reduce((sum, factor) => sum + factor.contribution, 0);
+  }
+
+  add(factor: FactorInput, contribution: number): void {
+    this.factors.push({ ...factor, contribution });
+  }
+
+  replace(factor: FactorInput, probability: number): void {
+    for (const existing of this.factors) {
+      if (existing.contribution !== 0) {
+        existing.contribution = 0;
+        existing.superseded = true;
+      }
+    }
+    this.factors.push({ ...factor, contribution: probability });
+  }
+
+  // Lifts the total to probability if it is higher; true when it did
+  raise(factor: FactorInput, probability: number): boolean {
+    const uplift = probability - this.total();
+    if (uplift <= 0) return false;
+    this.factors.push({ ...factor, contribution: uplift });
+    return true;
+  }
+
+  cap(factor: Omit<FactorInput, 'value' | 'threshold'>, max: number): void {
+    const total = this.total();
+    if (total <= max) return;
+    this.factors.push({ ...factor, value: total, threshold: max, contribution: max - total });
+  }
+
+  list(): RiskFactor[] {
+    return this.factors.map(factor => ({ ...factor }));
+  }
+}
@@ -0,0 +1,168 @@
+import { HorizonMetrics } from './backtester';
+
+// Inputs the model sees, in order; extracted by RiskEngine.extractModelFeatures
+export const MODEL_FEATURES = [
+  // ln(health factor)
+  'logHealth',
+  // ln(health) over the hourly volatility of ln(health)
+  'distanceSigmas',
+  'hourlyHealthVolatility',
+  // Analytic first-passage probability within the hour
+  'jointProbability',
+  // Change in ln(health) per hour over the trend lookback
+  'healthTrend',
+  // Debt (or perp notional) over collateral
+  'leverage',
+  'correlationScore',
+  // Loss of ln(health) if every depeg on a held leg moved as far again
+  'depegExposure',
+] as const;
+
+export type ModelFeature = typeof MODEL_FEATURES[number];
+
+// How far back the health trend looks; shorter gaps are too noisy to use
+export const TREND_LOOKBACK_MS = 30 * 60 * 1000;
+
+export interface TrainedModel {
+  kind: 'logistic-regression';
+  // mlModels key it serves: a protocol name, or 'default' for all of them
+  protocol: string;
+  version: number;
+  horizonMinutes: number;
+  features: string[];
+  // Standardization applied before the weights
+  means: number[];
+  stds: number[];
+  weights: number[];
+  bias: number;
+  trainedAt: number;
+  window: { from: number; to: number };
+  samples: number;
+  positives: number;
+  // A fit on earlier samples scored on the most recent ones it did not see
+  validation: HorizonMetrics;
+}
+
+export interface TrainingOptions {
+  epochs: number;
+  learningRate: number;
+  // L2 penalty on the weights (not the bias)
+  l2: number;
+}
+
+export class ModelValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ModelValidationError';
+  }
+}
+
+/**
+ * Logistic regression by full-batch gradient descent on standardized inputs.
+ * Classes are left unweighted so outputs stay calibrated probabilities, which
+ * matters more here than recall on the rare liquidations.
+ */
+export function trainLogisticRegression(
+  inputs: number[][],
+  outputs: number[],
+  options: Partial<TrainingOptions> = {}
+): Pick<TrainedModel, 'means' | 'stds' | 'weights' | 'bias'> {
+  const epochs = options.epochs || 500;
+  const learningRate = options.learningRate || 0.5;
+  const l2 = options.l2 ?? 1e-3;
+
+  const n = inputs.length;
+  const width = inputs[0]?.length ?? 0;
+  const means = new Array<number>(width).fill(0);
+  const stds = new Array<number>(width).fill(0);
+  for (let j = 0; j < width; j++) {
+    means[j] = inputs.reduce((sum, x) => sum + x[j], 0) / Math.max(1, n);
+    const variance = inputs.reduce((sum, x) => sum + Math.pow(x[j] - means[j], 2), 0) / Math.max(1, n);
+    // A constant feature contributes nothing; keep it from dividing by zero
+    stds[j] = Math.sqrt(variance) || 1;
+  }
+  const standardized = inputs.map(x => x.map((v, j) => (v - means[j]) / stds[j]));
+
+  const weights = new Array<number>(width).fill(0);
+  const baseRate = outputs.reduce((sum, y) => sum + y, 0) / Math.max(1, n);
+  // Start at the base rate so early epochs fit features, not the intercept
+  let bias = Math.log(Math.max(baseRate, 1e-6) / Math.max(1 - baseRate, 1e-6));
+
+  for (let epoch = 0; epoch < epochs; epoch++) {
+    const gradient = new Array<number>(width).fill(0);
+    let biasGradient = 0;
+
+    for (let i = 0; i < n; i++) {
+      const error = sigmoid(bias + dot(weights, standardized[i])) - outputs[i];
+      for (let j = 0; j < width; j++) gradient[j] += error * standardized[i][j];
+      biasGradient += error;
+    }
+
+    for (let j = 0; j < width; j++) {
+      weights[j] -= learningRate * (gradient[j] / n + l2 * weights[j]);
+    }
+    bias -= learningRate * (biasGradient / n);
+  }
+
+  return { means, stds, weights, bias };
+}
+
+export function predictProbability(
+  model: Pick<TrainedModel, 'means' | 'stds' | 'weights' | 'bias'>,
+  features: number[]
+): number {
+  let z = model.bias;
+  for (let j = 0; j < model.weights.length; j++) {
+    z += model.weights[j] * ((features[j] - model.means[j]) / model.stds[j]);
+  }
+  return sigmoid(z);
+}
+
+// Checks a parsed model file against the features this build extracts
+export function validateModel(raw: any): TrainedModel {
+  if (!raw || typeof raw !== 'object') {
+    throw new ModelValidationError('model must be an object');
+  }
+  if (raw.kind !== 'logistic-regression') {
+    throw new ModelValidationError(`unsupported model kind ${raw.kind}`);
+  }
+  if (typeof raw.protocol !== 'string' || raw.protocol === '') {
+    throw new ModelValidationError('protocol must be a non-empty string');
+  }
+  if (!Number.isInteger(raw.version) || raw.version < 1) {
+    throw new ModelValidationError('version must be a positive integer');
+  }
+  if (!(raw.horizonMinutes > 0)) {
+    throw new ModelValidationError('horizonMinutes must be positive');
+  }
+  if (
+    !Array.isArray(raw.features) ||
+    raw.features.length !== MODEL_FEATURES.length ||
+    raw.features.some((name: unknown, i: number) => name !== MODEL_FEATURES[i])
+  ) {
+    throw new ModelValidationError(`features must be ${MODEL_FEATURES.join(', ')}`);
+  }
+  for (const key of ['means', 'stds', 'weights']) {
+    const values = raw[key];
+    if (!Array.isArray(values) || values.length !== MODEL_FEATURES.length || !values.every(Number.isFinite)) {
+      throw new ModelValidationError(`${key} must be ${MODEL_FEATURES.length} finite numbers`);
+    }
+  }
+  if (raw.stds.some((std: number) => std <= 0)) {
+    throw new ModelValidationError('stds must be positive');
+  }
+  if (!Number.isFinite(raw.bias)) {
+    throw new ModelValidationError('bias must be a finite number');
+  }
+  return raw as TrainedModel;
+}
+
+function sigmoid(z: number): number {
+  return 1 / (1 + Math.exp(-z));
+}
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
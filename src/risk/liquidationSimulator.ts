@@ -0,0 +1,329 @@
+import { Position } from '../monitor/positionMonitor';
+import { mintForSymbol } from '../utils/jupiter';
+import { forecastVariance, VolatilityModel } from './volatilityModel';
+
+export type SimulationTimeframe = '5min' | '15min' | '30min' | '1hour' | '4hour';
+
+export const SIMULATION_TIMEFRAMES: { [key in SimulationTimeframe]: number } = {
+  '5min': 5,
+  '15min': 15,
+  '30min': 30,
+  '1hour': 60,
+  '4hour': 240,
+};
+
+export interface ProbabilityEstimate {
+  probability: number;
+  // 95% Wilson score interval over the simulated paths
+  lower: number;
+  upper: number;
+}
+
+export interface LiquidationSimulation {
+  positionId: string;
+  paths: number;
+  stepMinutes: number;
+  // Share of the position's value on legs with a fitted volatility model;
+  // the rest is held at today's price
+  coverage: number;
+  timeframes: { [key in SimulationTimeframe]: ProbabilityEstimate };
+  horizon: ProbabilityEstimate & { minutes: number };
+  // Half the paths have been liquidated by then; null if fewer reach it
+  medianMinutesToLiquidation: number | null;
+  timestamp: number;
+}
+
+export interface SimulationMarket {
+  // Candle interval the volatility models were fitted on
+  intervalMs: number;
+  models: Map<string, VolatilityModel>;
+  correlation(a: string, b: string): number | null;
+}
+
+export interface SimulatorOptions {
+  paths: number;
+  // Path resolution; long horizons use coarser steps rather than more of them
+  maxSteps: number;
+  // Seeds the generator so repeated runs agree; random when unset
+  seed?: number;
+}
+
+interface Leg {
+  mint: string;
+  kind: 'collateral' | 'debt' | 'perp';
+  // Weighted USD value; for perps the notional
+  valueUsd: number;
+  // Perps only: +1 long, -1 short, and the maintenance margin ratio
+  direction?: number;
+  marginRatio?: number;
+}
+
+/**
+ * Estimates liquidation probability by simulation. Each asset's log price
+ * follows its GARCH(1,1) model, shocks are correlated across assets with the
+ * recorded correlation matrix, and every path revalues the position with its
+ * protocol's health model until health first reaches 1.0. Probabilities for
+ * shorter horizons come from the same paths, so they never exceed longer ones.
+ */
+export class LiquidationSimulator {
+  private options: SimulatorOptions;
+
+  constructor(options: Partial<SimulatorOptions> = {}) {
+    this.options = {
+      paths: options.paths || 2000,
+      maxSteps: options.maxSteps || 240,
+      seed: options.seed,
+    };
+  }
+
+  simulate(position: Position, market: SimulationMarket, horizonMinutes: number): LiquidationSimulation | null {
+    const healthFactor = position.healthFactor;
+    if (!Number.isFinite(healthFactor) || healthFactor <= 0 || market.intervalMs <= 0) return null;
+
+    const legs = this.buildLegs(position);
+    if (legs.length === 0) return null;
+
+    const mints = Array.from(new Set(legs.map(leg => leg.mint))).filter(mint => market.models.has(mint));
+    const totalValue = legs.reduce((sum, leg) => sum + leg.valueUsd, 0);
+    const modeledValue = legs.filter(leg => market.models.has(leg.mint)).reduce((sum, leg) => sum + leg.valueUsd, 0);
+
+    const spanMinutes = Math.max(horizonMinutes, ...Object.values(SIMULATION_TIMEFRAMES));
+    const intervalMinutes = market.intervalMs / 60000;
+    // Never coarser than the shortest timeframe, even on long candles
+    const shortest = Math.min(...Object.values(SIMULATION_TIMEFRAMES));
+    const stepMinutes = Math.max(Math.min(intervalMinutes, shortest), spanMinutes / this.options.maxSteps);
+    const steps = Math.ceil(spanMinutes / stepMinutes);
+    // Candle intervals per step, which scales both the shock and the GARCH recursion
+    const k = stepMinutes / intervalMinutes;
+
+    const firstPassage: number[] = [];
+    if (healthFactor <= 1) {
+      for (let p = 0; p < this.options.paths; p++) firstPassage.push(0);
+    } else if (mints.length > 0) {
+      const models = mints.map(mint => market.models.get(mint)!);
+      const initialVariance = models.map(model => forecastVariance(model));
+      const betaK = models.map(model => Math.pow(model.beta, k));
+      const cholesky = choleskyDecompose(
+        mints.map((a, i) => mints.map((b, j) => (i === j ? 1 : market.correlation(a, b) ?? 0)))
+      );
+      const valuation = this.valuation(legs, mints, healthFactor);
+      const random = gaussian(this.options.seed);
+
+      const logMove = new Array<number>(mints.length);
+      const priceRatio = new Array<number>(mints.length);
+      const variance = new Array<number>(mints.length);
+      const independent = new Array<number>(mints.length);
+
+      for (let p = 0; p < this.options.paths; p++) {
+        logMove.fill(0);
+        for (let i = 0; i < mints.length; i++) variance[i] = initialVariance[i];
+
+        let passage = Infinity;
+        for (let step = 1; step <= steps; step++) {
+          for (let i = 0; i < mints.length; i++) independent[i] = random();
+
+          for (let i = 0; i < mints.length; i++) {
+            let z = 0;
+            for (let j = 0; j <= i; j++) z += cholesky[i][j] * independent[j];
+
+            const stepVariance = variance[i] * k;
+            const r = Math.sqrt(stepVariance) * z;
+            // Ito correction keeps the price, not its log, a martingale
+            logMove[i] += r - stepVariance / 2;
+            priceRatio[i] = Math.exp(logMove[i]);
+
+            // k candle-sized shocks of r²/k each, in closed form
+            const model = models[i];
+            const driver = model.omega + (model.alpha * r * r) / k;
+            variance[i] = model.beta > 0
+              ? betaK[i] * variance[i] + (driver * (1 - betaK[i])) / (1 - model.beta)
+              : driver;
+          }
+
+          if (valuation(priceRatio) <= 1) {
+            passage = step;
+            break;
+          }
+        }
+        firstPassage.push(passage);
+      }
+    } else {
+      for (let p = 0; p < this.options.paths; p++) firstPassage.push(Infinity);
+    }
+
+    const paths = firstPassage.length;
+    const estimate = (minutes: number): ProbabilityEstimate => {
+      const limit = Math.round(minutes / stepMinutes);
+      const hits = firstPassage.filter(step => step <= limit).length;
+      return wilsonInterval(hits, paths);
+    };
+
+    const timeframes = {} as LiquidationSimulation['timeframes'];
+    for (const [key, minutes] of Object.entries(SIMULATION_TIMEFRAMES)) {
+      timeframes[key as SimulationTimeframe] = estimate(minutes);
+    }
+
+    const sorted = [...firstPassage].sort((a, b) => a - b);
+    const median = sorted[Math.floor((paths - 1) / 2)];
+
+    return {
+      positionId: position.id,
+      paths,
+      stepMinutes,
+      coverage: totalValue > 0 ? modeledValue / totalValue : 0,
+      timeframes,
+      horizon: { minutes: horizonMinutes, ...estimate(horizonMinutes) },
+      medianMinutesToLiquidation: Number.isFinite(median) ? median * stepMinutes : null,
+      timestamp: Date.now(),
+    };
+  }
+
+  private buildLegs(position: Position): Leg[] {
+    if (position.perpExposure?.length) {
+      const legs: Leg[] = position.collateral.map(c => ({
+        mint: c.mint.toBase58(),
+        kind: 'collateral' as const,
+        valueUsd: c.valueUsd * (c.liquidationWeight ?? 1),
+      }));
+      for (const perp of position.perpExposure) {
+        const mint = perp.symbol ? mintForSymbol(perp.symbol) : null;
+        if (!mint || perp.notionalUsd <= 0) continue;
+        legs.push({
+          mint,
+          kind: 'perp',
+          valueUsd: perp.notionalUsd,
+          direction: perp.side === 'long' ? 1 : -1,
+          marginRatio: perp.maintenanceMarginRatio ?? 0.05,
+        });
+      }
+      return legs;
+    }
+
+    const defaultCollateralWeight = position.liquidationThreshold || 0.85;
+    return [
+      ...position.collateral.map(c => ({
+        mint: c.mint.toBase58(),
+        kind: 'collateral' as const,
+        valueUsd: c.valueUsd * (c.liquidationWeight ?? defaultCollateralWeight),
+      })),
+      ...position.debt.map(d => ({
+        mint: d.mint.toBase58(),
+        kind: 'debt' as const,
+        valueUsd: d.valueUsd * (d.liquidationWeight ?? 1),
+      })),
+    ].filter(leg => leg.valueUsd > 0);
+  }
+
+  /**
+   * Health once each modeled mint's price is multiplied by priceRatio[mint
+   * index], anchored to the protocol's reported health factor: margin accounts
+   * are (collateral + perp PnL) / maintenance requirement, lending accounts
+   * weighted collateral / weighted debt. Unmodeled legs keep today's price.
+   */
+  private valuation(legs: Leg[], mints: string[], healthFactor: number): (priceRatio: number[]) => number {
+    const index = legs.map(leg => mints.indexOf(leg.mint));
+    const ratio = (priceRatio: number[], leg: number) => (index[leg] >= 0 ? priceRatio[index[leg]] : 1);
+
+    if (legs.some(leg => leg.kind === 'perp')) {
+      const collateral = legs.reduce((sum, leg) => sum + (leg.kind === 'collateral' ? leg.valueUsd : 0), 0);
+      const requirement = legs.reduce((sum, leg) => sum + (leg.kind === 'perp' ? leg.valueUsd * leg.marginRatio! : 0), 0);
+      if (collateral <= 0 || requirement <= 0) return () => Infinity;
+
+      return priceRatio => {
+        let equity = 0;
+        let required = 0;
+        for (let l = 0; l < legs.length; l++) {
+          const leg = legs[l];
+          const r = ratio(priceRatio, l);
+          if (leg.kind === 'collateral') {
+            equity += leg.valueUsd * r;
+          } else {
+            equity += leg.direction! * leg.valueUsd * (r - 1);
+            required += leg.valueUsd * r * leg.marginRatio!;
+          }
+        }
+        return required > 0 ? healthFactor * (equity / collateral) / (required / requirement) : Infinity;
+      };
+    }
+
+    const collateral = legs.reduce((sum, leg) => sum + (leg.kind === 'collateral' ? leg.valueUsd : 0), 0);
+    const debt = legs.reduce((sum, leg) => sum + (leg.kind === 'debt' ? leg.valueUsd : 0), 0);
+    if (collateral <= 0 || debt <= 0) return () => Infinity;
+
+    return priceRatio => {
+      let weightedCollateral = 0;
+      let weightedDebt = 0;
+      for (let l = 0; l < legs.length; l++) {
+        if (legs[l].kind === 'collateral') weightedCollateral += legs[l].valueUsd * ratio(priceRatio, l);
+        else weightedDebt += legs[l].valueUsd * ratio(priceRatio, l);
+      }
+      return healthFactor * (weightedCollateral / collateral) / (weightedDebt / debt);
+    };
+  }
+}
+
+// Lower-triangular factor of a correlation matrix; pairwise estimates are not
+// always positive definite, so non-positive pivots are floored
+function choleskyDecompose(matrix: number[][]): number[][] {
+  const n = matrix.length;
+  const lower = matrix.map(() => new Array<number>(n).fill(0));
+
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = matrix[i][j];
+      for (let m = 0; m < j; m++) sum -= lower[i][m] * lower[j][m];
+
+      if (i === j) {
+        lower[i][i] = Math.sqrt(Math.max(sum, 1e-10));
+      } else {
+        lower[i][j] = sum / lower[j][j];
+      }
+    }
+  }
+  return lower;
+}
+
+// Standard normal draws (Box-Muller), from mulberry32 when seeded
+function gaussian(seed?: number): () => number {
+  let uniform: () => number = Math.random;
+  if (seed !== undefined) {
+    let state = seed >>> 0;
+    uniform = () => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+
+  let spare: number | null = null;
+  return () => {
+    if (spare !== null) {
+      const value = spare;
+      spare = null;
+      return value;
+    }
+    const u = Math.max(uniform(), Number.MIN_VALUE);
+    const v = uniform();
+    const radius = Math.sqrt(-2 * Math.log(u));
+    spare = radius * Math.sin(2 * Math.PI * v);
+    return radius * Math.cos(2 * Math.PI * v);
+  };
+}
+
+function wilsonInterval(hits: number, trials: number): ProbabilityEstimate {
+  if (trials === 0) return { probability: 0, lower: 0, upper: 1 };
+
+  const z = 1.96;
+  const p = hits / trials;
+  const denominator = 1 + (z * z) / trials;
+  const center = (p + (z * z) / (2 * trials)) / denominator;
+  const margin = (z * Math.sqrt((p * (1 - p)) / trials + (z * z) / (4 * trials * trials))) / denominator;
+
+  return {
+    probability: p,
+    lower: Math.max(0, center - margin),
+    upper: Math.min(1, center + margin),
+  };
+}
@@ -0,0 +1,164 @@
+import { Backtester, horizonMetrics } from './backtester';
+import { MODEL_FEATURES, predictProbability, trainLogisticRegression, TrainedModel, TREND_LOOKBACK_MS } from './liquidationModel';
+import { RiskEngine, RiskEngineConfig } from './riskEngine';
+
+export interface ModelTrainingOptions {
+  from: number;
+  to: number;
+  // Liquidation within this many minutes is the label; served only when it
+  // matches the engine's predictionHorizonMinutes
+  horizonMinutes: number;
+  // Protocols to fit their own model for; a 'default' model is always fitted
+  protocols?: string[];
+  sampleIntervalMs: number;
+  epochs: number;
+  learningRate: number;
+  l2: number;
+  // Most recent share of samples held out to score the model
+  validationFraction: number;
+  // Labeled samples, and liquidations among them, needed to fit a model
+  minSamples: number;
+  minPositives: number;
+  threshold: number;
+}
+
+export interface TrainingSample {
+  positionId: string;
+  protocol: string;
+  timestamp: number;
+  features: number[];
+  label: boolean;
+}
+
+export interface ModelTrainingResult {
+  // Unversioned until saved to a ModelStore
+  models: Omit<TrainedModel, 'version'>[];
+  skipped: { protocol: string; reason: string }[];
+  samples: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Fits liquidation models offline from recorded history. Snapshots are
+ * replayed with only the candles closed at the time, turned into
+ * RiskEngine.extractModelFeatures inputs, and labeled with the backtester's
+ * liquidation outcomes. Each model is scored on the latest samples before
+ * being refitted on all of them.
+ */
+export class ModelTrainer {
+  private backtester: Backtester;
+  private riskEngineConfig: RiskEngineConfig;
+
+  constructor(backtester: Backtester, riskEngineConfig: RiskEngineConfig) {
+    this.backtester = backtester;
+    this.riskEngineConfig = riskEngineConfig;
+  }
+
+  async train(options: Partial<ModelTrainingOptions> = {}): Promise<ModelTrainingResult> {
+    const to = options.to ?? Date.now();
+    const resolved: ModelTrainingOptions = {
+      from: options.from ?? to - 30 * DAY_MS,
+      to,
+      horizonMinutes: options.horizonMinutes || this.riskEngineConfig.predictionHorizonMinutes || 30,
+      protocols: options.protocols,
+      sampleIntervalMs: options.sampleIntervalMs || 15 * 60 * 1000,
+      epochs: options.epochs || 500,
+      learningRate: options.learningRate || 0.5,
+      l2: options.l2 ?? 1e-3,
+      validationFraction: options.validationFraction ?? 0.2,
+      minSamples: options.minSamples ?? 200,
+      minPositives: options.minPositives ?? 5,
+      threshold: options.threshold ?? 0.5,
+    };
+
+    const samples = await this.collect(resolved);
+    const protocols = resolved.protocols || Array.from(new Set(samples.map(s => s.protocol))).sort();
+
+    const models: ModelTrainingResult['models'] = [];
+    const skipped: ModelTrainingResult['skipped'] = [];
+    for (const protocol of ['default', ...protocols.filter(p => p !== 'default')]) {
+      const subset = protocol === 'default' ? samples : samples.filter(s => s.protocol === protocol);
+      const positives = subset.filter(s => s.label).length;
+
+      if (subset.length < resolved.minSamples || positives < resolved.minPositives) {
+        skipped.push({
+          protocol,
+          reason: `${subset.length} samples with ${positives} liquidations; need ${resolved.minSamples} and ${resolved.minPositives}`,
+        });
+        continue;
+      }
+
+      models.push(this.fit(protocol, subset, resolved));
+    }
+
+    return { models, skipped, samples: samples.length };
+  }
+
+  async collect(options: ModelTrainingOptions): Promise<TrainingSample[]> {
+    const horizonMs = options.horizonMinutes * 60000;
+    // Labels for the last samples come from snapshots after the window
+    const series = await this.backtester.loadSeries(options.from - TREND_LOOKBACK_MS, options.to + horizonMs);
+    const engine = new RiskEngine(this.riskEngineConfig);
+
+    const samples: TrainingSample[] = [];
+    await this.backtester.replaySnapshots(series, engine, options, (positionId, protocol, position) => {
+      const entry = series.get(positionId)!;
+      const label = this.backtester.outcome(entry, position.timestamp, horizonMs);
+      if (label === null) return;
+
+      const previous = [...entry.snapshots].reverse().find(s => s.timestamp <= position.timestamp - TREND_LOOKBACK_MS);
+      const features = engine.extractModelFeatures(position, previous);
+      if (!features) return;
+
+      samples.push({ positionId, protocol, timestamp: position.timestamp, features, label });
+    });
+
+    return samples.sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  private fit(
+    protocol: string,
+    samples: TrainingSample[],
+    options: ModelTrainingOptions
+  ): Omit<TrainedModel, 'version'> {
+    const training = {
+      epochs: options.epochs,
+      learningRate: options.learningRate,
+      l2: options.l2,
+    };
+
+    // Hold out by time, not at random, so validation never sees the future
+    const split = Math.floor(samples.length * (1 - options.validationFraction));
+    const heldOut = samples.slice(split);
+    const candidate = trainLogisticRegression(
+      samples.slice(0, split).map(s => s.features),
+      samples.slice(0, split).map(s => (s.label ? 1 : 0)),
+      training
+    );
+    const validation = horizonMetrics(
+      heldOut.map(s => ({ predicted: predictProbability(candidate, s.features), actual: s.label })),
+      options.threshold,
+      10
+    );
+
+    const fitted = trainLogisticRegression(
+      samples.map(s => s.features),
+      samples.map(s => (s.label ? 1 : 0)),
+      training
+    );
+
+    return {
+      kind: 'logistic-regression',
+      protocol,
+      horizonMinutes: options.horizonMinutes,
+      features: [...MODEL_FEATURES],
+      ...fitted,
+      trainedAt: Date.now(),
+      window: { from: options.from, to: options.to },
+      samples: samples.length,
+      positives: samples.filter(s => s.label).length,
+      validation,
+    };
+  }
+}
@@ -0,0 +1,74 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+import { Position } from '../monitor/positionMonitor';
+import { createDefaultRegistry } from '../protocols/adapters';
+import { TOKENS } from '../utils/jupiter';
+import { PortfolioAggregator } from './portfolioAggregator';
+import { ScenarioEngine } from './scenarioEngine';
+
+const OWNER = new PublicKey(TOKENS.USDC);
+const SOL = new PublicKey(TOKENS.SOL);
+const USDC = new PublicKey(TOKENS.USDC);
+const offline = { getAccountInfo: async () => null } as unknown as Connection;
+
+// Long SOL on Marginfi, hedged by a SOL borrow against USDC on Kamino
+function positions(): Position[] {
+  return [
+    {
+      id: 'marginfi-1',
+      protocol: 'marginfi',
+      owner: OWNER,
+      collateral: [{ mint: SOL, amount: 10, valueUsd: 1500, liquidationWeight: 0.8 }],
+      debt: [{ mint: USDC, amount: 1000, valueUsd: 1000, liquidationWeight: 1 }],
+      healthFactor: 1.2,
+      timestamp: Date.now(),
+    },
+    {
+      id: 'kamino-1',
+      protocol: 'kamino',
+      owner: OWNER,
+      collateral: [{ mint: USDC, amount: 2000, valueUsd: 2000, liquidationWeight: 0.9 }],
+      debt: [{ mint: SOL, amount: 5, valueUsd: 750 }],
+      healthFactor: 2.4,
+      timestamp: Date.now(),
+    },
+  ];
+}
+
+describe('PortfolioAggregator', () => {
+  let aggregator: PortfolioAggregator;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    aggregator = new PortfolioAggregator(new ScenarioEngine(createDefaultRegistry(offline)));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('nets each asset across protocols', () => {
+    const portfolio = aggregator.aggregate(OWNER.toBase58(), positions());
+
+    expect(portfolio.protocols).toEqual(['kamino', 'marginfi']);
+    expect(portfolio.totals).toMatchObject({ collateralUsd: 3500, debtUsd: 1750, equityUsd: 1750 });
+    expect(portfolio.assets.map(a => [a.symbol, a.netExposureUsd, a.grossExposureUsd])).toEqual([
+      ['USDC', 1000, 3000],
+      ['SOL', 750, 2250],
+    ]);
+    expect(portfolio.concentration.crossProtocolAssets).toEqual([TOKENS.USDC, TOKENS.SOL]);
+    expect(portfolio.weakestPositionId).toBe('marginfi-1');
+  });
+
+  it('offsets gains on one venue against losses on another but not liquidation penalties', () => {
+    const portfolio = aggregator.aggregate(OWNER.toBase58(), positions());
+    const byName = Object.fromEntries(portfolio.stressScenarios.map(s => [s.name, s]));
+
+    expect(Object.keys(byName)).toEqual(['SOL-down', 'SOL-up', 'stablecoin-depeg']);
+    // Marginfi loses $450 and is liquidated ($50 penalty); the Kamino SOL borrow gains $225
+    expect(byName['SOL-down'].shortfallUsd).toBeCloseTo(275, 10);
+    expect(byName['SOL-down'].liquidatedPositions).toEqual(['marginfi-1']);
+    expect(byName['SOL-up'].shortfallUsd).toBe(0);
+    expect(byName['stablecoin-depeg'].shortfallUsd).toBeCloseTo(100, 10);
+    expect(portfolio.worstCase?.name).toBe('SOL-down');
+  });
+});
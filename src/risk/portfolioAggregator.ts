@@ -0,0 +1,294 @@
+import { Position } from '../monitor/positionMonitor';
+import { mintForSymbol, symbolForMint } from '../utils/jupiter';
+import { ASSET_GROUPS, PriceShock, ScenarioEngine } from './scenarioEngine';
+
+export interface PortfolioAssetExposure {
+  // Token mint, or `perp:<symbol>` for perp markets without a known spot mint
+  mint: string;
+  symbol: string | null;
+  collateralAmount: number;
+  collateralUsd: number;
+  debtAmount: number;
+  debtUsd: number;
+  perpLongUsd: number;
+  perpShortUsd: number;
+  // Collateral minus debt plus signed perp notional; positive means the wallet
+  // loses when the asset falls
+  netExposureUsd: number;
+  grossExposureUsd: number;
+  byProtocol: {
+    [protocol: string]: { collateralUsd: number; debtUsd: number; perpNotionalUsd: number };
+  };
+}
+
+export interface PortfolioStressResult {
+  name: string;
+  shocks: PriceShock[];
+  // Net equity lost across every position plus liquidation penalties
+  shortfallUsd: number;
+  badDebtUsd: number;
+  equityAfterUsd: number;
+  liquidatedPositions: string[];
+}
+
+export interface PortfolioRisk {
+  owner: string;
+  positionCount: number;
+  protocols: string[];
+  positions: {
+    id: string;
+    protocol: string;
+    healthFactor: number;
+    collateralUsd: number;
+    debtUsd: number;
+  }[];
+  totals: {
+    collateralUsd: number;
+    debtUsd: number;
+    perpNotionalUsd: number;
+    equityUsd: number;
+  };
+  assets: PortfolioAssetExposure[];
+  concentration: {
+    // Share of gross exposure (collateral + debt + perp notional)
+    largestAsset: { mint: string; symbol: string | null; share: number } | null;
+    // Herfindahl index over gross exposure; 1 means a single asset
+    assetHerfindahl: number;
+    byProtocol: { [protocol: string]: { grossExposureUsd: number; share: number } };
+    protocolHerfindahl: number;
+    // Assets held or owed on more than one protocol
+    crossProtocolAssets: string[];
+  };
+  minHealthFactor: number;
+  weakestPositionId: string | null;
+  worstCase: PortfolioStressResult | null;
+  stressScenarios: PortfolioStressResult[];
+  timestamp: number;
+}
+
+export interface PortfolioOptions {
+  // Move applied to each volatile asset, both ways, in percent
+  shockPercent?: number;
+  stablecoinShockPercent?: number;
+}
+
+const DEFAULT_SHOCK_PERCENT = 30;
+const DEFAULT_STABLECOIN_SHOCK_PERCENT = 10;
+// Assets below this gross exposure are not stressed on their own
+const MIN_STRESS_EXPOSURE_USD = 1;
+
+/**
+ * Rolls every position an owner holds across protocols into one wallet-level
+ * view: balances and perp notional by mint, net exposure, concentration, and
+ * the combined loss under a set of stress moves run through the ScenarioEngine
+ * so each venue is still valued with its own health model.
+ */
+export class PortfolioAggregator {
+  private scenarioEngine: ScenarioEngine;
+
+  constructor(scenarioEngine: ScenarioEngine) {
+    this.scenarioEngine = scenarioEngine;
+  }
+
+  // One portfolio per owner, most exposed (largest worst-case shortfall) first
+  aggregateAll(positions: Position[], options: PortfolioOptions = {}): PortfolioRisk[] {
+    const byOwner = new Map<string, Position[]>();
+    for (const position of positions) {
+      const owner = position.owner.toBase58();
+      byOwner.set(owner, [...(byOwner.get(owner) || []), position]);
+    }
+
+    return Array.from(byOwner.entries())
+      .map(([owner, owned]) => this.aggregate(owner, owned, options))
+      .sort((a, b) => (b.worstCase?.shortfallUsd ?? 0) - (a.worstCase?.shortfallUsd ?? 0));
+  }
+
+  aggregate(owner: string, positions: Position[], options: PortfolioOptions = {}): PortfolioRisk {
+    const owned = positions.filter(p => p.owner.toBase58() === owner);
+    const assets = this.collectAssets(owned);
+
+    const collateralUsd = assets.reduce((sum, a) => sum + a.collateralUsd, 0);
+    const debtUsd = assets.reduce((sum, a) => sum + a.debtUsd, 0);
+    const perpNotionalUsd = assets.reduce((sum, a) => sum + a.perpLongUsd + a.perpShortUsd, 0);
+
+    const weakest = owned.reduce<Position | undefined>(
+      (min, p) => (!min || p.healthFactor < min.healthFactor ? p : min),
+      undefined
+    );
+
+    const stressScenarios = this.stress(owned, assets, options);
+    const worstCase = stressScenarios.reduce<PortfolioStressResult | null>(
+      (worst, s) => (!worst || s.shortfallUsd > worst.shortfallUsd ? s : worst),
+      null
+    );
+
+    return {
+      owner,
+      positionCount: owned.length,
+      protocols: Array.from(new Set(owned.map(p => p.protocol))).sort(),
+      positions: owned.map(p => ({
+        id: p.id,
+        protocol: p.protocol,
+        healthFactor: p.healthFactor,
+        collateralUsd: p.collateral.reduce((sum, c) => sum + c.valueUsd, 0),
+        debtUsd: p.debt.reduce((sum, d) => sum + d.valueUsd, 0),
+      })),
+      totals: {
+        collateralUsd,
+        debtUsd,
+        perpNotionalUsd,
+        equityUsd: collateralUsd - debtUsd,
+      },
+      assets,
+      concentration: this.concentration(assets),
+      minHealthFactor: weakest ? weakest.healthFactor : Infinity,
+      weakestPositionId: weakest ? weakest.id : null,
+      worstCase,
+      stressScenarios,
+      timestamp: Date.now(),
+    };
+  }
+
+  private collectAssets(positions: Position[]): PortfolioAssetExposure[] {
+    const assets = new Map<string, PortfolioAssetExposure>();
+    const entry = (mint: string, protocol: string) => {
+      let asset = assets.get(mint);
+      if (!asset) {
+        asset = {
+          mint,
+          symbol: symbolForMint(mint),
+          collateralAmount: 0,
+          collateralUsd: 0,
+          debtAmount: 0,
+          debtUsd: 0,
+          perpLongUsd: 0,
+          perpShortUsd: 0,
+          netExposureUsd: 0,
+          grossExposureUsd: 0,
+          byProtocol: {},
+        };
+        assets.set(mint, asset);
+      }
+      asset.byProtocol[protocol] = asset.byProtocol[protocol] || { collateralUsd: 0, debtUsd: 0, perpNotionalUsd: 0 };
+      return { asset, venue: asset.byProtocol[protocol] };
+    };
+
+    for (const position of positions) {
+      for (const c of position.collateral) {
+        const { asset, venue } = entry(c.mint.toBase58(), position.protocol);
+        asset.collateralAmount += c.amount;
+        asset.collateralUsd += c.valueUsd;
+        venue.collateralUsd += c.valueUsd;
+      }
+
+      for (const d of position.debt) {
+        const { asset, venue } = entry(d.mint.toBase58(), position.protocol);
+        asset.debtAmount += d.amount;
+        asset.debtUsd += d.valueUsd;
+        venue.debtUsd += d.valueUsd;
+      }
+
+      // Perps count against the spot asset they track, as in the ScenarioEngine
+      for (const perp of position.perpExposure || []) {
+        if (perp.size <= 0) continue;
+        const mint = (perp.symbol ? mintForSymbol(perp.symbol) : null) ?? `perp:${perp.symbol || perp.marketIndex}`;
+        const { asset, venue } = entry(mint, position.protocol);
+        if (asset.symbol === null && perp.symbol) asset.symbol = perp.symbol;
+        if (perp.side === 'long') asset.perpLongUsd += perp.notionalUsd;
+        else asset.perpShortUsd += perp.notionalUsd;
+        venue.perpNotionalUsd += perp.notionalUsd;
+      }
+    }
+
+    for (const asset of assets.values()) {
+      asset.netExposureUsd = asset.collateralUsd - asset.debtUsd + asset.perpLongUsd - asset.perpShortUsd;
+      asset.grossExposureUsd = asset.collateralUsd + asset.debtUsd + asset.perpLongUsd + asset.perpShortUsd;
+    }
+
+    return Array.from(assets.values()).sort((a, b) => b.grossExposureUsd - a.grossExposureUsd);
+  }
+
+  private concentration(assets: PortfolioAssetExposure[]): PortfolioRisk['concentration'] {
+    const gross = assets.reduce((sum, a) => sum + a.grossExposureUsd, 0);
+
+    const protocolExposure: { [protocol: string]: number } = {};
+    for (const asset of assets) {
+      for (const [protocol, venue] of Object.entries(asset.byProtocol)) {
+        protocolExposure[protocol] =
+          (protocolExposure[protocol] || 0) + venue.collateralUsd + venue.debtUsd + venue.perpNotionalUsd;
+      }
+    }
+
+    const byProtocol: PortfolioRisk['concentration']['byProtocol'] = {};
+    for (const [protocol, exposure] of Object.entries(protocolExposure)) {
+      byProtocol[protocol] = { grossExposureUsd: exposure, share: gross > 0 ? exposure / gross : 0 };
+    }
+
+    const largest = assets[0];
+    return {
+      largestAsset: largest && gross > 0
+        ? { mint: largest.mint, symbol: largest.symbol, share: largest.grossExposureUsd / gross }
+        : null,
+      assetHerfindahl: herfindahl(assets.map(a => a.grossExposureUsd)),
+      byProtocol,
+      protocolHerfindahl: herfindahl(Object.values(protocolExposure)),
+      crossProtocolAssets: assets.filter(a => Object.keys(a.byProtocol).length > 1).map(a => a.mint),
+    };
+  }
+
+  /**
+   * Moves each volatile asset down and up on its own (with its correlated
+   * assets), all of them down together, and stablecoins off their peg, and
+   * sums the ScenarioEngine's per-position losses under each.
+   */
+  private stress(
+    positions: Position[],
+    assets: PortfolioAssetExposure[],
+    options: PortfolioOptions
+  ): PortfolioStressResult[] {
+    if (positions.length === 0) return [];
+
+    const shock = options.shockPercent ?? DEFAULT_SHOCK_PERCENT;
+    const stableShock = options.stablecoinShockPercent ?? DEFAULT_STABLECOIN_SHOCK_PERCENT;
+    const stablecoins = ASSET_GROUPS.stablecoin;
+
+    const stressed = assets.filter(a => !a.mint.startsWith('perp:') && a.grossExposureUsd >= MIN_STRESS_EXPOSURE_USD);
+    const volatile = stressed.filter(a => !stablecoins.includes(a.mint));
+
+    const scenarios: { name: string; shocks: PriceShock[] }[] = [];
+    for (const asset of volatile) {
+      const label = asset.symbol || asset.mint;
+      scenarios.push({ name: `${label}-down`, shocks: [{ mint: asset.mint, percent: -shock, correlated: true }] });
+      scenarios.push({ name: `${label}-up`, shocks: [{ mint: asset.mint, percent: shock, correlated: true }] });
+    }
+    if (volatile.length > 1) {
+      scenarios.push({ name: 'market-down', shocks: volatile.map(a => ({ mint: a.mint, percent: -shock })) });
+    }
+    if (stressed.some(a => stablecoins.includes(a.mint))) {
+      scenarios.push({ name: 'stablecoin-depeg', shocks: [{ group: 'stablecoin', percent: -stableShock }] });
+    }
+
+    return scenarios.map(scenario => {
+      const result = this.scenarioEngine.run(positions, { name: scenario.name, shocks: scenario.shocks });
+      const equityBeforeUsd = result.positions.reduce((sum, p) => sum + p.equityBeforeUsd, 0);
+      const equityAfterUsd = result.positions.reduce((sum, p) => sum + p.equityAfterUsd, 0);
+      // Gains on one venue offset price losses on another; liquidation penalties do not net
+      const liquidationLossUsd = result.positions.reduce((sum, p) => sum + p.liquidationLossUsd, 0);
+
+      return {
+        name: scenario.name,
+        shocks: scenario.shocks,
+        shortfallUsd: Math.max(0, equityBeforeUsd - equityAfterUsd) + liquidationLossUsd,
+        badDebtUsd: result.summary.totalBadDebtUsd,
+        equityAfterUsd,
+        liquidatedPositions: result.positions.filter(p => p.liquidated).map(p => p.positionId),
+      };
+    });
+  }
+}
+
+function herfindahl(values: number[]): number {
+  const total = values.reduce((sum, v) => sum + v, 0);
+  if (total <= 0) return 0;
+  return values.reduce((sum, v) => sum + Math.pow(v / total, 2), 0);
+}
@@ -0,0 +1,72 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+import { Position } from '../monitor/positionMonitor';
+import { createDefaultRegistry } from '../protocols/adapters';
+import { JupiterPriceFeed, SwapRouteOptimization, TOKENS } from '../utils/jupiter';
+import { RemediationPlanner } from './remediationPlanner';
+import { RiskEngine } from './riskEngine';
+import { SimulationService } from './simulationService';
+
+const DECIMALS: { [mint: string]: number } = { [TOKENS.SOL]: 9, [TOKENS.USDC]: 6 };
+
+const connection = {
+  getAccountInfo: async () => null,
+  getTokenSupply: async (mint: PublicKey) => ({ value: { decimals: DECIMALS[mint.toBase58()] } }),
+} as unknown as Connection;
+
+// 10 SOL at $150 (80% weight) against $1000 of USDC
+function position(): Position {
+  return {
+    id: 'marginfi-remediation',
+    protocol: 'marginfi',
+    owner: new PublicKey(TOKENS.USDC),
+    collateral: [{ mint: new PublicKey(TOKENS.SOL), amount: 10, valueUsd: 1500, priceUsd: 150, liquidationWeight: 0.8 }],
+    debt: [{ mint: new PublicKey(TOKENS.USDC), amount: 1000, valueUsd: 1000, priceUsd: 1, liquidationWeight: 1 }],
+    healthFactor: 1.2,
+    timestamp: Date.now(),
+  };
+}
+
+describe('RemediationPlanner', () => {
+  let planner: RemediationPlanner;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    const registry = createDefaultRegistry(connection);
+    const jupiter = new JupiterPriceFeed();
+    // Every SOL -> USDC route loses 1%
+    jest.spyOn(jupiter, 'optimizeSwapRoute').mockImplementation(async (_input, _output, amount) => ({
+      optimizedRoute: {
+        outAmount: Math.floor((Number(amount) / 1e9) * 150 * 0.99 * 1e6).toString(),
+        priceImpactPct: '0.3',
+      },
+    }) as unknown as SwapRouteOptimization);
+    const simulation = new SimulationService(connection, registry, new RiskEngine({}), jupiter);
+    planner = new RemediationPlanner(connection, registry, simulation, jupiter);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('recommends the smallest repay that reaches the target', async () => {
+    const plan = await planner.plan(position(), { targetHealthFactor: 1.5 });
+
+    expect(plan.options.map(o => o.strategy).sort()).toEqual(['repay', 'swap', 'top-up']);
+    expect(plan.options.every(o => o.reachesTarget)).toBe(true);
+    expect(plan.recommendation?.strategy).toBe('repay');
+    // 1200 / (1000 - x) = 1.5, plus the sizing buffer
+    expect(plan.recommendation?.capitalRequiredUsd).toBeCloseTo(200.4, 6);
+  });
+
+  it('spends limited capital first and swaps collateral for the rest', async () => {
+    const plan = await planner.plan(position(), { targetHealthFactor: 1.5, maxCapitalUsd: 100 });
+    const swap = plan.options.find(o => o.strategy === 'swap')!;
+
+    expect(plan.recommendation?.strategy).toBe('combined');
+    expect(plan.recommendation?.actions.map(a => a.kind)).toEqual(['repay', 'withdraw', 'swap', 'repay']);
+    expect(plan.recommendation?.capitalRequiredUsd).toBeCloseTo(100, 6);
+    expect(plan.recommendation?.reachesTarget).toBe(true);
+    expect(plan.recommendation!.costUsd).toBeLessThan(swap.costUsd);
+    expect(plan.options.filter(o => o.strategy === 'repay' || o.strategy === 'top-up').every(o => !o.withinBudget)).toBe(true);
+  });
+});
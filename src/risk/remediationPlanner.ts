@@ -0,0 +1,555 @@
+import { Connection } from '@solana/web3.js';
+import { PerpExposure, Position } from '../monitor/positionMonitor';
+import { HealthModel, LiquidationParameters, ProtocolRegistry } from '../protocols/adapter';
+import { JupiterPriceFeed, symbolForMint } from '../utils/jupiter';
+import { getMintDecimals, toNativeAmount } from '../utils/spl';
+import { SimulatedAction, SimulationResult, SimulationService } from './simulationService';
+
+export type RemediationStrategy = 'repay' | 'top-up' | 'swap' | 'reduce-perp' | 'combined';
+
+export interface RemediationRequest {
+  targetHealthFactor: number;
+  // Outside capital available for repays and top-ups; unlimited when omitted
+  maxCapitalUsd?: number;
+}
+
+export interface RemediationOption {
+  strategy: RemediationStrategy;
+  description: string;
+  actions: SimulatedAction[];
+  // Funds that have to come from outside the position (repays, top-ups)
+  capitalRequiredUsd: number;
+  // Value lost to price impact and fees
+  costUsd: number;
+  priceImpactPercent?: number;
+  projectedHealthFactor: number;
+  reachesTarget: boolean;
+  withinBudget: boolean;
+  warnings: string[];
+}
+
+export interface RemediationPlan {
+  positionId: string;
+  protocol: string;
+  healthModel: HealthModel;
+  currentHealthFactor: number;
+  targetHealthFactor: number;
+  maxCapitalUsd: number | null;
+  alreadyHealthy: boolean;
+  recommendation: RemediationOption | null;
+  options: RemediationOption[];
+  timestamp: number;
+}
+
+interface Candidate {
+  strategy: RemediationStrategy;
+  description: string;
+  actions: SimulatedAction[];
+  priceImpactPercent?: number;
+  warnings: string[];
+}
+
+interface Leg {
+  mint: string;
+  amount: number;
+  valueUsd: number;
+  priceUsd: number;
+  weight: number;
+}
+
+interface SwapEstimate {
+  // Fraction of the input value lost between withdrawal and repayment
+  loss: number;
+  priceImpactPercent?: number;
+  warning?: string;
+}
+
+const DEFAULT_SWAP_LOSS_BPS = 50;
+// Taker fee plus impact assumed when closing perps, as in SimulationService
+const PERP_FEE_BPS = 10;
+const DEFAULT_COLLATERAL_WEIGHT = 0.85;
+const DEFAULT_MAINTENANCE_MARGIN_RATIO = 0.05;
+const MIN_ACTION_USD = 1;
+// Collateral and debt legs tried for swaps; every pair costs a few Jupiter quotes
+const MAX_SWAP_LEGS = 2;
+const MAX_QUOTE_ROUNDS = 2;
+// Sizes are nudged up so rounding does not land a hair short of the target
+const SIZING_BUFFER = 1.002;
+const CACHE_TTL_MS = 30000;
+
+/**
+ * Finds the cheapest way back to a target health factor: repaying debt,
+ * topping up collateral, swapping collateral into the debt it backs (priced
+ * through Jupiter route optimization), trimming perps, or a mix when outside
+ * capital is limited. Candidates are sized in the protocol's health model and
+ * each is verified through the SimulationService before being ranked.
+ */
+export class RemediationPlanner {
+  private connection: Connection;
+  private registry: ProtocolRegistry;
+  private simulationService: SimulationService;
+  private jupiter: JupiterPriceFeed;
+  private cache: Map<string, { plan: RemediationPlan; healthFactor: number; timestamp: number }> = new Map();
+
+  constructor(
+    connection: Connection,
+    registry: ProtocolRegistry,
+    simulationService: SimulationService,
+    jupiter: JupiterPriceFeed
+  ) {
+    this.connection = connection;
+    this.registry = registry;
+    this.simulationService = simulationService;
+    this.jupiter = jupiter;
+  }
+
+  async plan(
+    position: Position,
+    request: RemediationRequest,
+    liquidationParameters?: LiquidationParameters | null
+  ): Promise<RemediationPlan> {
+    const { targetHealthFactor } = request;
+    const maxCapitalUsd = request.maxCapitalUsd ?? Infinity;
+
+    // Critical alerts re-plan every cycle; reuse the result while the position is unchanged
+    const cacheKey = `${position.id}:${targetHealthFactor}:${maxCapitalUsd}`;
+    const cached = this.cache.get(cacheKey);
+    if (cached && cached.healthFactor === position.healthFactor && Date.now() - cached.timestamp < CACHE_TTL_MS) {
+      return cached.plan;
+    }
+
+    const healthModel = this.registry.get(position.protocol)?.healthModel
+      ?? (position.perpExposure?.length ? 'maintenance-margin' : 'weighted-collateral');
+    const base = {
+      positionId: position.id,
+      protocol: position.protocol,
+      healthModel,
+      currentHealthFactor: position.healthFactor,
+      targetHealthFactor,
+      maxCapitalUsd: Number.isFinite(maxCapitalUsd) ? maxCapitalUsd : null,
+    };
+
+    if (!(position.healthFactor < targetHealthFactor)) {
+      return { ...base, alreadyHealthy: true, recommendation: null, options: [], timestamp: Date.now() };
+    }
+
+    const candidates = healthModel === 'maintenance-margin'
+      ? this.marginCandidates(position, targetHealthFactor, maxCapitalUsd)
+      : await this.lendingCandidates(position, healthModel, targetHealthFactor, maxCapitalUsd);
+
+    const options: RemediationOption[] = [];
+    for (const candidate of candidates) {
+      try {
+        const result = await this.simulationService.simulate(
+          position,
+          { actions: candidate.actions, targetHealthFactor, quoteSwaps: false },
+          liquidationParameters
+        );
+        options.push(this.toOption(candidate, result, maxCapitalUsd));
+      } catch (error) {
+        console.error(
+          `[REMEDIATION] Dropping ${candidate.strategy} option for ${position.id}:`,
+          error instanceof Error ? error.message : error
+        );
+      }
+    }
+
+    options.sort(compareOptions);
+    const plan: RemediationPlan = {
+      ...base,
+      alreadyHealthy: false,
+      recommendation: options[0] ?? null,
+      options,
+      timestamp: Date.now(),
+    };
+
+    this.pruneCache();
+    this.cache.set(cacheKey, { plan, healthFactor: position.healthFactor, timestamp: Date.now() });
+    return plan;
+  }
+
+  // Marginfi / Kamino: repay, top up, or withdraw-swap-repay
+  private async lendingCandidates(
+    position: Position,
+    healthModel: HealthModel,
+    targetHealthFactor: number,
+    maxCapitalUsd: number
+  ): Promise<Candidate[]> {
+    const fallback = position.liquidationThreshold || DEFAULT_COLLATERAL_WEIGHT;
+    const collateral = toLegs(position.collateral, c => c.liquidationWeight ?? fallback)
+      .sort((a, b) => b.valueUsd * b.weight - a.valueUsd * a.weight);
+    // Kamino borrow factors are not decoded; treat borrows at face value
+    const debt = toLegs(position.debt, d => (healthModel === 'liquidation-threshold' ? 1 : d.liquidationWeight ?? 1))
+      .sort((a, b) => b.valueUsd * b.weight - a.valueUsd * a.weight);
+
+    const weightedCollateral = collateral.reduce((sum, c) => sum + c.valueUsd * c.weight, 0);
+    const weightedDebt = debt.reduce((sum, d) => sum + d.valueUsd * d.weight, 0);
+    if (weightedDebt <= 0) return [];
+
+    const target = modelTarget(position, weightedCollateral / weightedDebt, targetHealthFactor);
+    const candidates: Candidate[] = [];
+
+    // WC / (WD - wd r) = target
+    for (const d of debt) {
+      const repayUsd = Math.min(((weightedDebt - weightedCollateral / target) / d.weight) * SIZING_BUFFER, d.valueUsd);
+      if (repayUsd < MIN_ACTION_USD) continue;
+      candidates.push({
+        strategy: 'repay',
+        description: `Repay ${describeAmount(repayUsd, d)}`,
+        actions: [{ kind: 'repay', mint: d.mint, amount: repayUsd / d.priceUsd }],
+        warnings: [],
+      });
+    }
+
+    // (WC + wc x) / WD = target
+    for (const c of collateral) {
+      if (c.weight <= 0) continue;
+      const depositUsd = ((target * weightedDebt - weightedCollateral) / c.weight) * SIZING_BUFFER;
+      if (depositUsd < MIN_ACTION_USD) continue;
+      candidates.push({
+        strategy: 'top-up',
+        description: `Deposit ${describeAmount(depositUsd, c)} as collateral`,
+        actions: [{ kind: 'deposit', mint: c.mint, amount: depositUsd / c.priceUsd }],
+        warnings: [],
+      });
+    }
+
+    let cheapestSwap: { c: Leg; d: Leg; estimate: SwapEstimate } | null = null;
+    for (const c of collateral.slice(0, MAX_SWAP_LEGS)) {
+      for (const d of debt.slice(0, MAX_SWAP_LEGS)) {
+        const swap = await this.sizeSwap(c, d, weightedCollateral, weightedDebt, target);
+        if (!swap) continue;
+
+        candidates.push(swapCandidate('swap', c, d, swap.withdrawUsd, swap.estimate));
+        if (!cheapestSwap || swap.estimate.loss < cheapestSwap.estimate.loss) {
+          cheapestSwap = { c, d, estimate: swap.estimate };
+        }
+      }
+    }
+
+    // Limited outside capital: spend it on whichever of repay or top-up moves
+    // health furthest, then cover the rest by swapping collateral
+    if (Number.isFinite(maxCapitalUsd) && maxCapitalUsd >= MIN_ACTION_USD && cheapestSwap && debt[0] && collateral[0]) {
+      const d = debt[0];
+      const c = collateral[0];
+      const repayUsd = Math.min(maxCapitalUsd, d.valueUsd);
+      const afterRepay = weightedCollateral / (weightedDebt - d.weight * repayUsd);
+      const afterTopUp = (weightedCollateral + c.weight * maxCapitalUsd) / weightedDebt;
+
+      const useRepay = afterRepay >= afterTopUp;
+      const external: SimulatedAction = useRepay
+        ? { kind: 'repay', mint: d.mint, amount: repayUsd / d.priceUsd }
+        : { kind: 'deposit', mint: c.mint, amount: maxCapitalUsd / c.priceUsd };
+      const remainingCollateral = useRepay ? weightedCollateral : weightedCollateral + c.weight * maxCapitalUsd;
+      const remainingDebt = useRepay ? weightedDebt - d.weight * repayUsd : weightedDebt;
+
+      if (remainingDebt > 0 && remainingCollateral / remainingDebt < target) {
+        const swapDebt = useRepay && cheapestSwap.d.mint === d.mint
+          ? { ...d, amount: d.amount - repayUsd / d.priceUsd, valueUsd: d.valueUsd - repayUsd }
+          : cheapestSwap.d;
+        const withdrawUsd = swapSize(
+          cheapestSwap.c, swapDebt, remainingCollateral, remainingDebt, target, cheapestSwap.estimate.loss
+        );
+
+        if (withdrawUsd !== null) {
+          candidates.push(swapCandidate('combined', cheapestSwap.c, swapDebt, withdrawUsd, cheapestSwap.estimate, {
+            action: external,
+            description: useRepay
+              ? `Repay ${describeAmount(repayUsd, d)}`
+              : `Deposit ${describeAmount(maxCapitalUsd, c)}`,
+          }));
+        }
+      }
+    }
+
+    return candidates;
+  }
+
+  // Drift: top up the quote collateral, trim perps, or both when capital is limited
+  private marginCandidates(position: Position, targetHealthFactor: number, maxCapitalUsd: number): Candidate[] {
+    const collateral = position.collateral.reduce((sum, c) => sum + c.valueUsd * (c.liquidationWeight ?? 1), 0);
+    const perps = (position.perpExposure || []).filter(p => p.size > 0 && p.notionalUsd > 0);
+    // Spot borrows add their weighted value to the maintenance requirement
+    const requirement = perps.reduce(
+      (sum, p) => sum + p.notionalUsd * marginRatio(p),
+      position.debt.reduce((sum, d) => sum + d.valueUsd * (d.liquidationWeight ?? 1), 0)
+    );
+    if (requirement <= 0) return [];
+
+    const target = modelTarget(position, collateral / requirement, targetHealthFactor);
+    const candidates: Candidate[] = [];
+
+    // Top up with the deposit margin counts most fully, the quote asset when held
+    const quote = position.collateral.reduce<Position['collateral'][number] | undefined>(
+      (best, c) => (!best || (c.liquidationWeight ?? 1) > (best.liquidationWeight ?? 1) ? c : best),
+      undefined
+    );
+    const quoteLeg = quote ? toLegs([quote], c => c.liquidationWeight ?? 1)[0] : undefined;
+    if (quoteLeg && quoteLeg.weight > 0) {
+      const depositUsd = ((target * requirement - collateral) / quoteLeg.weight) * SIZING_BUFFER;
+      if (depositUsd >= MIN_ACTION_USD) {
+        candidates.push({
+          strategy: 'top-up',
+          description: `Deposit ${describeAmount(depositUsd, quoteLeg)} as margin`,
+          actions: [{ kind: 'deposit', mint: quoteLeg.mint, amount: depositUsd / quoteLeg.priceUsd }],
+          warnings: [],
+        });
+      }
+    }
+
+    const reduction = planPerpReduction(perps, collateral, requirement, target);
+    if (reduction.length > 0) {
+      candidates.push({
+        strategy: 'reduce-perp',
+        description: describePerpReduction(perps, reduction),
+        actions: reduction,
+        warnings: [],
+      });
+    }
+
+    if (Number.isFinite(maxCapitalUsd) && maxCapitalUsd >= MIN_ACTION_USD && quoteLeg && quoteLeg.weight > 0) {
+      const toppedUp = collateral + quoteLeg.weight * maxCapitalUsd;
+      const remainder = toppedUp / requirement < target ? planPerpReduction(perps, toppedUp, requirement, target) : [];
+      if (remainder.length > 0) {
+        candidates.push({
+          strategy: 'combined',
+          description: `Deposit ${describeAmount(maxCapitalUsd, quoteLeg)} as margin, then ${
+            describePerpReduction(perps, remainder, 'reduce')}`,
+          actions: [{ kind: 'deposit', mint: quoteLeg.mint, amount: maxCapitalUsd / quoteLeg.priceUsd }, ...remainder],
+          warnings: [],
+        });
+      }
+    }
+
+    return candidates;
+  }
+
+  /**
+   * Sizes a withdraw-swap-repay through c into d, re-quoting the route at the
+   * new size until the realised loss stops moving the answer.
+   */
+  private async sizeSwap(
+    c: Leg,
+    d: Leg,
+    weightedCollateral: number,
+    weightedDebt: number,
+    target: number
+  ): Promise<{ withdrawUsd: number; estimate: SwapEstimate } | null> {
+    if (c.mint === d.mint) {
+      const withdrawUsd = swapSize(c, d, weightedCollateral, weightedDebt, target, 0);
+      return withdrawUsd === null ? null : { withdrawUsd, estimate: { loss: 0 } };
+    }
+
+    let estimate: SwapEstimate = { loss: DEFAULT_SWAP_LOSS_BPS / 10000 };
+    let withdrawUsd = swapSize(c, d, weightedCollateral, weightedDebt, target, estimate.loss);
+
+    for (let round = 0; round < MAX_QUOTE_ROUNDS && withdrawUsd !== null; round++) {
+      estimate = await this.estimateSwap(c, d, withdrawUsd);
+      const resized: number | null = swapSize(c, d, weightedCollateral, weightedDebt, target, estimate.loss);
+      const converged = resized !== null && Math.abs(resized - withdrawUsd) <= withdrawUsd * 0.05;
+      withdrawUsd = resized;
+      if (converged || estimate.warning) break;
+    }
+
+    return withdrawUsd === null ? null : { withdrawUsd, estimate };
+  }
+
+  private async estimateSwap(c: Leg, d: Leg, inputUsd: number): Promise<SwapEstimate> {
+    try {
+      const [inputDecimals, outputDecimals] = await Promise.all([
+        getMintDecimals(this.connection, c.mint),
+        getMintDecimals(this.connection, d.mint),
+      ]);
+      const optimization = await this.jupiter.optimizeSwapRoute(
+        c.mint,
+        d.mint,
+        toNativeAmount(inputUsd / c.priceUsd, inputDecimals).toString()
+      );
+
+      const route = optimization.optimizedRoute;
+      const outputUsd = (Number(route.outAmount) / Math.pow(10, outputDecimals)) * d.priceUsd;
+      return {
+        loss: Math.min(Math.max(0, 1 - outputUsd / inputUsd), 0.9999),
+        priceImpactPercent: this.jupiter.calculatePriceImpact(route).percentage,
+      };
+    } catch (error) {
+      return {
+        loss: DEFAULT_SWAP_LOSS_BPS / 10000,
+        warning: `No Jupiter route for ${label(c.mint)} -> ${label(d.mint)} (${
+          error instanceof Error ? error.message : error}); assumed ${DEFAULT_SWAP_LOSS_BPS} bps`,
+      };
+    }
+  }
+
+  private toOption(candidate: Candidate, result: SimulationResult, maxCapitalUsd: number): RemediationOption {
+    const capitalRequiredUsd = result.actions.reduce(
+      (sum, r) => sum + (r.externallyFunded && r.amount > 0 ? r.externallyFunded * (r.valueUsd / r.amount) : 0),
+      0
+    );
+
+    return {
+      strategy: candidate.strategy,
+      description: candidate.description,
+      actions: candidate.actions,
+      capitalRequiredUsd,
+      costUsd: result.slippageCostUsd,
+      priceImpactPercent: candidate.priceImpactPercent,
+      projectedHealthFactor: result.projectedHealthFactor,
+      reachesTarget: result.restoresHealth,
+      withinBudget: capitalRequiredUsd <= maxCapitalUsd + 0.01,
+      warnings: [...candidate.warnings, ...result.actions.flatMap(r => r.warnings)],
+    };
+  }
+
+  private pruneCache(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.cache) {
+      if (now - entry.timestamp >= CACHE_TTL_MS) this.cache.delete(key);
+    }
+  }
+}
+
+// Options that reach the target within budget come first, cheapest first;
+// the rest are ordered by how close they get
+function compareOptions(a: RemediationOption, b: RemediationOption): number {
+  const feasibleA = a.reachesTarget && a.withinBudget;
+  const feasibleB = b.reachesTarget && b.withinBudget;
+  if (feasibleA !== feasibleB) return feasibleA ? -1 : 1;
+  if (!feasibleA) return b.projectedHealthFactor - a.projectedHealthFactor;
+  return a.costUsd - b.costUsd || a.capitalRequiredUsd - b.capitalRequiredUsd;
+}
+
+// Target in model terms, anchored on the protocol-reported health like ScenarioEngine
+function modelTarget(position: Position, modelHealth: number, targetHealthFactor: number): number {
+  const scale =
+    Number.isFinite(position.healthFactor) && position.healthFactor > 0 &&
+    Number.isFinite(modelHealth) && modelHealth > 0
+      ? position.healthFactor / modelHealth
+      : 1;
+  return targetHealthFactor / scale;
+}
+
+function toLegs(balances: Position['collateral'], weight: (balance: Position['collateral'][number]) => number): Leg[] {
+  return balances
+    .filter(b => b.valueUsd > 0 && b.amount > 0)
+    .map(b => ({
+      mint: b.mint.toBase58(),
+      amount: b.amount,
+      valueUsd: b.valueUsd,
+      priceUsd: b.priceUsd || b.valueUsd / b.amount,
+      weight: weight(b),
+    }));
+}
+
+// Withdrawing x of c and repaying x (1 - s) of d reaches the target when
+// (WC - wc x) / (WD - wd x (1 - s)) = target
+function swapSize(
+  c: Leg,
+  d: Leg,
+  weightedCollateral: number,
+  weightedDebt: number,
+  target: number,
+  loss: number
+): number | null {
+  const retained = 1 - loss;
+  const denominator = target * d.weight * retained - c.weight;
+  if (denominator <= 0) return null;
+
+  const withdrawUsd = Math.min(
+    ((target * weightedDebt - weightedCollateral) / denominator) * SIZING_BUFFER,
+    c.valueUsd,
+    d.valueUsd / retained
+  );
+  return withdrawUsd >= MIN_ACTION_USD ? withdrawUsd : null;
+}
+
+// lead is an externally funded repay or deposit that runs before the swap
+function swapCandidate(
+  strategy: RemediationStrategy,
+  c: Leg,
+  d: Leg,
+  withdrawUsd: number,
+  estimate: SwapEstimate,
+  lead?: { action: SimulatedAction; description: string }
+): Candidate {
+  const withdraw: SimulatedAction = { kind: 'withdraw', mint: c.mint, amount: Math.min(withdrawUsd / c.priceUsd, c.amount) };
+  const prefix = lead ? `${lead.description}, then withdraw` : 'Withdraw';
+  const leading = lead ? [lead.action] : [];
+
+  if (c.mint === d.mint) {
+    return {
+      strategy,
+      description: `${prefix} ${describeAmount(withdrawUsd, c)} and repay it`,
+      actions: [...leading, withdraw, { kind: 'repay', mint: d.mint }],
+      warnings: [],
+    };
+  }
+
+  return {
+    strategy,
+    description: `${prefix} ${describeAmount(withdrawUsd, c)}, swap to ${label(d.mint)} and repay`,
+    actions: [
+      ...leading,
+      withdraw,
+      // The realised route loss stands in for slippage so the simulation prices it in
+      { kind: 'swap', mint: c.mint, outputMint: d.mint, slippageBps: Math.ceil(estimate.loss * 10000) },
+      { kind: 'repay', mint: d.mint },
+    ],
+    priceImpactPercent: estimate.priceImpactPercent,
+    warnings: estimate.warning ? [estimate.warning] : [],
+  };
+}
+
+function marginRatio(perp: PerpExposure): number {
+  return perp.maintenanceMarginRatio ?? DEFAULT_MAINTENANCE_MARGIN_RATIO;
+}
+
+// Closes notional n of a perp: (C - n f) / (R - n m) = target, trimming the
+// markets that free the most margin per dollar first
+function planPerpReduction(
+  perps: PerpExposure[],
+  collateral: number,
+  requirement: number,
+  target: number
+): SimulatedAction[] {
+  const fee = PERP_FEE_BPS / 10000;
+  const actions: SimulatedAction[] = [];
+
+  for (const perp of [...perps].sort((a, b) => marginRatio(b) - marginRatio(a))) {
+    if (requirement <= 0 || collateral / requirement >= target) break;
+
+    const denominator = target * marginRatio(perp) - fee;
+    if (denominator <= 0) continue;
+
+    const notionalUsd = Math.min(((target * requirement - collateral) / denominator) * SIZING_BUFFER, perp.notionalUsd);
+    if (notionalUsd < MIN_ACTION_USD) continue;
+
+    actions.push({
+      kind: 'reduce-perp',
+      marketIndex: perp.marketIndex,
+      amount: Math.min(perp.size * (notionalUsd / perp.notionalUsd), perp.size),
+      slippageBps: PERP_FEE_BPS,
+    });
+    collateral -= notionalUsd * fee;
+    requirement -= notionalUsd * marginRatio(perp);
+  }
+
+  return actions;
+}
+
+function describePerpReduction(perps: PerpExposure[], actions: SimulatedAction[], verb: string = 'Reduce'): string {
+  const parts = actions.map(action => {
+    const perp = perps.find(p => p.marketIndex === action.marketIndex)!;
+    const notionalUsd = perp.notionalUsd * (action.amount! / perp.size);
+    return `${perp.symbol || `perp-${perp.marketIndex}`} ${perp.side} by ${action.amount!.toFixed(4)} ($${notionalUsd.toFixed(2)})`;
+  });
+  return `${verb} ${parts.join(', ')}`;
+}
+
+function describeAmount(valueUsd: number, leg: Leg): string {
+  return `${(valueUsd / leg.priceUsd).toFixed(4)} ${label(leg.mint)} ($${valueUsd.toFixed(2)})`;
+}
+
+function label(mint: string): string {
+  return symbolForMint(mint) ?? `${mint.slice(0, 4)}...${mint.slice(-4)}`;
+}
@@ -0,0 +1,202 @@
+import { PublicKey } from '@solana/web3.js';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { Position } from '../monitor/positionMonitor';
+import { ModelStore } from '../storage/modelStore';
+import { PriceCandle } from '../storage/priceHistoryStore';
+import { ConsensusPriceOracle } from '../prices/priceOracle';
+import { TOKENS } from '../utils/jupiter';
+import { MODEL_FEATURES } from './liquidationModel';
+import { RiskEngine } from './riskEngine';
+
+const MINUTE = 60 * 1000;
+const NOW = Date.now();
+
+function fixedOracle(prices: { [mint: string]: number }): ConsensusPriceOracle {
+  return new ConsensusPriceOracle([
+    {
+      name: 'fixed',
+      getPrice: async mint => (prices[mint] ? { source: 'fixed', mint, price: prices[mint], publishedAt: Date.now() } : null),
+    },
+  ]);
+}
+
+// Minute candles ending now; step(i) is the log return into candle i
+function candles(mint: string, start: number, count: number, step: (i: number) => number): PriceCandle[] {
+  const result: PriceCandle[] = [];
+  let price = start;
+  for (let i = 0; i < count; i++) {
+    const open = price;
+    price = open * Math.exp(step(i));
+    result.push({
+      mint,
+      openTime: NOW - (count - i) * MINUTE,
+      intervalMs: MINUTE,
+      open,
+      high: Math.max(open, price) * 1.001,
+      low: Math.min(open, price) * 0.999,
+      close: price,
+      volume: 1000 + (i % 7) * 50,
+      samples: 1,
+      sources: [],
+    });
+  }
+  return result;
+}
+
+function lendingPosition(healthFactor: number, solPrice = 150): Position {
+  return {
+    id: 'marginfi-test',
+    protocol: 'marginfi',
+    owner: new PublicKey(TOKENS.USDC),
+    collateral: [{ mint: new PublicKey(TOKENS.SOL), amount: 10, valueUsd: 10 * solPrice, priceUsd: solPrice, liquidationWeight: 0.8 }],
+    debt: [{ mint: new PublicKey(TOKENS.USDC), amount: 1000, valueUsd: 1000, priceUsd: 1, liquidationWeight: 1 }],
+    healthFactor,
+    timestamp: NOW,
+  };
+}
+
+function engine(): RiskEngine {
+  const risk = new RiskEngine({
+    liquidationWarningThreshold: 1.3,
+    criticalHealthThreshold: 1.1,
+    predictionHorizonMinutes: 30,
+    monteCarloPaths: 400,
+    monteCarloSeed: 7,
+  });
+  risk.setPriceOracle(fixedOracle({ [TOKENS.SOL]: 150, [TOKENS.USDC]: 1 }));
+  return risk;
+}
+
+describe('RiskEngine', () => {
+  it('scores a position without any price history', async () => {
+    const risk = engine();
+    const position = lendingPosition(2);
+
+    const score = await risk.calculateRisk(position);
+    expect(score.volatilityMetrics.garchVolatility).toBe(0);
+    expect(score.movingAverages.sma20).toBe(150);
+    expect(score.mlRiskScore).toBe(0);
+    expect(score.riskLevel).toBe('low');
+
+    const prediction = await risk.predictLiquidation(position);
+    // Only the distance to the liquidation price (17%) has anything to go on
+    expect(prediction.factors.map(f => f.id)).toEqual(['liquidation_distance']);
+    expect(prediction.probability).toBeCloseTo(0.1, 10);
+    expect(prediction.mlFeatures.volumeProfile).toBe(1);
+    expect(prediction.predictionAccuracy).toBeNull();
+    expect(Object.keys(prediction.riskHeatmap.timeframes)).toEqual(['5min', '15min', '30min', '1hour', '4hour']);
+  });
+
+  it('scores and predicts a position with a falling, volatile collateral', async () => {
+    const risk = engine();
+    risk.updatePriceHistory(TOKENS.SOL, candles(TOKENS.SOL, 180, 120, i => -0.0015 + 0.01 * Math.sin(i * 1.7)));
+    risk.updatePriceHistory(TOKENS.USDC, candles(TOKENS.USDC, 1, 120, i => 0.0001 * Math.sin(i)));
+    const position = lendingPosition(1.08);
+
+    const score = await risk.calculateRisk(position);
+    expect(score.volatilityMetrics.historicalVolatility).toBeGreaterThan(0);
+    expect(score.volatilityMetrics.garchVolatility).toBeGreaterThan(0);
+    expect(score.volatilityMetrics.parkinsonVolatility).toBeGreaterThan(0);
+    expect(score.movingAverages.sma5).toBeLessThan(score.movingAverages.sma50);
+    expect(score.mlRiskScore).toBeGreaterThan(0);
+    expect(score.mlRiskScore).toBeLessThanOrEqual(1);
+    expect(score.riskLevel).toBe('critical');
+
+    const prediction = await risk.predictLiquidation(position);
+    expect(prediction.probability).toBeGreaterThan(0);
+    expect(prediction.probability).toBeLessThanOrEqual(0.98);
+    expect(prediction.mlFeatures.priceVelocity).toBeLessThan(0);
+
+    const { timeframes, factors } = prediction.riskHeatmap;
+    expect(timeframes['1hour']).toBeCloseTo(prediction.hourlyProbability, 6);
+    const ordered = [timeframes['5min'], timeframes['15min'], timeframes['30min'], timeframes['1hour'], timeframes['4hour']];
+    for (let i = 1; i < ordered.length; i++) {
+      expect(ordered[i]).toBeGreaterThanOrEqual(ordered[i - 1]);
+    }
+    expect(factors.health).toBeGreaterThan(0.9);
+  });
+
+  it('attributes the whole probability to its factors', async () => {
+    const risk = engine();
+    risk.updatePriceHistory(TOKENS.SOL, candles(TOKENS.SOL, 180, 120, i => -0.0015 + 0.01 * Math.sin(i * 1.7)));
+    risk.updatePriceHistory(TOKENS.USDC, candles(TOKENS.USDC, 1, 120, i => 0.0001 * Math.sin(i)));
+
+    for (const healthFactor of [0.99, 1.02, 1.08, 1.25, 2]) {
+      const prediction = await risk.predictLiquidation(lendingPosition(healthFactor));
+      const total = prediction.factors.reduce((sum, factor) => sum + factor.contribution, 0);
+
+      expect(prediction.factors.length).toBeGreaterThan(0);
+      expect(total).toBeCloseTo(prediction.probability, 12);
+      for (const factor of prediction.factors.filter(f => f.superseded)) {
+        expect(factor.contribution).toBe(0);
+      }
+    }
+  });
+
+  it('gives each collateral its own liquidation price with the others held fixed', () => {
+    const position = lendingPosition(1.45);
+    // BONK alone cannot cover the $450 weighted buffer, so no BONK price liquidates
+    position.collateral.push({ mint: new PublicKey(TOKENS.BONK), amount: 25_000_000, valueUsd: 500, priceUsd: 0.00002, liquidationWeight: 0.5 });
+
+    const { perAsset, uniformCollateralDrawdown } = engine().calculateLiquidationPrices(position);
+
+    expect(perAsset.map(a => [a.mint, a.side, a.liquidationPrice])).toEqual([
+      [TOKENS.SOL, 'collateral', 93.75],
+      [TOKENS.BONK, 'collateral', null],
+    ]);
+    expect(perAsset[0].distancePercent).toBeCloseTo(-37.5, 10);
+    expect(uniformCollateralDrawdown).toBeCloseTo((1 - 1000 / 1450) * 100, 10);
+  });
+
+  it('serves the probability from a trained model file', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'sentinel-models-'));
+    try {
+      // Every feature weighted zero, so the bias alone sets the probability
+      await fs.writeFile(
+        path.join(dir, 'marginfi-v1.json'),
+        JSON.stringify({
+          kind: 'logistic-regression',
+          protocol: 'marginfi',
+          version: 1,
+          horizonMinutes: 30,
+          features: MODEL_FEATURES,
+          means: MODEL_FEATURES.map(() => 0),
+          stds: MODEL_FEATURES.map(() => 1),
+          weights: MODEL_FEATURES.map(() => 0),
+          bias: -1,
+          trainedAt: NOW,
+          window: { from: NOW - 30 * 24 * 60 * MINUTE, to: NOW },
+          samples: 500,
+          positives: 40,
+          validation: {
+            samples: 100,
+            positives: 8,
+            baseRate: 0.08,
+            brierScore: 0.06,
+            brierSkillScore: 0.2,
+            expectedCalibrationError: 0.04,
+            precision: 0.5,
+            recall: 0.5,
+            calibration: [],
+          },
+        })
+      );
+
+      const risk = engine();
+      const [model] = await new ModelStore(dir).loadLatest();
+      risk.loadModel(model);
+      risk.updatePriceHistory(TOKENS.SOL, candles(TOKENS.SOL, 180, 120, i => -0.0015 + 0.01 * Math.sin(i * 1.7)));
+      risk.updatePriceHistory(TOKENS.USDC, candles(TOKENS.USDC, 1, 120, i => 0.0001 * Math.sin(i)));
+
+      const prediction = await risk.predictLiquidation(lendingPosition(1.08));
+
+      expect(prediction.probability).toBeCloseTo(1 / (1 + Math.exp(1)), 10);
+      const served = prediction.factors.filter(f => f.contribution !== 0);
+      expect(served.map(f => f.id)).toEqual(['trained_model']);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -1,5 +1,24 @@
 import { Position } from '../monitor/positionMonitor';
-import axios from 'axios';
+import { PriceCandle } from '../storage/priceHistoryStore';
+import { ConsensusPriceOracle, PriceResult } from '../prices/priceOracle';
+import { CoinGeckoOracleSource, JupiterOracleSource } from '../prices/oracleSources';
+import { jupiterPriceFeed, mintForSymbol, symbolForMint, TOKENS } from '../utils/jupiter';
+import { CorrelationEstimator, DepegEvent, PEGGED_PAIRS } from './correlationEstimator';
+import {
+  LiquidationSimulation,
+  LiquidationSimulator,
+  SIMULATION_TIMEFRAMES,
+  SimulationTimeframe,
+} from './liquidationSimulator';
+import { fitGarch, forecastVariance, VolatilityModel } from './volatilityModel';
+import { BacktestResult } from './backtester';
+import { FactorAttribution, RiskFactor } from './factorAttribution';
+import { RiskPolicy, RiskThresholds } from './riskPolicy';
+import { MODEL_FEATURES, predictProbability, TrainedModel, TREND_LOOKBACK_MS } from './liquidationModel';
+
+const STABLECOIN_MINTS = new Set<string>([TOKENS.USDC, TOKENS.USDT]);
+// Labeled outcomes kept per position for prediction accuracy
+const PREDICTION_HISTORY_LIMIT = 200;
 
 export interface RiskScore {
   positionId: string;
@@ -8,7 +27,10 @@ export interface RiskScore {
   collateralRatio: number;
   volatilityScore: number;
   liquidationPrice: number;
+  liquidationPrices: LiquidationPriceBreakdown;
   currentPrice: number;
+  priceSource: 'consensus' | 'protocol' | 'unavailable';
+  priceSources: string[];
   distanceToLiquidation: number;
   timestamp: number;
   movingAverages: {
@@ -50,12 +72,29 @@ export interface RiskScore {
   };
 }
 
+export interface AssetLiquidationPrice {
+  mint: string;
+  side: 'collateral' | 'debt' | 'perp';
+  marketIndex?: number;
+  currentPrice: number;
+  // null when moving this asset alone cannot trigger liquidation
+  liquidationPrice: number | null;
+  distancePercent: number | null;
+}
+
+export interface LiquidationPriceBreakdown {
+  perAsset: AssetLiquidationPrice[];
+  // Percent every collateral price can fall together before liquidation
+  uniformCollateralDrawdown: number | null;
+}
+
 export interface LiquidationPrediction {
   positionId: string;
   probability: number;
   minutesToLiquidation: number;
   confidence: number;
-  factors: string[];
+  // What moved the probability, in the order applied; contributions sum to it
+  factors: RiskFactor[];
   mlFeatures: {
     priceVelocity: number;
     volatilityTrend: number;
@@ -67,7 +106,8 @@ export interface LiquidationPrediction {
   };
   thirtyMinuteProbability: number;
   hourlyProbability: number;
-  predictionAccuracy: number;
+  // Share of backtested predictions for the position that called the outcome; null before any
+  predictionAccuracy: number | null;
   riskHeatmap: {
     timeframes: {
       '5min': number;
@@ -86,6 +126,74 @@ export interface LiquidationPrediction {
   };
 }
 
+export interface JointRiskEstimate {
+  positionId: string;
+  // Std dev of log health factor per candle interval, from the full covariance matrix
+  healthVolatility: number;
+  intervalMs: number;
+  // Exposure-weighted correlation between legs that hurt together (0-1)
+  correlationScore: number;
+  // Share of the position's price sensitivity backed by recorded history
+  coverage: number;
+  exposures: {
+    mint: string;
+    // d ln(health) / d ln(price)
+    sensitivity: number;
+    volatility: number | null;
+  }[];
+  // Chance health reaches 1.0 within each horizon
+  probabilities: {
+    '5min': number;
+    '15min': number;
+    '30min': number;
+    '1hour': number;
+    '4hour': number;
+  };
+  depegs: DepegEvent[];
+}
+
+const JOINT_RISK_HORIZONS: { [key in keyof JointRiskEstimate['probabilities']]: number } = {
+  '5min': 5,
+  '15min': 15,
+  '30min': 30,
+  '1hour': 60,
+  '4hour': 240,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Window priceVelocity measures the price change over
+const VELOCITY_WINDOW_MS = 60 * 60 * 1000;
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+// Sample standard deviation; 0 for fewer than two values
+function standardDeviation(values: number[]): number {
+  if (values.length < 2) return 0;
+  const average = mean(values);
+  return Math.sqrt(values.reduce((sum, v) => sum + Math.pow(v - average, 2), 0) / (values.length - 1));
+}
+
+// Abramowitz-Stegun 7.1.26; accurate to ~1e-7, plenty for probabilities
+function normalCdf(x: number): number {
+  const t = 1 / (1 + 0.3275911 * Math.abs(x) / Math.SQRT2);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-(x * x) / 2);
+  return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
 interface PriceData {
   price: number;
   high: number;
@@ -97,14 +205,8 @@ interface PriceData {
   timestamp: number;
 }
 
-interface VolatilityModel {
-  alpha: number;
-  beta: number;
-  omega: number;
-  longTermVariance: number;
-  residuals: number[];
-  fitted: number[];
-}
+// Each mlWeights dimension scaled to 0-1
+type RiskComponents = { [key in keyof MLModel['weights']]: number };
 
 interface MLModel {
   weights: {
@@ -125,32 +227,57 @@ interface MLModel {
     inputs: number[][];
     outputs: number[];
   };
+  // Set for models loaded from a training run; these replace the static weights
+  trained?: TrainedModel;
+}
+
+// Sentinel passes its whole config; keys the engine does not read are ignored
+export interface RiskEngineConfig {
+  liquidationWarningThreshold?: number;
+  criticalHealthThreshold?: number;
+  predictionHorizonMinutes?: number;
+  volatilityLookback?: number;
+  priceHistoryWindow?: number;
+  correlationLookback?: number;
+  correlationDecay?: number;
+  monteCarloPaths?: number;
+  monteCarloSeed?: number;
+  mlWeights?: Partial<MLModel['weights']>;
+  neuralNetwork?: {
+    hiddenLayers?: number[];
+    epochs?: number;
+    batchSize?: number;
+  };
 }
 
 export class RiskEngine {
-  private priceCache: Map<string, PriceData> = new Map();
+  private priceOracle: ConsensusPriceOracle;
+  private riskPolicy: RiskPolicy | null = null;
+  private priceResults: Map<string, PriceResult> = new Map();
   private historicalData: Map<string, PriceData[]> = new Map();
   private volumeData: Map<string, number[]> = new Map();
   private volatilityModels: Map<string, VolatilityModel> = new Map();
   private mlModels: Map<string, MLModel> = new Map();
+  private correlations: CorrelationEstimator;
+  private simulator: LiquidationSimulator;
+  // Bumped on every price update so cached simulations see new volatility
+  private priceVersion = 0;
+  private simulations: Map<string, { healthFactor: number; priceVersion: number; result: LiquidationSimulation | null }> = new Map();
   private emaAlpha5 = 2 / (5 + 1);
   private emaAlpha20 = 2 / (20 + 1);
   private emaAlpha50 = 2 / (50 + 1);
   private predictionHistory: Map<string, Array<{timestamp: number, prediction: number, actual: number}>> = new Map();
+  // Backtested accuracy per protocol; replaces the model's prior accuracy in confidence
+  private calibratedAccuracy: Map<string, number> = new Map();
+  // Recent health per position, for the trained model's trend feature
+  private healthHistory: Map<string, Array<{ timestamp: number; healthFactor: number }>> = new Map();
+  private historyWindow: number;
   private config: {
     liquidationWarningThreshold: number;
     criticalHealthThreshold: number;
     predictionHorizonMinutes: number;
     volatilityLookback: number;
-    mlWeights: {
-      healthFactor: number;
-      volatility: number;
-      trend: number;
-      volume: number;
-      correlation: number;
-      momentum: number;
-      technical: number;
-    };
+    mlWeights: MLModel['weights'];
     neuralNetwork: {
       hiddenLayers: number[];
       epochs: number;
@@ -158,9 +285,11 @@ export class RiskEngine {
     };
   };
 
-  constructor(config: any) {
+  constructor(config: RiskEngineConfig) {
     this.config = {
-      ...config,
+      liquidationWarningThreshold: config.liquidationWarningThreshold ?? 1.3,
+      criticalHealthThreshold: config.criticalHealthThreshold ?? 1.1,
+      predictionHorizonMinutes: config.predictionHorizonMinutes ?? 30,
       volatilityLookback: config.volatilityLookback || 48,
       mlWeights: {
         healthFactor: 0.25,
@@ -179,6 +308,19 @@ export class RiskEngine {
         ...config.neuralNetwork
       }
     };
+    this.priceOracle = new ConsensusPriceOracle([
+      new JupiterOracleSource(jupiterPriceFeed),
+      new CoinGeckoOracleSource(),
+    ]);
+    this.historyWindow = Math.max(config.priceHistoryWindow || 200, this.config.volatilityLookback);
+    this.correlations = new CorrelationEstimator({
+      lookback: config.correlationLookback,
+      decay: config.correlationDecay,
+    });
+    this.simulator = new LiquidationSimulator({
+      paths: config.monteCarloPaths,
+      seed: config.monteCarloSeed,
+    });
     this.initializeMLModels();
   }
 
@@ -198,29 +340,141 @@ export class RiskEngine {
     this.mlModels.set('default', defaultModel);
   }
 
+  /**
+   * Serves a trained model under its mlModels key (protocol or 'default').
+   * Positions use their protocol's model when one is loaded, else the default.
+   */
+  loadModel(model: TrainedModel): void {
+    const ece = model.validation.expectedCalibrationError;
+    this.mlModels.set(model.protocol, {
+      weights: { ...this.config.mlWeights },
+      biases: [model.bias],
+      layers: [model.weights],
+      activationFunction: 'sigmoid',
+      learningRate: 0,
+      accuracy: ece !== null ? 1 - ece : this.mlModels.get(model.protocol)?.accuracy || 0.75,
+      trainingData: { inputs: [], outputs: [] },
+      trained: model,
+    });
+    console.log(`[RISK] Loaded ${model.protocol} model v${model.version} (${model.samples} samples)`);
+  }
+
+  getTrainedModels(): TrainedModel[] {
+    return Array.from(this.mlModels.values())
+      .map(model => model.trained)
+      .filter((model): model is TrainedModel => !!model);
+  }
+
+  private modelFor(position: Position): MLModel | undefined {
+    return this.mlModels.get(position.protocol) ?? this.mlModels.get('default');
+  }
+
+  setPriceOracle(oracle: ConsensusPriceOracle): void {
+    this.priceOracle = oracle;
+    this.priceResults.clear();
+  }
+
+  setRiskPolicy(policy: RiskPolicy): void {
+    this.riskPolicy = policy;
+  }
+
+  // Health thresholds for the position: the policy's when one is set, else the config's
+  private healthThresholds(position: Position): RiskThresholds['healthFactor'] {
+    return this.riskPolicy?.forPosition(position).healthFactor ?? {
+      critical: this.config.criticalHealthThreshold,
+      warning: this.config.liquidationWarningThreshold,
+      elevated: 1.5,
+    };
+  }
+
+  updatePriceHistory(mint: string, candles: PriceCandle[]): void {
+    this.correlations.update(mint, candles);
+
+    const window = candles.slice(-this.historyWindow);
+    if (window.length === 0) return;
+
+    let dayAgoIndex = 0;
+
+    const data: PriceData[] = window.map((candle, i) => {
+      while (dayAgoIndex < i && window[dayAgoIndex + 1].openTime <= candle.openTime - DAY_MS) {
+        dayAgoIndex++;
+      }
+      const reference = window[dayAgoIndex].close;
+
+      const returns: number[] = [];
+      for (let j = Math.max(1, i - this.config.volatilityLookback + 1); j <= i; j++) {
+        returns.push(Math.log(window[j].close / window[j - 1].close));
+      }
+      const mean = returns.length > 0 ? returns.reduce((a, b) => a + b, 0) / returns.length : 0;
+      const variance = returns.length > 1
+        ? returns.reduce((sum, r) => sum + Math.pow(r - mean, 2), 0) / (returns.length - 1)
+        : 0;
+
+      return {
+        price: candle.close,
+        high: candle.high,
+        low: candle.low,
+        open: candle.open,
+        change24h: reference > 0 ? ((candle.close - reference) / reference) * 100 : 0,
+        volatility: Math.sqrt(variance),
+        volume: candle.volume,
+        timestamp: candle.openTime,
+      };
+    });
+
+    this.historicalData.set(mint, data);
+    this.volumeData.set(mint, window.map(c => c.volume));
+
+    const returns: number[] = [];
+    for (let i = 1; i < window.length; i++) {
+      returns.push(Math.log(window[i].close / window[i - 1].close));
+    }
+    const model = fitGarch(returns);
+    if (model) {
+      this.volatilityModels.set(mint, model);
+    } else {
+      this.volatilityModels.delete(mint);
+    }
+    this.priceVersion++;
+  }
+
   async calculateRisk(position: Position): Promise<RiskScore> {
     const totalCollateral = position.collateral.reduce((sum, c) => sum + c.valueUsd, 0);
     const totalDebt = position.debt.reduce((sum, d) => sum + d.valueUsd, 0);
 
-    const healthFactor = totalDebt > 0 ? totalCollateral / totalDebt : Infinity;
+    // Prefer the protocol's own weighted health factor; the raw ratio ignores asset/liability
+    // weights and Drift perp exposure never shows up as debt at all
+    const protocolHealth = Number.isFinite(position.healthFactor) && position.healthFactor > 0;
+    // Unpriced balances are valued at 0, so the raw ratio would be no better
+    const healthFactor = protocolHealth
+      ? position.healthFactor
+      : position.unpriced?.length ? NaN : totalDebt > 0 ? totalCollateral / totalDebt : Infinity;
     const collateralRatio = totalDebt > 0 ? (totalCollateral / totalDebt) * 100 : Infinity;
 
-    const volatilityMetrics = await this.calculateAdvancedVolatility(position);
-    const movingAverages = await this.calculateMovingAverages(position);
+    const volatilityMetrics = this.calculateAdvancedVolatility(position);
+    const movingAverages = this.calculateMovingAverages(position);
     const technicalIndicators = await this.calculateTechnicalIndicators(position);
 
-    const liquidationPrice = this.calculateLiquidationPrice(position);
-    const currentPrice = await this.getCurrentPrice(position);
-    const distanceToLiquidation = ((currentPrice - liquidationPrice) / currentPrice) * 100;
+    const liquidationPrices = this.calculateLiquidationPrices(position);
+    const liquidationPrice = this.calculateLiquidationPrice(position, liquidationPrices);
+    const { price: currentPrice, source: priceSource, sources: priceSources } = await this.getCurrentPrice(position);
+    // Without a price there is no meaningful distance; NaN keeps every threshold comparison false
+    const distanceToLiquidation = currentPrice > 0
+      ? ((currentPrice - liquidationPrice) / currentPrice) * 100
+      : NaN;
 
-    const mlRiskScore = await this.calculateMLRiskScore(position, healthFactor, volatilityMetrics, movingAverages, technicalIndicators);
+    const mlRiskScore = this.calculateMLRiskScore(position, healthFactor, volatilityMetrics, movingAverages, technicalIndicators);
 
+    const thresholds = this.healthThresholds(position);
     let riskLevel: 'low' | 'medium' | 'high' | 'critical';
-    if (healthFactor < this.config.criticalHealthThreshold || mlRiskScore > 0.8) {
+    if (Number.isNaN(healthFactor)) {
+      // Health unknown because of an unpriced balance; never report that as low risk
+      riskLevel = 'high';
+    } else if (healthFactor < thresholds.critical || mlRiskScore > 0.8) {
       riskLevel = 'critical';
-    } else if (healthFactor < this.config.liquidationWarningThreshold || mlRiskScore > 0.6) {
+    } else if (healthFactor < thresholds.warning || mlRiskScore > 0.6) {
       riskLevel = 'high';
-    } else if (healthFactor < 1.5 || mlRiskScore > 0.4) {
+    } else if (healthFactor < thresholds.elevated || mlRiskScore > 0.4) {
       riskLevel = 'medium';
     } else {
       riskLevel = 'low';
@@ -233,7 +487,10 @@ export class RiskEngine {
       collateralRatio,
       volatilityScore: volatilityMetrics.historicalVolatility,
       liquidationPrice,
+      liquidationPrices,
       currentPrice,
+      priceSource,
+      priceSources,
       distanceToLiquidation,
       timestamp: Date.now(),
       movingAverages,
@@ -243,6 +500,148 @@ export class RiskEngine {
     };
   }
 
+  // Recorded candles for the position's largest collateral, oldest first
+  private primaryHistory(position: Position): PriceData[] {
+    const primary = this.getPrimaryCollateral(position);
+    return primary ? this.historicalData.get(primary.mint.toBase58()) || [] : [];
+  }
+
+  /**
+   * Volatility of the primary collateral, scaled from per-candle to daily so
+   * the thresholds in predictLiquidation mean the same at any candle size.
+   * Zero without at least two candles.
+   */
+  private calculateAdvancedVolatility(position: Position): RiskScore['volatilityMetrics'] {
+    const none = {
+      historicalVolatility: 0,
+      impliedVolatility: 0,
+      garchVolatility: 0,
+      rollingStd: 0,
+      parkinsonVolatility: 0,
+      garmanKlassVolatility: 0,
+      volatilityOfVolatility: 0,
+    };
+    const data = this.primaryHistory(position);
+    if (data.length < 2) return none;
+
+    const intervalMs = (data[data.length - 1].timestamp - data[0].timestamp) / (data.length - 1);
+    if (!(intervalMs > 0)) return none;
+    const toDaily = Math.sqrt(DAY_MS / intervalMs);
+
+    const returns: number[] = [];
+    for (let i = 1; i < data.length; i++) {
+      const r = Math.log(data[i].price / data[i - 1].price);
+      if (Number.isFinite(r)) returns.push(r);
+    }
+    const historicalVolatility = standardDeviation(returns) * toDaily;
+
+    const model = this.volatilityModels.get(this.getPrimaryCollateral(position)!.mint.toBase58());
+    const garchVolatility = model ? Math.sqrt(forecastVariance(model)) * toDaily : historicalVolatility;
+
+    // Range estimators: Parkinson from high/low, Garman-Klass adds open/close
+    const candles = data.filter(d => d.high > 0 && d.low > 0 && d.open > 0 && d.price > 0);
+    let parkinson = 0;
+    let garmanKlass = 0;
+    for (const d of candles) {
+      const range = Math.pow(Math.log(d.high / d.low), 2);
+      parkinson += range;
+      garmanKlass += 0.5 * range - (2 * Math.LN2 - 1) * Math.pow(Math.log(d.price / d.open), 2);
+    }
+    const parkinsonVolatility = candles.length > 0 ? Math.sqrt(parkinson / (4 * Math.LN2 * candles.length)) * toDaily : 0;
+    const garmanKlassVolatility = candles.length > 0 ? Math.sqrt(Math.max(0, garmanKlass / candles.length)) * toDaily : 0;
+
+    // The first candles have too few returns for a rolling estimate
+    const rolling = data.filter(d => d.volatility > 0).map(d => d.volatility);
+
+    return {
+      historicalVolatility,
+      // No options market to imply from; the GARCH forecast stands in
+      impliedVolatility: garchVolatility,
+      garchVolatility,
+      rollingStd: data[data.length - 1].volatility * toDaily,
+      parkinsonVolatility,
+      garmanKlassVolatility,
+      volatilityOfVolatility: standardDeviation(rolling) * toDaily,
+    };
+  }
+
+  // Averages of the primary collateral's closes; the current price throughout without history
+  private calculateMovingAverages(position: Position): RiskScore['movingAverages'] {
+    const data = this.primaryHistory(position);
+    const prices = data.map(d => d.price);
+    if (prices.length === 0) {
+      const price = this.getPrimaryCollateral(position)?.priceUsd || 0;
+      return {
+        sma5: price,
+        sma20: price,
+        sma50: price,
+        ema5: price,
+        ema20: price,
+        ema50: price,
+        vwma20: price,
+        bollinger: { upper: price, middle: price, lower: price },
+      };
+    }
+
+    const sma = (period: number) => mean(prices.slice(-period));
+    const sma20 = sma(20);
+    const recent = data.slice(-20);
+    const volume = recent.reduce((sum, d) => sum + d.volume, 0);
+    const band = 2 * standardDeviation(prices.slice(-20));
+
+    return {
+      sma5: sma(5),
+      sma20,
+      sma50: sma(50),
+      ema5: this.calculateEMA(prices, 5),
+      ema20: this.calculateEMA(prices, 20),
+      ema50: this.calculateEMA(prices, 50),
+      vwma20: volume > 0 ? recent.reduce((sum, d) => sum + d.price * d.volume, 0) / volume : sma20,
+      bollinger: { upper: sma20 + band, middle: sma20, lower: sma20 - band },
+    };
+  }
+
+  // Weighted average of the 0-1 risk components, using config.mlWeights
+  private calculateMLRiskScore(
+    position: Position,
+    healthFactor: number,
+    volatilityMetrics: RiskScore['volatilityMetrics'],
+    movingAverages: RiskScore['movingAverages'],
+    technicalIndicators: RiskScore['technicalIndicators']
+  ): number {
+    const mlFeatures = this.calculateMLFeatures(position);
+    mlFeatures.correlationScore = this.calculateJointRisk(position)?.correlationScore ?? 0;
+    const components = this.riskComponents(healthFactor, volatilityMetrics, movingAverages, technicalIndicators, mlFeatures);
+
+    let score = 0;
+    let totalWeight = 0;
+    for (const [key, weight] of Object.entries(this.config.mlWeights) as [keyof RiskComponents, number][]) {
+      score += weight * components[key];
+      totalWeight += weight;
+    }
+    return totalWeight > 0 ? score / totalWeight : 0;
+  }
+
+  // Each risk dimension on a 0-1 scale, where 1 is the level predictLiquidation treats as severe
+  private riskComponents(
+    healthFactor: number,
+    volatilityMetrics: RiskScore['volatilityMetrics'],
+    movingAverages: RiskScore['movingAverages'],
+    technicalIndicators: RiskScore['technicalIndicators'],
+    mlFeatures: LiquidationPrediction['mlFeatures']
+  ): RiskComponents {
+    const { sma5, sma20 } = movingAverages;
+    return {
+      healthFactor: Number.isFinite(healthFactor) ? clamp(2 - healthFactor, 0, 1) : 0,
+      volatility: clamp(volatilityMetrics.garchVolatility / 0.1, 0, 1),
+      trend: sma20 > 0 ? clamp(((sma20 - sma5) / sma20) * 20, 0, 1) : 0,
+      volume: clamp((mlFeatures.volumeProfile - 1) / 2, 0, 1),
+      correlation: clamp(mlFeatures.correlationScore, 0, 1),
+      momentum: clamp(-mlFeatures.momentumScore, 0, 1),
+      technical: clamp((50 - technicalIndicators.rsi) / 30, 0, 1),
+    };
+  }
+
   private async calculateTechnicalIndicators(position: Position): Promise<{
     rsi: number;
     macd: {
@@ -418,88 +817,491 @@ export class RiskEngine {
     return atr;
   }
 
-  private calculateLiquidationPrice(position: Position): number {
-    if (position.collateral.length === 0 || position.debt.length === 0) {
-      return 0;
+  /**
+   * Liquidation prices from the position's weighted balance sheet. Each mint is
+   * moved on its own with every other price held fixed; assets held on both
+   * sides net out, so the sign of the net weighted exposure decides whether a
+   * fall (collateral) or a rise (debt) triggers liquidation.
+   */
+  calculateLiquidationPrices(position: Position): LiquidationPriceBreakdown {
+    const defaultCollateralWeight = position.liquidationThreshold || 0.85;
+    const exposures = new Map<string, { price: number; weightedCollateral: number; weightedDebt: number }>();
+
+    const addExposure = (
+      entry: Position['collateral'][number],
+      side: 'collateral' | 'debt'
+    ) => {
+      const mint = entry.mint.toBase58();
+      const price = entry.priceUsd || (entry.amount > 0 ? entry.valueUsd / entry.amount : 0);
+      const weight = entry.liquidationWeight ?? (side === 'collateral' ? defaultCollateralWeight : 1);
+      const exposure = exposures.get(mint) || { price, weightedCollateral: 0, weightedDebt: 0 };
+
+      if (side === 'collateral') {
+        exposure.weightedCollateral += entry.valueUsd * weight;
+      } else {
+        exposure.weightedDebt += entry.valueUsd * weight;
+      }
+      exposures.set(mint, exposure);
+    };
+
+    position.collateral.forEach(c => addExposure(c, 'collateral'));
+    position.debt.forEach(d => addExposure(d, 'debt'));
+
+    let weightedCollateral = 0;
+    let weightedDebt = 0;
+    for (const exposure of exposures.values()) {
+      weightedCollateral += exposure.weightedCollateral;
+      weightedDebt += exposure.weightedDebt;
     }
+    const buffer = weightedCollateral - weightedDebt;
 
-    const totalCollateral = position.collateral.reduce((sum, c) => sum + c.valueUsd, 0);
-    const totalDebt = position.debt.reduce((sum, d) => sum + d.valueUsd, 0);
+    const perAsset: AssetLiquidationPrice[] = [];
+    for (const [mint, exposure] of exposures) {
+      const net = exposure.weightedCollateral - exposure.weightedDebt;
+      const side = net >= 0 ? 'collateral' : 'debt';
 
-    if (totalCollateral === 0 || totalDebt === 0) return 0;
+      // Stable borrows are not a price risk worth a liquidation level
+      if (side === 'debt' && STABLECOIN_MINTS.has(mint)) continue;
 
-    const liquidationThreshold = position.liquidationThreshold || 0.85;
-    const collateralAmount = position.collateral[0]?.amount || 1;
-    const currentPrice = position.collateral[0]?.priceUsd || 1;
+      let liquidationPrice: number | null = null;
+      if (weightedDebt > 0 && net !== 0 && exposure.price > 0) {
+        const factor = 1 - buffer / net;
+        if (factor > 0) {
+          liquidationPrice = exposure.price * factor;
+        }
+      }
 
-    const liquidationPrice = (totalDebt * liquidationThreshold) / collateralAmount;
-    
-    return liquidationPrice;
+      perAsset.push({
+        mint,
+        side,
+        currentPrice: exposure.price,
+        liquidationPrice,
+        distancePercent: liquidationPrice !== null && exposure.price > 0
+          ? ((liquidationPrice - exposure.price) / exposure.price) * 100
+          : null,
+      });
+    }
+
+    for (const perp of position.perpExposure || []) {
+      perAsset.push({
+        mint: perp.symbol || `perp-${perp.marketIndex}`,
+        side: 'perp',
+        marketIndex: perp.marketIndex,
+        currentPrice: perp.markPrice,
+        liquidationPrice: perp.liquidationPrice > 0 ? perp.liquidationPrice : null,
+        distancePercent: perp.liquidationPrice > 0 && perp.markPrice > 0
+          ? ((perp.liquidationPrice - perp.markPrice) / perp.markPrice) * 100
+          : null,
+      });
+    }
+
+    return {
+      perAsset,
+      uniformCollateralDrawdown: weightedDebt > 0 && weightedCollateral > 0
+        ? Math.max(0, (1 - weightedDebt / weightedCollateral) * 100)
+        : null,
+    };
   }
 
-  private async getCurrentPrice(position: Position): Promise<number> {
-    if (position.collateral.length === 0) {
-      return 0;
+  private calculateLiquidationPrice(position: Position, breakdown: LiquidationPriceBreakdown): number {
+    const primary = this.getPrimaryCollateral(position);
+    if (!primary) return 0;
+
+    const entry = breakdown.perAsset.find(a => a.side === 'collateral' && a.mint === primary.mint.toBase58());
+    return entry?.liquidationPrice ?? 0;
+  }
+
+  private getPrimaryCollateral(position: Position): Position['collateral'][number] | undefined {
+    return position.collateral.reduce<Position['collateral'][number] | undefined>(
+      (largest, c) => (!largest || c.valueUsd > largest.valueUsd ? c : largest),
+      undefined
+    );
+  }
+
+  private async getCurrentPrice(position: Position): Promise<{
+    price: number;
+    source: 'consensus' | 'protocol' | 'unavailable';
+    sources: string[];
+  }> {
+    const primary = this.getPrimaryCollateral(position);
+    if (!primary) {
+      return { price: 0, source: 'unavailable', sources: [] };
     }
 
-    const mintAddress = position.collateral[0].mint.toBase58();
-    const cached = this.priceCache.get(mintAddress);
+    const mintAddress = primary.mint.toBase58();
+    let result = this.priceResults.get(mintAddress);
 
-    if (cached && Date.now() - cached.timestamp < 30000) {
-      return cached.price;
+    if (!result || Date.now() - result.timestamp >= 30000) {
+      result = await this.priceOracle.getPrice(mintAddress);
+      this.priceResults.set(mintAddress, result);
     }
 
-    try {
-      const response = await axios.get(`https://api.coingecko.com/api/v3/simple/price`, {
-        params: {
-          ids: this.getCoingeckoId(mintAddress),
-          vs_currencies: 'usd'
-        }
-      });
+    if (result.status === 'ok') {
+      return { price: result.price, source: 'consensus', sources: result.quotes.map(q => q.source) };
+    }
 
-      const price = Object.values(response.data)[0] as any;
-      const currentPrice = price?.usd || position.collateral[0]?.priceUsd || 1;
-
-      this.priceCache.set(mintAddress, {
-        price: currentPrice,
-        high: currentPrice * 1.02,
-        low: currentPrice * 0.98,
-        open: currentPrice,
-        change24h: 0,
-        volatility: 0.05,
-        volume: 1000000,
-        timestamp: Date.now()
-      });
+    // Fall back to the price the protocol itself valued the collateral at
+    const protocolPrice = primary.priceUsd;
+    if (protocolPrice && protocolPrice > 0) {
+      return { price: protocolPrice, source: 'protocol', sources: [position.protocol] };
+    }
+
+    console.warn(`[RISK] Price unavailable for ${mintAddress}: ${result.reason}`);
+    return { price: 0, source: 'unavailable', sources: [] };
+  }
+
+  getCorrelationEstimator(): CorrelationEstimator {
+    return this.correlations;
+  }
+
+  /**
+   * How the position's health moves when every leg moves together: the
+   * variance of log health from each mint's sensitivity and the recorded
+   * covariance matrix, turned into the chance of reaching 1.0 per horizon
+   * (first passage of a driftless random walk). Null without price history.
+   */
+  calculateJointRisk(position: Position): JointRiskEstimate | null {
+    const sensitivities = this.healthSensitivities(position);
+    const intervalMs = this.correlations.getIntervalMs();
+    if (sensitivities.size === 0 || !intervalMs) return null;
+
+    const mints = Array.from(sensitivities.keys());
+    const covered = mints.filter(mint => this.correlations.hasHistory(mint));
+    if (covered.length === 0) return null;
+
+    const matrix = this.correlations.getMatrix(covered);
+    const s = covered.map(mint => sensitivities.get(mint)!);
+
+    let variance = 0;
+    let weightedCorrelation = 0;
+    let correlationWeight = 0;
+    for (let i = 0; i < covered.length; i++) {
+      for (let j = 0; j < covered.length; j++) {
+        variance += s[i] * s[j] * matrix.covariance[i][j];
+        if (j <= i) continue;
+
+        // Legs whose moves compound (collateral with collateral, collateral
+        // against debt moving the other way) count positive; hedges negative
+        const weight = Math.abs(s[i] * s[j]) * matrix.volatilities[i] * matrix.volatilities[j];
+        weightedCorrelation += weight * matrix.correlation[i][j] * Math.sign(s[i] * s[j]);
+        correlationWeight += weight;
+      }
+    }
+    const healthVolatility = Math.sqrt(Math.max(0, variance));
+
+    const totalSensitivity = mints.reduce((sum, mint) => sum + Math.abs(sensitivities.get(mint)!), 0);
+    const coveredSensitivity = s.reduce((sum, value) => sum + Math.abs(value), 0);
+
+    const healthFactor = position.healthFactor;
+    const distance = Number.isFinite(healthFactor) && healthFactor > 0 ? Math.log(healthFactor) : Infinity;
+    const passage = (minutes: number): number => {
+      if (distance <= 0) return 1;
+      if (healthVolatility <= 0 || !Number.isFinite(distance)) return 0;
+      const steps = (minutes * 60000) / intervalMs;
+      return Math.min(1, 2 * normalCdf(-distance / (healthVolatility * Math.sqrt(steps))));
+    };
+
+    const probabilities = {} as JointRiskEstimate['probabilities'];
+    for (const [key, minutes] of Object.entries(JOINT_RISK_HORIZONS)) {
+      probabilities[key as keyof JointRiskEstimate['probabilities']] = passage(minutes);
+    }
+
+    const held = new Set(mints);
+    return {
+      positionId: position.id,
+      healthVolatility,
+      intervalMs,
+      correlationScore: correlationWeight > 0 ? Math.min(1, Math.max(0, weightedCorrelation / correlationWeight)) : 0,
+      coverage: totalSensitivity > 0 ? coveredSensitivity / totalSensitivity : 0,
+      exposures: mints.map(mint => ({
+        mint,
+        sensitivity: sensitivities.get(mint)!,
+        volatility: this.correlations.volatility(mint),
+      })),
+      probabilities,
+      depegs: this.correlations.detectDepegs().filter(e => held.has(e.asset)),
+    };
+  }
+
+  /**
+   * Monte Carlo first-passage probabilities from each leg's GARCH model and the
+   * recorded correlations. Cached until the health factor or prices change, so
+   * predictLiquidation and the API share one run. Null without price history.
+   */
+  simulateLiquidation(position: Position): LiquidationSimulation | null {
+    const cached = this.simulations.get(position.id);
+    if (cached && cached.healthFactor === position.healthFactor && cached.priceVersion === this.priceVersion) {
+      return cached.result;
+    }
+
+    const intervalMs = this.correlations.getIntervalMs();
+    const result = intervalMs && this.volatilityModels.size > 0
+      ? this.simulator.simulate(
+          position,
+          {
+            intervalMs,
+            models: this.volatilityModels,
+            correlation: (a, b) => this.correlations.correlation(a, b),
+          },
+          this.config.predictionHorizonMinutes || 30
+        )
+      : null;
+
+    this.simulations.set(position.id, { healthFactor: position.healthFactor, priceVersion: this.priceVersion, result });
+    return result;
+  }
+
+  /**
+   * Takes accuracy from a backtest: per protocol for prediction confidence,
+   * overall for the default model, and labeled outcomes at the accuracy
+   * horizon into each position's prediction history.
+   */
+  applyCalibration(result: BacktestResult): void {
+    this.calibratedAccuracy.clear();
+    for (const [protocol, calibration] of Object.entries(result.report.protocols)) {
+      if (calibration.accuracy !== null) {
+        this.calibratedAccuracy.set(protocol, calibration.accuracy);
+      }
+    }
+
+    const model = this.mlModels.get('default');
+    if (model && !model.trained && result.report.overall.accuracy !== null) {
+      model.accuracy = result.report.overall.accuracy;
+    }
+
+    for (const outcome of result.outcomes) {
+      if (outcome.horizon !== result.report.accuracyHorizon) continue;
+
+      const history = this.predictionHistory.get(outcome.positionId) || [];
+      if (history.some(entry => entry.timestamp === outcome.timestamp)) continue;
+
+      history.push({ timestamp: outcome.timestamp, prediction: outcome.predicted, actual: outcome.actual ? 1 : 0 });
+      history.sort((a, b) => a.timestamp - b.timestamp);
+      this.predictionHistory.set(outcome.positionId, history.slice(-PREDICTION_HISTORY_LIMIT));
+    }
+  }
+
+  /**
+   * The trained model's inputs, in MODEL_FEATURES order. previous is the
+   * position's health at least TREND_LOOKBACK_MS earlier, if known. Null
+   * without the price history the joint-risk features need.
+   */
+  extractModelFeatures(
+    position: Position,
+    previous?: { timestamp: number; healthFactor: number }
+  ): number[] | null {
+    const healthFactor = position.healthFactor;
+    if (!Number.isFinite(healthFactor) || healthFactor <= 0) return null;
+
+    const joint = this.calculateJointRisk(position);
+    if (!joint) return null;
+
+    const logHealth = Math.log(healthFactor);
+    const hourlyHealthVolatility = joint.healthVolatility * Math.sqrt(3600000 / joint.intervalMs);
+    const distanceSigmas = hourlyHealthVolatility > 0 ? Math.min(logHealth / hourlyHealthVolatility, 50) : 50;
+
+    const elapsedHours = previous ? (position.timestamp - previous.timestamp) / 3600000 : 0;
+    const healthTrend = previous && elapsedHours > 0 && previous.healthFactor > 0
+      ? Math.log(healthFactor / previous.healthFactor) / elapsedHours
+      : 0;
+
+    const collateral = position.collateral.reduce((sum, c) => sum + c.valueUsd, 0);
+    const exposure = position.perpExposure?.length
+      ? position.perpExposure.reduce((sum, p) => sum + p.notionalUsd, 0)
+      : position.debt.reduce((sum, d) => sum + d.valueUsd, 0);
+    const leverage = collateral > 0 ? exposure / collateral : 0;
+
+    const depegExposure = joint.depegs.reduce((sum, depeg) => {
+      const sensitivity = joint.exposures.find(e => e.mint === depeg.asset)?.sensitivity ?? 0;
+      return sum + Math.max(0, -sensitivity * Math.log(1 + depeg.deviationPercent / 100));
+    }, 0);
+
+    const features: { [key in typeof MODEL_FEATURES[number]]: number } = {
+      logHealth,
+      distanceSigmas,
+      hourlyHealthVolatility,
+      jointProbability: joint.probabilities['1hour'],
+      healthTrend,
+      leverage,
+      correlationScore: joint.correlationScore,
+      depegExposure,
+    };
+    return MODEL_FEATURES.map(name => features[name]);
+  }
+
+  // Latest recorded health at least TREND_LOOKBACK_MS before now, then records now
+  private trackHealth(position: Position): { timestamp: number; healthFactor: number } | undefined {
+    const history = this.healthHistory.get(position.id) || [];
+    const previous = [...history].reverse().find(h => h.timestamp <= position.timestamp - TREND_LOOKBACK_MS);
+
+    if (history.length === 0 || history[history.length - 1].timestamp < position.timestamp) {
+      history.push({ timestamp: position.timestamp, healthFactor: position.healthFactor });
+    }
+    this.healthHistory.set(
+      position.id,
+      history.filter(h => h.timestamp >= position.timestamp - 4 * TREND_LOOKBACK_MS)
+    );
+    return previous;
+  }
+
+  // d ln(health) / d ln(price) for every mint the position is exposed to
+  private healthSensitivities(position: Position): Map<string, number> {
+    const sensitivities = new Map<string, number>();
+    const add = (mint: string, value: number) => sensitivities.set(mint, (sensitivities.get(mint) || 0) + value);
+
+    // Drift: health = collateral / maintenance requirement, and a perp moves both;
+    // spot borrows sit in the requirement at their liability weight
+    if (position.perpExposure?.length) {
+      const collateral = position.collateral.reduce((sum, c) => sum + c.valueUsd * (c.liquidationWeight ?? 1), 0);
+      const requirement = position.perpExposure.reduce(
+        (sum, p) => sum + p.notionalUsd * (p.maintenanceMarginRatio ?? 0.05),
+        position.debt.reduce((sum, d) => sum + d.valueUsd * (d.liquidationWeight ?? 1), 0)
+      );
+      if (collateral <= 0 || requirement <= 0) return sensitivities;
+
+      for (const c of position.collateral) {
+        add(c.mint.toBase58(), (c.valueUsd * (c.liquidationWeight ?? 1)) / collateral);
+      }
+      for (const d of position.debt) {
+        add(d.mint.toBase58(), -(d.valueUsd * (d.liquidationWeight ?? 1)) / requirement);
+      }
+      for (const perp of position.perpExposure) {
+        const mint = perp.symbol ? mintForSymbol(perp.symbol) : null;
+        if (!mint) continue;
+        const direction = perp.side === 'long' ? 1 : -1;
+        add(
+          mint,
+          (direction * perp.notionalUsd) / collateral -
+            (perp.notionalUsd * (perp.maintenanceMarginRatio ?? 0.05)) / requirement
+        );
+      }
+      return sensitivities;
+    }
+
+    const defaultCollateralWeight = position.liquidationThreshold || 0.85;
+    const weightedCollateral = position.collateral.reduce(
+      (sum, c) => sum + c.valueUsd * (c.liquidationWeight ?? defaultCollateralWeight),
+      0
+    );
+    const weightedDebt = position.debt.reduce((sum, d) => sum + d.valueUsd * (d.liquidationWeight ?? 1), 0);
+    if (weightedCollateral <= 0 || weightedDebt <= 0) return sensitivities;
+
+    for (const c of position.collateral) {
+      add(c.mint.toBase58(), (c.valueUsd * (c.liquidationWeight ?? defaultCollateralWeight)) / weightedCollateral);
+    }
+    for (const d of position.debt) {
+      add(d.mint.toBase58(), -(d.valueUsd * (d.liquidationWeight ?? 1)) / weightedDebt);
+    }
+    return sensitivities;
+  }
+
+  /**
+   * Market features of the primary collateral. Neutral without history;
+   * correlationScore is left at 0 for the joint risk estimate to fill in.
+   */
+  private calculateMLFeatures(position: Position): LiquidationPrediction['mlFeatures'] {
+    const features = {
+      priceVelocity: 0,
+      volatilityTrend: 0,
+      volumeProfile: 1,
+      correlationScore: 0,
+      momentumScore: 0,
+      liquidityScore: 1,
+      marketSentiment: 0,
+    };
+
+    // Latest 24h change of every collateral with history; a 10% daily move reads as ±1
+    const changes = position.collateral
+      .map(c => this.historicalData.get(c.mint.toBase58()))
+      .filter((data): data is PriceData[] => !!data && data.length > 0)
+      .map(data => data[data.length - 1].change24h);
+    if (changes.length > 0) {
+      features.marketSentiment = clamp(mean(changes) / 10, -1, 1);
+    }
+
+    const data = this.primaryHistory(position);
+    if (data.length < 2) return features;
+
+    const latest = data[data.length - 1];
+    const reference = [...data].reverse().find(d => d.timestamp <= latest.timestamp - VELOCITY_WINDOW_MS) ?? data[0];
+    if (reference.price > 0) {
+      features.priceVelocity = latest.price / reference.price - 1;
+    }
+
+    const averageVolatility = mean(data.filter(d => d.volatility > 0).map(d => d.volatility));
+    if (averageVolatility > 0) {
+      features.volatilityTrend = latest.volatility / averageVolatility - 1;
+    }
+
+    const volumes = data.slice(-21).map(d => d.volume);
+    const previousVolume = mean(volumes.slice(0, -1));
+    if (previousVolume > 0) {
+      features.volumeProfile = latest.volume / previousVolume;
+      // Trading concentrated in a few candles leaves the median well under the mean
+      features.liquidityScore = clamp(median(volumes) / mean(volumes), 0, 1);
+    }
 
-      return currentPrice;
-    } catch (error) {
-      return position.collateral[0]?.priceUsd || 1;
+    const prices = data.map(d => d.price);
+    const ema20 = this.calculateEMA(prices, 20);
+    if (ema20 > 0) {
+      features.momentumScore = clamp(((this.calculateEMA(prices, 5) - ema20) / ema20) * 20, -1, 1);
     }
+
+    return features;
+  }
+
+  // A prediction counts as right when it falls on the outcome's side of 0.5
+  private calculatePredictionAccuracy(positionId: string): number | null {
+    const history = this.predictionHistory.get(positionId);
+    if (!history || history.length === 0) return null;
+
+    const correct = history.filter(entry => (entry.prediction >= 0.5 ? 1 : 0) === entry.actual).length;
+    return correct / history.length;
   }
 
-  private getCoingeckoId(mintAddress: string): string {
-    const mapping: { [key: string]: string } = {
-      'So11111111111111111111111111111111111111112': 'solana',
-      'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v': 'usd-coin',
-      'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB': 'tether'
+  /**
+   * Timeframes spread from the 30-minute and hourly probabilities at a
+   * constant hazard rate: shorter ones from the 30-minute chance, four hours
+   * from the hourly one.
+   */
+  private generateRiskHeatmap(
+    thirtyMinuteProbability: number,
+    hourlyProbability: number,
+    components: RiskComponents
+  ): LiquidationPrediction['riskHeatmap'] {
+    const scale = (probability: number, ratio: number) => 1 - Math.pow(1 - clamp(probability, 0, 1), ratio);
+    return {
+      timeframes: {
+        '5min': scale(thirtyMinuteProbability, 5 / 30),
+        '15min': scale(thirtyMinuteProbability, 15 / 30),
+        '30min': thirtyMinuteProbability,
+        '1hour': hourlyProbability,
+        '4hour': scale(hourlyProbability, 4),
+      },
+      factors: {
+        health: components.healthFactor,
+        volatility: components.volatility,
+        trend: Math.max(components.trend, components.momentum),
+        volume: components.volume,
+        technical: components.technical,
+      },
     };
-    return mapping[mintAddress] || 'solana';
   }
 
   async predictLiquidation(position: Position): Promise<LiquidationPrediction> {
     const riskScore = await this.calculateRisk(position);
-    const mlFeatures = await this.calculateMLFeatures(position);
+    const mlFeatures = this.calculateMLFeatures(position);
+    const jointRisk = this.calculateJointRisk(position);
+    if (jointRisk) {
+      mlFeatures.correlationScore = jointRisk.correlationScore;
+    }
+    const simulation = this.simulateLiquidation(position);
+    const previousHealth = this.trackHealth(position);
     
-    const factors: string[] = [];
-    let probability = 0;
+    const attribution = new FactorAttribution();
     let thirtyMinuteProbability = 0;
     let hourlyProbability = 0;
 
-    const neuralNetworkPrediction = await this.runNeuralNetwork(position, mlFeatures);
-    const ensemblePrediction = await this.calculateEnsemblePrediction(position, mlFeatures);
-
-    probability = (neuralNetworkPrediction + ensemblePrediction) / 2;
-
     const healthFactorWeight = this.config.mlWeights.healthFactor;
     const volatilityWeight = this.config.mlWeights.volatility;
     const trendWeight = this.config.mlWeights.trend;
@@ -510,82 +1312,136 @@ export class RiskEngine {
 
     if (riskScore.healthFactor < 1.05) {
       const healthRisk = (1.05 - riskScore.healthFactor) * 12 * healthFactorWeight;
-      probability += healthRisk;
+      attribution.add(
+        { id: 'health_factor', label: 'Extremely critical health factor (<1.05)', metric: 'healthFactor', value: riskScore.healthFactor, threshold: 1.05 },
+        healthRisk
+      );
       thirtyMinuteProbability += healthRisk * 1.8;
       hourlyProbability += healthRisk * 1.5;
-      factors.push('Extremely critical health factor (<1.05)');
     } else if (riskScore.healthFactor < 1.1) {
       const healthRisk = (1.1 - riskScore.healthFactor) * 10 * healthFactorWeight;
-      probability += healthRisk;
+      attribution.add(
+        { id: 'health_factor', label: 'Critical health factor (<1.1)', metric: 'healthFactor', value: riskScore.healthFactor, threshold: 1.1 },
+        healthRisk
+      );
       thirtyMinuteProbability += healthRisk * 1.5;
       hourlyProbability += healthRisk * 1.2;
-      factors.push('Critical health factor (<1.1)');
     } else if (riskScore.healthFactor < 1.3) {
       const healthRisk = (1.3 - riskScore.healthFactor) * 4 * healthFactorWeight;
-      probability += healthRisk;
+      attribution.add(
+        { id: 'health_factor', label: 'Low health factor (<1.3)', metric: 'healthFactor', value: riskScore.healthFactor, threshold: 1.3 },
+        healthRisk
+      );
       thirtyMinuteProbability += healthRisk * 1.2;
       hourlyProbability += healthRisk * 1.1;
-      factors.push('Low health factor (<1.3)');
     }
 
     const garchVolatility = riskScore.volatilityMetrics.garchVolatility;
     const volOfVol = riskScore.volatilityMetrics.volatilityOfVolatility;
     if (garchVolatility > 0.1 || volOfVol > 0.05) {
       const volRisk = Math.max((garchVolatility - 0.08) * 6, (volOfVol - 0.03) * 8) * volatilityWeight;
-      probability += volRisk;
+      attribution.add(
+        {
+          id: 'volatility',
+          label: `Extreme volatility clustering detected (GARCH: ${(garchVolatility * 100).toFixed(1)}%, VolVol: ${(volOfVol * 100).toFixed(1)}%)`,
+          ...(garchVolatility > 0.1
+            ? { metric: 'garchVolatility', value: garchVolatility, threshold: 0.1 }
+            : { metric: 'volatilityOfVolatility', value: volOfVol, threshold: 0.05 }),
+        },
+        volRisk
+      );
       thirtyMinuteProbability += volRisk * 1.4;
       hourlyProbability += volRisk * 1.2;
-      factors.push(`Extreme volatility clustering detected (GARCH: ${(garchVolatility * 100).toFixed(1)}%, VolVol: ${(volOfVol * 100).toFixed(1)}%)`);
     } else if (garchVolatility > 0.05 || volOfVol > 0.03) {
       const volRisk = Math.max((garchVolatility - 0.05) * 4, (volOfVol - 0.02) * 5) * volatilityWeight;
-      probability += volRisk;
+      attribution.add(
+        {
+          id: 'volatility',
+          label: `High market volatility (GARCH: ${(garchVolatility * 100).toFixed(1)}%, VolVol: ${(volOfVol * 100).toFixed(1)}%)`,
+          ...(garchVolatility > 0.05
+            ? { metric: 'garchVolatility', value: garchVolatility, threshold: 0.05 }
+            : { metric: 'volatilityOfVolatility', value: volOfVol, threshold: 0.03 }),
+        },
+        volRisk
+      );
       thirtyMinuteProbability += volRisk * 1.2;
       hourlyProbability += volRisk * 1.1;
-      factors.push(`High market volatility (GARCH: ${(garchVolatility * 100).toFixed(1)}%, VolVol: ${(volOfVol * 100).toFixed(1)}%)`);
     }
 
     if (riskScore.distanceToLiquidation < 3) {
-      probability += 0.6;
+      attribution.add(
+        { id: 'liquidation_distance', label: 'Extremely close to liquidation (<3%)', metric: 'distanceToLiquidation', value: riskScore.distanceToLiquidation, threshold: 3 },
+        0.6
+      );
       thirtyMinuteProbability += 0.8;
       hourlyProbability += 0.7;
-      factors.push('Extremely close to liquidation (<3%)');
     } else if (riskScore.distanceToLiquidation < 5) {
-      probability += 0.4;
+      attribution.add(
+        { id: 'liquidation_distance', label: 'Very close to liquidation (<5%)', metric: 'distanceToLiquidation', value: riskScore.distanceToLiquidation, threshold: 5 },
+        0.4
+      );
       thirtyMinuteProbability += 0.6;
       hourlyProbability += 0.5;
-      factors.push('Very close to liquidation (<5%)');
     } else if (riskScore.distanceToLiquidation < 10) {
-      probability += 0.25;
+      attribution.add(
+        { id: 'liquidation_distance', label: 'Close to liquidation price (<10%)', metric: 'distanceToLiquidation', value: riskScore.distanceToLiquidation, threshold: 10 },
+        0.25
+      );
       thirtyMinuteProbability += 0.35;
       hourlyProbability += 0.3;
-      factors.push('Close to liquidation price (<10%)');
     } else if (riskScore.distanceToLiquidation < 20) {
-      probability += 0.1;
+      attribution.add(
+        { id: 'liquidation_distance', label: 'Approaching liquidation price (<20%)', metric: 'distanceToLiquidation', value: riskScore.distanceToLiquidation, threshold: 20 },
+        0.1
+      );
       thirtyMinuteProbability += 0.15;
       hourlyProbability += 0.12;
-      factors.push('Approaching liquidation price (<20%)');
     }
 
     const priceVelocity = mlFeatures.priceVelocity;
     const momentumScore = mlFeatures.momentumScore;
     if (priceVelocity < -0.03 || momentumScore < -0.5) {
       const trendRisk = Math.max(Math.abs(priceVelocity) * 6, Math.abs(momentumScore) * 0.4) * trendWeight;
-      probability += trendRisk;
+      attribution.add(
+        {
+          id: 'momentum',
+          label: 'Severe bearish momentum detected',
+          ...(priceVelocity < -0.03
+            ? { metric: 'priceVelocity', value: priceVelocity, threshold: -0.03 }
+            : { metric: 'momentumScore', value: momentumScore, threshold: -0.5 }),
+        },
+        trendRisk
+      );
       thirtyMinuteProbability += trendRisk * 1.6;
       hourlyProbability += trendRisk * 1.3;
-      factors.push('Severe bearish momentum detected');
     } else if (priceVelocity < -0.02 || momentumScore < -0.3) {
       const trendRisk = Math.max(Math.abs(priceVelocity) * 4, Math.abs(momentumScore) * 0.3) * trendWeight;
-      probability += trendRisk;
+      attribution.add(
+        {
+          id: 'momentum',
+          label: 'Strong negative price momentum',
+          ...(priceVelocity < -0.02
+            ? { metric: 'priceVelocity', value: priceVelocity, threshold: -0.02 }
+            : { metric: 'momentumScore', value: momentumScore, threshold: -0.3 }),
+        },
+        trendRisk
+      );
       thirtyMinuteProbability += trendRisk * 1.4;
       hourlyProbability += trendRisk * 1.2;
-      factors.push('Strong negative price momentum');
     } else if (priceVelocity < -0.01 || momentumScore < -0.2) {
       const trendRisk = Math.max(Math.abs(priceVelocity) * 3, Math.abs(momentumScore) * 0.2) * trendWeight;
-      probability += trendRisk;
+      attribution.add(
+        {
+          id: 'momentum',
+          label: 'Negative price momentum',
+          ...(priceVelocity < -0.01
+            ? { metric: 'priceVelocity', value: priceVelocity, threshold: -0.01 }
+            : { metric: 'momentumScore', value: momentumScore, threshold: -0.2 }),
+        },
+        trendRisk
+      );
       thirtyMinuteProbability += trendRisk * 1.2;
       hourlyProbability += trendRisk * 1.1;
-      factors.push('Negative price momentum');
     }
 
     const rsi = riskScore.technicalIndicators.rsi;
@@ -594,25 +1450,39 @@ export class RiskEngine {
 
     if (rsi < 20 && macd.histogram < -0.5 && stochastic.k < 20) {
       const techRisk = 0.3 * technicalWeight;
-      probability += techRisk;
+      attribution.add(
+        { id: 'technical', label: 'Extreme oversold conditions across all indicators', metric: 'rsi', value: rsi, threshold: 20 },
+        techRisk
+      );
       thirtyMinuteProbability += techRisk * 1.3;
       hourlyProbability += techRisk * 1.1;
-      factors.push('Extreme oversold conditions across all indicators');
     } else if (rsi < 30 || macd.histogram < -0.3 || stochastic.k < 30) {
       const techRisk = 0.15 * technicalWeight;
-      probability += techRisk;
+      attribution.add(
+        {
+          id: 'technical',
+          label: 'Oversold technical indicators',
+          ...(rsi < 30
+            ? { metric: 'rsi', value: rsi, threshold: 30 }
+            : macd.histogram < -0.3
+              ? { metric: 'macdHistogram', value: macd.histogram, threshold: -0.3 }
+              : { metric: 'stochasticK', value: stochastic.k, threshold: 30 }),
+        },
+        techRisk
+      );
       thirtyMinuteProbability += techRisk * 1.2;
       hourlyProbability += techRisk * 1.1;
-      factors.push('Oversold technical indicators');
     }
 
     const bollinger = riskScore.movingAverages.bollinger;
     const currentPrice = riskScore.currentPrice;
     if (currentPrice < bollinger.lower * 0.98) {
-      probability += 0.1;
+      attribution.add(
+        { id: 'bollinger', label: 'Price below Bollinger lower band', metric: 'currentPrice', value: currentPrice, threshold: bollinger.lower * 0.98 },
+        0.1
+      );
       thirtyMinuteProbability += 0.15;
       hourlyProbability += 0.12;
-      factors.push('Price below Bollinger lower band');
     }
 
     const movingAverageBearishSignal = 
@@ -621,50 +1491,154 @@ export class RiskEngine {
       riskScore.movingAverages.ema5 < riskScore.movingAverages.ema20;
 
     if (movingAverageBearishSignal) {
-      probability += 0.08 * trendWeight;
+      attribution.add(
+        {
+          id: 'moving_average',
+          label: 'Strong bearish moving average alignment',
+          metric: 'sma5',
+          value: riskScore.movingAverages.sma5,
+          threshold: riskScore.movingAverages.sma20,
+        },
+        0.08 * trendWeight
+      );
       thirtyMinuteProbability += 0.12 * trendWeight;
       hourlyProbability += 0.1 * trendWeight;
-      factors.push('Strong bearish moving average alignment');
     }
 
     const volumeProfile = mlFeatures.volumeProfile;
     const liquidityScore = mlFeatures.liquidityScore;
     if (volumeProfile > 3.0 && liquidityScore < 0.3) {
       const volumeRisk = (volumeProfile - 2.0) * 0.15 * volumeWeight;
-      probability += volumeRisk;
+      attribution.add(
+        { id: 'volume', label: 'High volume spike with poor liquidity', metric: 'volumeProfile', value: volumeProfile, threshold: 3.0 },
+        volumeRisk
+      );
       thirtyMinuteProbability += volumeRisk * 1.2;
       hourlyProbability += volumeRisk * 1.1;
-      factors.push('High volume spike with poor liquidity');
     } else if (volumeProfile > 2.5) {
       const volumeRisk = (volumeProfile - 2.0) * 0.1 * volumeWeight;
-      probability += volumeRisk;
+      attribution.add(
+        { id: 'volume', label: 'Unusual volume spike detected', metric: 'volumeProfile', value: volumeProfile, threshold: 2.5 },
+        volumeRisk
+      );
       thirtyMinuteProbability += volumeRisk * 1.1;
       hourlyProbability += volumeRisk * 1.05;
-      factors.push('Unusual volume spike detected');
     }
 
     const correlationScore = mlFeatures.correlationScore;
     const marketSentiment = mlFeatures.marketSentiment;
     if (correlationScore > 0.85 && marketSentiment < -0.5) {
       const corrRisk = (correlationScore - 0.7) * 0.8 * correlationWeight;
-      probability += corrRisk;
+      attribution.add(
+        { id: 'correlation', label: 'High correlation during market stress', metric: 'correlationScore', value: correlationScore, threshold: 0.85 },
+        corrRisk
+      );
       thirtyMinuteProbability += corrRisk * 1.3;
       hourlyProbability += corrRisk * 1.2;
-      factors.push('High correlation during market stress');
     } else if (correlationScore > 0.8) {
       const corrRisk = (correlationScore - 0.8) * 0.5 * correlationWeight;
-      probability += corrRisk;
+      attribution.add(
+        { id: 'correlation', label: 'High market correlation risk', metric: 'correlationScore', value: correlationScore, threshold: 0.8 },
+        corrRisk
+      );
       thirtyMinuteProbability += corrRisk * 1.2;
       hourlyProbability += corrRisk * 1.1;
-      factors.push('High market correlation risk');
     }
 
-    probability = Math.min(probability, 0.98);
-    thirtyMinuteProbability = Math.min(thirtyMinuteProbability, 0.99);
-    hourlyProbability = Math.min(hourlyProbability, 0.95);
+    if (simulation && simulation.coverage > 0) {
+      // Simulated paths replace the weighted increments above; those stay as superseded factors
+      const hourly = simulation.timeframes['1hour'];
+      attribution.replace(
+        {
+          id: 'simulation',
+          label:
+            `Simulated ${simulation.paths} price paths: ${(hourly.probability * 100).toFixed(1)}% reach liquidation within 1h ` +
+            `(95% CI ${(hourly.lower * 100).toFixed(1)}-${(hourly.upper * 100).toFixed(1)}%)`,
+          metric: 'simulatedProbability',
+          value: simulation.horizon.probability,
+          threshold: null,
+        },
+        simulation.horizon.probability
+      );
+      thirtyMinuteProbability = simulation.timeframes['30min'].probability;
+      hourlyProbability = hourly.probability;
+    } else if (jointRisk) {
+      const jointThirty = jointRisk.probabilities['30min'];
+      const jointHourly = jointRisk.probabilities['1hour'];
+      const label = `Joint collateral/debt moves: ${(jointHourly * 100).toFixed(1)}% chance of liquidation within 1h`;
+      const raised = attribution.raise(
+        { id: 'joint_risk', label, metric: 'jointHourlyProbability', value: jointHourly, threshold: null },
+        jointHourly
+      );
+      if (!raised && (jointHourly > hourlyProbability || jointThirty > thirtyMinuteProbability)) {
+        // Lifted only the timeframe probabilities; still worth showing
+        attribution.add({ id: 'joint_risk', label, metric: 'jointHourlyProbability', value: jointHourly, threshold: null }, 0);
+      }
+      thirtyMinuteProbability = Math.max(thirtyMinuteProbability, jointThirty);
+      hourlyProbability = Math.max(hourlyProbability, jointHourly);
+    }
+
+    if (jointRisk) {
+      for (const depeg of jointRisk.depegs) {
+        // Another move of the same size on the leg that hurts the position
+        const sensitivity = jointRisk.exposures.find(e => e.mint === depeg.asset)?.sensitivity ?? 0;
+        const shock = sensitivity * Math.log(1 + depeg.deviationPercent / 100);
+        if (shock >= 0) continue;
+
+        const projected = riskScore.healthFactor * Math.exp(shock);
+        const depegRisk = (projected < 1 ? 0.3 : projected < this.healthThresholds(position).warning ? 0.1 : 0.03)
+          * (depeg.severity === 'major' ? 1 : 0.5);
+        thirtyMinuteProbability += depegRisk;
+        hourlyProbability += depegRisk;
+
+        const asset = symbolForMint(depeg.asset) || depeg.asset;
+        const reference = depeg.reference === 'USD' ? 'USD' : symbolForMint(depeg.reference) || depeg.reference;
+        const pair = PEGGED_PAIRS.find(p => p.asset === depeg.asset && p.reference === depeg.reference);
+        attribution.add(
+          {
+            id: 'depeg',
+            label: `${asset} ${depeg.deviationPercent.toFixed(2)}% off its ${reference} peg (${depeg.severity} depeg)`,
+            metric: 'deviationPercent',
+            value: depeg.deviationPercent,
+            threshold: pair ? Math.sign(depeg.deviationPercent) * pair.thresholdPercent : null,
+          },
+          depegRisk
+        );
+      }
+    }
+
+    const model = this.modelFor(position);
+    let servedByModel = false;
+    if (model?.trained && model.trained.horizonMinutes === this.config.predictionHorizonMinutes) {
+      const features = this.extractModelFeatures(position, previousHealth);
+      if (features) {
+        servedByModel = true;
+        const modelProbability = predictProbability(model.trained, features);
+        attribution.replace(
+          {
+            id: 'trained_model',
+            label:
+              `Trained ${model.trained.protocol} model v${model.trained.version}: ` +
+              `${(modelProbability * 100).toFixed(1)}% within ${model.trained.horizonMinutes}m`,
+            metric: 'modelProbability',
+            value: modelProbability,
+            threshold: null,
+          },
+          modelProbability
+        );
+      }
+    }
+
+    attribution.cap({ id: 'probability_cap', label: 'Probability capped at 98%', metric: 'uncappedProbability' }, 0.98);
+    const probability = attribution.total();
+    hourlyProbability = Math.min(hourlyProbability, 0.99);
+    // Liquidation within 30 minutes is also liquidation within the hour
+    thirtyMinuteProbability = Math.min(thirtyMinuteProbability, hourlyProbability);
 
     let minutesToLiquidation = Infinity;
-    if (probability > 0.3) {
+    if (simulation && simulation.coverage > 0) {
+      minutesToLiquidation = simulation.medianMinutesToLiquidation ?? Infinity;
+    } else if (probability > 0.3) {
       const volatilityFactor = Math.max(garchVolatility, 0.01);
       const healthBuffer = Math.max(riskScore.healthFactor - 1.0, 0.01);
       const liquidityFactor = Math.max(liquidityScore, 0.1);
@@ -680,21 +1654,42 @@ export class RiskEngine {
 
     const dataPoints = this.historicalData.get(position.collateral[0]?.mint.toBase58() || '')?.length || 0;
     const baseConfidence = Math.min(0.95, 0.4 + (dataPoints / 150));
-    const modelAccuracy = this.mlModels.get('default')?.accuracy || 0.75;
+    // Backtested accuracy scores the simulator, so a served model keeps its own
+    const modelAccuracy = servedByModel
+      ? model!.accuracy
+      : this.calibratedAccuracy.get(position.protocol) ?? (model?.accuracy || 0.75);
     const confidence = Math.min(0.98, (baseConfidence + modelAccuracy) / 2);
 
     const predictionAccuracy = this.calculatePredictionAccuracy(position.id);
 
-    const riskHeatmap = this.generateRiskHeatmap(probability, thirtyMinuteProbability, hourlyProbability, mlFeatures);
+    const riskHeatmap = this.generateRiskHeatmap(
+      thirtyMinuteProbability,
+      hourlyProbability,
+      this.riskComponents(
+        riskScore.healthFactor,
+        riskScore.volatilityMetrics,
+        riskScore.movingAverages,
+        riskScore.technicalIndicators,
+        mlFeatures
+      )
+    );
+    if (simulation && simulation.coverage > 0) {
+      for (const timeframe of Object.keys(SIMULATION_TIMEFRAMES) as SimulationTimeframe[]) {
+        riskHeatmap.timeframes[timeframe] = simulation.timeframes[timeframe].probability;
+      }
+    }
 
     return {
       positionId: position.id,
       probability,
       minutesToLiquidation,
       confidence,
-      factors,
+      factors: attribution.list(),
       mlFeatures,
       thirtyMinuteProbability,
       hourlyProbability,
       predictionAccuracy,
-}}}
\ No newline at end of file
+      riskHeatmap,
+    };
+  }
+}
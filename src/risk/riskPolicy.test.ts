@@ -0,0 +1,39 @@
+import path from 'path';
+import { TOKENS } from '../utils/jupiter';
+import { RiskPolicy, RiskPolicyValidationError, loadPolicyFile, validatePolicy } from './riskPolicy';
+
+const EXAMPLE = path.join(__dirname, '..', '..', 'config', 'risk-policy.example.yaml');
+const OWNER = TOKENS.USDC;
+
+describe('RiskPolicy', () => {
+  it('lets the strictest held asset set the thresholds, then applies the owner', async () => {
+    const document = await loadPolicyFile(EXAMPLE);
+    document.owners[OWNER] = validatePolicy({ owners: { [OWNER]: { liquidationProbability: 0.9 } } }).owners[OWNER];
+    const policy = new RiskPolicy();
+    policy.update(document, EXAMPLE);
+
+    expect(policy.resolve({ protocol: 'drift', mints: [TOKENS.SOL] })).toMatchObject({
+      healthFactor: { critical: 1.1, warning: 1.25, elevated: 2 },
+      liquidationProbability: 0.7,
+    });
+    expect(policy.resolve({ protocol: 'drift', mints: [TOKENS.SOL, TOKENS.BONK] })).toMatchObject({
+      healthFactor: { critical: 1.3, warning: 1.6, elevated: 2 },
+      liquidationProbability: 0.5,
+    });
+    expect(policy.resolve({ protocol: 'drift', owner: OWNER, mints: [TOKENS.BONK] }).liquidationProbability).toBe(0.9);
+    expect(policy.getInfo()).toMatchObject({ revision: 2, source: EXAMPLE });
+  });
+
+  it('rejects overrides that put levels out of order in any combination', () => {
+    const raw = {
+      protocols: { drift: { healthFactor: { critical: 1.2 } } },
+      assets: { BONK: { healthFactor: { warning: 1.15 } } },
+    };
+
+    expect(() => validatePolicy(raw)).toThrow(RiskPolicyValidationError);
+    expect(() => validatePolicy(raw)).toThrow(
+      `protocols.drift + assets.${TOKENS.BONK}: healthFactor must satisfy critical < warning < elevated (got 1.2, 1.15, 1.5)`
+    );
+    expect(() => validatePolicy({ assets: { NOTATOKEN: {} } })).toThrow('assets.NOTATOKEN: not a known symbol or mint address');
+  });
+});
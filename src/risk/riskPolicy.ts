@@ -0,0 +1,386 @@
+import { promises as fs, unwatchFile, watchFile } from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+import { Position } from '../monitor/positionMonitor';
+import { mintForSymbol } from '../utils/jupiter';
+import { isValidPublicKey } from '../watchlist/watchlistStore';
+
+export interface RiskThresholds {
+  // Health factor below which a position is critical, warning, or worth
+  // closer attention; each level must sit above the one before it
+  healthFactor: {
+    critical: number;
+    warning: number;
+    elevated: number;
+  };
+  // Predicted liquidation probability a prediction alert must reach
+  liquidationProbability: number;
+  // Percent price drop left before liquidation
+  distanceToLiquidationPercent: {
+    critical: number;
+    warning: number;
+  };
+  collateralRatio: {
+    critical: number;
+    warning: number;
+  };
+}
+
+export interface RiskThresholdOverrides {
+  healthFactor?: Partial<RiskThresholds['healthFactor']>;
+  liquidationProbability?: number;
+  distanceToLiquidationPercent?: Partial<RiskThresholds['distanceToLiquidationPercent']>;
+  collateralRatio?: Partial<RiskThresholds['collateralRatio']>;
+}
+
+export interface RiskPolicyDocument {
+  version: 1;
+  defaults: RiskThresholdOverrides;
+  protocols: { [protocol: string]: RiskThresholdOverrides };
+  // Keyed by mint; files may use token symbols, which are resolved on load
+  assets: { [mint: string]: RiskThresholdOverrides };
+  owners: { [owner: string]: RiskThresholdOverrides };
+}
+
+export interface RiskPolicyContext {
+  protocol?: string;
+  owner?: string;
+  mints?: string[];
+}
+
+export interface RiskPolicyInfo {
+  revision: number;
+  source: string | null;
+  loadedAt: number;
+  defaults: RiskThresholds;
+  document: RiskPolicyDocument;
+}
+
+export const DEFAULT_RISK_THRESHOLDS: RiskThresholds = {
+  healthFactor: { critical: 1.1, warning: 1.3, elevated: 1.5 },
+  liquidationProbability: 0.7,
+  distanceToLiquidationPercent: { critical: 5, warning: 10 },
+  collateralRatio: { critical: 1.2, warning: 1.5 },
+};
+
+const EMPTY_POLICY: RiskPolicyDocument = { version: 1, defaults: {}, protocols: {}, assets: {}, owners: {} };
+
+type ThresholdGroup = Exclude<keyof RiskThresholds, 'liquidationProbability'>;
+
+const GROUP_KEYS: { [G in ThresholdGroup]: (keyof RiskThresholds[G])[] } = {
+  healthFactor: ['critical', 'warning', 'elevated'],
+  distanceToLiquidationPercent: ['critical', 'warning'],
+  collateralRatio: ['critical', 'warning'],
+};
+const THRESHOLD_GROUPS = Object.keys(GROUP_KEYS) as ThresholdGroup[];
+
+export class RiskPolicyValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RiskPolicyValidationError';
+  }
+}
+
+/**
+ * Thresholds that decide when a position is critical, warning or elevated,
+ * when alerts fire, and how protocol monitors label accounts. Overrides apply
+ * per protocol, then per asset held, then per owner. Each held asset resolves
+ * separately and the most conservative value of each threshold wins, so one
+ * risky asset tightens the whole position. update() swaps the document in
+ * place so every holder sees a reload.
+ */
+export class RiskPolicy {
+  private base: RiskThresholds;
+  private document: RiskPolicyDocument;
+  private source: string | null = null;
+  private loadedAt = Date.now();
+  private revision = 1;
+
+  constructor(base: RiskThresholds = DEFAULT_RISK_THRESHOLDS, document: RiskPolicyDocument = EMPTY_POLICY) {
+    this.base = base;
+    this.document = document;
+  }
+
+  update(document: RiskPolicyDocument, source: string | null = null): void {
+    this.document = document;
+    this.source = source;
+    this.loadedAt = Date.now();
+    this.revision++;
+  }
+
+  resolve(context: RiskPolicyContext = {}): RiskThresholds {
+    const protocol = context.protocol ? this.document.protocols[context.protocol] : undefined;
+    const mints = context.mints?.length ? context.mints : [undefined];
+
+    // Each held asset resolves on its own; without an override it gets the protocol's
+    const perAsset = mints.map(mint =>
+      mergeThresholds(this.base, [this.document.defaults, protocol, mint ? this.document.assets[mint] : undefined])
+    );
+
+    return mergeThresholds(strictest(perAsset), [
+      context.owner ? this.document.owners[context.owner] : undefined,
+    ]);
+  }
+
+  forPosition(position: Position): RiskThresholds {
+    return this.resolve({
+      protocol: position.protocol,
+      owner: position.owner.toBase58(),
+      mints: [...position.collateral, ...position.debt].map(b => b.mint.toBase58()),
+    });
+  }
+
+  getInfo(): RiskPolicyInfo {
+    return {
+      revision: this.revision,
+      source: this.source,
+      loadedAt: this.loadedAt,
+      defaults: this.resolve(),
+      document: this.document,
+    };
+  }
+
+  getBase(): RiskThresholds {
+    return this.base;
+  }
+}
+
+/**
+ * Checks a parsed policy file and normalizes asset symbols to mints. Every
+ * combination of protocol, asset and owner override is merged with the
+ * defaults and must keep its levels in order, so no position can end up
+ * with a warning threshold below its critical one.
+ */
+export function validatePolicy(value: unknown, base: RiskThresholds = DEFAULT_RISK_THRESHOLDS): RiskPolicyDocument {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new RiskPolicyValidationError('policy must be an object');
+  }
+  const raw = value as { [key: string]: unknown };
+  checkKeys(raw, ['version', 'defaults', 'protocols', 'assets', 'owners'], 'policy');
+  if (raw.version !== undefined && raw.version !== 1) {
+    throw new RiskPolicyValidationError(`unsupported policy version ${raw.version}`);
+  }
+
+  const document: RiskPolicyDocument = {
+    version: 1,
+    defaults: validateOverrides(raw.defaults ?? {}, 'defaults'),
+    protocols: {},
+    assets: {},
+    owners: {},
+  };
+
+  for (const [protocol, overrides] of Object.entries(section(raw.protocols, 'protocols'))) {
+    document.protocols[protocol] = validateOverrides(overrides, `protocols.${protocol}`);
+  }
+  for (const [asset, overrides] of Object.entries(section(raw.assets, 'assets'))) {
+    const mint = mintForSymbol(asset) || (isValidPublicKey(asset) ? asset : null);
+    if (!mint) {
+      throw new RiskPolicyValidationError(`assets.${asset}: not a known symbol or mint address`);
+    }
+    document.assets[mint] = validateOverrides(overrides, `assets.${asset}`);
+  }
+  for (const [owner, overrides] of Object.entries(section(raw.owners, 'owners'))) {
+    if (!isValidPublicKey(owner)) {
+      throw new RiskPolicyValidationError(`owners.${owner}: not a valid wallet address`);
+    }
+    document.owners[owner] = validateOverrides(overrides, `owners.${owner}`);
+  }
+
+  const scopes = (group: { [key: string]: RiskThresholdOverrides }, name: string) =>
+    [{ label: '', overrides: undefined as RiskThresholdOverrides | undefined }].concat(
+      Object.entries(group).map(([key, overrides]) => ({ label: `${name}.${key}`, overrides }))
+    );
+  for (const protocol of scopes(document.protocols, 'protocols')) {
+    for (const asset of scopes(document.assets, 'assets')) {
+      for (const owner of scopes(document.owners, 'owners')) {
+        const merged = mergeThresholds(base, [document.defaults, protocol.overrides, asset.overrides, owner.overrides]);
+        const label = [protocol.label, asset.label, owner.label].filter(Boolean).join(' + ') || 'defaults';
+        checkOrder(merged, label);
+      }
+    }
+  }
+
+  return document;
+}
+
+// Reads a .json, .yaml or .yml policy file and validates it
+export async function loadPolicyFile(
+  filePath: string,
+  base: RiskThresholds = DEFAULT_RISK_THRESHOLDS
+): Promise<RiskPolicyDocument> {
+  const raw = await fs.readFile(filePath, 'utf8');
+  const extension = path.extname(filePath).toLowerCase();
+
+  let parsed: unknown;
+  try {
+    parsed = extension === '.yaml' || extension === '.yml' ? YAML.parse(raw) : JSON.parse(raw);
+  } catch (error) {
+    throw new RiskPolicyValidationError(
+      `could not parse ${filePath}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+  return validatePolicy(parsed, base);
+}
+
+/**
+ * Keeps a RiskPolicy in step with its file. The first load throws on an
+ * invalid file so a bad policy stops startup; later reloads log the error and
+ * keep serving the last valid policy.
+ */
+export class RiskPolicyWatcher {
+  private filePath: string;
+  private policy: RiskPolicy;
+  private watching = false;
+
+  constructor(filePath: string, policy: RiskPolicy) {
+    this.filePath = filePath;
+    this.policy = policy;
+  }
+
+  async load(): Promise<void> {
+    this.policy.update(await loadPolicyFile(this.filePath, this.policy.getBase()), this.filePath);
+    console.log(`[POLICY] Loaded risk policy from ${this.filePath}`);
+  }
+
+  // Polls the file's mtime, which survives editors that replace the file on save
+  start(intervalMs: number = 5000): void {
+    this.stop();
+    watchFile(this.filePath, { interval: intervalMs }, (current, previous) => {
+      if (current.mtimeMs === previous.mtimeMs) return;
+      if (current.mtimeMs === 0) {
+        console.warn(`[POLICY] ${this.filePath} was removed; keeping the current policy`);
+        return;
+      }
+
+      this.load().catch(error =>
+        console.error(`[POLICY] Reload of ${this.filePath} failed; keeping the current policy:`, error)
+      );
+    });
+    this.watching = true;
+  }
+
+  stop(): void {
+    if (this.watching) {
+      unwatchFile(this.filePath);
+      this.watching = false;
+    }
+  }
+}
+
+function section(value: unknown, name: string): { [key: string]: unknown } {
+  if (value === undefined) return {};
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new RiskPolicyValidationError(`${name} must be a map`);
+  }
+  return value as { [key: string]: unknown };
+}
+
+function validateOverrides(value: unknown, where: string): RiskThresholdOverrides {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new RiskPolicyValidationError(`${where} must be a map of thresholds`);
+  }
+  const raw = value as { [key: string]: unknown };
+  checkKeys(raw, [...THRESHOLD_GROUPS, 'liquidationProbability'], where);
+
+  const overrides: RiskThresholdOverrides = {};
+  for (const group of THRESHOLD_GROUPS) {
+    if (raw[group] === undefined) continue;
+    if (!raw[group] || typeof raw[group] !== 'object') {
+      throw new RiskPolicyValidationError(`${where}.${group} must be a map`);
+    }
+    const entries = raw[group] as { [key: string]: unknown };
+    checkKeys(entries, GROUP_KEYS[group], `${where}.${group}`);
+
+    const thresholds: { [key: string]: number } = {};
+    for (const key of GROUP_KEYS[group]) {
+      const threshold = entries[key];
+      if (threshold === undefined) continue;
+      if (typeof threshold !== 'number' || !Number.isFinite(threshold) || threshold <= 0) {
+        throw new RiskPolicyValidationError(`${where}.${group}.${key} must be a positive number`);
+      }
+      if (group === 'healthFactor' && threshold <= 1) {
+        throw new RiskPolicyValidationError(
+          `${where}.healthFactor.${key} must be above 1.0, where the position is already liquidatable`
+        );
+      }
+      thresholds[key] = threshold;
+    }
+    overrides[group] = thresholds;
+  }
+
+  if (raw.liquidationProbability !== undefined) {
+    const probability = raw.liquidationProbability;
+    if (typeof probability !== 'number' || !(probability > 0 && probability <= 1)) {
+      throw new RiskPolicyValidationError(`${where}.liquidationProbability must be a probability in (0, 1]`);
+    }
+    overrides.liquidationProbability = probability;
+  }
+
+  return overrides;
+}
+
+function checkKeys(value: object, allowed: string[], where: string): void {
+  const unknown = Object.keys(value).filter(key => !allowed.includes(key));
+  if (unknown.length > 0) {
+    throw new RiskPolicyValidationError(
+      `${where}: unknown ${unknown.length === 1 ? 'key' : 'keys'} ${unknown.join(', ')} (expected ${allowed.join(', ')})`
+    );
+  }
+}
+
+function checkOrder(thresholds: RiskThresholds, where: string): void {
+  const { healthFactor, distanceToLiquidationPercent, collateralRatio } = thresholds;
+  if (!(healthFactor.critical < healthFactor.warning && healthFactor.warning < healthFactor.elevated)) {
+    throw new RiskPolicyValidationError(
+      `${where}: healthFactor must satisfy critical < warning < elevated ` +
+        `(got ${healthFactor.critical}, ${healthFactor.warning}, ${healthFactor.elevated})`
+    );
+  }
+  if (!(distanceToLiquidationPercent.critical < distanceToLiquidationPercent.warning)) {
+    throw new RiskPolicyValidationError(`${where}: distanceToLiquidationPercent.critical must be below warning`);
+  }
+  if (!(collateralRatio.critical < collateralRatio.warning)) {
+    throw new RiskPolicyValidationError(`${where}: collateralRatio.critical must be below warning`);
+  }
+}
+
+function mergeThresholds(base: RiskThresholds, layers: (RiskThresholdOverrides | undefined)[]): RiskThresholds {
+  const merged: RiskThresholds = {
+    healthFactor: { ...base.healthFactor },
+    liquidationProbability: base.liquidationProbability,
+    distanceToLiquidationPercent: { ...base.distanceToLiquidationPercent },
+    collateralRatio: { ...base.collateralRatio },
+  };
+
+  for (const layer of layers) {
+    if (!layer) continue;
+    Object.assign(merged.healthFactor, layer.healthFactor);
+    Object.assign(merged.distanceToLiquidationPercent, layer.distanceToLiquidationPercent);
+    Object.assign(merged.collateralRatio, layer.collateralRatio);
+    if (layer.liquidationProbability !== undefined) {
+      merged.liquidationProbability = layer.liquidationProbability;
+    }
+  }
+  return merged;
+}
+
+// Field by field, the most conservative of several resolved thresholds
+function strictest(candidates: RiskThresholds[]): RiskThresholds {
+  return candidates.reduce((a, b) => ({
+    healthFactor: {
+      critical: Math.max(a.healthFactor.critical, b.healthFactor.critical),
+      warning: Math.max(a.healthFactor.warning, b.healthFactor.warning),
+      elevated: Math.max(a.healthFactor.elevated, b.healthFactor.elevated),
+    },
+    // A lower bar fires prediction alerts sooner
+    liquidationProbability: Math.min(a.liquidationProbability, b.liquidationProbability),
+    distanceToLiquidationPercent: {
+      critical: Math.max(a.distanceToLiquidationPercent.critical, b.distanceToLiquidationPercent.critical),
+      warning: Math.max(a.distanceToLiquidationPercent.warning, b.distanceToLiquidationPercent.warning),
+    },
+    collateralRatio: {
+      critical: Math.max(a.collateralRatio.critical, b.collateralRatio.critical),
+      warning: Math.max(a.collateralRatio.warning, b.collateralRatio.warning),
+    },
+  }));
+}
@@ -0,0 +1,54 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+import { Position } from '../monitor/positionMonitor';
+import { createDefaultRegistry } from '../protocols/adapters';
+import { TOKENS } from '../utils/jupiter';
+import { ScenarioEngine, ScenarioValidationError } from './scenarioEngine';
+
+const OWNER = new PublicKey(TOKENS.USDC);
+const offline = { getAccountInfo: async () => null } as unknown as Connection;
+
+function position(id: string, collateralMint: string, valueUsd: number, healthFactor: number): Position {
+  return {
+    id,
+    protocol: 'marginfi',
+    owner: OWNER,
+    collateral: [{ mint: new PublicKey(collateralMint), amount: valueUsd / 150, valueUsd, liquidationWeight: 0.8 }],
+    debt: [{ mint: new PublicKey(TOKENS.USDC), amount: 1000, valueUsd: 1000, liquidationWeight: 1 }],
+    healthFactor,
+    timestamp: Date.now(),
+  };
+}
+
+describe('ScenarioEngine', () => {
+  let engine: ScenarioEngine;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    engine = new ScenarioEngine(createDefaultRegistry(offline));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('carries a SOL shock to LSTs and prices the liquidations it causes', () => {
+    const result = engine.run(
+      [position('sol', TOKENS.SOL, 1500, 1.2), position('jito', TOKENS.JitoSOL, 3000, 2.4)],
+      { name: 'sol-crash', shocks: [{ mint: 'SOL', percent: -25, correlated: true }] }
+    );
+
+    expect(result.priceMultipliers[TOKENS.JitoSOL]).toBe(0.75);
+    expect(result.positions.map(p => [p.positionId, p.liquidated])).toEqual([['sol', true], ['jito', false]]);
+    expect(result.positions[0].projectedHealthFactor).toBeCloseTo(0.9, 10);
+    expect(result.positions[1].projectedHealthFactor).toBeCloseTo(1.8, 10);
+    // $375 lost to the price move plus a 5% penalty on the $1000 debt
+    expect(result.positions[0]).toMatchObject({ priceLossUsd: 375, liquidationLossUsd: 50, expectedLossUsd: 425 });
+    expect(result.summary).toMatchObject({ evaluated: 2, liquidated: 1 });
+    expect(result.summary.totalExpectedLossUsd).toBeCloseTo(1175, 10);
+  });
+
+  it('rejects shocks it cannot apply', () => {
+    expect(() => engine.run([], { shocks: [{ group: 'memecoins', percent: -50 }] })).toThrow(ScenarioValidationError);
+    expect(() => engine.run([], { shocks: [{ mint: 'SOL', percent: -100 }] })).toThrow(ScenarioValidationError);
+  });
+});
@@ -0,0 +1,313 @@
+import { Position } from '../monitor/positionMonitor';
+import { HealthModel, ProtocolRegistry } from '../protocols/adapter';
+import { TOKENS, mintForSymbol } from '../utils/jupiter';
+
+export interface PriceShock {
+  mint?: string;
+  group?: string;
+  // Percent price move, e.g. -25 for a 25% drop
+  percent: number;
+  // Also move assets that track this mint (e.g. LSTs when SOL moves)
+  correlated?: boolean;
+}
+
+export interface ScenarioRequest {
+  name?: string;
+  shocks: PriceShock[];
+  liquidationPenalty?: number;
+}
+
+export interface ScenarioPositionResult {
+  positionId: string;
+  protocol: string;
+  owner: string;
+  healthModel: HealthModel;
+  currentHealthFactor: number;
+  projectedHealthFactor: number;
+  liquidated: boolean;
+  equityBeforeUsd: number;
+  equityAfterUsd: number;
+  priceLossUsd: number;
+  liquidationLossUsd: number;
+  badDebtUsd: number;
+  expectedLossUsd: number;
+}
+
+export interface ScenarioResult {
+  name: string;
+  shocks: PriceShock[];
+  priceMultipliers: { [mint: string]: number };
+  positions: ScenarioPositionResult[];
+  summary: {
+    evaluated: number;
+    liquidated: number;
+    totalExpectedLossUsd: number;
+    totalBadDebtUsd: number;
+    byProtocol: {
+      [protocol: string]: { evaluated: number; liquidated: number; expectedLossUsd: number };
+    };
+  };
+  timestamp: number;
+}
+
+export class ScenarioValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScenarioValidationError';
+  }
+}
+
+export const ASSET_GROUPS: { [group: string]: string[] } = {
+  sol: [TOKENS.SOL],
+  lst: [TOKENS.JitoSOL, TOKENS.mSOL, TOKENS.stSOL],
+  stablecoin: [TOKENS.USDC, TOKENS.USDT],
+};
+
+// Beta of each asset's move relative to the shocked mint
+const CORRELATED_ASSETS: { [mint: string]: { [mint: string]: number } } = {
+  [TOKENS.SOL]: { [TOKENS.JitoSOL]: 1, [TOKENS.mSOL]: 1, [TOKENS.stSOL]: 1 },
+  [TOKENS.JitoSOL]: { [TOKENS.SOL]: 1, [TOKENS.mSOL]: 1, [TOKENS.stSOL]: 1 },
+  [TOKENS.mSOL]: { [TOKENS.SOL]: 1, [TOKENS.JitoSOL]: 1, [TOKENS.stSOL]: 1 },
+  [TOKENS.stSOL]: { [TOKENS.SOL]: 1, [TOKENS.JitoSOL]: 1, [TOKENS.mSOL]: 1 },
+};
+
+const DEFAULT_LIQUIDATION_PENALTY: { [model in HealthModel]: number } = {
+  'weighted-collateral': 0.05,
+  'liquidation-threshold': 0.05,
+  'maintenance-margin': 0.025,
+};
+
+export class ScenarioEngine {
+  private registry: ProtocolRegistry;
+
+  constructor(registry: ProtocolRegistry) {
+    this.registry = registry;
+  }
+
+  buildPriceMultipliers(shocks: PriceShock[]): Map<string, number> {
+    if (!Array.isArray(shocks) || shocks.length === 0) {
+      throw new ScenarioValidationError('shocks must be a non-empty array');
+    }
+
+    const multipliers = new Map<string, number>();
+    const apply = (mint: string, percent: number) => {
+      multipliers.set(mint, (multipliers.get(mint) ?? 1) * (1 + percent / 100));
+    };
+
+    for (const shock of shocks) {
+      if (typeof shock.percent !== 'number' || !Number.isFinite(shock.percent) || shock.percent <= -100) {
+        throw new ScenarioValidationError('each shock needs a numeric percent greater than -100');
+      }
+
+      let mints: string[];
+      if (shock.group) {
+        mints = ASSET_GROUPS[shock.group];
+        if (!mints) {
+          throw new ScenarioValidationError(
+            `Unknown group: ${shock.group} (expected one of ${Object.keys(ASSET_GROUPS).join(', ')})`
+          );
+        }
+      } else if (shock.mint) {
+        // Accept a token symbol ('SOL', 'JitoSOL') or a raw mint address
+        mints = [mintForSymbol(shock.mint) ?? shock.mint];
+      } else {
+        throw new ScenarioValidationError('each shock needs a mint or a group');
+      }
+
+      for (const mint of mints) {
+        apply(mint, shock.percent);
+
+        if (shock.correlated) {
+          for (const [related, beta] of Object.entries(CORRELATED_ASSETS[mint] || {})) {
+            if (!mints.includes(related)) apply(related, shock.percent * beta);
+          }
+        }
+      }
+    }
+
+    return multipliers;
+  }
+
+  run(positions: Position[], request: ScenarioRequest): ScenarioResult {
+    const multipliers = this.buildPriceMultipliers(request.shocks);
+
+    if (
+      request.liquidationPenalty !== undefined &&
+      (typeof request.liquidationPenalty !== 'number' || request.liquidationPenalty < 0 || request.liquidationPenalty >= 1)
+    ) {
+      throw new ScenarioValidationError('liquidationPenalty must be a fraction between 0 and 1');
+    }
+
+    const results = positions
+      .map(position => this.evaluatePosition(position, multipliers, request.liquidationPenalty))
+      .sort((a, b) => a.projectedHealthFactor - b.projectedHealthFactor);
+
+    const byProtocol: ScenarioResult['summary']['byProtocol'] = {};
+    for (const result of results) {
+      const entry = byProtocol[result.protocol] || { evaluated: 0, liquidated: 0, expectedLossUsd: 0 };
+      entry.evaluated++;
+      if (result.liquidated) entry.liquidated++;
+      entry.expectedLossUsd += result.expectedLossUsd;
+      byProtocol[result.protocol] = entry;
+    }
+
+    return {
+      name: request.name || 'custom',
+      shocks: request.shocks,
+      priceMultipliers: Object.fromEntries(multipliers),
+      positions: results,
+      summary: {
+        evaluated: results.length,
+        liquidated: results.filter(r => r.liquidated).length,
+        totalExpectedLossUsd: results.reduce((sum, r) => sum + r.expectedLossUsd, 0),
+        totalBadDebtUsd: results.reduce((sum, r) => sum + r.badDebtUsd, 0),
+        byProtocol,
+      },
+      timestamp: Date.now(),
+    };
+  }
+
+  evaluatePosition(
+    position: Position,
+    multipliers: Map<string, number>,
+    liquidationPenalty?: number
+  ): ScenarioPositionResult {
+    const healthModel = this.registry.get(position.protocol)?.healthModel
+      ?? (position.perpExposure?.length ? 'maintenance-margin' : 'weighted-collateral');
+    const penalty = liquidationPenalty ?? DEFAULT_LIQUIDATION_PENALTY[healthModel];
+
+    const evaluation = healthModel === 'maintenance-margin'
+      ? this.evaluateMaintenanceMargin(position, multipliers)
+      : this.evaluateWeightedBalances(position, multipliers, healthModel);
+
+    // Anchor on the protocol-reported health so model simplifications cancel out
+    const anchored =
+      Number.isFinite(position.healthFactor) && position.healthFactor > 0 &&
+      Number.isFinite(evaluation.baseline) && evaluation.baseline > 0 &&
+      Number.isFinite(evaluation.shocked)
+        ? position.healthFactor * (evaluation.shocked / evaluation.baseline)
+        : evaluation.shocked;
+
+    const liquidated = anchored < 1;
+    const liquidationLossUsd = liquidated ? evaluation.liquidationBaseUsd * penalty : 0;
+    const badDebtUsd = Math.max(0, -evaluation.equityAfter);
+    const priceLossUsd = Math.max(0, evaluation.equityBefore - evaluation.equityAfter);
+
+    return {
+      positionId: position.id,
+      protocol: position.protocol,
+      owner: position.owner.toBase58(),
+      healthModel,
+      currentHealthFactor: position.healthFactor,
+      projectedHealthFactor: anchored,
+      liquidated,
+      equityBeforeUsd: evaluation.equityBefore,
+      equityAfterUsd: evaluation.equityAfter,
+      priceLossUsd,
+      liquidationLossUsd,
+      badDebtUsd,
+      expectedLossUsd: priceLossUsd + liquidationLossUsd,
+    };
+  }
+
+  // Marginfi (maintenance asset/liability weights) and Kamino (reserve liquidation thresholds)
+  private evaluateWeightedBalances(
+    position: Position,
+    multipliers: Map<string, number>,
+    healthModel: HealthModel
+  ) {
+    const defaultCollateralWeight = position.liquidationThreshold || 0.85;
+    let weightedCollateral = 0;
+    let weightedDebt = 0;
+    let shockedWeightedCollateral = 0;
+    let shockedWeightedDebt = 0;
+    let collateralAfter = 0;
+    let debtAfter = 0;
+
+    for (const c of position.collateral) {
+      const m = multipliers.get(c.mint.toBase58()) ?? 1;
+      const weight = c.liquidationWeight ?? defaultCollateralWeight;
+      weightedCollateral += c.valueUsd * weight;
+      shockedWeightedCollateral += c.valueUsd * m * weight;
+      collateralAfter += c.valueUsd * m;
+    }
+
+    for (const d of position.debt) {
+      const m = multipliers.get(d.mint.toBase58()) ?? 1;
+      // Kamino borrow factors are not decoded; treat borrows at face value
+      const weight = healthModel === 'liquidation-threshold' ? 1 : d.liquidationWeight ?? 1;
+      weightedDebt += d.valueUsd * weight;
+      shockedWeightedDebt += d.valueUsd * m * weight;
+      debtAfter += d.valueUsd * m;
+    }
+
+    const equityBefore =
+      position.collateral.reduce((sum, c) => sum + c.valueUsd, 0) -
+      position.debt.reduce((sum, d) => sum + d.valueUsd, 0);
+
+    return {
+      baseline: weightedDebt > 0 ? weightedCollateral / weightedDebt : Infinity,
+      shocked: shockedWeightedDebt > 0 ? shockedWeightedCollateral / shockedWeightedDebt : Infinity,
+      equityBefore,
+      equityAfter: collateralAfter - debtAfter,
+      liquidationBaseUsd: debtAfter,
+    };
+  }
+
+  // Drift: weighted spot collateral plus perp PnL against notional-weighted
+  // maintenance margin and the weighted spot borrows
+  private evaluateMaintenanceMargin(position: Position, multipliers: Map<string, number>) {
+    let collateral = 0;
+    let collateralAfter = 0;
+    let weightedCollateral = 0;
+    let shockedWeightedCollateral = 0;
+    let debt = 0;
+    let debtAfter = 0;
+    let requirement = 0;
+    let shockedRequirement = 0;
+    let pnlDelta = 0;
+    let shockedNotional = 0;
+
+    for (const c of position.collateral) {
+      const m = multipliers.get(c.mint.toBase58()) ?? 1;
+      const weight = c.liquidationWeight ?? 1;
+      collateral += c.valueUsd;
+      collateralAfter += c.valueUsd * m;
+      weightedCollateral += c.valueUsd * weight;
+      shockedWeightedCollateral += c.valueUsd * m * weight;
+    }
+
+    for (const d of position.debt) {
+      const m = multipliers.get(d.mint.toBase58()) ?? 1;
+      const weight = d.liquidationWeight ?? 1;
+      debt += d.valueUsd;
+      debtAfter += d.valueUsd * m;
+      requirement += d.valueUsd * weight;
+      shockedRequirement += d.valueUsd * m * weight;
+    }
+
+    for (const perp of position.perpExposure || []) {
+      const mint = perp.symbol ? mintForSymbol(perp.symbol) : null;
+      const m = (mint ? multipliers.get(mint) : undefined) ?? 1;
+      const ratio = perp.maintenanceMarginRatio ?? 0.05;
+      const direction = perp.side === 'long' ? 1 : -1;
+      const shockedNotionalUsd = perp.notionalUsd * m;
+
+      pnlDelta += direction * (shockedNotionalUsd - perp.notionalUsd);
+      requirement += perp.notionalUsd * ratio;
+      shockedRequirement += shockedNotionalUsd * ratio;
+      shockedNotional += shockedNotionalUsd;
+    }
+
+    collateralAfter += pnlDelta;
+    shockedWeightedCollateral += pnlDelta;
+
+    return {
+      baseline: requirement > 0 ? weightedCollateral / requirement : Infinity,
+      shocked: shockedRequirement > 0 ? shockedWeightedCollateral / shockedRequirement : Infinity,
+      equityBefore: collateral - debt,
+      equityAfter: collateralAfter - debtAfter,
+      liquidationBaseUsd: shockedNotional,
+    };
+  }
+}
@@ -0,0 +1,69 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+import { Position } from '../monitor/positionMonitor';
+import { createDefaultRegistry } from '../protocols/adapters';
+import { JupiterPriceFeed, TOKENS } from '../utils/jupiter';
+import { RiskEngine } from './riskEngine';
+import { SimulationService, SimulationValidationError } from './simulationService';
+
+const offline = { getAccountInfo: async () => null } as unknown as Connection;
+
+// 10 SOL at $150 (80% weight) against $1000 of USDC
+function position(): Position {
+  return {
+    id: 'marginfi-simulation',
+    protocol: 'marginfi',
+    owner: new PublicKey(TOKENS.USDC),
+    collateral: [{ mint: new PublicKey(TOKENS.SOL), amount: 10, valueUsd: 1500, priceUsd: 150, liquidationWeight: 0.8 }],
+    debt: [{ mint: new PublicKey(TOKENS.USDC), amount: 1000, valueUsd: 1000, priceUsd: 1, liquidationWeight: 1 }],
+    healthFactor: 1.2,
+    timestamp: Date.now(),
+  };
+}
+
+describe('SimulationService', () => {
+  let simulation: SimulationService;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    simulation = new SimulationService(offline, createDefaultRegistry(offline), new RiskEngine({}), new JupiterPriceFeed());
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('carries a withdrawal through a swap into a repay', async () => {
+    const result = await simulation.simulate(position(), {
+      actions: [
+        { kind: 'withdraw', mint: 'SOL', amount: 2 },
+        { kind: 'swap', mint: 'SOL', outputMint: 'USDC', slippageBps: 100 },
+        { kind: 'repay', mint: 'USDC' },
+      ],
+      targetHealthFactor: 1.3,
+      quoteSwaps: false,
+    });
+
+    // $960 weighted collateral against the $703 left after repaying $297
+    expect(result.projectedHealthFactor).toBeCloseTo(960 / 703, 10);
+    expect(result.restoresHealth).toBe(true);
+    expect(result.slippageCostUsd).toBeCloseTo(3, 10);
+    expect(result.walletBalances).toEqual({});
+    expect(result.actions.map(a => a.externallyFunded)).toEqual([undefined, undefined, undefined]);
+    expect(result.liquidationPrice.asset).toBe(TOKENS.SOL);
+    expect(result.liquidationPrice.projected!).toBeLessThan(result.liquidationPrice.current!);
+  });
+
+  it('caps repays at the debt and flags what the wallet cannot cover', async () => {
+    const result = await simulation.simulate(position(), { actions: [{ kind: 'repay', mint: 'USDC', amount: 1500 }] });
+
+    expect(result.actions[0]).toMatchObject({ amount: 1000, externallyFunded: 1000 });
+    expect(result.actions[0].warnings).toEqual([`Repay capped at the outstanding 1000 ${TOKENS.USDC}`]);
+    expect(result.projectedHealthFactor).toBe(Infinity);
+  });
+
+  it('rejects withdrawing more than the position holds', async () => {
+    await expect(
+      simulation.simulate(position(), { actions: [{ kind: 'withdraw', mint: 'SOL', amount: 11 }] })
+    ).rejects.toBeInstanceOf(SimulationValidationError);
+  });
+});
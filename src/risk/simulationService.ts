@@ -0,0 +1,597 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+import { PerpExposure, Position } from '../monitor/positionMonitor';
+import { HealthModel, LiquidationParameters, ProtocolRegistry } from '../protocols/adapter';
+import { JupiterPriceFeed, mintForSymbol } from '../utils/jupiter';
+import { getMintDecimals, toNativeAmount } from '../utils/spl';
+import { LiquidationPriceBreakdown, RiskEngine } from './riskEngine';
+
+export type SimulatedActionKind = 'deposit' | 'withdraw' | 'repay' | 'swap' | 'reduce-perp';
+
+export const SIMULATED_ACTION_KINDS: SimulatedActionKind[] = ['deposit', 'withdraw', 'repay', 'swap', 'reduce-perp'];
+
+export interface SimulatedAction {
+  kind: SimulatedActionKind;
+  // Token symbol ('SOL') or mint address; the swap input for swaps
+  mint?: string;
+  outputMint?: string;
+  // UI units, or base asset size for reduce-perp. Deposits, repays and swaps
+  // may omit it to spend whatever earlier actions left in the wallet
+  amount?: number;
+  slippageBps?: number;
+  marketIndex?: number;
+}
+
+export interface SimulationRequest {
+  actions: SimulatedAction[];
+  targetHealthFactor?: number;
+  // Set false to skip Jupiter and estimate swaps from slippageBps alone
+  quoteSwaps?: boolean;
+}
+
+export interface SimulatedActionResult {
+  action: SimulatedAction;
+  mint?: string;
+  outputMint?: string;
+  amount: number;
+  valueUsd: number;
+  outputAmount?: number;
+  minimumOutputAmount?: number;
+  priceImpactPercent?: number;
+  slippageCostUsd: number;
+  quoteSource?: 'jupiter' | 'estimate';
+  // Amount not covered by earlier actions, assumed to come from outside the position
+  externallyFunded?: number;
+  warnings: string[];
+}
+
+export interface SimulationResult {
+  positionId: string;
+  protocol: string;
+  healthModel: HealthModel;
+  currentHealthFactor: number;
+  projectedHealthFactor: number;
+  targetHealthFactor: number;
+  restoresHealth: boolean;
+  liquidationPrice: {
+    asset: string | null;
+    current: number | null;
+    projected: number | null;
+  };
+  liquidationPrices: {
+    current: LiquidationPriceBreakdown;
+    projected: LiquidationPriceBreakdown;
+  };
+  slippageCostUsd: number;
+  // Tokens left in the wallet after the actions (e.g. an unspent swap output)
+  walletBalances: { [mint: string]: number };
+  actions: SimulatedActionResult[];
+  projectedPosition: Position;
+  timestamp: number;
+}
+
+export class SimulationValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SimulationValidationError';
+  }
+}
+
+type Balance = Position['collateral'][number];
+
+const DEFAULT_SWAP_SLIPPAGE_BPS = 50;
+// Taker fee plus impact assumed when closing perps
+const DEFAULT_PERP_SLIPPAGE_BPS = 10;
+const DEFAULT_COLLATERAL_WEIGHT = 0.85;
+const DEFAULT_MAINTENANCE_MARGIN_RATIO = 0.05;
+
+// Drift spot borrows count toward the maintenance requirement at their liability weight
+function spotLiabilityRequirement(position: Position): number {
+  return position.debt.reduce((sum, d) => sum + d.valueUsd * (d.liquidationWeight ?? 1), 0);
+}
+const DUST = 1e-9;
+
+/**
+ * Applies proposed deposits, withdrawals, repays, Jupiter swaps and perp
+ * reductions to a copy of a position's balance sheet, valued with the
+ * protocol's own weights, and reports where health and liquidation prices
+ * would land. Nothing is sent on-chain.
+ */
+export class SimulationService {
+  private connection: Connection;
+  private registry: ProtocolRegistry;
+  private riskEngine: RiskEngine;
+  private jupiter: JupiterPriceFeed;
+
+  constructor(connection: Connection, registry: ProtocolRegistry, riskEngine: RiskEngine, jupiter: JupiterPriceFeed) {
+    this.connection = connection;
+    this.registry = registry;
+    this.riskEngine = riskEngine;
+    this.jupiter = jupiter;
+  }
+
+  /**
+   * liquidationParameters supplies bank weights / reserve thresholds for
+   * mints the position holds; without them each balance's own weight is used.
+   */
+  async simulate(
+    position: Position,
+    request: SimulationRequest,
+    liquidationParameters?: LiquidationParameters | null
+  ): Promise<SimulationResult> {
+    this.validate(request);
+
+    const healthModel = this.registry.get(position.protocol)?.healthModel
+      ?? (position.perpExposure?.length ? 'maintenance-margin' : 'weighted-collateral');
+    const weights = this.collectWeights(position, healthModel, liquidationParameters);
+    const projected = this.clonePosition(position);
+    const wallet = new Map<string, number>();
+    const results: SimulatedActionResult[] = [];
+
+    for (const action of request.actions) {
+      results.push(await this.applyAction(projected, action, healthModel, weights, wallet, request.quoteSwaps !== false));
+    }
+
+    if (projected.drift) {
+      projected.drift.totalCollateral = projected.collateral.reduce((sum, c) => sum + c.valueUsd, 0);
+    }
+
+    const baseline = this.modelHealth(position, healthModel);
+    const after = this.modelHealth(projected, healthModel);
+    // Anchor on the protocol-reported health so model simplifications cancel out
+    const projectedHealthFactor =
+      Number.isFinite(position.healthFactor) && position.healthFactor > 0 &&
+      Number.isFinite(baseline) && baseline > 0 && Number.isFinite(after)
+        ? position.healthFactor * (after / baseline)
+        : after;
+    projected.healthFactor = projectedHealthFactor;
+    projected.timestamp = Date.now();
+
+    if (healthModel === 'maintenance-margin') {
+      this.updatePerpLiquidationPrices(projected);
+    }
+
+    const current = this.riskEngine.calculateLiquidationPrices(position);
+    const projectedPrices = this.riskEngine.calculateLiquidationPrices(projected);
+    const asset = this.primaryAsset(position, healthModel);
+    const lookup = (breakdown: LiquidationPriceBreakdown) =>
+      asset ? breakdown.perAsset.find(a => a.mint === asset)?.liquidationPrice ?? null : null;
+
+    const targetHealthFactor = request.targetHealthFactor ?? 1;
+
+    return {
+      positionId: position.id,
+      protocol: position.protocol,
+      healthModel,
+      currentHealthFactor: position.healthFactor,
+      projectedHealthFactor,
+      targetHealthFactor,
+      restoresHealth: projectedHealthFactor >= targetHealthFactor,
+      liquidationPrice: {
+        asset,
+        current: lookup(current),
+        projected: lookup(projectedPrices),
+      },
+      liquidationPrices: { current, projected: projectedPrices },
+      slippageCostUsd: results.reduce((sum, r) => sum + r.slippageCostUsd, 0),
+      walletBalances: Object.fromEntries(Array.from(wallet.entries()).filter(([, amount]) => amount > DUST)),
+      actions: results,
+      projectedPosition: projected,
+      timestamp: Date.now(),
+    };
+  }
+
+  private validate(request: SimulationRequest): void {
+    if (!request || !Array.isArray(request.actions) || request.actions.length === 0) {
+      throw new SimulationValidationError('actions must be a non-empty array');
+    }
+    if (
+      request.targetHealthFactor !== undefined &&
+      (typeof request.targetHealthFactor !== 'number' || !(request.targetHealthFactor > 0))
+    ) {
+      throw new SimulationValidationError('targetHealthFactor must be a positive number');
+    }
+
+    request.actions.forEach((action, index) => {
+      const label = `actions[${index}]`;
+      if (!action || !SIMULATED_ACTION_KINDS.includes(action.kind)) {
+        throw new SimulationValidationError(
+          `${label}.kind must be one of ${SIMULATED_ACTION_KINDS.join(', ')}`
+        );
+      }
+      if (action.amount !== undefined && (typeof action.amount !== 'number' || !(action.amount > 0))) {
+        throw new SimulationValidationError(`${label}.amount must be a positive number`);
+      }
+      if (
+        action.slippageBps !== undefined &&
+        (typeof action.slippageBps !== 'number' || action.slippageBps < 0 || action.slippageBps >= 10000)
+      ) {
+        throw new SimulationValidationError(`${label}.slippageBps must be between 0 and 10000`);
+      }
+
+      if (action.kind === 'reduce-perp') {
+        if (typeof action.marketIndex !== 'number' || action.amount === undefined) {
+          throw new SimulationValidationError(`${label}: reduce-perp needs a marketIndex and an amount`);
+        }
+        return;
+      }
+
+      if (typeof action.mint !== 'string' || action.mint === '') {
+        throw new SimulationValidationError(`${label}: ${action.kind} needs a mint`);
+      }
+      if (action.kind === 'swap' && (typeof action.outputMint !== 'string' || action.outputMint === '')) {
+        throw new SimulationValidationError(`${label}: swap needs an outputMint`);
+      }
+      if (action.kind === 'withdraw' && action.amount === undefined) {
+        throw new SimulationValidationError(`${label}: withdraw needs an amount`);
+      }
+    });
+  }
+
+  private resolveMint(mint: string): string {
+    const resolved = mintForSymbol(mint) ?? mint;
+    try {
+      return new PublicKey(resolved).toBase58();
+    } catch {
+      throw new SimulationValidationError(`Unknown token: ${mint}`);
+    }
+  }
+
+  // mint -> weight on each side, from the protocol's parameters where available
+  private collectWeights(
+    position: Position,
+    healthModel: HealthModel,
+    parameters?: LiquidationParameters | null
+  ): { collateral: Map<string, number>; debt: Map<string, number>; fallback: number } {
+    const collateral = new Map<string, number>();
+    const debt = new Map<string, number>();
+
+    for (const c of position.collateral) {
+      if (c.liquidationWeight !== undefined) collateral.set(c.mint.toBase58(), c.liquidationWeight);
+    }
+    for (const d of position.debt) {
+      if (d.liquidationWeight !== undefined) debt.set(d.mint.toBase58(), d.liquidationWeight);
+    }
+
+    for (const asset of parameters?.assets || []) {
+      const mint = asset.mint.toBase58();
+      const collateralWeight = healthModel === 'liquidation-threshold' ? asset.liquidationThreshold : asset.assetWeight;
+      if (collateralWeight !== undefined && !collateral.has(mint)) collateral.set(mint, collateralWeight);
+      if (asset.liabilityWeight !== undefined && !debt.has(mint)) debt.set(mint, asset.liabilityWeight);
+    }
+
+    return { collateral, debt, fallback: position.liquidationThreshold || DEFAULT_COLLATERAL_WEIGHT };
+  }
+
+  private async applyAction(
+    position: Position,
+    action: SimulatedAction,
+    healthModel: HealthModel,
+    weights: { collateral: Map<string, number>; debt: Map<string, number>; fallback: number },
+    wallet: Map<string, number>,
+    quoteSwaps: boolean
+  ): Promise<SimulatedActionResult> {
+    const warnings: string[] = [];
+
+    if (action.kind === 'reduce-perp') {
+      return this.applyPerpReduction(position, action, warnings);
+    }
+
+    const mint = this.resolveMint(action.mint!);
+    const walletBalance = wallet.get(mint) || 0;
+
+    // Spend from the wallet first; anything beyond it is assumed to come from outside
+    const spendFromWallet = (amount: number): number => {
+      const fromWallet = Math.min(walletBalance, amount);
+      wallet.set(mint, walletBalance - fromWallet);
+      return amount - fromWallet;
+    };
+
+    switch (action.kind) {
+      case 'withdraw': {
+        const balance = this.findBalance(position.collateral, mint);
+        if (!balance || balance.amount + DUST < action.amount!) {
+          throw new SimulationValidationError(
+            `Cannot withdraw ${action.amount} of ${mint}; position holds ${balance?.amount ?? 0}`
+          );
+        }
+
+        const price = this.balancePrice(balance);
+        this.adjustBalance(position.collateral, balance, -action.amount!, price);
+        wallet.set(mint, walletBalance + action.amount!);
+
+        return { action, mint, amount: action.amount!, valueUsd: action.amount! * price, slippageCostUsd: 0, warnings };
+      }
+
+      case 'deposit': {
+        const amount = action.amount ?? walletBalance;
+        if (!(amount > 0)) {
+          throw new SimulationValidationError(`No ${mint} in the wallet to deposit; pass an amount`);
+        }
+
+        const existing = this.findBalance(position.collateral, mint);
+        const price = existing ? this.balancePrice(existing) : await this.getPrice(mint);
+        if (healthModel === 'maintenance-margin' && !existing) {
+          warnings.push(`${mint} is not a margin asset on this account yet; valued at full weight`);
+        } else if (!weights.collateral.has(mint)) {
+          warnings.push(`No protocol weight for ${mint}; assumed ${weights.fallback}`);
+        }
+
+        const externallyFunded = spendFromWallet(amount);
+        if (existing) {
+          this.adjustBalance(position.collateral, existing, amount, price);
+        } else {
+          position.collateral.push({
+            mint: new PublicKey(mint),
+            amount,
+            valueUsd: amount * price,
+            priceUsd: price,
+            liquidationWeight: healthModel === 'maintenance-margin' ? 1 : weights.collateral.get(mint) ?? weights.fallback,
+          });
+        }
+
+        return {
+          action, mint, amount, valueUsd: amount * price, slippageCostUsd: 0,
+          externallyFunded: externallyFunded > DUST ? externallyFunded : undefined, warnings,
+        };
+      }
+
+      case 'repay': {
+        const debt = this.findBalance(position.debt, mint);
+        if (!debt) {
+          throw new SimulationValidationError(`Position has no ${mint} debt to repay`);
+        }
+
+        let amount = action.amount ?? Math.min(walletBalance, debt.amount);
+        if (!(amount > 0)) {
+          throw new SimulationValidationError(`No ${mint} in the wallet to repay with; pass an amount`);
+        }
+        if (amount > debt.amount) {
+          warnings.push(`Repay capped at the outstanding ${debt.amount} ${mint}`);
+          amount = debt.amount;
+        }
+
+        const price = this.balancePrice(debt);
+        const externallyFunded = spendFromWallet(amount);
+        this.adjustBalance(position.debt, debt, -amount, price);
+
+        return {
+          action, mint, amount, valueUsd: amount * price, slippageCostUsd: 0,
+          externallyFunded: externallyFunded > DUST ? externallyFunded : undefined, warnings,
+        };
+      }
+
+      case 'swap': {
+        const outputMint = this.resolveMint(action.outputMint!);
+        const amount = action.amount ?? walletBalance;
+        if (!(amount > 0)) {
+          throw new SimulationValidationError(`No ${mint} in the wallet to swap; pass an amount`);
+        }
+
+        const externallyFunded = spendFromWallet(amount);
+        const swap = await this.quoteSwap(position, mint, outputMint, amount, action.slippageBps, quoteSwaps, warnings);
+        wallet.set(outputMint, (wallet.get(outputMint) || 0) + swap.outputAmount);
+
+        return {
+          action,
+          mint,
+          outputMint,
+          amount,
+          valueUsd: swap.inputValueUsd,
+          outputAmount: swap.outputAmount,
+          minimumOutputAmount: swap.minimumOutputAmount,
+          priceImpactPercent: swap.priceImpactPercent,
+          slippageCostUsd: swap.slippageCostUsd,
+          quoteSource: swap.quoteSource,
+          externallyFunded: externallyFunded > DUST ? externallyFunded : undefined,
+          warnings,
+        };
+      }
+    }
+
+    throw new SimulationValidationError(`Unsupported action: ${action.kind}`);
+  }
+
+  private applyPerpReduction(position: Position, action: SimulatedAction, warnings: string[]): SimulatedActionResult {
+    const perp = (position.perpExposure || []).find(p => p.marketIndex === action.marketIndex);
+    if (!perp || perp.size <= 0) {
+      throw new SimulationValidationError(`Position has no open perp in market ${action.marketIndex}`);
+    }
+
+    let size = action.amount!;
+    if (size > perp.size) {
+      warnings.push(`Reduction capped at the open size of ${perp.size}`);
+      size = perp.size;
+    }
+
+    const fraction = size / perp.size;
+    const notionalUsd = perp.notionalUsd * fraction;
+    const slippageCostUsd = notionalUsd * (action.slippageBps ?? DEFAULT_PERP_SLIPPAGE_BPS) / 10000;
+
+    perp.size -= size;
+    perp.notionalUsd -= notionalUsd;
+    perp.unrealizedPnl *= 1 - fraction;
+
+    // Fees and impact come out of the cross-margined quote collateral
+    const quote = position.collateral[0];
+    if (quote) {
+      this.adjustBalance(position.collateral, quote, -slippageCostUsd / this.balancePrice(quote), this.balancePrice(quote), true);
+    }
+
+    if (perp.size <= DUST) {
+      position.perpExposure = position.perpExposure!.filter(p => p !== perp);
+    }
+
+    return {
+      action,
+      mint: perp.symbol,
+      amount: size,
+      valueUsd: notionalUsd,
+      slippageCostUsd,
+      quoteSource: 'estimate',
+      warnings,
+    };
+  }
+
+  private async quoteSwap(
+    position: Position,
+    inputMint: string,
+    outputMint: string,
+    amount: number,
+    requestedSlippageBps: number | undefined,
+    useJupiter: boolean,
+    warnings: string[]
+  ) {
+    const slippageBps = requestedSlippageBps ?? DEFAULT_SWAP_SLIPPAGE_BPS;
+    const inputPrice = await this.getPrice(inputMint, position);
+    const outputPrice = await this.getPrice(outputMint, position);
+    const inputValueUsd = amount * inputPrice;
+
+    if (useJupiter) {
+      try {
+        const [inputDecimals, outputDecimals] = await Promise.all([
+          getMintDecimals(this.connection, inputMint),
+          getMintDecimals(this.connection, outputMint),
+        ]);
+        const quote = await this.jupiter.getSwapQuote(
+          inputMint,
+          outputMint,
+          toNativeAmount(amount, inputDecimals).toString(),
+          slippageBps
+        );
+
+        if (quote) {
+          const scale = Math.pow(10, outputDecimals);
+          const outputAmount = Number(quote.outAmount) / scale;
+          return {
+            inputValueUsd,
+            outputAmount,
+            minimumOutputAmount: Number(quote.otherAmountThreshold) / scale,
+            priceImpactPercent: this.jupiter.calculatePriceImpact(quote).percentage,
+            slippageCostUsd: Math.max(0, inputValueUsd - outputAmount * outputPrice),
+            quoteSource: 'jupiter' as const,
+          };
+        }
+        warnings.push('Jupiter returned no route; estimated from slippageBps');
+      } catch (error) {
+        warnings.push(`Jupiter quote failed (${error instanceof Error ? error.message : error}); estimated from slippageBps`);
+      }
+    }
+
+    const retained = 1 - slippageBps / 10000;
+    const outputAmount = outputPrice > 0 ? (inputValueUsd * retained) / outputPrice : 0;
+    return {
+      inputValueUsd,
+      outputAmount,
+      minimumOutputAmount: outputAmount,
+      priceImpactPercent: undefined,
+      slippageCostUsd: inputValueUsd - inputValueUsd * retained,
+      quoteSource: 'estimate' as const,
+    };
+  }
+
+  private modelHealth(position: Position, healthModel: HealthModel): number {
+    if (healthModel === 'maintenance-margin') {
+      const collateral = position.collateral.reduce((sum, c) => sum + c.valueUsd * (c.liquidationWeight ?? 1), 0);
+      const requirement = (position.perpExposure || []).reduce(
+        (sum, p) => sum + p.notionalUsd * (p.maintenanceMarginRatio ?? DEFAULT_MAINTENANCE_MARGIN_RATIO),
+        spotLiabilityRequirement(position)
+      );
+      return requirement > 0 ? collateral / requirement : Infinity;
+    }
+
+    const fallback = position.liquidationThreshold || DEFAULT_COLLATERAL_WEIGHT;
+    const weightedCollateral = position.collateral.reduce(
+      (sum, c) => sum + c.valueUsd * (c.liquidationWeight ?? fallback),
+      0
+    );
+    // Kamino borrow factors are not decoded; treat borrows at face value
+    const weightedDebt = position.debt.reduce(
+      (sum, d) => sum + d.valueUsd * (healthModel === 'liquidation-threshold' ? 1 : d.liquidationWeight ?? 1),
+      0
+    );
+    return weightedDebt > 0 ? weightedCollateral / weightedDebt : Infinity;
+  }
+
+  /**
+   * Recomputes each perp's liquidation price after the actions, moving that
+   * market alone with every other requirement held fixed.
+   */
+  private updatePerpLiquidationPrices(position: Position): void {
+    const perps = position.perpExposure || [];
+    const collateral = position.collateral.reduce((sum, c) => sum + c.valueUsd * (c.liquidationWeight ?? 1), 0);
+    const requirement = (p: PerpExposure) =>
+      p.notionalUsd * (p.maintenanceMarginRatio ?? DEFAULT_MAINTENANCE_MARGIN_RATIO);
+    const totalRequirement = perps.reduce((sum, p) => sum + requirement(p), spotLiabilityRequirement(position));
+
+    for (const perp of perps) {
+      if (perp.size <= 0 || perp.markPrice <= 0) continue;
+
+      const ratio = perp.maintenanceMarginRatio ?? DEFAULT_MAINTENANCE_MARGIN_RATIO;
+      const otherRequirement = totalRequirement - requirement(perp);
+      // Long: C + s (P' - P) = R_other + s P' ratio; short mirrors the sign
+      const price = perp.side === 'long'
+        ? (otherRequirement - collateral + perp.size * perp.markPrice) / (perp.size * (1 - ratio))
+        : (collateral + perp.size * perp.markPrice - otherRequirement) / (perp.size * (1 + ratio));
+
+      perp.liquidationPrice = price > 0 ? price : 0;
+    }
+  }
+
+  private primaryAsset(position: Position, healthModel: HealthModel): string | null {
+    if (healthModel === 'maintenance-margin') {
+      const perp = (position.perpExposure || []).reduce<PerpExposure | undefined>(
+        (largest, p) => (!largest || p.notionalUsd > largest.notionalUsd ? p : largest),
+        undefined
+      );
+      return perp ? perp.symbol || `perp-${perp.marketIndex}` : null;
+    }
+
+    const collateral = position.collateral.reduce<Balance | undefined>(
+      (largest, c) => (!largest || c.valueUsd > largest.valueUsd ? c : largest),
+      undefined
+    );
+    return collateral ? collateral.mint.toBase58() : null;
+  }
+
+  private async getPrice(mint: string, position?: Position): Promise<number> {
+    const held = position
+      ? [...position.collateral, ...position.debt].find(b => b.mint.toBase58() === mint)
+      : undefined;
+    if (held) {
+      const price = this.balancePrice(held);
+      if (price > 0) return price;
+    }
+
+    const quote = await this.jupiter.getPrice(mint);
+    if (!quote || !(quote.price > 0)) {
+      throw new SimulationValidationError(`No price available for ${mint}`);
+    }
+    return quote.price;
+  }
+
+  private findBalance(balances: Balance[], mint: string): Balance | undefined {
+    return balances.find(b => b.mint.toBase58() === mint);
+  }
+
+  private balancePrice(balance: Balance): number {
+    return balance.priceUsd || (balance.amount > 0 ? balance.valueUsd / balance.amount : 0);
+  }
+
+  private adjustBalance(balances: Balance[], balance: Balance, delta: number, price: number, keepEmpty = false): void {
+    balance.amount += delta;
+    balance.valueUsd = balance.amount * price;
+    if (!keepEmpty && balance.amount <= DUST) {
+      balances.splice(balances.indexOf(balance), 1);
+    }
+  }
+
+  private clonePosition(position: Position): Position {
+    return {
+      ...position,
+      collateral: position.collateral.map(c => ({ ...c })),
+      debt: position.debt.map(d => ({ ...d })),
+      perpExposure: position.perpExposure?.map(p => ({ ...p })),
+      drift: position.drift ? { ...position.drift, funding: { ...position.drift.funding } } : undefined,
+    };
+  }
+}
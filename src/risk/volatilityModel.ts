@@ -0,0 +1,77 @@
+// GARCH(1,1) on per-candle log returns: σ²ₜ = ω + α·r²ₜ₋₁ + β·σ²ₜ₋₁
+export interface VolatilityModel {
+  alpha: number;
+  beta: number;
+  omega: number;
+  // ω / (1 - α - β), what the variance reverts to
+  longTermVariance: number;
+  // Returns divided by their conditional standard deviation
+  residuals: number[];
+  // Conditional variance for each return
+  fitted: number[];
+}
+
+const ALPHA_GRID = [0, 0.02, 0.04, 0.06, 0.08, 0.1, 0.12, 0.15, 0.2, 0.25, 0.3];
+const PERSISTENCE_GRID = [0.8, 0.85, 0.9, 0.93, 0.95, 0.97, 0.98, 0.99];
+// Keeps a flat series from collapsing the likelihood to -Infinity
+const MIN_VARIANCE = 1e-12;
+
+/**
+ * Maximum-likelihood GARCH(1,1) over a grid of α and persistence (α + β), with
+ * ω set by variance targeting so the long-run variance matches the sample. A
+ * grid is coarse but never diverges, and α = 0 falls back to constant variance
+ * when the returns show no clustering. Null with fewer than minObservations.
+ */
+export function fitGarch(returns: number[], minObservations = 30): VolatilityModel | null {
+  const clean = returns.filter(r => Number.isFinite(r));
+  if (clean.length < minObservations) return null;
+
+  const mean = clean.reduce((sum, r) => sum + r, 0) / clean.length;
+  const demeaned = clean.map(r => r - mean);
+  const sampleVariance = Math.max(
+    MIN_VARIANCE,
+    demeaned.reduce((sum, r) => sum + r * r, 0) / (demeaned.length - 1)
+  );
+
+  let best: { alpha: number; beta: number; logLikelihood: number } | null = null;
+  for (const alpha of ALPHA_GRID) {
+    for (const persistence of alpha === 0 ? [0] : PERSISTENCE_GRID) {
+      const beta = persistence - alpha;
+      if (beta < 0) continue;
+
+      const omega = sampleVariance * (1 - persistence);
+      let variance = sampleVariance;
+      let logLikelihood = 0;
+      for (const r of demeaned) {
+        logLikelihood -= 0.5 * (Math.log(variance) + (r * r) / variance);
+        variance = Math.max(MIN_VARIANCE, omega + alpha * r * r + beta * variance);
+      }
+
+      if (!best || logLikelihood > best.logLikelihood) {
+        best = { alpha, beta, logLikelihood };
+      }
+    }
+  }
+
+  const { alpha, beta } = best!;
+  const omega = sampleVariance * (1 - alpha - beta);
+  const fitted: number[] = [];
+  const residuals: number[] = [];
+  let variance = sampleVariance;
+  for (const r of demeaned) {
+    fitted.push(variance);
+    residuals.push(r / Math.sqrt(variance));
+    variance = Math.max(MIN_VARIANCE, omega + alpha * r * r + beta * variance);
+  }
+
+  return { alpha, beta, omega, longTermVariance: sampleVariance, residuals, fitted };
+}
+
+// One-step-ahead conditional variance after the last fitted return
+export function forecastVariance(model: VolatilityModel): number {
+  const last = model.fitted.length - 1;
+  if (last < 0) return model.longTermVariance;
+
+  const lastReturnSquared = Math.pow(model.residuals[last], 2) * model.fitted[last];
+  return Math.max(MIN_VARIANCE, model.omega + model.alpha * lastReturnSquared + model.beta * model.fitted[last]);
+}
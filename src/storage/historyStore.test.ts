@@ -0,0 +1,81 @@
+import { PublicKey } from "@solana/web3.js";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { Position } from "../monitor/positionMonitor";
+import { HistoryRecord, HistoryStore, deserializePosition, serializePosition } from "./historyStore";
+
+const SOL = new PublicKey("So11111111111111111111111111111111111111112");
+const USDC = new PublicKey("EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v");
+const DAY = 24 * 60 * 60 * 1000;
+const START = Date.UTC(2026, 0, 1, 23, 50);
+
+function position(id: string, healthFactor: number, timestamp: number): Position {
+  return {
+    id,
+    protocol: "marginfi",
+    owner: USDC,
+    collateral: [{ mint: SOL, amount: 10, valueUsd: 1500 }],
+    debt: [{ mint: USDC, amount: 1000, valueUsd: 1000 }],
+    healthFactor,
+    timestamp,
+    unpriced: [USDC],
+  };
+}
+
+describe("HistoryStore", () => {
+  let dir: string;
+  let store: HistoryStore;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "sentinel-history-"));
+    store = new HistoryStore(dir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("pages through a position's records across days without gaps or repeats", async () => {
+    // Two snapshots per minute share a timestamp, and the range crosses midnight
+    const records: HistoryRecord[] = [];
+    for (let i = 0; i < 20; i++) {
+      const timestamp = START + Math.floor(i / 2) * 60 * 1000;
+      for (const id of ["a", "b"]) {
+        records.push({
+          kind: "position",
+          positionId: id,
+          owner: USDC.toBase58(),
+          protocol: "marginfi",
+          timestamp,
+          data: serializePosition(position(id, 1 + i / 100, timestamp)),
+        });
+      }
+    }
+    await store.append(records);
+
+    const seen: number[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await store.query("a", { from: START, to: START + DAY, limit: 3, cursor });
+      expect(page.records.length).toBeLessThanOrEqual(3);
+      for (const record of page.records) {
+        expect(record.positionId).toBe("a");
+        seen.push((record.data as { healthFactor: number }).healthFactor);
+      }
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+
+    expect(seen).toEqual(Array.from({ length: 20 }, (_, i) => 1 + i / 100));
+  });
+
+  it("round-trips positions, including their unpriced mints", () => {
+    const restored = deserializePosition(
+      JSON.parse(JSON.stringify(serializePosition(position("a", 1.2, START))))
+    );
+
+    expect(restored.owner.equals(USDC)).toBe(true);
+    expect(restored.collateral[0].mint.equals(SOL)).toBe(true);
+    expect(restored.unpriced?.map((mint) => mint.toBase58())).toEqual([USDC.toBase58()]);
+  });
+});
@@ -0,0 +1,374 @@
+import { PublicKey } from "@solana/web3.js";
+import { promises as fs } from "fs";
+import path from "path";
+import {
+  Position,
+  PerpExposure,
+  DriftPositionDetails,
+} from "../monitor/positionMonitor";
+import { RiskScore, LiquidationPrediction } from "../risk/riskEngine";
+
+export type HistoryKind = "position" | "riskScore" | "prediction";
+
+export const HISTORY_KINDS: HistoryKind[] = ["position", "riskScore", "prediction"];
+
+export interface StoredPosition {
+  id: string;
+  protocol: Position["protocol"];
+  owner: string;
+  collateral: {
+    mint: string;
+    amount: number;
+    valueUsd: number;
+    priceUsd?: number;
+    liquidationWeight?: number;
+  }[];
+  debt: {
+    mint: string;
+    amount: number;
+    valueUsd: number;
+    priceUsd?: number;
+    liquidationWeight?: number;
+  }[];
+  healthFactor: number;
+  timestamp: number;
+  unpriced?: string[];
+  liquidationThreshold?: number;
+  perpExposure?: PerpExposure[];
+  drift?: DriftPositionDetails;
+}
+
+export interface HistoryRecord {
+  kind: HistoryKind;
+  positionId: string;
+  owner: string;
+  protocol: Position["protocol"];
+  timestamp: number;
+  data: StoredPosition | RiskScore | LiquidationPrediction;
+}
+
+export interface HistoryCycleEntry {
+  position: Position;
+  riskScore?: RiskScore;
+  prediction?: LiquidationPrediction;
+}
+
+export interface HistoryRetentionPolicy {
+  position: number;
+  riskScore: number;
+  prediction: number;
+}
+
+export interface HistoryQuery {
+  from?: number;
+  to?: number;
+  limit?: number;
+  cursor?: string;
+  kinds?: HistoryKind[];
+}
+
+export interface HistoryPage {
+  records: HistoryRecord[];
+  from: number;
+  to: number;
+  nextCursor: string | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 1000;
+
+export function serializePosition(position: Position): StoredPosition {
+  return {
+    ...position,
+    owner: position.owner.toBase58(),
+    collateral: position.collateral.map((c) => ({
+      ...c,
+      mint: c.mint.toBase58(),
+    })),
+    debt: position.debt.map((d) => ({
+      ...d,
+      mint: d.mint.toBase58(),
+    })),
+    unpriced: position.unpriced?.map((mint) => mint.toBase58()),
+  };
+}
+
+export function deserializePosition(stored: StoredPosition): Position {
+  return {
+    ...stored,
+    owner: new PublicKey(stored.owner),
+    collateral: stored.collateral.map((c) => ({
+      ...c,
+      mint: new PublicKey(c.mint),
+    })),
+    debt: stored.debt.map((d) => ({
+      ...d,
+      mint: new PublicKey(d.mint),
+    })),
+    unpriced: stored.unpriced?.map((mint) => new PublicKey(mint)),
+  };
+}
+
+export class HistoryStore {
+  private baseDir: string;
+  private retention: HistoryRetentionPolicy;
+  private retentionInterval: NodeJS.Timeout | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(baseDir: string, retention?: Partial<HistoryRetentionPolicy>) {
+    this.baseDir = baseDir;
+    this.retention = {
+      position: 30,
+      riskScore: 30,
+      prediction: 90,
+      ...retention,
+    };
+  }
+
+  async recordCycle(entries: HistoryCycleEntry[]): Promise<void> {
+    const records: HistoryRecord[] = [];
+
+    for (const { position, riskScore, prediction } of entries) {
+      const base = {
+        positionId: position.id,
+        owner: position.owner.toBase58(),
+        protocol: position.protocol,
+      };
+
+      records.push({
+        ...base,
+        kind: "position",
+        timestamp: position.timestamp,
+        data: serializePosition(position),
+      });
+      if (riskScore) {
+        records.push({
+          ...base,
+          kind: "riskScore",
+          timestamp: riskScore.timestamp,
+          data: riskScore,
+        });
+      }
+      if (prediction) {
+        records.push({
+          ...base,
+          kind: "prediction",
+          timestamp: riskScore?.timestamp ?? Date.now(),
+          data: prediction,
+        });
+      }
+    }
+
+    await this.append(records);
+  }
+
+  async append(records: HistoryRecord[]): Promise<void> {
+    if (records.length === 0) return;
+
+    const grouped = new Map<string, string[]>();
+    for (const record of records) {
+      const file = this.fileFor(record.kind, record.timestamp);
+      const lines = grouped.get(file) || [];
+      lines.push(JSON.stringify(record));
+      grouped.set(file, lines);
+    }
+
+    // Serialize writes so concurrent cycles never interleave partial lines
+    this.writeQueue = this.writeQueue.then(async () => {
+      for (const [file, lines] of grouped) {
+        try {
+          await fs.mkdir(path.dirname(file), { recursive: true });
+          await fs.appendFile(file, lines.join("\n") + "\n", "utf8");
+        } catch (error) {
+          console.error(`[HISTORY] Error writing ${file}:`, error);
+        }
+      }
+    });
+
+    return this.writeQueue;
+  }
+
+  async query(positionId: string, query: HistoryQuery = {}): Promise<HistoryPage> {
+    const to = query.to ?? Date.now();
+    let from = query.from ?? to - DAY_MS;
+    let skip = 0;
+
+    if (query.cursor) {
+      const [cursorTs, cursorSkip] = query.cursor.split("-").map(Number);
+      if (Number.isFinite(cursorTs) && cursorTs >= from) {
+        from = cursorTs;
+        skip = Number.isFinite(cursorSkip) ? cursorSkip : 0;
+      }
+    }
+
+    const limit = Math.min(Math.max(query.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT);
+    const kinds = query.kinds && query.kinds.length > 0 ? query.kinds : HISTORY_KINDS;
+
+    const matches: HistoryRecord[] = [];
+    for (const kind of kinds) {
+      for (const file of await this.filesInRange(kind, from, to)) {
+        for (const record of await this.readFile(file)) {
+          if (
+            record.positionId === positionId &&
+            record.timestamp >= from &&
+            record.timestamp <= to
+          ) {
+            matches.push(record);
+          }
+        }
+      }
+    }
+
+    matches.sort(
+      (a, b) =>
+        a.timestamp - b.timestamp ||
+        HISTORY_KINDS.indexOf(a.kind) - HISTORY_KINDS.indexOf(b.kind)
+    );
+
+    const page = matches.slice(skip, skip + limit);
+    let nextCursor: string | null = null;
+
+    if (skip + limit < matches.length && page.length > 0) {
+      const lastTimestamp = page[page.length - 1].timestamp;
+      const sameTimestamp = matches
+        .slice(0, skip + page.length)
+        .filter((r) => r.timestamp === lastTimestamp).length;
+      nextCursor = `${lastTimestamp}-${sameTimestamp}`;
+    }
+
+    return { records: page, from, to, nextCursor };
+  }
+
+  // Every record of the given kinds in range, across all positions, oldest first
+  async scan(
+    kinds: HistoryKind[],
+    from: number,
+    to: number
+  ): Promise<HistoryRecord[]> {
+    const records: HistoryRecord[] = [];
+    for (const kind of kinds) {
+      for (const file of await this.filesInRange(kind, from, to)) {
+        for (const record of await this.readFile(file)) {
+          if (record.timestamp >= from && record.timestamp <= to) {
+            records.push(record);
+          }
+        }
+      }
+    }
+
+    return records.sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  async prune(now: number = Date.now()): Promise<number> {
+    let removed = 0;
+
+    for (const kind of HISTORY_KINDS) {
+      const cutoffDay = this.dayKey(now - this.retention[kind] * DAY_MS);
+
+      for (const file of await this.listFiles(kind)) {
+        if (path.basename(file, ".jsonl") < cutoffDay) {
+          try {
+            await fs.unlink(file);
+            removed++;
+          } catch (error) {
+            console.error(`[HISTORY] Error pruning ${file}:`, error);
+          }
+        }
+      }
+    }
+
+    if (removed > 0) {
+      console.log(`[HISTORY] Pruned ${removed} expired history files`);
+    }
+
+    return removed;
+  }
+
+  startRetention(intervalMs: number = 60 * 60 * 1000): void {
+    this.stopRetention();
+    this.prune().catch((error) =>
+      console.error("[HISTORY] Retention sweep failed:", error)
+    );
+    this.retentionInterval = setInterval(() => {
+      this.prune().catch((error) =>
+        console.error("[HISTORY] Retention sweep failed:", error)
+      );
+    }, intervalMs);
+  }
+
+  stopRetention(): void {
+    if (this.retentionInterval) {
+      clearInterval(this.retentionInterval);
+      this.retentionInterval = null;
+    }
+  }
+
+  async flush(): Promise<void> {
+    await this.writeQueue;
+  }
+
+  getRetentionPolicy(): HistoryRetentionPolicy {
+    return { ...this.retention };
+  }
+
+  private fileFor(kind: HistoryKind, timestamp: number): string {
+    return path.join(this.baseDir, kind, `${this.dayKey(timestamp)}.jsonl`);
+  }
+
+  private dayKey(timestamp: number): string {
+    return new Date(timestamp).toISOString().slice(0, 10);
+  }
+
+  private async listFiles(kind: HistoryKind): Promise<string[]> {
+    const dir = path.join(this.baseDir, kind);
+    try {
+      const names = await fs.readdir(dir);
+      return names
+        .filter((name) => name.endsWith(".jsonl"))
+        .sort()
+        .map((name) => path.join(dir, name));
+    } catch (error: any) {
+      if (error?.code !== "ENOENT") {
+        console.error(`[HISTORY] Error listing ${dir}:`, error);
+      }
+      return [];
+    }
+  }
+
+  private async filesInRange(
+    kind: HistoryKind,
+    from: number,
+    to: number
+  ): Promise<string[]> {
+    const fromDay = this.dayKey(from);
+    const toDay = this.dayKey(to);
+
+    return (await this.listFiles(kind)).filter((file) => {
+      const day = path.basename(file, ".jsonl");
+      return day >= fromDay && day <= toDay;
+    });
+  }
+
+  private async readFile(file: string): Promise<HistoryRecord[]> {
+    try {
+      const raw = await fs.readFile(file, "utf8");
+      const records: HistoryRecord[] = [];
+
+      for (const line of raw.split("\n")) {
+        if (!line.trim()) continue;
+        try {
+          records.push(JSON.parse(line));
+        } catch {
+          // A crash mid-append can leave one truncated trailing line
+          console.warn(`[HISTORY] Skipping malformed line in ${file}`);
+        }
+      }
+
+      return records;
+    } catch (error) {
+      console.error(`[HISTORY] Error reading ${file}:`, error);
+      return [];
+    }
+  }
+}
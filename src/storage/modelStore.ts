@@ -0,0 +1,120 @@
+import { promises as fs } from "fs";
+import path from "path";
+import {
+  TrainedModel,
+  validateModel,
+} from "../risk/liquidationModel";
+
+export interface StoredModelInfo {
+  protocol: string;
+  version: number;
+  file: string;
+}
+
+// Protocol (or "default") to the version to serve instead of the latest
+export type ModelPins = Record<string, number>;
+
+const FILE_PATTERN = /^(.+)-v(\d+)\.json$/;
+
+/**
+ * Versioned model files, one per training run and protocol, named
+ * <protocol>-v<version>.json. Files are never overwritten, so rolling back
+ * is a matter of pinning an earlier version.
+ */
+export class ModelStore {
+  private baseDir: string;
+
+  constructor(baseDir: string) {
+    this.baseDir = baseDir;
+  }
+
+  async save(model: Omit<TrainedModel, "version">): Promise<TrainedModel> {
+    const existing = (await this.list()).filter(
+      (info) => info.protocol === model.protocol
+    );
+    const version = existing.reduce((max, info) => Math.max(max, info.version), 0) + 1;
+    const versioned: TrainedModel = { ...model, version };
+
+    const file = this.fileFor(model.protocol, version);
+    const tmpPath = `${file}.tmp`;
+    await fs.mkdir(this.baseDir, { recursive: true });
+    await fs.writeFile(tmpPath, JSON.stringify(versioned, null, 2), "utf8");
+    await fs.rename(tmpPath, file);
+
+    console.log(`[MODELS] Saved ${model.protocol} v${version} to ${file}`);
+    return versioned;
+  }
+
+  async list(): Promise<StoredModelInfo[]> {
+    try {
+      const names = await fs.readdir(this.baseDir);
+      return names
+        .map((name) => ({ name, match: FILE_PATTERN.exec(name) }))
+        .filter(({ match }) => match !== null)
+        .map(({ name, match }) => ({
+          protocol: match![1],
+          version: parseInt(match![2], 10),
+          file: path.join(this.baseDir, name),
+        }))
+        .sort((a, b) => a.protocol.localeCompare(b.protocol) || a.version - b.version);
+    } catch (error: any) {
+      if (error?.code !== "ENOENT") {
+        console.error(`[MODELS] Error listing ${this.baseDir}:`, error);
+      }
+      return [];
+    }
+  }
+
+  async load(protocol: string, version: number): Promise<TrainedModel> {
+    const raw = await fs.readFile(this.fileFor(protocol, version), "utf8");
+    const model = validateModel(JSON.parse(raw));
+    if (model.protocol !== protocol || model.version !== version) {
+      throw new Error(
+        `file holds ${model.protocol} v${model.version}, expected ${protocol} v${version}`
+      );
+    }
+    return model;
+  }
+
+  /**
+   * The model to serve for each protocol: the pinned version where one is
+   * given, otherwise the newest file that loads and validates. Invalid files
+   * are logged and skipped rather than failing startup.
+   */
+  async loadLatest(pins: ModelPins = {}): Promise<TrainedModel[]> {
+    const byProtocol = new Map<string, StoredModelInfo[]>();
+    for (const info of await this.list()) {
+      const versions = byProtocol.get(info.protocol) || [];
+      versions.push(info);
+      byProtocol.set(info.protocol, versions);
+    }
+
+    const models: TrainedModel[] = [];
+    for (const [protocol, versions] of byProtocol) {
+      const pinned = pins[protocol];
+      const candidates = pinned !== undefined
+        ? versions.filter((info) => info.version === pinned)
+        : [...versions].reverse();
+
+      if (candidates.length === 0) {
+        console.warn(`[MODELS] Pinned ${protocol} v${pinned} not found`);
+        continue;
+      }
+
+      for (const info of candidates) {
+        try {
+          models.push(await this.load(info.protocol, info.version));
+          break;
+        } catch (error) {
+          console.error(`[MODELS] Skipping ${info.file}:`, error);
+        }
+      }
+    }
+
+    return models;
+  }
+
+  private fileFor(protocol: string, version: number): string {
+    return path.join(this.baseDir, `${protocol}-v${version}.json`);
+  }
+}
@@ -0,0 +1,232 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+export type PriceSource = "jupiter" | "marginfi" | "drift" | "backfill";
+
+export interface PriceCandle {
+  mint: string;
+  openTime: number;
+  intervalMs: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  samples: number;
+  sources: PriceSource[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function isValidCandle(candle: PriceCandle): boolean {
+  return (
+    typeof candle.mint === "string" &&
+    candle.mint.length > 0 &&
+    Number.isFinite(candle.openTime) &&
+    [candle.open, candle.high, candle.low, candle.close].every(
+      (v) => Number.isFinite(v) && v > 0
+    ) &&
+    candle.high >= candle.low
+  );
+}
+
+export class PriceHistoryStore {
+  private baseDir: string;
+  private retentionDays: number;
+  private retentionInterval: NodeJS.Timeout | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(baseDir: string, retentionDays: number = 90) {
+    this.baseDir = baseDir;
+    this.retentionDays = retentionDays;
+  }
+
+  async append(candles: PriceCandle[]): Promise<void> {
+    if (candles.length === 0) return;
+
+    const grouped = new Map<string, string[]>();
+    for (const candle of candles) {
+      const file = this.fileFor(candle.openTime);
+      const lines = grouped.get(file) || [];
+      lines.push(JSON.stringify(candle));
+      grouped.set(file, lines);
+    }
+
+    this.writeQueue = this.writeQueue.then(async () => {
+      for (const [file, lines] of grouped) {
+        try {
+          await fs.mkdir(path.dirname(file), { recursive: true });
+          await fs.appendFile(file, lines.join("\n") + "\n", "utf8");
+        } catch (error) {
+          console.error(`[PRICES] Error writing ${file}:`, error);
+        }
+      }
+    });
+
+    return this.writeQueue;
+  }
+
+  async load(from: number, to: number = Date.now()): Promise<PriceCandle[]> {
+    const fromDay = this.dayKey(from);
+    const toDay = this.dayKey(to);
+    const candles: PriceCandle[] = [];
+
+    for (const file of await this.listFiles()) {
+      const day = path.basename(file, ".jsonl");
+      if (day < fromDay || day > toDay) continue;
+
+      for (const candle of await this.readCandles(file)) {
+        if (candle.openTime >= from && candle.openTime <= to) {
+          candles.push(candle);
+        }
+      }
+    }
+
+    return candles.sort((a, b) => a.openTime - b.openTime);
+  }
+
+  /**
+   * Reads a backfill export: either a JSON array or JSONL, one candle per entry.
+   * Entries may carry a single `price` instead of OHLC and `timestamp` instead
+   * of `openTime`.
+   */
+  async readBackfillFile(filePath: string): Promise<PriceCandle[]> {
+    const raw = await fs.readFile(filePath, "utf8");
+    const trimmed = raw.trim();
+    let entries: any[];
+
+    if (trimmed.startsWith("[")) {
+      entries = JSON.parse(trimmed);
+    } else {
+      entries = [];
+      for (const line of trimmed.split("\n")) {
+        if (!line.trim()) continue;
+        try {
+          entries.push(JSON.parse(line));
+        } catch {
+          console.warn(`[PRICES] Skipping malformed backfill line in ${filePath}`);
+        }
+      }
+    }
+
+    const candles: PriceCandle[] = [];
+    let skipped = 0;
+
+    for (const entry of entries) {
+      const price = Number(entry.price ?? entry.close);
+      const candle: PriceCandle = {
+        mint: entry.mint,
+        openTime: Number(entry.openTime ?? entry.timestamp),
+        intervalMs: Number(entry.intervalMs) || 0,
+        open: Number(entry.open ?? price),
+        high: Number(entry.high ?? price),
+        low: Number(entry.low ?? price),
+        close: price,
+        volume: Number(entry.volume) || 0,
+        samples: Number(entry.samples) || 1,
+        sources: ["backfill"],
+      };
+
+      if (isValidCandle(candle)) {
+        candles.push(candle);
+      } else {
+        skipped++;
+      }
+    }
+
+    if (skipped > 0) {
+      console.warn(`[PRICES] Skipped ${skipped} invalid backfill entries in ${filePath}`);
+    }
+
+    return candles.sort((a, b) => a.openTime - b.openTime);
+  }
+
+  async prune(now: number = Date.now()): Promise<number> {
+    const cutoffDay = this.dayKey(now - this.retentionDays * DAY_MS);
+    let removed = 0;
+
+    for (const file of await this.listFiles()) {
+      if (path.basename(file, ".jsonl") < cutoffDay) {
+        try {
+          await fs.unlink(file);
+          removed++;
+        } catch (error) {
+          console.error(`[PRICES] Error pruning ${file}:`, error);
+        }
+      }
+    }
+
+    if (removed > 0) {
+      console.log(`[PRICES] Pruned ${removed} expired candle files`);
+    }
+
+    return removed;
+  }
+
+  startRetention(intervalMs: number = 60 * 60 * 1000): void {
+    this.stopRetention();
+    this.prune().catch((error) =>
+      console.error("[PRICES] Retention sweep failed:", error)
+    );
+    this.retentionInterval = setInterval(() => {
+      this.prune().catch((error) =>
+        console.error("[PRICES] Retention sweep failed:", error)
+      );
+    }, intervalMs);
+  }
+
+  stopRetention(): void {
+    if (this.retentionInterval) {
+      clearInterval(this.retentionInterval);
+      this.retentionInterval = null;
+    }
+  }
+
+  async flush(): Promise<void> {
+    await this.writeQueue;
+  }
+
+  private fileFor(timestamp: number): string {
+    return path.join(this.baseDir, `${this.dayKey(timestamp)}.jsonl`);
+  }
+
+  private dayKey(timestamp: number): string {
+    return new Date(timestamp).toISOString().slice(0, 10);
+  }
+
+  private async listFiles(): Promise<string[]> {
+    try {
+      const names = await fs.readdir(this.baseDir);
+      return names
+        .filter((name) => name.endsWith(".jsonl"))
+        .sort()
+        .map((name) => path.join(this.baseDir, name));
+    } catch (error: any) {
+      if (error?.code !== "ENOENT") {
+        console.error(`[PRICES] Error listing ${this.baseDir}:`, error);
+      }
+      return [];
+    }
+  }
+
+  private async readCandles(file: string): Promise<PriceCandle[]> {
+    try {
+      const raw = await fs.readFile(file, "utf8");
+      const candles: PriceCandle[] = [];
+
+      for (const line of raw.split("\n")) {
+        if (!line.trim()) continue;
+        try {
+          candles.push(JSON.parse(line));
+        } catch {
+          console.warn(`[PRICES] Skipping malformed line in ${file}`);
+        }
+      }
+
+      return candles;
+    } catch (error) {
+      console.error(`[PRICES] Error reading ${file}:`, error);
+      return [];
+    }
+  }
+}
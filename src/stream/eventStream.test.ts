@@ -0,0 +1,88 @@
+import { PublicKey } from "@solana/web3.js";
+import http from "http";
+import { AddressInfo } from "net";
+import WebSocket from "ws";
+import { Alert } from "../alerts/alertSystem";
+import { Position } from "../monitor/positionMonitor";
+import { RiskScore } from "../risk/riskEngine";
+import { EventStream } from "./eventStream";
+
+const OWNER = new PublicKey("So11111111111111111111111111111111111111112");
+const OTHER = new PublicKey("EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v");
+
+function position(id: string, owner: PublicKey): Position {
+  return { id, protocol: "marginfi", owner, collateral: [], debt: [], healthFactor: 1.2, timestamp: Date.now() };
+}
+
+function alert(positionId: string): Alert {
+  return {
+    id: `alert-${positionId}`,
+    type: "warning",
+    positionId,
+    protocol: "marginfi",
+    message: "Health factor low",
+    data: {},
+    timestamp: Date.now(),
+  };
+}
+
+describe("EventStream", () => {
+  let server: http.Server;
+  let stream: EventStream;
+  let url: string;
+
+  beforeEach(async () => {
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+    server = http.createServer();
+    stream = new EventStream();
+    stream.attach(server);
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    url = `ws://127.0.0.1:${(server.address() as AddressInfo).port}/stream`;
+  });
+
+  afterEach(async () => {
+    await stream.close();
+    await new Promise((resolve) => server.close(resolve));
+    jest.restoreAllMocks();
+  });
+
+  it("delivers only the subscribed owner's events of the requested types", async () => {
+    const client = new WebSocket(`${url}?owner=${OWNER.toBase58()}&events=alert,risk`);
+    const received: any[] = [];
+    client.on("message", (data) => received.push(JSON.parse(data.toString())));
+    await new Promise((resolve) => client.once("message", resolve));
+
+    stream.publishPositionChange({ position: position("mine", OWNER), changeType: "created", timestamp: Date.now() });
+    stream.publishRiskScore(position("theirs", OTHER), { positionId: "theirs", timestamp: Date.now() } as RiskScore);
+    // The alert carries no owner; the stream knows it from the position event
+    stream.publishAlert(alert("mine"));
+    stream.publishAlert(alert("theirs"));
+    client.send(JSON.stringify({ action: "ping" }));
+    await new Promise<void>((resolve) => client.on("message", (data) => {
+      if (JSON.parse(data.toString()).type === "pong") resolve();
+    }));
+    client.close();
+
+    expect(received.map((m) => [m.type, m.positionId])).toEqual([
+      ["subscribed", undefined],
+      ["alert", "mine"],
+      ["pong", undefined],
+    ]);
+    expect(received[0]).toMatchObject({ topics: [`owner:${OWNER.toBase58()}`], events: ["alert", "risk"] });
+    expect(received[1].owner).toBe(OWNER.toBase58());
+  });
+
+  it("reports malformed subscriptions back to the client", async () => {
+    const client = new WebSocket(url);
+    await new Promise((resolve) => client.once("message", resolve));
+
+    client.send(JSON.stringify({ action: "subscribe", topics: ["owner:nope"] }));
+    const reply = await new Promise<string>((resolve) => client.once("message", (data) => resolve(data.toString())));
+    client.close();
+
+    expect(JSON.parse(reply)).toMatchObject({
+      type: "error",
+      message: "Invalid topics: owner:nope (expected all, owner:<address> or position:<id>)",
+    });
+  });
+});
@@ -0,0 +1,333 @@
+import http from "http";
+import { URL } from "url";
+import WebSocket, { WebSocketServer } from "ws";
+import { Alert } from "../alerts/alertSystem";
+import { Position, PositionChange } from "../monitor/positionMonitor";
+import { LiquidationPrediction, RiskScore } from "../risk/riskEngine";
+
+export type StreamEventType = "position" | "risk" | "prediction" | "alert";
+
+export const STREAM_EVENT_TYPES: StreamEventType[] = [
+  "position",
+  "risk",
+  "prediction",
+  "alert",
+];
+
+export interface StreamEvent {
+  type: StreamEventType;
+  positionId?: string;
+  owner?: string;
+  data: any;
+  timestamp: number;
+}
+
+/**
+ * Messages accepted from clients. Topics are "all", "owner:<address>" or
+ * "position:<id>"; events narrows delivery to the listed event types.
+ */
+export interface StreamClientMessage {
+  action: "subscribe" | "unsubscribe" | "ping";
+  topics?: string[];
+  events?: StreamEventType[];
+}
+
+export interface EventStreamOptions {
+  path?: string;
+  heartbeatIntervalMs?: number;
+}
+
+interface StreamClient {
+  socket: WebSocket;
+  topics: Set<string>;
+  events: Set<StreamEventType>;
+  isAlive: boolean;
+}
+
+const TOPIC_PATTERN = /^(all|owner:[1-9A-HJ-NP-Za-km-z]{32,44}|position:.+)$/;
+
+export class EventStream {
+  private wss: WebSocketServer | null = null;
+  private clients: Set<StreamClient> = new Set();
+  private positionOwners: Map<string, string> = new Map();
+  private heartbeatInterval: NodeJS.Timeout | null = null;
+  private path: string;
+  private heartbeatIntervalMs: number;
+
+  constructor(options: EventStreamOptions = {}) {
+    this.path = options.path || "/stream";
+    this.heartbeatIntervalMs = options.heartbeatIntervalMs || 30000;
+  }
+
+  attach(server: http.Server): void {
+    this.wss = new WebSocketServer({ server, path: this.path });
+
+    this.wss.on("connection", (socket: WebSocket, req: http.IncomingMessage) =>
+      this.handleConnection(socket, req)
+    );
+    this.wss.on("error", (error) => {
+      console.error("[STREAM] Server error:", error);
+    });
+
+    this.heartbeatInterval = setInterval(() => {
+      for (const client of this.clients) {
+        if (!client.isAlive) {
+          client.socket.terminate();
+          continue;
+        }
+        client.isAlive = false;
+        client.socket.ping();
+      }
+    }, this.heartbeatIntervalMs);
+
+    console.log(`[STREAM] WebSocket stream listening on ${this.path}`);
+  }
+
+  async close(): Promise<void> {
+    if (this.heartbeatInterval) {
+      clearInterval(this.heartbeatInterval);
+      this.heartbeatInterval = null;
+    }
+
+    for (const client of this.clients) {
+      client.socket.close(1001, "Server shutting down");
+    }
+    this.clients.clear();
+
+    if (this.wss) {
+      await new Promise<void>((resolve) => this.wss!.close(() => resolve()));
+      this.wss = null;
+    }
+  }
+
+  getClientCount(): number {
+    return this.clients.size;
+  }
+
+  publishPositionChange(change: PositionChange): void {
+    const owner = change.position.owner.toBase58();
+    if (change.changeType === "deleted") {
+      this.positionOwners.delete(change.position.id);
+    } else {
+      this.positionOwners.set(change.position.id, owner);
+    }
+
+    this.publish({
+      type: "position",
+      positionId: change.position.id,
+      owner,
+      data: change,
+      timestamp: change.timestamp,
+    });
+  }
+
+  publishRiskScore(position: Position, riskScore: RiskScore): void {
+    const owner = this.trackOwner(position);
+    this.publish({
+      type: "risk",
+      positionId: position.id,
+      owner,
+      data: riskScore,
+      timestamp: riskScore.timestamp,
+    });
+  }
+
+  publishPrediction(
+    position: Position,
+    prediction: LiquidationPrediction
+  ): void {
+    const owner = this.trackOwner(position);
+    this.publish({
+      type: "prediction",
+      positionId: position.id,
+      owner,
+      data: prediction,
+      timestamp: Date.now(),
+    });
+  }
+
+  publishAlert(alert: Alert): void {
+    this.publish({
+      type: "alert",
+      positionId: alert.positionId || undefined,
+      owner:
+        alert.owner ??
+        (alert.positionId
+          ? this.positionOwners.get(alert.positionId)
+          : undefined),
+      data: alert,
+      timestamp: alert.timestamp,
+    });
+  }
+
+  private trackOwner(position: Position): string {
+    const owner = position.owner.toBase58();
+    this.positionOwners.set(position.id, owner);
+    return owner;
+  }
+
+  private publish(event: StreamEvent): void {
+    if (this.clients.size === 0) return;
+
+    let payload: string | null = null;
+    for (const client of this.clients) {
+      if (!this.matches(client, event)) continue;
+      if (client.socket.readyState !== WebSocket.OPEN) continue;
+
+      payload = payload ?? JSON.stringify(event);
+      client.socket.send(payload, (error) => {
+        if (error) {
+          console.error("[STREAM] Error sending event:", error.message);
+        }
+      });
+    }
+  }
+
+  private matches(client: StreamClient, event: StreamEvent): boolean {
+    if (!client.events.has(event.type)) return false;
+    if (client.topics.has("all")) return true;
+    if (event.owner && client.topics.has(`owner:${event.owner}`)) return true;
+    if (event.positionId && client.topics.has(`position:${event.positionId}`))
+      return true;
+    return false;
+  }
+
+  private handleConnection(
+    socket: WebSocket,
+    req: http.IncomingMessage
+  ): void {
+    const client: StreamClient = {
+      socket,
+      topics: new Set(),
+      events: new Set(STREAM_EVENT_TYPES),
+      isAlive: true,
+    };
+    this.clients.add(client);
+
+    // Allow subscribing straight from the URL: /stream?owner=...&position=...&events=risk,alert
+    const url = new URL(req.url || this.path, "http://localhost");
+    const initialTopics = [
+      ...url.searchParams.getAll("owner").map((o) => `owner:${o}`),
+      ...url.searchParams.getAll("position").map((p) => `position:${p}`),
+      ...(url.searchParams.get("all") === "true" ? ["all"] : []),
+    ];
+    const initialEvents = url.searchParams.get("events");
+
+    try {
+      this.subscribe(
+        client,
+        initialTopics,
+        initialEvents
+          ? (initialEvents.split(",") as StreamEventType[])
+          : undefined
+      );
+    } catch (error) {
+      this.sendError(client, error);
+    }
+
+    console.log(
+      `[STREAM] Client connected (${this.clients.size} total)`
+    );
+
+    socket.on("pong", () => {
+      client.isAlive = true;
+    });
+
+    socket.on("message", (data: WebSocket.Data) => {
+      try {
+        const message = JSON.parse(data.toString()) as StreamClientMessage;
+        this.handleMessage(client, message);
+      } catch (error) {
+        this.sendError(client, error);
+      }
+    });
+
+    socket.on("close", () => {
+      this.clients.delete(client);
+      console.log(
+        `[STREAM] Client disconnected (${this.clients.size} remaining)`
+      );
+    });
+
+    socket.on("error", (error: Error) => {
+      console.error("[STREAM] Client error:", error.message);
+    });
+  }
+
+  private handleMessage(client: StreamClient, message: StreamClientMessage): void {
+    switch (message.action) {
+      case "subscribe":
+        this.subscribe(client, message.topics || [], message.events);
+        break;
+      case "unsubscribe":
+        for (const topic of message.topics || []) {
+          client.topics.delete(topic);
+        }
+        this.sendStatus(client);
+        break;
+      case "ping":
+        client.socket.send(
+          JSON.stringify({ type: "pong", timestamp: Date.now() })
+        );
+        break;
+      default:
+        throw new Error(
+          `Unknown action: ${(message as any).action} (expected subscribe, unsubscribe or ping)`
+        );
+    }
+  }
+
+  private subscribe(
+    client: StreamClient,
+    topics: string[],
+    events?: StreamEventType[]
+  ): void {
+    if (!Array.isArray(topics)) {
+      throw new Error("topics must be an array");
+    }
+
+    const invalid = topics.filter((t) => !TOPIC_PATTERN.test(t));
+    if (invalid.length > 0) {
+      throw new Error(
+        `Invalid topics: ${invalid.join(", ")} (expected all, owner:<address> or position:<id>)`
+      );
+    }
+
+    if (events) {
+      const unknown = events.filter((e) => !STREAM_EVENT_TYPES.includes(e));
+      if (unknown.length > 0) {
+        throw new Error(
+          `Unknown events: ${unknown.join(", ")} (expected ${STREAM_EVENT_TYPES.join(", ")})`
+        );
+      }
+      client.events = new Set(events);
+    }
+
+    for (const topic of topics) {
+      client.topics.add(topic);
+    }
+
+    this.sendStatus(client);
+  }
+
+  private sendStatus(client: StreamClient): void {
+    client.socket.send(
+      JSON.stringify({
+        type: "subscribed",
+        topics: Array.from(client.topics),
+        events: Array.from(client.events),
+        timestamp: Date.now(),
+      })
+    );
+  }
+
+  private sendError(client: StreamClient, error: unknown): void {
+    client.socket.send(
+      JSON.stringify({
+        type: "error",
+        message: error instanceof Error ? error.message : "Invalid message",
+        timestamp: Date.now(),
+      })
+    );
+  }
+}
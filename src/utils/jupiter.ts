@@ -1,4 +1,5 @@
 import axios from 'axios';
+import { PublicKey, TransactionInstruction } from '@solana/web3.js';
 
 const JUPITER_PRICE_API = 'https://price.jup.ag/v4';
 const JUPITER_QUOTE_API = 'https://quote-api.jup.ag/v6';
@@ -107,6 +108,32 @@ export interface SwapRouteOptimization {
 }
 
 // Common Solana token mints
+export interface SwapInstructions {
+  computeBudgetInstructions: TransactionInstruction[];
+  setupInstructions: TransactionInstruction[];
+  swapInstruction: TransactionInstruction;
+  cleanupInstructions: TransactionInstruction[];
+  addressLookupTableAddresses: PublicKey[];
+}
+
+interface JupiterInstruction {
+  programId: string;
+  accounts: { pubkey: string; isSigner: boolean; isWritable: boolean }[];
+  data: string;
+}
+
+function toInstruction(instruction: JupiterInstruction): TransactionInstruction {
+  return new TransactionInstruction({
+    programId: new PublicKey(instruction.programId),
+    keys: instruction.accounts.map(account => ({
+      pubkey: new PublicKey(account.pubkey),
+      isSigner: account.isSigner,
+      isWritable: account.isWritable,
+    })),
+    data: Buffer.from(instruction.data, 'base64'),
+  });
+}
+
 export const TOKENS = {
   SOL: 'So11111111111111111111111111111111111111112',
   USDC: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
@@ -117,6 +144,18 @@ export const TOKENS = {
   BONK: 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263',
 };
 
+// Resolves a ticker or market symbol ("SOL", "SOL-PERP") to its mint
+export function mintForSymbol(symbol: string): string | null {
+  const base = symbol.trim().split('-')[0].toUpperCase();
+  const match = Object.entries(TOKENS).find(([name]) => name.toUpperCase() === base);
+  return match ? match[1] : null;
+}
+
+export function symbolForMint(mint: string): string | null {
+  const match = Object.entries(TOKENS).find(([, address]) => address === mint);
+  return match ? match[0] : null;
+}
+
 export class JupiterPriceFeed {
   private cache: Map<string, { price: TokenPrice; timestamp: number }> = new Map();
   private routeCache: Map<string, { routes: SwapQuote[]; timestamp: number }> = new Map();
@@ -210,6 +249,54 @@ export class JupiterPriceFeed {
     }
   }
 
+  // Serialized (base64) versioned transaction executing the quote for userPublicKey
+  async getSwapTransaction(quote: SwapQuote, userPublicKey: string): Promise<string | null> {
+    try {
+      const response = await axios.post(`${JUPITER_QUOTE_API}/swap`, {
+        quoteResponse: quote,
+        userPublicKey,
+        wrapAndUnwrapSol: true,
+        dynamicComputeUnitLimit: true
+      });
+
+      return response.data.swapTransaction as string;
+    } catch (error) {
+      console.error(`[JUPITER] Error building swap transaction:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * The quote's swap as loose instructions, so callers can place it between
+   * their own instructions in a single transaction. The swap spends tokens
+   * already in (or arriving earlier in the transaction to) userPublicKey's
+   * token accounts.
+   */
+  async getSwapInstructions(quote: SwapQuote, userPublicKey: string): Promise<SwapInstructions | null> {
+    try {
+      const response = await axios.post(`${JUPITER_QUOTE_API}/swap-instructions`, {
+        quoteResponse: quote,
+        userPublicKey,
+        wrapAndUnwrapSol: true,
+        dynamicComputeUnitLimit: true
+      });
+
+      const data = response.data;
+      return {
+        computeBudgetInstructions: (data.computeBudgetInstructions || []).map(toInstruction),
+        setupInstructions: (data.setupInstructions || []).map(toInstruction),
+        swapInstruction: toInstruction(data.swapInstruction),
+        cleanupInstructions: data.cleanupInstruction ? [toInstruction(data.cleanupInstruction)] : [],
+        addressLookupTableAddresses: (data.addressLookupTableAddresses || []).map(
+          (address: string) => new PublicKey(address)
+        ),
+      };
+    } catch (error) {
+      console.error(`[JUPITER] Error building swap instructions:`, error);
+      return null;
+    }
+  }
+
   async getMultipleSwapQuotes(
     inputMint: string,
     outputMint: string,
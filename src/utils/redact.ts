@@ -0,0 +1,38 @@
+const REDACTED = '***';
+
+// Query parameters that carry credentials, e.g. Helius' ?api-key=
+const SECRET_PARAM = /key|token|secret|password|auth|signature/i;
+const URL_IN_TEXT = /\b[a-z][a-z0-9+.-]*:\/\/[^\s"'<>]+/gi;
+
+/**
+ * The URL with credentials masked: secret query parameters, the password in
+ * user info, and the tokens Discord and Telegram embed in webhook paths.
+ * Anything that doesn't parse as a URL is masked entirely.
+ */
+export function redactUrl(value: string): string {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return REDACTED;
+  }
+
+  if (url.password) url.password = REDACTED;
+  for (const name of Array.from(url.searchParams.keys())) {
+    if (SECRET_PARAM.test(name)) url.searchParams.set(name, REDACTED);
+  }
+  url.pathname = url.pathname
+    .replace(/(\/api\/webhooks\/[^/]+\/)[^/]+/, `$1${REDACTED}`)
+    .replace(/\/bot[^/]+/, `/bot${REDACTED}`);
+
+  return url.toString();
+}
+
+// Masks every URL in free text such as error messages before they are logged
+export function redactSecrets(text: string): string {
+  return text.replace(URL_IN_TEXT, match => redactUrl(match));
+}
+
+export function redactError(error: unknown): string {
+  return redactSecrets(error instanceof Error ? `${error.name}: ${error.message}` : String(error));
+}
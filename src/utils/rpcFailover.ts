@@ -0,0 +1,39 @@
+import { redactError, redactUrl } from './redact';
+
+/**
+ * A fetch for Connection that sends each RPC request to the first endpoint not
+ * known to be down, in the order given. Network errors, rate limits and 5xx
+ * responses mark an endpoint down for cooldownMs and move on to the next; once
+ * every endpoint has failed, the last error or response is returned.
+ */
+export function createFailoverFetch(endpoints: string[], cooldownMs: number = 30000): typeof fetch {
+  const downUntil = new Map<string, number>();
+
+  return async (_input, init) => {
+    const now = Date.now();
+    const isUp = (endpoint: string) => (downUntil.get(endpoint) ?? 0) <= now;
+    const ordered = [...endpoints.filter(isUp), ...endpoints.filter(e => !isUp(e))];
+
+    let lastError: unknown;
+    for (const [index, endpoint] of ordered.entries()) {
+      const isLast = index === ordered.length - 1;
+      try {
+        const response = await fetch(endpoint, init);
+        if (response.status !== 429 && response.status < 500) {
+          downUntil.delete(endpoint);
+          return response;
+        }
+        if (isLast) return response;
+        lastError = new Error(`HTTP ${response.status}`);
+      } catch (error) {
+        if (isLast) throw error;
+        lastError = error;
+      }
+
+      downUntil.set(endpoint, Date.now() + cooldownMs);
+      console.warn(`[RPC] ${redactUrl(endpoint)} failed (${redactError(lastError)}); trying the next endpoint`);
+    }
+
+    throw lastError;
+  };
+}
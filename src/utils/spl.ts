@@ -0,0 +1,49 @@
+import { Connection, PublicKey, SystemProgram, TransactionInstruction } from '@solana/web3.js';
+
+export const TOKEN_PROGRAM_ID = new PublicKey('TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA');
+export const ASSOCIATED_TOKEN_PROGRAM_ID = new PublicKey('ATokenGPvbd2UJJb6eQzj3hPnJxnb4DqTHgypLPJ6wr');
+
+// Mint decimals never change, so they are cached for the life of the process
+const mintDecimals: Map<string, number> = new Map();
+
+export function getAssociatedTokenAddress(owner: PublicKey, mint: PublicKey): PublicKey {
+  const [address] = PublicKey.findProgramAddressSync(
+    [owner.toBuffer(), TOKEN_PROGRAM_ID.toBuffer(), mint.toBuffer()],
+    ASSOCIATED_TOKEN_PROGRAM_ID
+  );
+  return address;
+}
+
+// No-op when the account already exists, so it is safe to prepend to any withdraw
+export function createAssociatedTokenAccountIdempotentInstruction(
+  payer: PublicKey,
+  owner: PublicKey,
+  mint: PublicKey
+): TransactionInstruction {
+  return new TransactionInstruction({
+    programId: ASSOCIATED_TOKEN_PROGRAM_ID,
+    keys: [
+      { pubkey: payer, isSigner: true, isWritable: true },
+      { pubkey: getAssociatedTokenAddress(owner, mint), isSigner: false, isWritable: true },
+      { pubkey: owner, isSigner: false, isWritable: false },
+      { pubkey: mint, isSigner: false, isWritable: false },
+      { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+      { pubkey: TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },
+    ],
+    data: Buffer.from([1]),
+  });
+}
+
+// UI amount -> native u64 little-endian, rounded down so we never over-request
+export function toNativeAmount(amount: number, decimals: number): bigint {
+  return BigInt(Math.floor(amount * Math.pow(10, decimals)));
+}
+
+export async function getMintDecimals(connection: Connection, mint: string): Promise<number> {
+  const cached = mintDecimals.get(mint);
+  if (cached !== undefined) return cached;
+
+  const supply = await connection.getTokenSupply(new PublicKey(mint));
+  mintDecimals.set(mint, supply.value.decimals);
+  return supply.value.decimals;
+}
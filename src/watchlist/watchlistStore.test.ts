@@ -0,0 +1,54 @@
+import { Keypair } from "@solana/web3.js";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { WatchlistStore, WatchlistValidationError } from "./watchlistStore";
+
+describe("WatchlistStore", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "sentinel-watchlist-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("persists every one of many concurrent writes", async () => {
+    const filePath = path.join(dir, "watchlist.json");
+    const store = new WatchlistStore(filePath);
+    const addresses = Array.from({ length: 20 }, () =>
+      Keypair.generate().publicKey.toBase58()
+    );
+
+    await Promise.all(
+      addresses.map((address, i) => store.upsert({ address, label: `wallet ${i}` }))
+    );
+
+    const reloaded = await new WatchlistStore(filePath).load();
+    expect(reloaded.map((e) => e.address).sort()).toEqual(
+      store.list().map((e) => e.address).sort()
+    );
+    expect(reloaded).toHaveLength(20);
+  });
+
+  it("leaves the watchlist unchanged when the write fails", async () => {
+    // A file where the watchlist's directory should be makes every write fail
+    await fs.writeFile(path.join(dir, "blocked"), "");
+    const store = new WatchlistStore(path.join(dir, "blocked", "watchlist.json"));
+    const address = Keypair.generate().publicKey.toBase58();
+
+    await expect(store.upsert({ address })).rejects.toThrow();
+    expect(store.get(address)).toBeUndefined();
+    expect(store.list()).toEqual([]);
+  });
+
+  it("rejects addresses that are not public keys", async () => {
+    const store = new WatchlistStore(path.join(dir, "watchlist.json"));
+
+    await expect(store.upsert({ address: "not-a-key" })).rejects.toBeInstanceOf(
+      WatchlistValidationError
+    );
+  });
+});
@@ -0,0 +1,225 @@
+import { PublicKey } from "@solana/web3.js";
+import { promises as fs } from "fs";
+import path from "path";
+import { Position } from "../monitor/positionMonitor";
+
+export type WatchlistProtocol = Position["protocol"];
+
+export const DEFAULT_PROTOCOLS: WatchlistProtocol[] = [
+  "marginfi",
+  "kamino",
+  "drift",
+];
+
+export interface WatchlistEntry {
+  address: string;
+  label?: string;
+  team?: string;
+  protocols: WatchlistProtocol[];
+  addedAt: number;
+  updatedAt: number;
+}
+
+export interface WatchlistInput {
+  address: string;
+  label?: string;
+  team?: string;
+  protocols?: string[];
+}
+
+export class WatchlistValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WatchlistValidationError";
+  }
+}
+
+export function isValidPublicKey(address: string): boolean {
+  if (typeof address !== "string" || address.length < 32 || address.length > 44) {
+    return false;
+  }
+
+  try {
+    return new PublicKey(address).toBase58() === address;
+  } catch {
+    return false;
+  }
+}
+
+function sortedEntries(entries: Map<string, WatchlistEntry>): WatchlistEntry[] {
+  return Array.from(entries.values()).sort((a, b) => a.addedAt - b.addedAt);
+}
+
+export class WatchlistStore {
+  private filePath: string;
+  private entries: Map<string, WatchlistEntry> = new Map();
+  private writeQueue: Promise<void> = Promise.resolve();
+  private supportedProtocols: () => WatchlistProtocol[];
+
+  constructor(
+    filePath: string,
+    supportedProtocols: () => WatchlistProtocol[] = () => DEFAULT_PROTOCOLS
+  ) {
+    this.filePath = filePath;
+    this.supportedProtocols = supportedProtocols;
+  }
+
+  async load(): Promise<WatchlistEntry[]> {
+    try {
+      const raw = await fs.readFile(this.filePath, "utf8");
+      const parsed = JSON.parse(raw);
+      const stored: WatchlistEntry[] = Array.isArray(parsed.entries)
+        ? parsed.entries
+        : [];
+
+      this.entries.clear();
+      for (const entry of stored) {
+        if (!isValidPublicKey(entry.address)) {
+          console.warn(
+            `[WATCHLIST] Skipping invalid stored address: ${entry.address}`
+          );
+          continue;
+        }
+        this.entries.set(entry.address, {
+          ...entry,
+          protocols: this.normalizeProtocols(entry.protocols),
+        });
+      }
+
+      console.log(
+        `[WATCHLIST] Loaded ${this.entries.size} addresses from ${this.filePath}`
+      );
+    } catch (error: any) {
+      if (error?.code === "ENOENT") {
+        console.log(
+          `[WATCHLIST] No watchlist at ${this.filePath}, starting empty`
+        );
+      } else {
+        console.error("[WATCHLIST] Error loading watchlist:", error);
+      }
+    }
+
+    return this.list();
+  }
+
+  list(): WatchlistEntry[] {
+    return sortedEntries(this.entries);
+  }
+
+  get(address: string): WatchlistEntry | undefined {
+    return this.entries.get(address);
+  }
+
+  async upsert(
+    input: WatchlistInput
+  ): Promise<{ entry: WatchlistEntry; created: boolean }> {
+    const address = typeof input.address === "string" ? input.address.trim() : "";
+    if (!isValidPublicKey(address)) {
+      throw new WatchlistValidationError(
+        `Invalid address: ${input.address} is not a base58 public key`
+      );
+    }
+
+    if (input.label !== undefined && typeof input.label !== "string") {
+      throw new WatchlistValidationError("label must be a string");
+    }
+    if (input.team !== undefined && typeof input.team !== "string") {
+      throw new WatchlistValidationError("team must be a string");
+    }
+
+    const protocols = this.validateProtocols(input.protocols);
+
+    return this.update((entries) => {
+      const existing = entries.get(address);
+      const now = Date.now();
+
+      const entry: WatchlistEntry = {
+        address,
+        label: input.label ?? existing?.label,
+        team: input.team ?? existing?.team,
+        protocols: protocols ?? existing?.protocols ?? [...this.supportedProtocols()],
+        addedAt: existing?.addedAt ?? now,
+        updatedAt: now,
+      };
+
+      entries.set(address, entry);
+      return { entry, created: !existing };
+    });
+  }
+
+  async remove(address: string): Promise<boolean> {
+    if (!this.entries.has(address)) {
+      return false;
+    }
+
+    return this.update((entries) => entries.delete(address));
+  }
+
+  // Applies one change at a time to a copy of the entries, which replaces
+  // them only once the file holding it has been written
+  private update<T>(change: (entries: Map<string, WatchlistEntry>) => T): Promise<T> {
+    const result = this.writeQueue.then(async () => {
+      const next = new Map(this.entries);
+      const value = change(next);
+      await this.persist(next);
+      this.entries = next;
+      return value;
+    });
+
+    this.writeQueue = result.then(
+      () => undefined,
+      () => undefined
+    );
+    return result;
+  }
+
+  private validateProtocols(
+    protocols: string[] | undefined
+  ): WatchlistProtocol[] | undefined {
+    if (protocols === undefined) return undefined;
+
+    if (!Array.isArray(protocols) || protocols.length === 0) {
+      throw new WatchlistValidationError(
+        "protocols must be a non-empty array"
+      );
+    }
+
+    const supported = this.supportedProtocols();
+    const unknown = protocols.filter((p) => !supported.includes(p));
+    if (unknown.length > 0) {
+      throw new WatchlistValidationError(
+        `Unsupported protocols: ${unknown.join(", ")} (expected one of ${supported.join(", ")})`
+      );
+    }
+
+    return this.normalizeProtocols(protocols);
+  }
+
+  // Stored entries may name adapters that are not registered in this process;
+  // keep them so a later restart with the plugin loaded picks them back up
+  private normalizeProtocols(protocols: string[] | undefined): WatchlistProtocol[] {
+    if (!Array.isArray(protocols) || protocols.length === 0) {
+      return [...this.supportedProtocols()];
+    }
+
+    return Array.from(
+      new Set(protocols.filter((p) => typeof p === "string" && p.length > 0))
+    );
+  }
+
+  private async persist(entries: Map<string, WatchlistEntry>): Promise<void> {
+    const payload = JSON.stringify(
+      {
+        version: 1,
+        entries: sortedEntries(entries),
+      },
+      null,
+      2
+    );
+    const tmpPath = `${this.filePath}.tmp`;
+
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(tmpPath, payload, "utf8");
+    await fs.rename(tmpPath, this.filePath);
+  }
+}